@@ -0,0 +1,249 @@
+-- KASHPOS v2.0 Role Policy Tests
+-- Run this SQL in your Supabase SQL Editor AFTER schema-update-v10-role-policies.sql
+-- (and again after any later update that changes policies or permissions)
+--
+-- Every check runs as the "anon" database role (what the app's anon key uses)
+-- with the session header of an anonymous visitor, a cashier, a manager or an owner.
+-- Cashiers and managers have the default permissions from schema-update-v11-permissions.sql.
+-- Each statement is undone right after it runs, and the whole script rolls
+-- back at the end, so no test data is left behind.
+--
+-- The last query lists every check; the script raises an error if any failed.
+
+BEGIN;
+
+-- ============================================
+-- 1. TEST ACCOUNTS AND FIXTURES
+-- ============================================
+
+INSERT INTO users (username, display_name, password_hash, role) VALUES
+  ('rls_test_owner', 'RLS Test Owner', crypt('rls-test-owner', gen_salt('bf')), 'owner'),
+  ('rls_test_manager', 'RLS Test Manager', crypt('rls-test-manager', gen_salt('bf')), 'manager'),
+  ('rls_test_cashier', 'RLS Test Cashier', crypt('rls-test-cashier', gen_salt('bf')), 'cashier');
+
+CREATE TEMP TABLE rls_test_tokens ON COMMIT DROP AS
+SELECT 'owner' AS who, login_user('rls_test_owner', 'rls-test-owner')->>'token' AS token
+UNION ALL
+SELECT 'manager', login_user('rls_test_manager', 'rls-test-manager')->>'token'
+UNION ALL
+SELECT 'cashier', login_user('rls_test_cashier', 'rls-test-cashier')->>'token';
+
+CREATE TEMP TABLE rls_test_fixtures ON COMMIT DROP AS
+SELECT
+  uuid_generate_v4() AS ingredient_id,
+  uuid_generate_v4() AS finished_product_id,
+  uuid_generate_v4() AS sale_id,
+  uuid_generate_v4() AS transaction_id;
+
+-- The checks below run as anon and look up fixture ids here
+GRANT SELECT ON rls_test_fixtures TO anon;
+
+INSERT INTO products (id, name, unit_type, qty, cost, selling_price)
+SELECT ingredient_id, 'RLS Test Rice', 'weight', 10, 0.05, 0 FROM rls_test_fixtures;
+
+INSERT INTO finished_products (id, name, selling_price)
+SELECT finished_product_id, 'RLS Test Meal', 50 FROM rls_test_fixtures;
+
+INSERT INTO product_ingredients (product_id, item_id, qty)
+SELECT finished_product_id, ingredient_id, 200 FROM rls_test_fixtures;
+
+INSERT INTO sales (
+  id, product_id, product_name, qty, unit_type, cost, selling_price, total,
+  payment_method, customer_type, transaction_id, transaction_number, customer_payment
+)
+SELECT sale_id, finished_product_id, 'RLS Test Meal', 1, 'quantity', 10, 50, 50,
+  'Cash', 'Regular', transaction_id, 'RLS-TEST-00001', 50
+FROM rls_test_fixtures;
+
+INSERT INTO opex (name, monthly_cost) VALUES ('RLS Test Rent', 1000);
+INSERT INTO opex_settings (target_monthly_sales) VALUES (100000);
+
+-- ============================================
+-- 2. TEST HELPER
+-- ============================================
+-- Runs p_sql as the anon role for p_who ('anonymous', 'cashier', 'manager' or 'owner').
+-- A statement counts as allowed when it raises no error and touches at least
+-- one row; RLS hides rows silently, so "0 rows" means denied too.
+
+CREATE TEMP TABLE rls_test_results (
+  id SERIAL PRIMARY KEY,
+  who TEXT,
+  description TEXT,
+  expected TEXT,
+  actual TEXT,
+  detail TEXT
+) ON COMMIT DROP;
+
+CREATE FUNCTION pg_temp.rls_expect(p_who TEXT, p_expected TEXT, p_description TEXT, p_sql TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_rows INTEGER := 0;
+  v_actual TEXT;
+  v_detail TEXT;
+BEGIN
+  PERFORM set_config('request.headers', json_build_object(
+    'x-session-token', (SELECT token FROM rls_test_tokens WHERE who = p_who)
+  )::text, true);
+
+  BEGIN
+    PERFORM set_config('role', 'anon', true);
+    EXECUTE p_sql;
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    -- Undo whatever the statement changed
+    RAISE EXCEPTION 'rls_test_undo';
+  EXCEPTION WHEN OTHERS THEN
+    IF SQLERRM = 'rls_test_undo' THEN
+      v_actual := CASE WHEN v_rows > 0 THEN 'allowed' ELSE 'denied' END;
+      v_detail := v_rows || ' row(s)';
+    ELSE
+      v_actual := 'denied';
+      v_detail := SQLERRM;
+    END IF;
+  END;
+
+  PERFORM set_config('role', 'none', true);
+
+  INSERT INTO rls_test_results (who, description, expected, actual, detail)
+  VALUES (p_who, p_description, p_expected, v_actual, v_detail);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 3. CHECKS
+-- ============================================
+
+-- Signed-out requests see and change nothing
+SELECT pg_temp.rls_expect('anonymous', 'denied', 'read products', 'SELECT * FROM products');
+SELECT pg_temp.rls_expect('anonymous', 'denied', 'read payment methods', 'SELECT * FROM payment_methods');
+SELECT pg_temp.rls_expect('anonymous', 'denied', 'insert a sale',
+  $sql$INSERT INTO sales (product_id, product_name, qty, unit_type, cost, selling_price, total, payment_method, customer_type)
+       SELECT finished_product_id, 'RLS Test Meal', 1, 'quantity', 10, 50, 50, 'Cash', 'Regular' FROM rls_test_fixtures$sql$);
+SELECT pg_temp.rls_expect('anonymous', 'denied', 'check out',
+  $sql$SELECT process_checkout(jsonb_build_array(jsonb_build_object('product_id', finished_product_id, 'qty', 1)), 'Cash', 'Regular', NULL, 50)
+       FROM rls_test_fixtures$sql$);
+
+-- Cashiers read the catalog
+SELECT pg_temp.rls_expect('cashier', 'allowed', 'read products', 'SELECT * FROM products');
+SELECT pg_temp.rls_expect('cashier', 'allowed', 'read finished products', 'SELECT * FROM finished_products');
+SELECT pg_temp.rls_expect('cashier', 'allowed', 'read product ingredients', 'SELECT * FROM product_ingredients');
+SELECT pg_temp.rls_expect('cashier', 'allowed', 'read payment methods', 'SELECT * FROM payment_methods');
+SELECT pg_temp.rls_expect('cashier', 'allowed', 'read customer types', 'SELECT * FROM customer_types');
+SELECT pg_temp.rls_expect('cashier', 'allowed', 'read settings', 'SELECT * FROM settings');
+
+-- Cashiers record sales
+SELECT pg_temp.rls_expect('cashier', 'allowed', 'insert a sale',
+  $sql$INSERT INTO sales (product_id, product_name, qty, unit_type, cost, selling_price, total, payment_method, customer_type)
+       SELECT finished_product_id, 'RLS Test Meal', 1, 'quantity', 10, 50, 50, 'Cash', 'Regular' FROM rls_test_fixtures$sql$);
+SELECT pg_temp.rls_expect('cashier', 'allowed', 'check out',
+  $sql$SELECT process_checkout(jsonb_build_array(jsonb_build_object('product_id', finished_product_id, 'qty', 1)), 'Cash', 'Regular', NULL, 50)
+       FROM rls_test_fixtures$sql$);
+SELECT pg_temp.rls_expect('cashier', 'allowed', 'cancel a recent sale',
+  'SELECT cancel_recent_transaction(transaction_id) FROM rls_test_fixtures');
+
+-- Cashiers cannot touch past sales
+SELECT pg_temp.rls_expect('cashier', 'denied', 'read sales', 'SELECT * FROM sales');
+SELECT pg_temp.rls_expect('cashier', 'denied', 'update a sale',
+  'UPDATE sales SET total = 0 WHERE id = (SELECT sale_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('cashier', 'denied', 'delete a sale',
+  'DELETE FROM sales WHERE id = (SELECT sale_id FROM rls_test_fixtures)');
+
+-- Cashiers cannot edit inventory, recipes or configuration
+SELECT pg_temp.rls_expect('cashier', 'denied', 'update inventory',
+  'UPDATE products SET qty = 999 WHERE id = (SELECT ingredient_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('cashier', 'denied', 'add inventory',
+  $sql$INSERT INTO products (name, unit_type, qty, cost, selling_price) VALUES ('RLS Test Sugar', 'weight', 1, 0.1, 0)$sql$);
+SELECT pg_temp.rls_expect('cashier', 'denied', 'delete inventory',
+  'DELETE FROM products WHERE id = (SELECT ingredient_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('cashier', 'denied', 'update a finished product price',
+  'UPDATE finished_products SET selling_price = 1 WHERE id = (SELECT finished_product_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('cashier', 'denied', 'delete a recipe ingredient',
+  'DELETE FROM product_ingredients WHERE product_id = (SELECT finished_product_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('cashier', 'denied', 'add a payment method',
+  $sql$INSERT INTO payment_methods (name, color) VALUES ('RLS Test Pay', '#000000')$sql$);
+SELECT pg_temp.rls_expect('cashier', 'denied', 'add a customer type',
+  $sql$INSERT INTO customer_types (name, color) VALUES ('RLS Test Type', '#000000')$sql$);
+SELECT pg_temp.rls_expect('cashier', 'denied', 'update settings',
+  'UPDATE settings SET value = value');
+
+-- Cashiers cannot see or change OPEX
+SELECT pg_temp.rls_expect('cashier', 'denied', 'read OPEX', 'SELECT * FROM opex');
+SELECT pg_temp.rls_expect('cashier', 'denied', 'add OPEX',
+  $sql$INSERT INTO opex (name, monthly_cost) VALUES ('RLS Test Power', 1)$sql$);
+SELECT pg_temp.rls_expect('cashier', 'denied', 'read OPEX settings', 'SELECT * FROM opex_settings');
+SELECT pg_temp.rls_expect('cashier', 'denied', 'update OPEX settings',
+  'UPDATE opex_settings SET target_monthly_sales = 0');
+
+-- Nobody reads accounts or counters directly
+SELECT pg_temp.rls_expect('cashier', 'denied', 'read users', 'SELECT * FROM users');
+SELECT pg_temp.rls_expect('owner', 'denied', 'read users', 'SELECT * FROM users');
+SELECT pg_temp.rls_expect('owner', 'denied', 'read user sessions', 'SELECT * FROM user_sessions');
+SELECT pg_temp.rls_expect('cashier', 'denied', 'bump a transaction counter',
+  $sql$INSERT INTO transaction_number_sequences (branch_code, period_key, last_value) VALUES ('', 'RLS', 1)$sql$);
+
+-- Managers supervise sales and stock but see no earnings or configuration
+SELECT pg_temp.rls_expect('manager', 'allowed', 'read sales', 'SELECT * FROM sales');
+SELECT pg_temp.rls_expect('manager', 'allowed', 'edit a report date',
+  'UPDATE sales SET earnings_datetime = NOW() - INTERVAL ''1 day'' WHERE id = (SELECT sale_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('manager', 'allowed', 'edit a payment method',
+  $sql$UPDATE sales SET payment_method = 'Card' WHERE id = (SELECT sale_id FROM rls_test_fixtures)$sql$);
+SELECT pg_temp.rls_expect('manager', 'allowed', 'void a sale',
+  'UPDATE sales SET cancelled = true, cancelled_at = NOW() WHERE id = (SELECT sale_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('manager', 'denied', 'change a sale total',
+  'UPDATE sales SET total = 0 WHERE id = (SELECT sale_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('manager', 'denied', 'archive a sale',
+  'DELETE FROM sales WHERE id = (SELECT sale_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('manager', 'allowed', 'update inventory',
+  'UPDATE products SET qty = 999 WHERE id = (SELECT ingredient_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('manager', 'denied', 'read OPEX', 'SELECT * FROM opex');
+SELECT pg_temp.rls_expect('manager', 'denied', 'update settings', 'UPDATE settings SET value = value');
+SELECT pg_temp.rls_expect('manager', 'denied', 'grant itself a permission',
+  $sql$INSERT INTO role_permissions (role, permission) VALUES ('manager', 'view_earnings')$sql$);
+
+-- Owners manage everything
+SELECT pg_temp.rls_expect('owner', 'allowed', 'read sales', 'SELECT * FROM sales');
+SELECT pg_temp.rls_expect('owner', 'allowed', 'update a sale',
+  'UPDATE sales SET total = total WHERE id = (SELECT sale_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('owner', 'allowed', 'delete a sale',
+  'DELETE FROM sales WHERE id = (SELECT sale_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('owner', 'allowed', 'update inventory',
+  'UPDATE products SET qty = 999 WHERE id = (SELECT ingredient_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('owner', 'allowed', 'add inventory',
+  $sql$INSERT INTO products (name, unit_type, qty, cost, selling_price) VALUES ('RLS Test Sugar', 'weight', 1, 0.1, 0)$sql$);
+SELECT pg_temp.rls_expect('owner', 'allowed', 'update a finished product price',
+  'UPDATE finished_products SET selling_price = 1 WHERE id = (SELECT finished_product_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('owner', 'allowed', 'add a payment method',
+  $sql$INSERT INTO payment_methods (name, color) VALUES ('RLS Test Pay', '#000000')$sql$);
+SELECT pg_temp.rls_expect('owner', 'allowed', 'update settings',
+  'UPDATE settings SET value = value');
+SELECT pg_temp.rls_expect('owner', 'allowed', 'read OPEX', 'SELECT * FROM opex');
+SELECT pg_temp.rls_expect('owner', 'allowed', 'add OPEX',
+  $sql$INSERT INTO opex (name, monthly_cost) VALUES ('RLS Test Power', 1)$sql$);
+SELECT pg_temp.rls_expect('owner', 'allowed', 'update OPEX settings',
+  'UPDATE opex_settings SET target_monthly_sales = target_monthly_sales');
+SELECT pg_temp.rls_expect('owner', 'allowed', 'change a sale total',
+  'UPDATE sales SET total = 0 WHERE id = (SELECT sale_id FROM rls_test_fixtures)');
+SELECT pg_temp.rls_expect('owner', 'allowed', 'grant a permission',
+  $sql$INSERT INTO role_permissions (role, permission) VALUES ('manager', 'view_earnings')$sql$);
+
+-- ============================================
+-- 4. RESULTS
+-- ============================================
+
+SELECT
+  CASE WHEN expected = actual THEN 'PASS' ELSE 'FAIL' END AS result,
+  who, description, expected, actual, detail
+FROM rls_test_results
+ORDER BY id;
+
+DO $$
+DECLARE
+  v_failed INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_failed FROM rls_test_results WHERE expected <> actual;
+  IF v_failed > 0 THEN
+    RAISE EXCEPTION '% role policy check(s) failed - see the results above', v_failed;
+  END IF;
+  RAISE NOTICE 'All % role policy checks passed', (SELECT COUNT(*) FROM rls_test_results);
+END $$;
+
+ROLLBACK;
@@ -0,0 +1,303 @@
+-- KASHPOS v2.0 Database Schema Update v10
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v9-user-accounts.sql
+--
+-- This update replaces the "Allow all operations" policies with role-aware
+-- policies based on the signed-in user (see current_app_role() in v9):
+-- 1. Signed-in cashiers may read products, recipes, payment methods,
+--    customer types and settings, and insert sales
+-- 2. Only owners may read, update or delete sales, edit inventory, recipes,
+--    OPEX and settings
+-- 3. Requests without a valid session token get nothing
+-- 4. process_checkout() checks for a signed-in user and runs with the
+--    function owner's rights, so cashiers can deduct stock only through checkout
+-- 5. cancel_recent_sale() lets any signed-in user cancel a sale within the
+--    cancel window shown in the notification bar
+--
+-- Run schema-tests-v10-role-policies.sql afterwards to check every policy.
+
+-- ============================================
+-- 1. ROLE HELPERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION is_signed_in()
+RETURNS BOOLEAN AS $$
+  SELECT current_app_user_id() IS NOT NULL;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION is_owner()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(current_app_role() = 'owner', false);
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- 2. DROP THE OPEN POLICIES
+-- ============================================
+
+DROP POLICY IF EXISTS "Allow all operations on products" ON products;
+DROP POLICY IF EXISTS "Allow all operations on finished_products" ON finished_products;
+DROP POLICY IF EXISTS "Allow all operations on product_ingredients" ON product_ingredients;
+DROP POLICY IF EXISTS "Allow all operations on sales" ON sales;
+DROP POLICY IF EXISTS "Allow all operations on payment_methods" ON payment_methods;
+DROP POLICY IF EXISTS "Allow all operations on customer_types" ON customer_types;
+DROP POLICY IF EXISTS "Allow all operations on settings" ON settings;
+DROP POLICY IF EXISTS "Allow all operations on opex" ON opex;
+DROP POLICY IF EXISTS "Allow all operations on opex_settings" ON opex_settings;
+DROP POLICY IF EXISTS "Allow all operations on transaction_number_sequences" ON transaction_number_sequences;
+
+-- ============================================
+-- 3. CATALOG TABLES: EVERYONE READS, OWNERS WRITE
+-- ============================================
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'products', 'finished_products', 'product_ingredients',
+    'payment_methods', 'customer_types', 'settings'
+  ]
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Signed-in users can read %1$s" ON %1$I', v_table);
+    EXECUTE format('CREATE POLICY "Signed-in users can read %1$s" ON %1$I FOR SELECT USING (is_signed_in())', v_table);
+
+    EXECUTE format('DROP POLICY IF EXISTS "Owners can manage %1$s" ON %1$I', v_table);
+    EXECUTE format('CREATE POLICY "Owners can manage %1$s" ON %1$I FOR ALL USING (is_owner()) WITH CHECK (is_owner())', v_table);
+  END LOOP;
+END $$;
+
+-- ============================================
+-- 4. SALES: CASHIERS INSERT, OWNERS MANAGE
+-- ============================================
+
+DROP POLICY IF EXISTS "Signed-in users can insert sales" ON sales;
+CREATE POLICY "Signed-in users can insert sales" ON sales
+  FOR INSERT WITH CHECK (is_signed_in());
+
+DROP POLICY IF EXISTS "Owners can manage sales" ON sales;
+CREATE POLICY "Owners can manage sales" ON sales
+  FOR ALL USING (is_owner()) WITH CHECK (is_owner());
+
+-- ============================================
+-- 5. OWNER-ONLY TABLES
+-- ============================================
+
+DROP POLICY IF EXISTS "Owners can manage opex" ON opex;
+CREATE POLICY "Owners can manage opex" ON opex
+  FOR ALL USING (is_owner()) WITH CHECK (is_owner());
+
+DROP POLICY IF EXISTS "Owners can manage opex_settings" ON opex_settings;
+CREATE POLICY "Owners can manage opex_settings" ON opex_settings
+  FOR ALL USING (is_owner()) WITH CHECK (is_owner());
+
+-- Checkout reserves numbers through process_checkout(); nobody writes here directly
+DROP POLICY IF EXISTS "Owners can read transaction_number_sequences" ON transaction_number_sequences;
+CREATE POLICY "Owners can read transaction_number_sequences" ON transaction_number_sequences
+  FOR SELECT USING (is_owner());
+
+-- ============================================
+-- 6. CHECKOUT RUNS WITH THE FUNCTION OWNER'S RIGHTS
+-- ============================================
+-- Cashiers cannot update products directly, so checkout has to bypass RLS.
+-- It only ever deducts the ingredients of the cart it was given.
+
+CREATE OR REPLACE FUNCTION process_checkout(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_customer_type TEXT,
+  p_dine_in_takeout TEXT,
+  p_customer_payment DECIMAL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_id UUID := uuid_generate_v4();
+  v_transaction_number TEXT;
+  v_unknown_product UUID;
+  v_cart_total DECIMAL;
+  v_out_of_stock JSONB;
+  v_item RECORD;
+  v_sale JSONB;
+  v_sales JSONB := '[]'::JSONB;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to record sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    WHERE c.product_id IS NULL OR c.qty IS NULL OR c.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every cart item needs a product and a positive quantity';
+  END IF;
+
+  SELECT c.product_id INTO v_unknown_product
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  LEFT JOIN finished_products fp ON fp.id = c.product_id
+  WHERE fp.id IS NULL
+  LIMIT 1;
+
+  IF v_unknown_product IS NOT NULL THEN
+    RAISE EXCEPTION 'Product % not found', v_unknown_product;
+  END IF;
+
+  SELECT SUM(c.qty * fp.selling_price) INTO v_cart_total
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  JOIN finished_products fp ON fp.id = c.product_id;
+
+  IF COALESCE(p_customer_payment, 0) < v_cart_total THEN
+    RAISE EXCEPTION 'Payment of % does not cover the total of %', COALESCE(p_customer_payment, 0), v_cart_total;
+  END IF;
+
+  -- Lock every inventory row this cart touches (in id order to avoid deadlocks)
+  -- so concurrent checkouts wait for each other instead of overwriting stock
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Compare ingredient demand with the current (locked) stock
+  WITH demand AS (
+    SELECT pi.item_id, SUM(pi.qty * c.qty) AS required
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    GROUP BY pi.item_id
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'item_name', p.name,
+    'unit_type', p.unit_type,
+    'required', d.required,
+    'available', to_ingredient_unit(p.unit_type, p.qty)
+  ) ORDER BY p.name)
+  INTO v_out_of_stock
+  FROM demand d
+  JOIN products p ON p.id = d.item_id
+  WHERE to_ingredient_unit(p.unit_type, p.qty) < d.required;
+
+  IF v_out_of_stock IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'out_of_stock',
+      'out_of_stock', v_out_of_stock
+    );
+  END IF;
+
+  -- Reserve the next transaction number; the counter row stays locked until
+  -- this transaction commits, and a rolled back checkout releases its number
+  v_transaction_number := next_transaction_number();
+
+  -- Insert one sale line per cart item, in cart order
+  -- (cost is ingredient cost only, no OPEX per unit)
+  FOR v_item IN
+    SELECT (e.item->>'product_id')::UUID AS product_id, (e.item->>'qty')::INTEGER AS qty
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position)
+    ORDER BY e.position
+  LOOP
+    INSERT INTO sales (
+      transaction_id, transaction_number, product_id, product_name, qty, unit_type,
+      cost, selling_price, total, payment_method, customer_type, dine_in_takeout,
+      customer_payment
+    )
+    SELECT
+      v_transaction_id, v_transaction_number, fp.id, fp.name, v_item.qty, 'quantity',
+      COALESCE((
+        SELECT SUM(pi.qty * p.cost)
+        FROM product_ingredients pi
+        JOIN products p ON p.id = pi.item_id
+        WHERE pi.product_id = fp.id
+      ), 0),
+      fp.selling_price, v_item.qty * fp.selling_price,
+      p_payment_method, p_customer_type, p_dine_in_takeout, p_customer_payment
+    FROM finished_products fp
+    WHERE fp.id = v_item.product_id
+    RETURNING to_jsonb(sales.*) INTO v_sale;
+
+    v_sales := v_sales || jsonb_build_array(v_sale);
+  END LOOP;
+
+  -- Deduct ingredients relative to the current stock
+  WITH demand AS (
+    SELECT pi.item_id, SUM(pi.qty * c.qty) AS required
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    GROUP BY pi.item_id
+  )
+  UPDATE products p
+  SET qty = p.qty - to_storage_unit(p.unit_type, d.required)
+  FROM demand d
+  WHERE p.id = d.item_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'transaction_number', v_transaction_number,
+    'sales', v_sales
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 7. CANCEL A RECENT SALE
+-- ============================================
+-- Cashiers cannot update sales, so the notification bar's cancel button goes
+-- through this function. It only accepts sales younger than the cancel window
+-- (30 seconds in the app, plus a little slack for slow connections).
+
+CREATE OR REPLACE FUNCTION cancel_recent_sale(p_sale_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_sale sales;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to cancel sales' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF v_sale.id IS NULL THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id;
+  END IF;
+
+  IF v_sale.cancelled THEN
+    RAISE EXCEPTION 'Sale has already been cancelled';
+  END IF;
+
+  IF v_sale.created_at < NOW() - INTERVAL '1 minute' AND NOT is_owner() THEN
+    RAISE EXCEPTION 'Sale cannot be cancelled - time expired' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE sales
+  SET cancelled = true, cancelled_at = NOW()
+  WHERE id = p_sale_id;
+
+  -- Put back the ingredients this sale line used
+  UPDATE products p
+  SET qty = p.qty + to_storage_unit(p.unit_type, pi.qty * v_sale.qty)
+  FROM product_ingredients pi
+  WHERE pi.product_id = v_sale.product_id
+    AND p.id = pi.item_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v10 completed - role-aware policies added!' as status;
+
+SELECT tablename, policyname, cmd
+FROM pg_policies
+WHERE schemaname = 'public'
+ORDER BY tablename, policyname;
@@ -0,0 +1,290 @@
+-- KASHPOS v2.0 Database Schema Update v11
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v10-role-policies.sql
+--
+-- This update adds:
+-- 1. A manager role next to owner and cashier
+-- 2. permissions - the list of things a role can be allowed to do
+-- 3. role_permissions - which permissions each role has (owners have all)
+-- 4. has_permission() and the signed-in user's permissions in get_session_user()
+-- 5. Row-level security policies based on permissions instead of owner/cashier
+-- 6. A trigger that checks which sale columns an update touches, so e.g.
+--    "edit report date" cannot be used to change a sale's payment method
+
+-- ============================================
+-- 1. MANAGER ROLE
+-- ============================================
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check
+  CHECK (role IN ('owner', 'manager', 'cashier'));
+
+-- ============================================
+-- 2. CREATE PERMISSIONS TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS permissions (
+  key TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO permissions (key, label, description, sort_order) VALUES
+  ('view_reports', 'View reports', 'Open the Reports page and see sales records', 1),
+  ('view_earnings', 'View earnings', 'Open the Earnings page (revenue, costs and profit)', 2),
+  ('edit_report_date', 'Edit report date', 'Move a sale to another report date', 3),
+  ('edit_sale_details', 'Edit sale details', 'Change the payment method, customer type or order type of a sale', 4),
+  ('archive_sales', 'Archive sales', 'Download and delete sales from Reports', 5),
+  ('void_sales', 'Void sales', 'Cancel sales after the cancel window has passed', 6),
+  ('adjust_inventory', 'Adjust inventory', 'Add, edit and delete ingredients, products and recipes', 7),
+  ('manage_opex', 'Manage OPEX', 'Add, edit and delete operating expenses', 8),
+  ('manage_settings', 'Manage settings', 'Change payment methods, customer types and transaction numbers', 9)
+ON CONFLICT (key) DO UPDATE
+  SET label = EXCLUDED.label,
+      description = EXCLUDED.description,
+      sort_order = EXCLUDED.sort_order;
+
+ALTER TABLE permissions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 3. CREATE ROLE PERMISSIONS TABLE
+-- ============================================
+-- Owners are not listed here: they always have every permission
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role TEXT NOT NULL CHECK (role IN ('manager', 'cashier')),
+  permission TEXT NOT NULL REFERENCES permissions(key) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+-- Managers start with day-to-day supervision; cashiers start with nothing extra
+INSERT INTO role_permissions (role, permission) VALUES
+  ('manager', 'view_reports'),
+  ('manager', 'edit_report_date'),
+  ('manager', 'edit_sale_details'),
+  ('manager', 'void_sales'),
+  ('manager', 'adjust_inventory')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- ============================================
+-- 4. PERMISSION HELPERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION role_permission_keys(p_role TEXT)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(p.key ORDER BY p.sort_order), '{}')
+  FROM permissions p
+  WHERE p_role = 'owner'
+     OR EXISTS (SELECT 1 FROM role_permissions rp WHERE rp.role = p_role AND rp.permission = p.key);
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION has_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(p_permission = ANY(role_permission_keys(current_app_role())), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- The app reads permissions from the session user
+CREATE OR REPLACE FUNCTION user_to_json(p_user users)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'id', p_user.id,
+    'username', p_user.username,
+    'display_name', p_user.display_name,
+    'role', p_user.role,
+    'permissions', to_jsonb(role_permission_keys(p_user.role))
+  );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- 5. PERMISSION-BASED POLICIES
+-- ============================================
+
+DROP POLICY IF EXISTS "Owners can manage products" ON products;
+DROP POLICY IF EXISTS "Owners can manage finished_products" ON finished_products;
+DROP POLICY IF EXISTS "Owners can manage product_ingredients" ON product_ingredients;
+DROP POLICY IF EXISTS "Owners can manage payment_methods" ON payment_methods;
+DROP POLICY IF EXISTS "Owners can manage customer_types" ON customer_types;
+DROP POLICY IF EXISTS "Owners can manage settings" ON settings;
+DROP POLICY IF EXISTS "Owners can manage sales" ON sales;
+DROP POLICY IF EXISTS "Owners can manage opex" ON opex;
+DROP POLICY IF EXISTS "Owners can manage opex_settings" ON opex_settings;
+DROP POLICY IF EXISTS "Owners can read transaction_number_sequences" ON transaction_number_sequences;
+
+-- Inventory, products and recipes
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['products', 'finished_products', 'product_ingredients']
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Inventory editors can manage %1$s" ON %1$I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Inventory editors can manage %1$s" ON %1$I FOR ALL '
+      'USING (has_permission(''adjust_inventory'')) WITH CHECK (has_permission(''adjust_inventory''))',
+      v_table
+    );
+  END LOOP;
+
+  FOREACH v_table IN ARRAY ARRAY['payment_methods', 'customer_types', 'settings']
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Settings editors can manage %1$s" ON %1$I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Settings editors can manage %1$s" ON %1$I FOR ALL '
+      'USING (has_permission(''manage_settings'')) WITH CHECK (has_permission(''manage_settings''))',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- Sales (inserting stays open to every signed-in user, see v10)
+DROP POLICY IF EXISTS "Report viewers can read sales" ON sales;
+CREATE POLICY "Report viewers can read sales" ON sales
+  FOR SELECT USING (has_permission('view_reports') OR has_permission('view_earnings'));
+
+DROP POLICY IF EXISTS "Sale editors can update sales" ON sales;
+CREATE POLICY "Sale editors can update sales" ON sales
+  FOR UPDATE USING (
+    has_permission('edit_report_date') OR has_permission('edit_sale_details') OR has_permission('void_sales')
+  );
+
+DROP POLICY IF EXISTS "Archivers can delete sales" ON sales;
+CREATE POLICY "Archivers can delete sales" ON sales
+  FOR DELETE USING (has_permission('archive_sales'));
+
+-- OPEX (Earnings reads it to compute profit)
+DROP POLICY IF EXISTS "OPEX readers can read opex" ON opex;
+CREATE POLICY "OPEX readers can read opex" ON opex
+  FOR SELECT USING (has_permission('manage_opex') OR has_permission('view_earnings'));
+
+DROP POLICY IF EXISTS "OPEX editors can manage opex" ON opex;
+CREATE POLICY "OPEX editors can manage opex" ON opex
+  FOR ALL USING (has_permission('manage_opex')) WITH CHECK (has_permission('manage_opex'));
+
+DROP POLICY IF EXISTS "OPEX readers can read opex_settings" ON opex_settings;
+CREATE POLICY "OPEX readers can read opex_settings" ON opex_settings
+  FOR SELECT USING (has_permission('manage_opex') OR has_permission('view_earnings'));
+
+DROP POLICY IF EXISTS "OPEX editors can manage opex_settings" ON opex_settings;
+CREATE POLICY "OPEX editors can manage opex_settings" ON opex_settings
+  FOR ALL USING (has_permission('manage_opex')) WITH CHECK (has_permission('manage_opex'));
+
+DROP POLICY IF EXISTS "Settings editors can read transaction_number_sequences" ON transaction_number_sequences;
+CREATE POLICY "Settings editors can read transaction_number_sequences" ON transaction_number_sequences
+  FOR SELECT USING (has_permission('manage_settings'));
+
+-- Permissions: everyone reads, only owners change who gets what
+DROP POLICY IF EXISTS "Signed-in users can read permissions" ON permissions;
+CREATE POLICY "Signed-in users can read permissions" ON permissions
+  FOR SELECT USING (is_signed_in());
+
+DROP POLICY IF EXISTS "Signed-in users can read role_permissions" ON role_permissions;
+CREATE POLICY "Signed-in users can read role_permissions" ON role_permissions
+  FOR SELECT USING (is_signed_in());
+
+DROP POLICY IF EXISTS "Owners can manage role_permissions" ON role_permissions;
+CREATE POLICY "Owners can manage role_permissions" ON role_permissions
+  FOR ALL USING (is_owner()) WITH CHECK (is_owner());
+
+-- ============================================
+-- 6. COLUMN-LEVEL CHECKS ON SALE UPDATES
+-- ============================================
+-- Policies decide which rows can be updated; this trigger decides which columns.
+-- Database functions (checkout, cancel) and the SQL Editor run as the function
+-- or database owner and are not checked here.
+
+CREATE OR REPLACE FUNCTION enforce_sale_update_permissions()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_column TEXT;
+  v_permission TEXT;
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_column IN
+    SELECT n.key
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+  LOOP
+    v_permission := CASE
+      WHEN v_column IN ('earnings_datetime', 'store_sale_datetime') THEN 'edit_report_date'
+      WHEN v_column IN ('payment_method', 'customer_type', 'dine_in_takeout') THEN 'edit_sale_details'
+      WHEN v_column IN ('cancelled', 'cancelled_at') THEN 'void_sales'
+    END;
+
+    IF (v_permission IS NULL AND NOT is_owner())
+      OR (v_permission IS NOT NULL AND NOT has_permission(v_permission)) THEN
+      RAISE EXCEPTION 'You do not have permission to change %', v_column USING ERRCODE = '42501';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_sale_update_permissions ON sales;
+CREATE TRIGGER enforce_sale_update_permissions
+  BEFORE UPDATE ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_sale_update_permissions();
+
+-- ============================================
+-- 7. VOIDING OLDER SALES NEEDS void_sales
+-- ============================================
+
+CREATE OR REPLACE FUNCTION cancel_recent_sale(p_sale_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_sale sales;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to cancel sales' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF v_sale.id IS NULL THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id;
+  END IF;
+
+  IF v_sale.cancelled THEN
+    RAISE EXCEPTION 'Sale has already been cancelled';
+  END IF;
+
+  IF v_sale.created_at < NOW() - INTERVAL '1 minute' AND NOT has_permission('void_sales') THEN
+    RAISE EXCEPTION 'Sale cannot be cancelled - time expired' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE sales
+  SET cancelled = true, cancelled_at = NOW()
+  WHERE id = p_sale_id;
+
+  -- Put back the ingredients this sale line used
+  UPDATE products p
+  SET qty = p.qty + to_storage_unit(p.unit_type, pi.qty * v_sale.qty)
+  FROM product_ingredients pi
+  WHERE pi.product_id = v_sale.product_id
+    AND p.id = pi.item_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v11 completed - permissions added!' as status;
+
+SELECT rp.role, p.label
+FROM role_permissions rp
+JOIN permissions p ON p.key = rp.permission
+ORDER BY rp.role, p.sort_order;
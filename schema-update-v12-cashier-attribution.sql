@@ -0,0 +1,229 @@
+-- KASHPOS v2.0 Database Schema Update v12
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v11-permissions.sql
+--
+-- This update adds:
+-- 1. cashier_id / cashier_name on sales, stamped from the signed-in user
+-- 2. Staff PINs (bcrypt-hashed) for quick switching on a shared till
+-- 3. list_switchable_users() and switch_user_with_pin() for the Sales page;
+--    switching to a user is locked for 15 minutes after 5 wrong PINs
+-- 4. set_user_pin() so owners (or the user themselves) can set a PIN
+--
+-- Only cashiers get PINs. Owners and managers always sign in with their
+-- password, so a short PIN can't be guessed (or locked out by anyone at the
+-- till) to get into an account that can void sales or change settings.
+
+-- ============================================
+-- 1. CASHIER ON EVERY SALE
+-- ============================================
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS cashier_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- Kept alongside the id so reports still show a name after a user is removed
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS cashier_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sales_cashier_id ON sales(cashier_id);
+
+-- Stamp the signed-in user on insert, whatever the client sent.
+-- process_checkout() inserts through this trigger too.
+CREATE OR REPLACE FUNCTION set_sale_cashier()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_user users;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE id = current_app_user_id();
+
+  IF v_user.id IS NOT NULL THEN
+    NEW.cashier_id := v_user.id;
+    NEW.cashier_name := COALESCE(v_user.display_name, v_user.username);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+DROP TRIGGER IF EXISTS set_sale_cashier ON sales;
+CREATE TRIGGER set_sale_cashier
+  BEFORE INSERT ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION set_sale_cashier();
+
+-- ============================================
+-- 2. STAFF PINS
+-- ============================================
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS pin_hash TEXT;
+
+-- Wrong PINs entered for the user since their last switch; PIN switching to
+-- them is refused until pin_locked_until once there are too many
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS failed_pin_attempts INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS pin_locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Owners can set any cashier's PIN; cashiers can also set their own.
+-- Pass NULL to remove a PIN. A new PIN also lifts a PIN lock.
+CREATE OR REPLACE FUNCTION set_user_pin(p_user_id UUID, p_pin TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to set a PIN' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_user_id IS DISTINCT FROM current_app_user_id() THEN
+    PERFORM require_owner();
+  END IF;
+
+  IF p_pin IS NOT NULL AND p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  IF p_pin IS NOT NULL AND NOT EXISTS (SELECT 1 FROM users WHERE id = p_user_id AND role = 'cashier') THEN
+    RAISE EXCEPTION 'Only cashiers can have a PIN';
+  END IF;
+
+  UPDATE users
+  SET pin_hash = CASE WHEN p_pin IS NULL THEN NULL ELSE crypt(p_pin, gen_salt('bf')) END,
+      failed_pin_attempts = 0,
+      pin_locked_until = NULL
+  WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+UPDATE users SET pin_hash = NULL WHERE role <> 'cashier' AND pin_hash IS NOT NULL;
+
+-- ============================================
+-- 3. QUICK SWITCH
+-- ============================================
+
+-- Cashiers who can be switched to on this till (active, with a PIN)
+CREATE OR REPLACE FUNCTION list_switchable_users()
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  display_name TEXT,
+  role TEXT
+) AS $$
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to switch users' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.username, u.display_name, u.role
+  FROM users u
+  WHERE u.is_active AND u.role = 'cashier' AND u.pin_hash IS NOT NULL
+  ORDER BY lower(COALESCE(u.display_name, u.username));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- Only works from a till that is already signed in. Ends the current session
+-- and returns a new one for the chosen user, in the same shape as
+-- login_user(), or NULL when the PIN is wrong or the user isn't a cashier
+-- with a PIN. The 5th wrong PIN in a row for a user locks switching to them
+-- for 15 minutes (signing in with their password still works), so a PIN
+-- can't be guessed by trying them all.
+CREATE OR REPLACE FUNCTION switch_user_with_pin(p_user_id UUID, p_pin TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_user users;
+  v_token TEXT;
+  v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + INTERVAL '12 hours';
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to switch users' USING ERRCODE = '42501';
+  END IF;
+
+  -- Locked so parallel attempts are counted one after another
+  SELECT * INTO v_user
+  FROM users
+  WHERE id = p_user_id
+    AND is_active
+    AND role = 'cashier'
+    AND pin_hash IS NOT NULL
+  FOR UPDATE;
+
+  IF v_user.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_user.pin_locked_until > NOW() THEN
+    RAISE EXCEPTION 'Too many wrong PINs. Try again in % minutes.',
+      CEIL(EXTRACT(EPOCH FROM v_user.pin_locked_until - NOW()) / 60)
+      USING ERRCODE = '28000';
+  END IF;
+
+  -- Returning (rather than raising) keeps the attempt counted
+  IF v_user.pin_hash <> crypt(COALESCE(p_pin, ''), v_user.pin_hash) THEN
+    UPDATE users
+    SET failed_pin_attempts = CASE WHEN failed_pin_attempts + 1 >= 5 THEN 0 ELSE failed_pin_attempts + 1 END,
+        pin_locked_until = CASE WHEN failed_pin_attempts + 1 >= 5 THEN NOW() + INTERVAL '15 minutes' END
+    WHERE id = v_user.id;
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM user_sessions WHERE token_hash = hash_session_token(request_session_token());
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO user_sessions (user_id, token_hash, expires_at)
+  VALUES (v_user.id, hash_session_token(v_token), v_expires_at);
+
+  UPDATE users
+  SET last_login_at = NOW(), failed_pin_attempts = 0, pin_locked_until = NULL
+  WHERE id = v_user.id;
+
+  RETURN jsonb_build_object(
+    'token', v_token,
+    'expires_at', v_expires_at,
+    'user', user_to_json(v_user)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 4. SHOW WHO HAS A PIN IN USER MANAGEMENT
+-- ============================================
+
+DROP FUNCTION IF EXISTS list_users();
+CREATE OR REPLACE FUNCTION list_users()
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  display_name TEXT,
+  role TEXT,
+  is_active BOOLEAN,
+  has_pin BOOLEAN,
+  last_login_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  PERFORM require_owner();
+
+  RETURN QUERY
+  SELECT u.id, u.username, u.display_name, u.role, u.is_active, u.pin_hash IS NOT NULL,
+    u.last_login_at, u.created_at
+  FROM users u
+  ORDER BY u.is_active DESC, u.role, lower(u.username);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v12 completed - cashier attribution and staff PINs added!' as status;
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'sales' AND column_name IN ('cashier_id', 'cashier_name');
@@ -0,0 +1,309 @@
+-- KASHPOS v2.0 Database Schema Update v13
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v12-cashier-attribution.sql
+--
+-- This update adds:
+-- 1. shifts table - one cash drawer session from opening float to close
+-- 2. shift_cash_movements table - cash in / cash out (paid-outs, drops)
+-- 3. shift_id on sales, stamped with the open shift at checkout
+-- 4. open_shift(), add_shift_cash_movement(), close_shift() and
+--    get_shift_summary() - the close stores a Z-report snapshot on the shift
+
+-- ============================================
+-- 1. SHIFTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS shifts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  opened_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  opened_by_name TEXT,
+  opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  opening_float DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  closed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  closed_by_name TEXT,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  expected_cash DECIMAL(10, 2),
+  counted_cash DECIMAL(10, 2),
+  cash_variance DECIMAL(10, 2),
+  notes TEXT,
+  z_report JSONB
+);
+
+-- One till, so at most one open shift at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shifts_single_open ON shifts((true)) WHERE closed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_shifts_opened_at ON shifts(opened_at);
+
+-- ============================================
+-- 2. CASH IN / CASH OUT
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS shift_cash_movements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shift_id UUID NOT NULL REFERENCES shifts(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('cash_in', 'cash_out')),
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shift_cash_movements_shift_id ON shift_cash_movements(shift_id);
+
+-- ============================================
+-- 3. SHIFT ON EVERY SALE
+-- ============================================
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES shifts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sales_shift_id ON sales(shift_id);
+
+-- Sales rung up while no shift is open keep a NULL shift_id
+CREATE OR REPLACE FUNCTION set_sale_shift()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT id INTO NEW.shift_id FROM shifts WHERE closed_at IS NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+DROP TRIGGER IF EXISTS set_sale_shift ON sales;
+CREATE TRIGGER set_sale_shift
+  BEFORE INSERT ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION set_sale_shift();
+
+-- ============================================
+-- 4. ROW LEVEL SECURITY
+-- ============================================
+-- Everyone can see the open shift (they work the drawer) and the shifts
+-- they opened or closed; past Z-reports need view_reports.
+-- All writes go through the functions below.
+
+ALTER TABLE shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shift_cash_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read their shifts" ON shifts;
+CREATE POLICY "Staff can read their shifts" ON shifts
+  FOR SELECT USING (
+    is_signed_in() AND (
+      closed_at IS NULL
+      OR opened_by = current_app_user_id()
+      OR closed_by = current_app_user_id()
+      OR has_permission('view_reports')
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can read their shift cash movements" ON shift_cash_movements;
+CREATE POLICY "Staff can read their shift cash movements" ON shift_cash_movements
+  FOR SELECT USING (EXISTS (SELECT 1 FROM shifts s WHERE s.id = shift_id));
+
+-- ============================================
+-- 5. SHIFT FUNCTIONS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION current_app_user_name()
+RETURNS TEXT AS $$
+  SELECT COALESCE(display_name, username) FROM users WHERE id = current_app_user_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION open_shift(p_opening_float DECIMAL, p_notes TEXT DEFAULT NULL)
+RETURNS shifts AS $$
+DECLARE
+  v_shift shifts;
+BEGIN
+  IF NOT is_signed_in() THEN
+    RAISE EXCEPTION 'Sign in to open a shift' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(p_opening_float, -1) < 0 THEN
+    RAISE EXCEPTION 'Opening float cannot be negative';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM shifts WHERE closed_at IS NULL) THEN
+    RAISE EXCEPTION 'A shift is already open. Close it before opening a new one.';
+  END IF;
+
+  INSERT INTO shifts (opened_by, opened_by_name, opening_float, notes)
+  VALUES (current_app_user_id(), current_app_user_name(), p_opening_float, NULLIF(TRIM(p_notes), ''))
+  RETURNING * INTO v_shift;
+
+  RETURN v_shift;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- Paid-outs and drops are 'cash_out'; extra change put in the drawer is 'cash_in'
+CREATE OR REPLACE FUNCTION add_shift_cash_movement(p_movement_type TEXT, p_amount DECIMAL, p_reason TEXT)
+RETURNS shift_cash_movements AS $$
+DECLARE
+  v_shift_id UUID;
+  v_movement shift_cash_movements;
+BEGIN
+  IF NOT is_signed_in() THEN
+    RAISE EXCEPTION 'Sign in to record cash in or out' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_shift_id FROM shifts WHERE closed_at IS NULL FOR UPDATE;
+  IF v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'No shift is open';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Enter a reason for the cash movement';
+  END IF;
+
+  INSERT INTO shift_cash_movements (shift_id, movement_type, amount, reason, created_by, created_by_name)
+  VALUES (v_shift_id, p_movement_type, p_amount, TRIM(p_reason), current_app_user_id(), current_app_user_name())
+  RETURNING * INTO v_movement;
+
+  RETURN v_movement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- Running totals for a shift. Cash sales are non-cancelled sales on the
+-- shift paid with the 'Cash' payment method; change given back never stays
+-- in the drawer, so the sale total is what the drawer gains.
+CREATE OR REPLACE FUNCTION get_shift_summary(p_shift_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_shift shifts;
+  v_sales_total DECIMAL(10, 2);
+  v_transaction_count INTEGER;
+  v_cash_sales DECIMAL(10, 2);
+  v_cash_in DECIMAL(10, 2);
+  v_cash_out DECIMAL(10, 2);
+  v_payment_methods JSONB;
+  v_movements JSONB;
+BEGIN
+  IF NOT is_signed_in() THEN
+    RAISE EXCEPTION 'Sign in to view shifts' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_shift FROM shifts WHERE id = p_shift_id;
+  IF v_shift.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_shift.closed_at IS NOT NULL
+    AND v_shift.opened_by IS DISTINCT FROM current_app_user_id()
+    AND v_shift.closed_by IS DISTINCT FROM current_app_user_id()
+    AND NOT has_permission('view_reports') THEN
+    RAISE EXCEPTION 'You do not have permission to view this shift' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(total), 0),
+    COUNT(DISTINCT COALESCE(transaction_id, id)),
+    COALESCE(SUM(total) FILTER (WHERE lower(payment_method) = 'cash'), 0)
+  INTO v_sales_total, v_transaction_count, v_cash_sales
+  FROM sales
+  WHERE shift_id = p_shift_id AND cancelled = false;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'payment_method', payment_method,
+    'total', method_total,
+    'transactions', method_transactions
+  ) ORDER BY payment_method), '[]'::jsonb)
+  INTO v_payment_methods
+  FROM (
+    SELECT payment_method, SUM(total) AS method_total, COUNT(DISTINCT COALESCE(transaction_id, id)) AS method_transactions
+    FROM sales
+    WHERE shift_id = p_shift_id AND cancelled = false
+    GROUP BY payment_method
+  ) by_method;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_in'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_out'), 0),
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'movement_type', movement_type,
+      'amount', amount,
+      'reason', reason,
+      'created_by_name', created_by_name,
+      'created_at', created_at
+    ) ORDER BY created_at), '[]'::jsonb)
+  INTO v_cash_in, v_cash_out, v_movements
+  FROM shift_cash_movements
+  WHERE shift_id = p_shift_id;
+
+  RETURN jsonb_build_object(
+    'shift_id', v_shift.id,
+    'opened_at', v_shift.opened_at,
+    'opened_by_name', v_shift.opened_by_name,
+    'opening_float', v_shift.opening_float,
+    'sales_total', v_sales_total,
+    'transaction_count', v_transaction_count,
+    'payment_methods', v_payment_methods,
+    'cash_sales', v_cash_sales,
+    'cash_in', v_cash_in,
+    'cash_out', v_cash_out,
+    'movements', v_movements,
+    'expected_cash', v_shift.opening_float + v_cash_sales + v_cash_in - v_cash_out
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- Closes the open shift and stores the Z-report (the summary plus the count)
+CREATE OR REPLACE FUNCTION close_shift(p_counted_cash DECIMAL, p_notes TEXT DEFAULT NULL)
+RETURNS shifts AS $$
+DECLARE
+  v_shift shifts;
+  v_summary JSONB;
+  v_expected DECIMAL(10, 2);
+  v_closed_at TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  IF NOT is_signed_in() THEN
+    RAISE EXCEPTION 'Sign in to close a shift' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(p_counted_cash, -1) < 0 THEN
+    RAISE EXCEPTION 'Enter the counted cash';
+  END IF;
+
+  SELECT * INTO v_shift FROM shifts WHERE closed_at IS NULL FOR UPDATE;
+  IF v_shift.id IS NULL THEN
+    RAISE EXCEPTION 'No shift is open';
+  END IF;
+
+  v_summary := get_shift_summary(v_shift.id);
+  v_expected := (v_summary->>'expected_cash')::DECIMAL;
+
+  UPDATE shifts
+  SET
+    closed_at = v_closed_at,
+    closed_by = current_app_user_id(),
+    closed_by_name = current_app_user_name(),
+    expected_cash = v_expected,
+    counted_cash = p_counted_cash,
+    cash_variance = p_counted_cash - v_expected,
+    notes = COALESCE(NULLIF(TRIM(p_notes), ''), notes),
+    z_report = v_summary || jsonb_build_object(
+      'closed_at', v_closed_at,
+      'closed_by_name', current_app_user_name(),
+      'counted_cash', p_counted_cash,
+      'cash_variance', p_counted_cash - v_expected
+    )
+  WHERE id = v_shift.id
+  RETURNING * INTO v_shift;
+
+  RETURN v_shift;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v13 completed - cash drawer shifts added!' as status;
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_name IN ('shifts', 'shift_cash_movements');
@@ -0,0 +1,281 @@
+-- KASHPOS v2.0 Database Schema Update v14
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v13-shifts.sql
+--
+-- This update adds:
+-- 1. sale_refunds table - every void and refund with its reason code
+-- 2. refund_sale_lines() - voids or refunds whole transactions or single
+--    lines at any time (needs void_sales) and puts the ingredients back
+-- 3. Refunds in the shift summary so cash refunds leave the drawer
+--
+-- A void cancels the sale line, so it drops out of the day it was sold.
+-- A refund keeps the sale and is subtracted from Earnings on the day of the refund.
+
+-- ============================================
+-- 1. REFUNDS TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS sale_refunds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  kind TEXT NOT NULL CHECK (kind IN ('void', 'refund')),
+  -- Kept when the sale is archived so Earnings still shows the refund
+  sale_id UUID REFERENCES sales(id) ON DELETE SET NULL,
+  transaction_id UUID,
+  transaction_number TEXT,
+  product_id UUID,
+  product_name TEXT NOT NULL,
+  qty DECIMAL(10, 2) NOT NULL CHECK (qty > 0),
+  amount DECIMAL(10, 2) NOT NULL,
+  cost DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  payment_method TEXT,
+  -- The cashier who rang up the original sale, for per-cashier Earnings
+  cashier_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  cashier_name TEXT,
+  reason_code TEXT NOT NULL CHECK (reason_code IN (
+    'customer_request', 'wrong_item', 'quality_issue', 'cashier_error', 'duplicate', 'other'
+  )),
+  note TEXT,
+  restocked BOOLEAN NOT NULL DEFAULT true,
+  shift_id UUID REFERENCES shifts(id) ON DELETE SET NULL,
+  refunded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  refunded_by_name TEXT,
+  refunded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_refunds_sale_id ON sale_refunds(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_refunds_transaction_id ON sale_refunds(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_sale_refunds_refunded_at ON sale_refunds(refunded_at);
+
+ALTER TABLE sale_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Same readers as sales; rows are only written by refund_sale_lines()
+DROP POLICY IF EXISTS "Report viewers can read sale_refunds" ON sale_refunds;
+CREATE POLICY "Report viewers can read sale_refunds" ON sale_refunds
+  FOR SELECT USING (has_permission('view_reports') OR has_permission('view_earnings'));
+
+-- ============================================
+-- 2. VOID / REFUND FUNCTION
+-- ============================================
+-- p_kind:  'void'   - cancel whole lines (qty must be the full line)
+--          'refund' - return some or all of a line's quantity
+-- p_lines: [{ "sale_id": "<sales.id>", "qty": 1 }, ...]
+-- p_restock: put the ingredients from product_ingredients back in stock
+--
+-- All lines succeed or none do. Returns the sale_refunds rows written.
+
+CREATE OR REPLACE FUNCTION refund_sale_lines(
+  p_kind TEXT,
+  p_lines JSONB,
+  p_reason_code TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_restock BOOLEAN DEFAULT true
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_line JSONB;
+  v_sale sales;
+  v_qty DECIMAL(10, 2);
+  v_refunded_qty DECIMAL(10, 2);
+  v_refunded_amount DECIMAL(10, 2);
+  v_amount DECIMAL(10, 2);
+  v_shift_id UUID;
+  v_refund sale_refunds;
+  v_refunds JSONB := '[]'::jsonb;
+BEGIN
+  IF NOT has_permission('void_sales') THEN
+    RAISE EXCEPTION 'You do not have permission to void or refund sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_kind NOT IN ('void', 'refund') THEN
+    RAISE EXCEPTION 'Unknown refund kind %', p_kind;
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item';
+  END IF;
+
+  SELECT id INTO v_shift_id FROM shifts WHERE closed_at IS NULL;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    SELECT * INTO v_sale FROM sales WHERE id = (v_line->>'sale_id')::UUID FOR UPDATE;
+
+    IF v_sale.id IS NULL THEN
+      RAISE EXCEPTION 'Sale % not found', v_line->>'sale_id';
+    END IF;
+
+    IF v_sale.cancelled THEN
+      RAISE EXCEPTION '% has already been voided', v_sale.product_name;
+    END IF;
+
+    v_qty := (v_line->>'qty')::DECIMAL;
+
+    SELECT COALESCE(SUM(qty), 0), COALESCE(SUM(amount), 0)
+    INTO v_refunded_qty, v_refunded_amount
+    FROM sale_refunds
+    WHERE sale_id = v_sale.id AND kind = 'refund';
+
+    IF p_kind = 'void' THEN
+      IF v_refunded_qty > 0 THEN
+        RAISE EXCEPTION '% has refunds already; refund the rest instead of voiding', v_sale.product_name;
+      END IF;
+
+      v_qty := v_sale.qty;
+      v_amount := v_sale.total;
+
+      UPDATE sales
+      SET cancelled = true, cancelled_at = NOW()
+      WHERE id = v_sale.id;
+    ELSE
+      IF v_qty IS NULL OR v_qty <= 0 OR v_qty > v_sale.qty - v_refunded_qty THEN
+        RAISE EXCEPTION 'Only % of % can be refunded', trim_scale(v_sale.qty - v_refunded_qty), v_sale.product_name;
+      END IF;
+
+      -- The last unit takes whatever is left so rounding never over-refunds
+      v_amount := CASE
+        WHEN v_refunded_qty + v_qty = v_sale.qty THEN v_sale.total - v_refunded_amount
+        ELSE ROUND(v_sale.total * v_qty / v_sale.qty, 2)
+      END;
+    END IF;
+
+    INSERT INTO sale_refunds (
+      kind, sale_id, transaction_id, transaction_number, product_id, product_name,
+      qty, amount, cost, payment_method, cashier_id, cashier_name, reason_code, note, restocked, shift_id,
+      refunded_by, refunded_by_name
+    )
+    VALUES (
+      p_kind, v_sale.id, v_sale.transaction_id, v_sale.transaction_number, v_sale.product_id, v_sale.product_name,
+      v_qty, v_amount, v_sale.cost * v_qty, v_sale.payment_method, v_sale.cashier_id, v_sale.cashier_name,
+      p_reason_code, NULLIF(TRIM(p_note), ''), p_restock, v_shift_id, current_app_user_id(), current_app_user_name()
+    )
+    RETURNING * INTO v_refund;
+
+    IF p_restock THEN
+      UPDATE products p
+      SET qty = p.qty + to_storage_unit(p.unit_type, pi.qty * v_qty)
+      FROM product_ingredients pi
+      WHERE pi.product_id = v_sale.product_id
+        AND p.id = pi.item_id;
+    END IF;
+
+    v_refunds := v_refunds || to_jsonb(v_refund);
+  END LOOP;
+
+  RETURN v_refunds;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 3. REFUNDS IN THE SHIFT SUMMARY
+-- ============================================
+
+-- Same as v13, plus refunds: cash handed back for refunds recorded during
+-- the shift comes out of the expected drawer amount. So do voids of sales
+-- from an earlier shift; voids of this shift's sales already drop out of
+-- its sales.
+CREATE OR REPLACE FUNCTION get_shift_summary(p_shift_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_shift shifts;
+  v_sales_total DECIMAL(10, 2);
+  v_transaction_count INTEGER;
+  v_cash_sales DECIMAL(10, 2);
+  v_refunds_total DECIMAL(10, 2);
+  v_cash_refunds DECIMAL(10, 2);
+  v_cash_in DECIMAL(10, 2);
+  v_cash_out DECIMAL(10, 2);
+  v_payment_methods JSONB;
+  v_movements JSONB;
+BEGIN
+  IF NOT is_signed_in() THEN
+    RAISE EXCEPTION 'Sign in to view shifts' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_shift FROM shifts WHERE id = p_shift_id;
+  IF v_shift.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_shift.closed_at IS NOT NULL
+    AND v_shift.opened_by IS DISTINCT FROM current_app_user_id()
+    AND v_shift.closed_by IS DISTINCT FROM current_app_user_id()
+    AND NOT has_permission('view_reports') THEN
+    RAISE EXCEPTION 'You do not have permission to view this shift' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(total), 0),
+    COUNT(DISTINCT COALESCE(transaction_id, id)),
+    COALESCE(SUM(total) FILTER (WHERE lower(payment_method) = 'cash'), 0)
+  INTO v_sales_total, v_transaction_count, v_cash_sales
+  FROM sales
+  WHERE shift_id = p_shift_id AND cancelled = false;
+
+  SELECT
+    COALESCE(SUM(r.amount), 0),
+    COALESCE(SUM(r.amount) FILTER (WHERE lower(r.payment_method) = 'cash'), 0)
+  INTO v_refunds_total, v_cash_refunds
+  FROM sale_refunds r
+  LEFT JOIN sales s ON s.id = r.sale_id
+  WHERE r.shift_id = p_shift_id
+    AND (r.kind = 'refund' OR (s.id IS NOT NULL AND s.shift_id IS DISTINCT FROM p_shift_id));
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'payment_method', payment_method,
+    'total', method_total,
+    'transactions', method_transactions
+  ) ORDER BY payment_method), '[]'::jsonb)
+  INTO v_payment_methods
+  FROM (
+    SELECT payment_method, SUM(total) AS method_total, COUNT(DISTINCT COALESCE(transaction_id, id)) AS method_transactions
+    FROM sales
+    WHERE shift_id = p_shift_id AND cancelled = false
+    GROUP BY payment_method
+  ) by_method;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_in'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_out'), 0),
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'movement_type', movement_type,
+      'amount', amount,
+      'reason', reason,
+      'created_by_name', created_by_name,
+      'created_at', created_at
+    ) ORDER BY created_at), '[]'::jsonb)
+  INTO v_cash_in, v_cash_out, v_movements
+  FROM shift_cash_movements
+  WHERE shift_id = p_shift_id;
+
+  RETURN jsonb_build_object(
+    'shift_id', v_shift.id,
+    'opened_at', v_shift.opened_at,
+    'opened_by_name', v_shift.opened_by_name,
+    'opening_float', v_shift.opening_float,
+    'sales_total', v_sales_total,
+    'transaction_count', v_transaction_count,
+    'payment_methods', v_payment_methods,
+    'cash_sales', v_cash_sales,
+    'refunds_total', v_refunds_total,
+    'cash_refunds', v_cash_refunds,
+    'cash_in', v_cash_in,
+    'cash_out', v_cash_out,
+    'movements', v_movements,
+    'expected_cash', v_shift.opening_float + v_cash_sales - v_cash_refunds + v_cash_in - v_cash_out
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v14 completed - voids and refunds added!' as status;
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'sale_refunds'
+ORDER BY ordinal_position;
@@ -0,0 +1,105 @@
+-- KASHPOS v2.0 Database Schema Update v15
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v14-refunds.sql
+--
+-- This update adds:
+-- 1. cancel_recent_transaction() - the notification bar's cancel button now
+--    cancels every line of the transaction and puts back every ingredient
+--    in one go, instead of only the first line (cancel_recent_sale)
+-- 2. Drops cancel_recent_sale(), which didn't log a void and put back the
+--    whole line even after part of it was refunded
+
+-- ============================================
+-- 1. CANCEL A WHOLE TRANSACTION
+-- ============================================
+-- Same rules as cancel_recent_sale(): anyone signed in may cancel within a
+-- minute of checkout, older transactions need void_sales. The lines are
+-- logged in sale_refunds as voids so they show up with other voids.
+
+CREATE OR REPLACE FUNCTION cancel_recent_transaction(p_transaction_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_sale sales;
+  v_count INTEGER := 0;
+  v_total DECIMAL(10, 2) := 0;
+  v_shift_id UUID;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to cancel sales' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock every line first so a concurrent cancel or refund has to wait
+  PERFORM 1 FROM sales WHERE transaction_id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM sales WHERE transaction_id = p_transaction_id AND cancelled) THEN
+    RAISE EXCEPTION 'Transaction has already been cancelled';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM sale_refunds WHERE transaction_id = p_transaction_id) THEN
+    RAISE EXCEPTION 'Transaction has refunds; void or refund it from Reports instead';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM sales
+    WHERE transaction_id = p_transaction_id AND created_at < NOW() - INTERVAL '1 minute'
+  ) AND NOT has_permission('void_sales') THEN
+    RAISE EXCEPTION 'Sale cannot be cancelled - time expired' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_shift_id FROM shifts WHERE closed_at IS NULL;
+
+  FOR v_sale IN SELECT * FROM sales WHERE transaction_id = p_transaction_id
+  LOOP
+    UPDATE sales
+    SET cancelled = true, cancelled_at = NOW()
+    WHERE id = v_sale.id;
+
+    UPDATE products p
+    SET qty = p.qty + to_storage_unit(p.unit_type, pi.qty * v_sale.qty)
+    FROM product_ingredients pi
+    WHERE pi.product_id = v_sale.product_id
+      AND p.id = pi.item_id;
+
+    INSERT INTO sale_refunds (
+      kind, sale_id, transaction_id, transaction_number, product_id, product_name,
+      qty, amount, cost, payment_method, cashier_id, cashier_name, reason_code, note, restocked, shift_id,
+      refunded_by, refunded_by_name
+    )
+    VALUES (
+      'void', v_sale.id, v_sale.transaction_id, v_sale.transaction_number, v_sale.product_id, v_sale.product_name,
+      v_sale.qty, v_sale.total, v_sale.cost * v_sale.qty, v_sale.payment_method, v_sale.cashier_id, v_sale.cashier_name,
+      'cashier_error', 'Cancelled right after checkout', true, v_shift_id,
+      current_app_user_id(), current_app_user_name()
+    );
+
+    v_count := v_count + 1;
+    v_total := v_total + v_sale.total;
+  END LOOP;
+
+  RETURN jsonb_build_object('lines', v_count, 'total', v_total);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 2. REMOVE THE ONE-LINE CANCEL
+-- ============================================
+-- The app no longer calls it, and leaving it callable would let a sale be
+-- cancelled without a void in sale_refunds.
+
+DROP FUNCTION IF EXISTS cancel_recent_sale(UUID);
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v15 completed - whole-transaction cancel added!' as status;
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name = 'cancel_recent_transaction';
@@ -0,0 +1,540 @@
+-- KASHPOS v2.0 Database Schema Update v16
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v15-cancel-transaction.sql
+--
+-- This update adds:
+-- 1. stock_movements table - an append-only ledger of every change to an
+--    inventory item's qty, with the running balance after each change
+-- 2. A trigger on products that writes the ledger row, so direct edits from
+--    the Inventory page are recorded as well as the database functions
+-- 3. adjust_stock() - record waste, count corrections and manual adjustments
+-- 4. Checkout, cancel and refund functions tag their stock changes with the
+--    movement type and the sale / transaction they belong to
+
+-- ============================================
+-- 1. STOCK MOVEMENTS TABLE
+-- ============================================
+-- qty_delta and balance_after are in storage units like products.qty (kg, L,
+-- pcs); unit_cost is in the same units as products.cost.
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- No foreign key: the history stays when an item is deleted
+  item_id UUID NOT NULL,
+  item_name TEXT NOT NULL,
+  movement_type TEXT NOT NULL CHECK (movement_type IN (
+    'purchase', 'sale_deduction', 'cancel_restore', 'refund_restore',
+    'manual_adjustment', 'waste', 'count_correction'
+  )),
+  qty_delta DECIMAL(10, 2) NOT NULL,
+  balance_after DECIMAL(10, 2) NOT NULL,
+  unit_cost DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  sale_id UUID REFERENCES sales(id) ON DELETE SET NULL,
+  transaction_id UUID,
+  transaction_number TEXT,
+  note TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name TEXT,
+  -- clock_timestamp() so movements made by one checkout or refund keep their order
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_item_id ON stock_movements(item_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_transaction_id ON stock_movements(transaction_id);
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for the app; rows are only written by log_stock_movement()
+DROP POLICY IF EXISTS "Inventory staff can read stock_movements" ON stock_movements;
+CREATE POLICY "Inventory staff can read stock_movements" ON stock_movements
+  FOR SELECT USING (has_permission('adjust_inventory'));
+
+-- ============================================
+-- 2. LEDGER TRIGGER
+-- ============================================
+-- Functions that change stock call set_stock_movement_context() first so the
+-- trigger knows why, and clear_stock_movement_context() afterwards. The context is local to the current transaction. An
+-- update without a context is a direct edit from the Inventory page.
+
+CREATE OR REPLACE FUNCTION set_stock_movement_context(
+  p_movement_type TEXT,
+  p_sale_id UUID DEFAULT NULL,
+  p_transaction_id UUID DEFAULT NULL,
+  p_transaction_number TEXT DEFAULT NULL,
+  p_note TEXT DEFAULT NULL,
+  p_unit_cost DECIMAL DEFAULT NULL
+)
+RETURNS VOID AS $$
+  SELECT set_config('app.stock_movement', jsonb_build_object(
+    'movement_type', p_movement_type,
+    'sale_id', p_sale_id,
+    'transaction_id', p_transaction_id,
+    'transaction_number', p_transaction_number,
+    'note', p_note,
+    'unit_cost', p_unit_cost
+  )::TEXT, true);
+$$ LANGUAGE sql;
+
+-- Called right after the update so later changes in the same transaction
+-- aren't labelled with the wrong movement
+CREATE OR REPLACE FUNCTION clear_stock_movement_context()
+RETURNS VOID AS $$
+  SELECT set_config('app.stock_movement', '', true);
+$$ LANGUAGE sql;
+
+-- Only the database functions in this file may label stock changes
+REVOKE EXECUTE ON FUNCTION set_stock_movement_context(TEXT, UUID, UUID, TEXT, TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION clear_stock_movement_context() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION log_stock_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_context JSONB := NULLIF(current_setting('app.stock_movement', true), '')::JSONB;
+  v_old_qty DECIMAL(10, 2) := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.qty END;
+BEGIN
+  IF NEW.qty = v_old_qty THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO stock_movements (
+    item_id, item_name, movement_type, qty_delta, balance_after, unit_cost,
+    sale_id, transaction_id, transaction_number, note, created_by, created_by_name
+  )
+  VALUES (
+    NEW.id, NEW.name,
+    COALESCE(
+      v_context->>'movement_type',
+      CASE WHEN TG_OP = 'INSERT' THEN 'purchase' ELSE 'manual_adjustment' END
+    ),
+    NEW.qty - v_old_qty, NEW.qty,
+    COALESCE((v_context->>'unit_cost')::DECIMAL, NEW.cost),
+    (v_context->>'sale_id')::UUID,
+    (v_context->>'transaction_id')::UUID,
+    v_context->>'transaction_number',
+    v_context->>'note',
+    current_app_user_id(), current_app_user_name()
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+DROP TRIGGER IF EXISTS log_stock_movement ON products;
+CREATE TRIGGER log_stock_movement
+  AFTER INSERT OR UPDATE OF qty ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION log_stock_movement();
+
+-- ============================================
+-- 3. STOCK ADJUSTMENTS
+-- ============================================
+-- p_movement_type: 'waste'             - p_qty is the amount thrown away
+--                  'count_correction'  - p_qty is the counted stock
+--                  'manual_adjustment' - p_qty is added (negative to remove)
+-- p_qty is in storage units like products.qty.
+
+CREATE OR REPLACE FUNCTION adjust_stock(
+  p_item_id UUID,
+  p_movement_type TEXT,
+  p_qty DECIMAL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS products AS $$
+DECLARE
+  v_item products;
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust inventory' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_movement_type NOT IN ('waste', 'count_correction', 'manual_adjustment') THEN
+    RAISE EXCEPTION 'Unknown adjustment type %', p_movement_type;
+  END IF;
+
+  IF p_qty IS NULL
+    OR (p_movement_type = 'waste' AND p_qty <= 0)
+    OR (p_movement_type = 'count_correction' AND p_qty < 0)
+    OR (p_movement_type = 'manual_adjustment' AND p_qty = 0) THEN
+    RAISE EXCEPTION 'Enter a valid quantity';
+  END IF;
+
+  SELECT * INTO v_item FROM products WHERE id = p_item_id FOR UPDATE;
+
+  IF v_item.id IS NULL THEN
+    RAISE EXCEPTION 'Item % not found', p_item_id;
+  END IF;
+
+  PERFORM set_stock_movement_context(p_movement_type, NULL, NULL, NULL, NULLIF(TRIM(p_note), ''));
+
+  UPDATE products
+  SET qty = CASE p_movement_type
+    WHEN 'waste' THEN qty - p_qty
+    WHEN 'count_correction' THEN p_qty
+    ELSE qty + p_qty
+  END
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+
+  PERFORM clear_stock_movement_context();
+
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 4. CHECKOUT RECORDS ITS DEDUCTIONS
+-- ============================================
+-- Same as v10, plus the movement context before stock is deducted.
+
+CREATE OR REPLACE FUNCTION process_checkout(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_customer_type TEXT,
+  p_dine_in_takeout TEXT,
+  p_customer_payment DECIMAL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_id UUID := uuid_generate_v4();
+  v_transaction_number TEXT;
+  v_unknown_product UUID;
+  v_cart_total DECIMAL;
+  v_out_of_stock JSONB;
+  v_item RECORD;
+  v_sale JSONB;
+  v_sales JSONB := '[]'::JSONB;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to record sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    WHERE c.product_id IS NULL OR c.qty IS NULL OR c.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every cart item needs a product and a positive quantity';
+  END IF;
+
+  SELECT c.product_id INTO v_unknown_product
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  LEFT JOIN finished_products fp ON fp.id = c.product_id
+  WHERE fp.id IS NULL
+  LIMIT 1;
+
+  IF v_unknown_product IS NOT NULL THEN
+    RAISE EXCEPTION 'Product % not found', v_unknown_product;
+  END IF;
+
+  SELECT SUM(c.qty * fp.selling_price) INTO v_cart_total
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  JOIN finished_products fp ON fp.id = c.product_id;
+
+  IF COALESCE(p_customer_payment, 0) < v_cart_total THEN
+    RAISE EXCEPTION 'Payment of % does not cover the total of %', COALESCE(p_customer_payment, 0), v_cart_total;
+  END IF;
+
+  -- Lock every inventory row this cart touches (in id order to avoid deadlocks)
+  -- so concurrent checkouts wait for each other instead of overwriting stock
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Compare ingredient demand with the current (locked) stock
+  WITH demand AS (
+    SELECT pi.item_id, SUM(pi.qty * c.qty) AS required
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    GROUP BY pi.item_id
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'item_name', p.name,
+    'unit_type', p.unit_type,
+    'required', d.required,
+    'available', to_ingredient_unit(p.unit_type, p.qty)
+  ) ORDER BY p.name)
+  INTO v_out_of_stock
+  FROM demand d
+  JOIN products p ON p.id = d.item_id
+  WHERE to_ingredient_unit(p.unit_type, p.qty) < d.required;
+
+  IF v_out_of_stock IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'out_of_stock',
+      'out_of_stock', v_out_of_stock
+    );
+  END IF;
+
+  -- Reserve the next transaction number; the counter row stays locked until
+  -- this transaction commits, and a rolled back checkout releases its number
+  v_transaction_number := next_transaction_number();
+
+  -- Insert one sale line per cart item, in cart order
+  -- (cost is ingredient cost only, no OPEX per unit)
+  FOR v_item IN
+    SELECT (e.item->>'product_id')::UUID AS product_id, (e.item->>'qty')::INTEGER AS qty
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position)
+    ORDER BY e.position
+  LOOP
+    INSERT INTO sales (
+      transaction_id, transaction_number, product_id, product_name, qty, unit_type,
+      cost, selling_price, total, payment_method, customer_type, dine_in_takeout,
+      customer_payment
+    )
+    SELECT
+      v_transaction_id, v_transaction_number, fp.id, fp.name, v_item.qty, 'quantity',
+      COALESCE((
+        SELECT SUM(pi.qty * p.cost)
+        FROM product_ingredients pi
+        JOIN products p ON p.id = pi.item_id
+        WHERE pi.product_id = fp.id
+      ), 0),
+      fp.selling_price, v_item.qty * fp.selling_price,
+      p_payment_method, p_customer_type, p_dine_in_takeout, p_customer_payment
+    FROM finished_products fp
+    WHERE fp.id = v_item.product_id
+    RETURNING to_jsonb(sales.*) INTO v_sale;
+
+    v_sales := v_sales || jsonb_build_array(v_sale);
+  END LOOP;
+
+  -- Deduct ingredients relative to the current stock
+  PERFORM set_stock_movement_context('sale_deduction', NULL, v_transaction_id, v_transaction_number);
+
+  WITH demand AS (
+    SELECT pi.item_id, SUM(pi.qty * c.qty) AS required
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    GROUP BY pi.item_id
+  )
+  UPDATE products p
+  SET qty = p.qty - to_storage_unit(p.unit_type, d.required)
+  FROM demand d
+  WHERE p.id = d.item_id;
+
+  PERFORM clear_stock_movement_context();
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'transaction_number', v_transaction_number,
+    'sales', v_sales
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 5. CANCELS AND REFUNDS RECORD THEIR RESTOCKS
+-- ============================================
+-- Same as v14 and v15, plus the movement context before stock is put back.
+
+CREATE OR REPLACE FUNCTION refund_sale_lines(
+  p_kind TEXT,
+  p_lines JSONB,
+  p_reason_code TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_restock BOOLEAN DEFAULT true
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_line JSONB;
+  v_sale sales;
+  v_qty DECIMAL(10, 2);
+  v_refunded_qty DECIMAL(10, 2);
+  v_refunded_amount DECIMAL(10, 2);
+  v_amount DECIMAL(10, 2);
+  v_shift_id UUID;
+  v_refund sale_refunds;
+  v_refunds JSONB := '[]'::jsonb;
+BEGIN
+  IF NOT has_permission('void_sales') THEN
+    RAISE EXCEPTION 'You do not have permission to void or refund sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_kind NOT IN ('void', 'refund') THEN
+    RAISE EXCEPTION 'Unknown refund kind %', p_kind;
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item';
+  END IF;
+
+  SELECT id INTO v_shift_id FROM shifts WHERE closed_at IS NULL;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    SELECT * INTO v_sale FROM sales WHERE id = (v_line->>'sale_id')::UUID FOR UPDATE;
+
+    IF v_sale.id IS NULL THEN
+      RAISE EXCEPTION 'Sale % not found', v_line->>'sale_id';
+    END IF;
+
+    IF v_sale.cancelled THEN
+      RAISE EXCEPTION '% has already been voided', v_sale.product_name;
+    END IF;
+
+    v_qty := (v_line->>'qty')::DECIMAL;
+
+    SELECT COALESCE(SUM(qty), 0), COALESCE(SUM(amount), 0)
+    INTO v_refunded_qty, v_refunded_amount
+    FROM sale_refunds
+    WHERE sale_id = v_sale.id AND kind = 'refund';
+
+    IF p_kind = 'void' THEN
+      IF v_refunded_qty > 0 THEN
+        RAISE EXCEPTION '% has refunds already; refund the rest instead of voiding', v_sale.product_name;
+      END IF;
+
+      v_qty := v_sale.qty;
+      v_amount := v_sale.total;
+
+      UPDATE sales
+      SET cancelled = true, cancelled_at = NOW()
+      WHERE id = v_sale.id;
+    ELSE
+      IF v_qty IS NULL OR v_qty <= 0 OR v_qty > v_sale.qty - v_refunded_qty THEN
+        RAISE EXCEPTION 'Only % of % can be refunded', trim_scale(v_sale.qty - v_refunded_qty), v_sale.product_name;
+      END IF;
+
+      -- The last unit takes whatever is left so rounding never over-refunds
+      v_amount := CASE
+        WHEN v_refunded_qty + v_qty = v_sale.qty THEN v_sale.total - v_refunded_amount
+        ELSE ROUND(v_sale.total * v_qty / v_sale.qty, 2)
+      END;
+    END IF;
+
+    INSERT INTO sale_refunds (
+      kind, sale_id, transaction_id, transaction_number, product_id, product_name,
+      qty, amount, cost, payment_method, cashier_id, cashier_name, reason_code, note, restocked, shift_id,
+      refunded_by, refunded_by_name
+    )
+    VALUES (
+      p_kind, v_sale.id, v_sale.transaction_id, v_sale.transaction_number, v_sale.product_id, v_sale.product_name,
+      v_qty, v_amount, v_sale.cost * v_qty, v_sale.payment_method, v_sale.cashier_id, v_sale.cashier_name,
+      p_reason_code, NULLIF(TRIM(p_note), ''), p_restock, v_shift_id, current_app_user_id(), current_app_user_name()
+    )
+    RETURNING * INTO v_refund;
+
+    IF p_restock THEN
+      PERFORM set_stock_movement_context(
+        'refund_restore', v_sale.id, v_sale.transaction_id, v_sale.transaction_number,
+        NULLIF(TRIM(p_note), '')
+      );
+
+      UPDATE products p
+      SET qty = p.qty + to_storage_unit(p.unit_type, pi.qty * v_qty)
+      FROM product_ingredients pi
+      WHERE pi.product_id = v_sale.product_id
+        AND p.id = pi.item_id;
+
+      PERFORM clear_stock_movement_context();
+    END IF;
+
+    v_refunds := v_refunds || to_jsonb(v_refund);
+  END LOOP;
+
+  RETURN v_refunds;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION cancel_recent_transaction(p_transaction_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_sale sales;
+  v_count INTEGER := 0;
+  v_total DECIMAL(10, 2) := 0;
+  v_shift_id UUID;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to cancel sales' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock every line first so a concurrent cancel or refund has to wait
+  PERFORM 1 FROM sales WHERE transaction_id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM sales WHERE transaction_id = p_transaction_id AND cancelled) THEN
+    RAISE EXCEPTION 'Transaction has already been cancelled';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM sale_refunds WHERE transaction_id = p_transaction_id) THEN
+    RAISE EXCEPTION 'Transaction has refunds; void or refund it from Reports instead';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM sales
+    WHERE transaction_id = p_transaction_id AND created_at < NOW() - INTERVAL '1 minute'
+  ) AND NOT has_permission('void_sales') THEN
+    RAISE EXCEPTION 'Sale cannot be cancelled - time expired' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_shift_id FROM shifts WHERE closed_at IS NULL;
+
+  FOR v_sale IN SELECT * FROM sales WHERE transaction_id = p_transaction_id
+  LOOP
+    UPDATE sales
+    SET cancelled = true, cancelled_at = NOW()
+    WHERE id = v_sale.id;
+
+    PERFORM set_stock_movement_context(
+      'cancel_restore', v_sale.id, v_sale.transaction_id, v_sale.transaction_number
+    );
+
+    UPDATE products p
+    SET qty = p.qty + to_storage_unit(p.unit_type, pi.qty * v_sale.qty)
+    FROM product_ingredients pi
+    WHERE pi.product_id = v_sale.product_id
+      AND p.id = pi.item_id;
+
+    PERFORM clear_stock_movement_context();
+
+    INSERT INTO sale_refunds (
+      kind, sale_id, transaction_id, transaction_number, product_id, product_name,
+      qty, amount, cost, payment_method, cashier_id, cashier_name, reason_code, note, restocked, shift_id,
+      refunded_by, refunded_by_name
+    )
+    VALUES (
+      'void', v_sale.id, v_sale.transaction_id, v_sale.transaction_number, v_sale.product_id, v_sale.product_name,
+      v_sale.qty, v_sale.total, v_sale.cost * v_sale.qty, v_sale.payment_method, v_sale.cashier_id, v_sale.cashier_name,
+      'cashier_error', 'Cancelled right after checkout', true, v_shift_id,
+      current_app_user_id(), current_app_user_name()
+    );
+
+    v_count := v_count + 1;
+    v_total := v_total + v_sale.total;
+  END LOOP;
+
+  RETURN jsonb_build_object('lines', v_count, 'total', v_total);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v16 completed - stock movement ledger added!' as status;
+
+SELECT trigger_name, event_manipulation
+FROM information_schema.triggers
+WHERE event_object_table = 'products'
+ORDER BY trigger_name;
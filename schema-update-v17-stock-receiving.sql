@@ -0,0 +1,139 @@
+-- KASHPOS v2.0 Database Schema Update v17
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v16-stock-movements.sql
+--
+-- This update adds:
+-- 1. Four decimal places for inventory costs - costs are per gram / ml, so
+--    two decimals were too coarse for a moving average
+-- 2. stock_receipts table - every delivery with its supplier and reference
+-- 3. receive_stock() - adds a delivery to the current stock and recomputes
+--    the item's cost as a weighted moving average
+
+-- ============================================
+-- 1. COST PRECISION
+-- ============================================
+
+ALTER TABLE products ALTER COLUMN cost TYPE DECIMAL(12, 4);
+ALTER TABLE stock_movements ALTER COLUMN unit_cost TYPE DECIMAL(12, 4);
+
+-- ============================================
+-- 2. RECEIPTS TABLE
+-- ============================================
+-- qty is in storage units like products.qty; unit_cost and the cost columns
+-- are per g / ml / pc like products.cost.
+
+CREATE TABLE IF NOT EXISTS stock_receipts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  item_id UUID NOT NULL,
+  item_name TEXT NOT NULL,
+  qty DECIMAL(10, 2) NOT NULL CHECK (qty > 0),
+  total_cost DECIMAL(10, 2) NOT NULL CHECK (total_cost >= 0),
+  unit_cost DECIMAL(12, 4) NOT NULL,
+  previous_qty DECIMAL(10, 2) NOT NULL,
+  previous_cost DECIMAL(12, 4) NOT NULL,
+  new_cost DECIMAL(12, 4) NOT NULL,
+  supplier TEXT,
+  reference_number TEXT,
+  note TEXT,
+  received_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  received_by_name TEXT,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_receipts_item_id ON stock_receipts(item_id, received_at);
+CREATE INDEX IF NOT EXISTS idx_stock_receipts_received_at ON stock_receipts(received_at);
+
+ALTER TABLE stock_receipts ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by receive_stock()
+DROP POLICY IF EXISTS "Inventory staff can read stock_receipts" ON stock_receipts;
+CREATE POLICY "Inventory staff can read stock_receipts" ON stock_receipts
+  FOR SELECT USING (has_permission('adjust_inventory'));
+
+-- ============================================
+-- 3. RECEIVE STOCK
+-- ============================================
+-- p_qty is the delivered amount in storage units, p_total_cost what the
+-- invoice charged for all of it. Stock that is below zero (sold before it
+-- was received) doesn't count towards the average.
+
+CREATE OR REPLACE FUNCTION receive_stock(
+  p_item_id UUID,
+  p_qty DECIMAL,
+  p_total_cost DECIMAL,
+  p_supplier TEXT DEFAULT NULL,
+  p_reference_number TEXT DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS products AS $$
+DECLARE
+  v_item products;
+  v_on_hand DECIMAL;
+  v_received DECIMAL;
+  v_unit_cost DECIMAL(12, 4);
+  v_new_cost DECIMAL(12, 4);
+  v_supplier TEXT := NULLIF(TRIM(p_supplier), '');
+  v_reference_number TEXT := NULLIF(TRIM(p_reference_number), '');
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust inventory' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_qty IS NULL OR p_qty <= 0 THEN
+    RAISE EXCEPTION 'Enter the quantity received';
+  END IF;
+
+  IF p_total_cost IS NULL OR p_total_cost < 0 THEN
+    RAISE EXCEPTION 'Enter the invoice cost';
+  END IF;
+
+  SELECT * INTO v_item FROM products WHERE id = p_item_id FOR UPDATE;
+
+  IF v_item.id IS NULL THEN
+    RAISE EXCEPTION 'Item % not found', p_item_id;
+  END IF;
+
+  -- Weighted average in cost units (per g / ml / pc)
+  v_on_hand := GREATEST(to_ingredient_unit(v_item.unit_type, v_item.qty), 0);
+  v_received := to_ingredient_unit(v_item.unit_type, p_qty);
+  v_unit_cost := p_total_cost / v_received;
+  v_new_cost := (v_on_hand * v_item.cost + p_total_cost) / (v_on_hand + v_received);
+
+  INSERT INTO stock_receipts (
+    item_id, item_name, qty, total_cost, unit_cost, previous_qty, previous_cost, new_cost,
+    supplier, reference_number, note, received_by, received_by_name
+  )
+  VALUES (
+    v_item.id, v_item.name, p_qty, p_total_cost, v_unit_cost, v_item.qty, v_item.cost, v_new_cost,
+    v_supplier, v_reference_number, NULLIF(TRIM(p_note), ''), current_app_user_id(), current_app_user_name()
+  );
+
+  PERFORM set_stock_movement_context(
+    'purchase', NULL, NULL, NULL,
+    NULLIF(CONCAT_WS(' · ', v_supplier, v_reference_number, NULLIF(TRIM(p_note), '')), ''),
+    v_unit_cost
+  );
+
+  UPDATE products
+  SET qty = qty + p_qty, cost = v_new_cost
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+
+  PERFORM clear_stock_movement_context();
+
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v17 completed - stock receiving added!' as status;
+
+SELECT table_name, column_name, numeric_precision, numeric_scale
+FROM information_schema.columns
+WHERE (table_name = 'products' AND column_name = 'cost')
+   OR (table_name = 'stock_movements' AND column_name = 'unit_cost');
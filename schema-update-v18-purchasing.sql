@@ -0,0 +1,454 @@
+-- KASHPOS v2.0 Database Schema Update v18
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v17-stock-receiving.sql
+--
+-- This update adds:
+-- 1. suppliers table, and a preferred supplier on each inventory item
+-- 2. purchase_orders and purchase_order_lines tables
+-- 3. Functions to save, send, cancel and receive purchase orders. Receiving
+--    goes through receive_stock() so stock, average cost and the stock
+--    ledger are updated the same way as a manual delivery
+--
+-- Purchase order status: draft -> sent -> partially_received -> received
+-- Any order that isn't fully received can be cancelled.
+
+-- ============================================
+-- 1. SUPPLIERS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE,
+  contact_name TEXT,
+  phone TEXT,
+  email TEXT,
+  lead_time_days INTEGER NOT NULL DEFAULT 0 CHECK (lead_time_days >= 0),
+  payment_terms TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_suppliers_updated_at ON suppliers;
+CREATE TRIGGER update_suppliers_updated_at
+  BEFORE UPDATE ON suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Inventory editors can manage suppliers" ON suppliers;
+CREATE POLICY "Inventory editors can manage suppliers" ON suppliers
+  FOR ALL USING (has_permission('adjust_inventory')) WITH CHECK (has_permission('adjust_inventory'));
+
+-- Preferred supplier for an inventory item
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL;
+
+-- ============================================
+-- 2. PURCHASE ORDERS
+-- ============================================
+-- qty_ordered / qty_received are in storage units like products.qty;
+-- expected_unit_cost is per g / ml / pc like products.cost.
+
+CREATE SEQUENCE IF NOT EXISTS purchase_order_number_seq;
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  po_number TEXT NOT NULL UNIQUE
+    DEFAULT 'PO-' || LPAD(nextval('purchase_order_number_seq')::TEXT, 5, '0'),
+  supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL,
+  supplier_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN (
+    'draft', 'sent', 'partially_received', 'received', 'cancelled'
+  )),
+  expected_at DATE,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  item_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  item_name TEXT NOT NULL,
+  qty_ordered DECIMAL(10, 2) NOT NULL CHECK (qty_ordered > 0),
+  qty_received DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  expected_unit_cost DECIMAL(12, 4) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_order ON purchase_order_lines(purchase_order_id);
+
+DROP TRIGGER IF EXISTS update_purchase_orders_updated_at ON purchase_orders;
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for the app; the functions below enforce the status rules
+DROP POLICY IF EXISTS "Inventory editors can read purchase_orders" ON purchase_orders;
+CREATE POLICY "Inventory editors can read purchase_orders" ON purchase_orders
+  FOR SELECT USING (has_permission('adjust_inventory'));
+
+DROP POLICY IF EXISTS "Inventory editors can read purchase_order_lines" ON purchase_order_lines;
+CREATE POLICY "Inventory editors can read purchase_order_lines" ON purchase_order_lines
+  FOR SELECT USING (has_permission('adjust_inventory'));
+
+-- Receipts made against an order point back to it
+ALTER TABLE stock_receipts
+ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS purchase_order_line_id UUID REFERENCES purchase_order_lines(id) ON DELETE SET NULL;
+
+-- ============================================
+-- 3. RECEIVE STOCK FROM A SUPPLIER
+-- ============================================
+-- Same as v17, plus the supplier and purchase order line the delivery
+-- belongs to. Dropped first because the parameter list changed.
+
+DROP FUNCTION IF EXISTS receive_stock(UUID, DECIMAL, DECIMAL, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION receive_stock(
+  p_item_id UUID,
+  p_qty DECIMAL,
+  p_total_cost DECIMAL,
+  p_supplier TEXT DEFAULT NULL,
+  p_reference_number TEXT DEFAULT NULL,
+  p_note TEXT DEFAULT NULL,
+  p_supplier_id UUID DEFAULT NULL,
+  p_purchase_order_line_id UUID DEFAULT NULL
+)
+RETURNS products AS $$
+DECLARE
+  v_item products;
+  v_on_hand DECIMAL;
+  v_received DECIMAL;
+  v_unit_cost DECIMAL(12, 4);
+  v_new_cost DECIMAL(12, 4);
+  v_supplier TEXT := NULLIF(TRIM(p_supplier), '');
+  v_reference_number TEXT := NULLIF(TRIM(p_reference_number), '');
+  v_purchase_order_id UUID;
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust inventory' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_qty IS NULL OR p_qty <= 0 THEN
+    RAISE EXCEPTION 'Enter the quantity received';
+  END IF;
+
+  IF p_total_cost IS NULL OR p_total_cost < 0 THEN
+    RAISE EXCEPTION 'Enter the invoice cost';
+  END IF;
+
+  SELECT * INTO v_item FROM products WHERE id = p_item_id FOR UPDATE;
+
+  IF v_item.id IS NULL THEN
+    RAISE EXCEPTION 'Item % not found', p_item_id;
+  END IF;
+
+  IF v_supplier IS NULL AND p_supplier_id IS NOT NULL THEN
+    SELECT name INTO v_supplier FROM suppliers WHERE id = p_supplier_id;
+  END IF;
+
+  IF p_purchase_order_line_id IS NOT NULL THEN
+    SELECT purchase_order_id INTO v_purchase_order_id
+    FROM purchase_order_lines
+    WHERE id = p_purchase_order_line_id;
+  END IF;
+
+  -- Weighted average in cost units (per g / ml / pc)
+  v_on_hand := GREATEST(to_ingredient_unit(v_item.unit_type, v_item.qty), 0);
+  v_received := to_ingredient_unit(v_item.unit_type, p_qty);
+  v_unit_cost := p_total_cost / v_received;
+  v_new_cost := (v_on_hand * v_item.cost + p_total_cost) / (v_on_hand + v_received);
+
+  INSERT INTO stock_receipts (
+    item_id, item_name, qty, total_cost, unit_cost, previous_qty, previous_cost, new_cost,
+    supplier, reference_number, note, received_by, received_by_name,
+    supplier_id, purchase_order_id, purchase_order_line_id
+  )
+  VALUES (
+    v_item.id, v_item.name, p_qty, p_total_cost, v_unit_cost, v_item.qty, v_item.cost, v_new_cost,
+    v_supplier, v_reference_number, NULLIF(TRIM(p_note), ''), current_app_user_id(), current_app_user_name(),
+    p_supplier_id, v_purchase_order_id, p_purchase_order_line_id
+  );
+
+  PERFORM set_stock_movement_context(
+    'purchase', NULL, NULL, NULL,
+    NULLIF(CONCAT_WS(' · ', v_supplier, v_reference_number, NULLIF(TRIM(p_note), '')), ''),
+    v_unit_cost
+  );
+
+  UPDATE products
+  SET qty = qty + p_qty, cost = v_new_cost
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+
+  PERFORM clear_stock_movement_context();
+
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 4. PURCHASE ORDER FUNCTIONS
+-- ============================================
+
+-- Creates a draft (p_id NULL) or replaces a draft's supplier, dates and lines.
+-- p_lines: [{ "item_id": "<products.id>", "qty_ordered": 5, "expected_unit_cost": 0.05 }, ...]
+CREATE OR REPLACE FUNCTION save_purchase_order(
+  p_id UUID,
+  p_supplier_id UUID,
+  p_expected_at DATE,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS purchase_orders AS $$
+DECLARE
+  v_order purchase_orders;
+  v_supplier suppliers;
+  v_unknown_item UUID;
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to manage purchase orders' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_supplier FROM suppliers WHERE id = p_supplier_id;
+
+  IF v_supplier.id IS NULL THEN
+    RAISE EXCEPTION 'Choose a supplier';
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_lines) AS l(item_id UUID, qty_ordered DECIMAL, expected_unit_cost DECIMAL)
+    WHERE l.item_id IS NULL OR l.qty_ordered IS NULL OR l.qty_ordered <= 0 OR COALESCE(l.expected_unit_cost, 0) < 0
+  ) THEN
+    RAISE EXCEPTION 'Every line needs an item and a positive quantity';
+  END IF;
+
+  SELECT l.item_id INTO v_unknown_item
+  FROM jsonb_to_recordset(p_lines) AS l(item_id UUID)
+  LEFT JOIN products p ON p.id = l.item_id
+  WHERE p.id IS NULL
+  LIMIT 1;
+
+  IF v_unknown_item IS NOT NULL THEN
+    RAISE EXCEPTION 'Item % not found', v_unknown_item;
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO purchase_orders (supplier_id, supplier_name, expected_at, notes, created_by, created_by_name)
+    VALUES (v_supplier.id, v_supplier.name, p_expected_at, NULLIF(TRIM(p_notes), ''), current_app_user_id(), current_app_user_name())
+    RETURNING * INTO v_order;
+  ELSE
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_id FOR UPDATE;
+
+    IF v_order.id IS NULL THEN
+      RAISE EXCEPTION 'Purchase order % not found', p_id;
+    END IF;
+
+    IF v_order.status <> 'draft' THEN
+      RAISE EXCEPTION '% has been sent and can no longer be edited', v_order.po_number;
+    END IF;
+
+    UPDATE purchase_orders
+    SET supplier_id = v_supplier.id, supplier_name = v_supplier.name,
+        expected_at = p_expected_at, notes = NULLIF(TRIM(p_notes), '')
+    WHERE id = p_id
+    RETURNING * INTO v_order;
+
+    DELETE FROM purchase_order_lines WHERE purchase_order_id = p_id;
+  END IF;
+
+  INSERT INTO purchase_order_lines (purchase_order_id, item_id, item_name, qty_ordered, expected_unit_cost, sort_order)
+  SELECT v_order.id, p.id, p.name, (e.line->>'qty_ordered')::DECIMAL,
+         COALESCE((e.line->>'expected_unit_cost')::DECIMAL, p.cost), e.position
+  FROM jsonb_array_elements(p_lines) WITH ORDINALITY AS e(line, position)
+  JOIN products p ON p.id = (e.line->>'item_id')::UUID;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION send_purchase_order(p_id UUID)
+RETURNS purchase_orders AS $$
+DECLARE
+  v_order purchase_orders;
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to manage purchase orders' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_id FOR UPDATE;
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'Purchase order % not found', p_id;
+  END IF;
+
+  IF v_order.status <> 'draft' THEN
+    RAISE EXCEPTION '% has already been sent', v_order.po_number;
+  END IF;
+
+  UPDATE purchase_orders
+  SET status = 'sent', sent_at = NOW()
+  WHERE id = p_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION cancel_purchase_order(p_id UUID)
+RETURNS purchase_orders AS $$
+DECLARE
+  v_order purchase_orders;
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to manage purchase orders' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_id FOR UPDATE;
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'Purchase order % not found', p_id;
+  END IF;
+
+  IF v_order.status IN ('received', 'cancelled') THEN
+    RAISE EXCEPTION '% is already %', v_order.po_number, v_order.status;
+  END IF;
+
+  UPDATE purchase_orders
+  SET status = 'cancelled', cancelled_at = NOW()
+  WHERE id = p_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- Receives some or all of a sent order. More than ordered may be received
+-- (suppliers round up); the order is received once every line is covered.
+-- p_lines: [{ "line_id": "<purchase_order_lines.id>", "qty": 5, "unit_cost": 0.05 }, ...]
+-- unit_cost defaults to the line's expected cost.
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_id UUID,
+  p_lines JSONB,
+  p_reference_number TEXT DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS purchase_orders AS $$
+DECLARE
+  v_order purchase_orders;
+  v_line purchase_order_lines;
+  v_entry JSONB;
+  v_qty DECIMAL;
+  v_unit_cost DECIMAL;
+  v_unit_type TEXT;
+  v_received_any BOOLEAN := false;
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to manage purchase orders' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_id FOR UPDATE;
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'Purchase order % not found', p_id;
+  END IF;
+
+  IF v_order.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Only sent orders can be received (% is %)', v_order.po_number, v_order.status;
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB))
+  LOOP
+    v_qty := (v_entry->>'qty')::DECIMAL;
+    CONTINUE WHEN v_qty IS NULL OR v_qty = 0;
+
+    IF v_qty < 0 THEN
+      RAISE EXCEPTION 'Received quantities cannot be negative';
+    END IF;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = (v_entry->>'line_id')::UUID AND purchase_order_id = p_id
+    FOR UPDATE;
+
+    IF v_line.id IS NULL THEN
+      RAISE EXCEPTION 'Line % is not on %', v_entry->>'line_id', v_order.po_number;
+    END IF;
+
+    SELECT unit_type INTO v_unit_type FROM products WHERE id = v_line.item_id;
+
+    IF v_unit_type IS NULL THEN
+      RAISE EXCEPTION '% has been deleted from inventory', v_line.item_name;
+    END IF;
+
+    v_unit_cost := COALESCE((v_entry->>'unit_cost')::DECIMAL, v_line.expected_unit_cost);
+
+    PERFORM receive_stock(
+      v_line.item_id, v_qty, ROUND(v_unit_cost * to_ingredient_unit(v_unit_type, v_qty), 2),
+      v_order.supplier_name, p_reference_number,
+      NULLIF(CONCAT_WS(' · ', v_order.po_number, NULLIF(TRIM(p_note), '')), ''),
+      v_order.supplier_id, v_line.id
+    );
+
+    UPDATE purchase_order_lines
+    SET qty_received = qty_received + v_qty
+    WHERE id = v_line.id;
+
+    v_received_any := true;
+  END LOOP;
+
+  IF NOT v_received_any THEN
+    RAISE EXCEPTION 'Enter the quantity received for at least one item';
+  END IF;
+
+  UPDATE purchase_orders
+  SET status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM purchase_order_lines
+          WHERE purchase_order_id = p_id AND qty_received < qty_ordered
+        ) THEN 'partially_received'
+        ELSE 'received'
+      END,
+      received_at = NOW()
+  WHERE id = p_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v18 completed - suppliers and purchase orders added!' as status;
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name IN ('receive_stock', 'save_purchase_order', 'send_purchase_order', 'cancel_purchase_order', 'receive_purchase_order')
+ORDER BY routine_name;
@@ -0,0 +1,36 @@
+-- KASHPOS v2.0 Database Schema Update v19
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v18-purchasing.sql
+--
+-- This update adds:
+-- 1. Reorder point and par level on inventory items - an item is low on
+--    stock once it drops to its reorder point, and the suggested order
+--    brings it back up to its par level
+
+-- ============================================
+-- 1. REORDER POINTS AND PAR LEVELS
+-- ============================================
+-- Both are in storage units like products.qty (kg / L / pcs). NULL means
+-- the item isn't tracked for low stock.
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS reorder_point DECIMAL(10, 2);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS par_level DECIMAL(10, 2);
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_reorder_levels_check;
+ALTER TABLE products ADD CONSTRAINT products_reorder_levels_check CHECK (
+  (reorder_point IS NULL OR reorder_point >= 0)
+  AND (par_level IS NULL OR par_level > 0)
+  AND (reorder_point IS NULL OR par_level IS NULL OR par_level >= reorder_point)
+);
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v19 completed - reorder points and par levels added!' as status;
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'products' AND column_name IN ('reorder_point', 'par_level')
+ORDER BY column_name;
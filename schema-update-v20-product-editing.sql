@@ -0,0 +1,213 @@
+-- KASHPOS v2.0 Database Schema Update v20
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v19-reorder-points.sql
+--
+-- This update adds:
+-- 1. recipe_versions table - a copy of a finished product's recipe every
+--    time it changes, with what each ingredient cost at the time
+-- 2. save_finished_product() - creates or edits a finished product and its
+--    ingredients in one transaction, recording a new recipe version when
+--    the ingredients change
+-- 3. Version 1 for every existing finished product
+
+-- ============================================
+-- 1. RECIPE VERSIONS TABLE
+-- ============================================
+-- ingredients is [{ item_id, item_name, unit_type, qty, unit_cost }] with qty
+-- in g / ml / pcs like product_ingredients.qty and unit_cost per g / ml / pc
+-- like products.cost. recipe_cost is the cost of one serving at that time.
+
+CREATE TABLE IF NOT EXISTS recipe_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- No foreign key: the history stays when a product is deleted
+  product_id UUID NOT NULL,
+  product_name TEXT NOT NULL,
+  version_number INTEGER NOT NULL,
+  ingredients JSONB NOT NULL DEFAULT '[]'::JSONB,
+  recipe_cost DECIMAL(12, 4) NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (product_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_versions_product_id ON recipe_versions(product_id, version_number);
+
+ALTER TABLE recipe_versions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for the app; rows are only written by save_finished_product()
+DROP POLICY IF EXISTS "Inventory staff can read recipe_versions" ON recipe_versions;
+CREATE POLICY "Inventory staff can read recipe_versions" ON recipe_versions
+  FOR SELECT USING (has_permission('adjust_inventory'));
+
+-- Snapshot of a product's current recipe as stored in recipe_versions
+CREATE OR REPLACE FUNCTION current_recipe_snapshot(p_product_id UUID)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'item_id', pi.item_id,
+        'item_name', p.name,
+        'unit_type', p.unit_type,
+        'qty', pi.qty,
+        'unit_cost', p.cost
+      )
+      ORDER BY p.name, pi.item_id
+    ),
+    '[]'::JSONB
+  )
+  FROM product_ingredients pi
+  JOIN products p ON p.id = pi.item_id
+  WHERE pi.product_id = p_product_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 2. SAVE FINISHED PRODUCT
+-- ============================================
+-- p_id NULL creates the product. p_ingredients is [{ item_id, qty }] with qty
+-- in g / ml / pcs. Name, price and image edits don't make a new version;
+-- any change to the ingredients or their quantities does.
+
+CREATE OR REPLACE FUNCTION save_finished_product(
+  p_id UUID,
+  p_name TEXT,
+  p_selling_price DECIMAL,
+  p_image_url TEXT,
+  p_ingredients JSONB
+)
+RETURNS finished_products AS $$
+DECLARE
+  v_product finished_products;
+  v_name TEXT := NULLIF(TRIM(p_name), '');
+  v_old_recipe JSONB;
+  v_new_recipe JSONB;
+  v_snapshot JSONB;
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to edit products' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_name IS NULL THEN
+    RAISE EXCEPTION 'Enter a product name';
+  END IF;
+
+  IF p_selling_price IS NULL OR p_selling_price <= 0 THEN
+    RAISE EXCEPTION 'Enter a valid selling price';
+  END IF;
+
+  IF p_ingredients IS NULL OR jsonb_typeof(p_ingredients) <> 'array' OR jsonb_array_length(p_ingredients) = 0 THEN
+    RAISE EXCEPTION 'Add at least one ingredient';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_ingredients) AS i(item_id UUID, qty DECIMAL)
+    WHERE i.item_id IS NULL OR i.qty IS NULL OR i.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every ingredient needs an item and a positive quantity';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_ingredients) AS i(item_id UUID, qty DECIMAL)
+    LEFT JOIN products p ON p.id = i.item_id
+    WHERE p.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'One of the ingredients is no longer in inventory';
+  END IF;
+
+  -- Same item twice is one ingredient with the quantities added up
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('item_id', item_id, 'qty', qty) ORDER BY item_id), '[]'::JSONB)
+  INTO v_new_recipe
+  FROM (
+    SELECT i.item_id, ROUND(SUM(i.qty), 2) AS qty
+    FROM jsonb_to_recordset(p_ingredients) AS i(item_id UUID, qty DECIMAL)
+    GROUP BY i.item_id
+  ) grouped;
+
+  IF p_id IS NULL THEN
+    INSERT INTO finished_products (name, selling_price, image_url)
+    VALUES (v_name, p_selling_price, p_image_url)
+    RETURNING * INTO v_product;
+  ELSE
+    SELECT * INTO v_product FROM finished_products WHERE id = p_id FOR UPDATE;
+
+    IF v_product.id IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', p_id;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object('item_id', item_id, 'qty', qty) ORDER BY item_id), '[]'::JSONB)
+    INTO v_old_recipe
+    FROM product_ingredients
+    WHERE product_id = p_id;
+
+    UPDATE finished_products
+    SET name = v_name,
+        selling_price = p_selling_price,
+        image_url = p_image_url
+    WHERE id = p_id
+    RETURNING * INTO v_product;
+  END IF;
+
+  IF v_old_recipe IS DISTINCT FROM v_new_recipe THEN
+    DELETE FROM product_ingredients WHERE product_id = v_product.id;
+
+    INSERT INTO product_ingredients (product_id, item_id, qty)
+    SELECT v_product.id, i.item_id, i.qty
+    FROM jsonb_to_recordset(v_new_recipe) AS i(item_id UUID, qty DECIMAL);
+
+    v_snapshot := current_recipe_snapshot(v_product.id);
+
+    INSERT INTO recipe_versions (
+      product_id, product_name, version_number, ingredients, recipe_cost, created_by, created_by_name
+    )
+    VALUES (
+      v_product.id,
+      v_product.name,
+      COALESCE((SELECT MAX(version_number) FROM recipe_versions WHERE product_id = v_product.id), 0) + 1,
+      v_snapshot,
+      COALESCE((
+        SELECT SUM((i->>'qty')::DECIMAL * (i->>'unit_cost')::DECIMAL)
+        FROM jsonb_array_elements(v_snapshot) AS i
+      ), 0),
+      current_app_user_id(),
+      current_app_user_name()
+    );
+  END IF;
+
+  RETURN v_product;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 3. BACKFILL VERSION 1
+-- ============================================
+-- Existing recipes become version 1, costed at today's ingredient costs
+
+INSERT INTO recipe_versions (product_id, product_name, version_number, ingredients, recipe_cost, created_at)
+SELECT
+  fp.id,
+  fp.name,
+  1,
+  current_recipe_snapshot(fp.id),
+  COALESCE((
+    SELECT SUM(pi.qty * p.cost)
+    FROM product_ingredients pi
+    JOIN products p ON p.id = pi.item_id
+    WHERE pi.product_id = fp.id
+  ), 0),
+  fp.created_at
+FROM finished_products fp
+WHERE NOT EXISTS (SELECT 1 FROM recipe_versions rv WHERE rv.product_id = fp.id);
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v20 completed - product editing and recipe versions added!' as status;
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name IN ('current_recipe_snapshot', 'save_finished_product')
+ORDER BY routine_name;
@@ -0,0 +1,469 @@
+-- KASHPOS v2.0 Database Schema Update v21
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v20-product-editing.sql
+--
+-- This update adds:
+-- 1. Effective dates on recipe versions - each version is in effect from
+--    when it was saved until the next one replaced it
+-- 2. Sale lines point at the recipe version they were made with and keep a
+--    per-ingredient cost breakdown of sales.cost
+-- 3. current_recipe_version_id() - the version in effect, starting a new one
+--    if the ingredients were changed outside save_finished_product()
+-- 4. get_recipe_history() - every version with its cost then and now and
+--    what was sold with it
+
+-- ============================================
+-- 1. EFFECTIVE DATES
+-- ============================================
+-- effective_to is NULL for the version in effect now
+
+ALTER TABLE recipe_versions
+ADD COLUMN IF NOT EXISTS effective_from TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS effective_to TIMESTAMP WITH TIME ZONE;
+
+UPDATE recipe_versions rv
+SET effective_from = rv.created_at,
+    effective_to = (
+      SELECT MIN(next.created_at)
+      FROM recipe_versions next
+      WHERE next.product_id = rv.product_id AND next.version_number > rv.version_number
+    )
+WHERE rv.effective_from IS NULL;
+
+ALTER TABLE recipe_versions ALTER COLUMN effective_from SET DEFAULT NOW();
+ALTER TABLE recipe_versions ALTER COLUMN effective_from SET NOT NULL;
+
+-- At most one version in effect per product
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recipe_versions_current
+ON recipe_versions(product_id) WHERE effective_to IS NULL;
+
+-- ============================================
+-- 2. SALE LINE RECIPE AND COST BREAKDOWN
+-- ============================================
+-- cost_breakdown is [{ item_id, item_name, unit_type, qty, unit_cost, cost }]
+-- for one unit sold; the costs add up to sales.cost. NULL for sales made
+-- before this update.
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS recipe_version_id UUID REFERENCES recipe_versions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS cost_breakdown JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_sales_recipe_version_id ON sales(recipe_version_id);
+
+-- Earlier sales belong to whichever version was in effect when they were made
+UPDATE sales s
+SET recipe_version_id = rv.id
+FROM recipe_versions rv
+WHERE s.recipe_version_id IS NULL
+  AND rv.product_id = s.product_id
+  AND s.created_at >= rv.effective_from
+  AND (rv.effective_to IS NULL OR s.created_at < rv.effective_to);
+
+-- Earliest version also covers sales from before it was recorded
+UPDATE sales s
+SET recipe_version_id = rv.id
+FROM recipe_versions rv
+WHERE s.recipe_version_id IS NULL
+  AND rv.product_id = s.product_id
+  AND rv.version_number = 1;
+
+-- ============================================
+-- 3. RECIPE HELPERS
+-- ============================================
+
+-- What one serving of a product costs right now, ingredient by ingredient
+CREATE OR REPLACE FUNCTION recipe_cost_breakdown(p_product_id UUID)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'item_id', pi.item_id,
+        'item_name', p.name,
+        'unit_type', p.unit_type,
+        'qty', pi.qty,
+        'unit_cost', p.cost,
+        'cost', ROUND(pi.qty * p.cost, 4)
+      )
+      ORDER BY p.name, pi.item_id
+    ),
+    '[]'::JSONB
+  )
+  FROM product_ingredients pi
+  JOIN products p ON p.id = pi.item_id
+  WHERE pi.product_id = p_product_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- The recipe version in effect for a product. If its ingredients no longer
+-- match product_ingredients (or there is no version yet) the old one is
+-- closed and a new version starts now.
+CREATE OR REPLACE FUNCTION current_recipe_version_id(p_product_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_current recipe_versions;
+  v_product finished_products;
+  v_live JSONB;
+  v_saved JSONB;
+  v_snapshot JSONB;
+  v_version_id UUID;
+BEGIN
+  SELECT * INTO v_product FROM finished_products WHERE id = p_product_id;
+
+  IF v_product.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_current
+  FROM recipe_versions
+  WHERE product_id = p_product_id AND effective_to IS NULL
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('item_id', item_id::TEXT, 'qty', qty) ORDER BY item_id::TEXT), '[]'::JSONB)
+  INTO v_live
+  FROM (
+    SELECT item_id, SUM(qty) AS qty FROM product_ingredients WHERE product_id = p_product_id GROUP BY item_id
+  ) live;
+
+  IF v_current.id IS NOT NULL THEN
+    SELECT COALESCE(
+      jsonb_agg(jsonb_build_object('item_id', i->>'item_id', 'qty', (i->>'qty')::DECIMAL) ORDER BY i->>'item_id'),
+      '[]'::JSONB
+    )
+    INTO v_saved
+    FROM jsonb_array_elements(v_current.ingredients) AS i;
+
+    IF v_saved = v_live THEN
+      RETURN v_current.id;
+    END IF;
+
+    UPDATE recipe_versions SET effective_to = NOW() WHERE id = v_current.id;
+  END IF;
+
+  v_snapshot := current_recipe_snapshot(p_product_id);
+
+  INSERT INTO recipe_versions (
+    product_id, product_name, version_number, ingredients, recipe_cost,
+    created_by, created_by_name, effective_from
+  )
+  VALUES (
+    p_product_id,
+    v_product.name,
+    COALESCE((SELECT MAX(version_number) FROM recipe_versions WHERE product_id = p_product_id), 0) + 1,
+    v_snapshot,
+    COALESCE((
+      SELECT SUM((i->>'qty')::DECIMAL * (i->>'unit_cost')::DECIMAL)
+      FROM jsonb_array_elements(v_snapshot) AS i
+    ), 0),
+    current_app_user_id(),
+    current_app_user_name(),
+    NOW()
+  )
+  RETURNING id INTO v_version_id;
+
+  RETURN v_version_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION current_recipe_version_id(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 4. SAVE FINISHED PRODUCT USES THE SAME VERSIONING
+-- ============================================
+-- Same as v20, but the version is started by current_recipe_version_id()
+-- so it gets its effective dates.
+
+CREATE OR REPLACE FUNCTION save_finished_product(
+  p_id UUID,
+  p_name TEXT,
+  p_selling_price DECIMAL,
+  p_image_url TEXT,
+  p_ingredients JSONB
+)
+RETURNS finished_products AS $$
+DECLARE
+  v_product finished_products;
+  v_name TEXT := NULLIF(TRIM(p_name), '');
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to edit products' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_name IS NULL THEN
+    RAISE EXCEPTION 'Enter a product name';
+  END IF;
+
+  IF p_selling_price IS NULL OR p_selling_price <= 0 THEN
+    RAISE EXCEPTION 'Enter a valid selling price';
+  END IF;
+
+  IF p_ingredients IS NULL OR jsonb_typeof(p_ingredients) <> 'array' OR jsonb_array_length(p_ingredients) = 0 THEN
+    RAISE EXCEPTION 'Add at least one ingredient';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_ingredients) AS i(item_id UUID, qty DECIMAL)
+    WHERE i.item_id IS NULL OR i.qty IS NULL OR i.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every ingredient needs an item and a positive quantity';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_ingredients) AS i(item_id UUID, qty DECIMAL)
+    LEFT JOIN products p ON p.id = i.item_id
+    WHERE p.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'One of the ingredients is no longer in inventory';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO finished_products (name, selling_price, image_url)
+    VALUES (v_name, p_selling_price, p_image_url)
+    RETURNING * INTO v_product;
+  ELSE
+    UPDATE finished_products
+    SET name = v_name,
+        selling_price = p_selling_price,
+        image_url = p_image_url
+    WHERE id = p_id
+    RETURNING * INTO v_product;
+
+    IF v_product.id IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', p_id;
+    END IF;
+  END IF;
+
+  -- Same item twice is one ingredient with the quantities added up
+  DELETE FROM product_ingredients WHERE product_id = v_product.id;
+
+  INSERT INTO product_ingredients (product_id, item_id, qty)
+  SELECT v_product.id, i.item_id, ROUND(SUM(i.qty), 2)
+  FROM jsonb_to_recordset(p_ingredients) AS i(item_id UUID, qty DECIMAL)
+  GROUP BY i.item_id;
+
+  -- Starts a new version only if the ingredients changed
+  PERFORM current_recipe_version_id(v_product.id);
+
+  RETURN v_product;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 5. CHECKOUT RECORDS THE RECIPE
+-- ============================================
+-- Same as v16, plus the recipe version and cost breakdown on each sale line.
+-- sales.cost is now the sum of the breakdown.
+
+CREATE OR REPLACE FUNCTION process_checkout(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_customer_type TEXT,
+  p_dine_in_takeout TEXT,
+  p_customer_payment DECIMAL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_id UUID := uuid_generate_v4();
+  v_transaction_number TEXT;
+  v_unknown_product UUID;
+  v_cart_total DECIMAL;
+  v_out_of_stock JSONB;
+  v_item RECORD;
+  v_sale JSONB;
+  v_sales JSONB := '[]'::JSONB;
+  v_breakdown JSONB;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to record sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    WHERE c.product_id IS NULL OR c.qty IS NULL OR c.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every cart item needs a product and a positive quantity';
+  END IF;
+
+  SELECT c.product_id INTO v_unknown_product
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  LEFT JOIN finished_products fp ON fp.id = c.product_id
+  WHERE fp.id IS NULL
+  LIMIT 1;
+
+  IF v_unknown_product IS NOT NULL THEN
+    RAISE EXCEPTION 'Product % not found', v_unknown_product;
+  END IF;
+
+  SELECT SUM(c.qty * fp.selling_price) INTO v_cart_total
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  JOIN finished_products fp ON fp.id = c.product_id;
+
+  IF COALESCE(p_customer_payment, 0) < v_cart_total THEN
+    RAISE EXCEPTION 'Payment of % does not cover the total of %', COALESCE(p_customer_payment, 0), v_cart_total;
+  END IF;
+
+  -- Lock every inventory row this cart touches (in id order to avoid deadlocks)
+  -- so concurrent checkouts wait for each other instead of overwriting stock
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Compare ingredient demand with the current (locked) stock
+  WITH demand AS (
+    SELECT pi.item_id, SUM(pi.qty * c.qty) AS required
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    GROUP BY pi.item_id
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'item_name', p.name,
+    'unit_type', p.unit_type,
+    'required', d.required,
+    'available', to_ingredient_unit(p.unit_type, p.qty)
+  ) ORDER BY p.name)
+  INTO v_out_of_stock
+  FROM demand d
+  JOIN products p ON p.id = d.item_id
+  WHERE to_ingredient_unit(p.unit_type, p.qty) < d.required;
+
+  IF v_out_of_stock IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'out_of_stock',
+      'out_of_stock', v_out_of_stock
+    );
+  END IF;
+
+  -- Reserve the next transaction number; the counter row stays locked until
+  -- this transaction commits, and a rolled back checkout releases its number
+  v_transaction_number := next_transaction_number();
+
+  -- Insert one sale line per cart item, in cart order
+  -- (cost is ingredient cost only, no OPEX per unit)
+  FOR v_item IN
+    SELECT (e.item->>'product_id')::UUID AS product_id, (e.item->>'qty')::INTEGER AS qty
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position)
+    ORDER BY e.position
+  LOOP
+    v_breakdown := recipe_cost_breakdown(v_item.product_id);
+
+    INSERT INTO sales (
+      transaction_id, transaction_number, product_id, product_name, qty, unit_type,
+      cost, selling_price, total, payment_method, customer_type, dine_in_takeout,
+      customer_payment, recipe_version_id, cost_breakdown
+    )
+    SELECT
+      v_transaction_id, v_transaction_number, fp.id, fp.name, v_item.qty, 'quantity',
+      COALESCE((SELECT SUM((b->>'cost')::DECIMAL) FROM jsonb_array_elements(v_breakdown) AS b), 0),
+      fp.selling_price, v_item.qty * fp.selling_price,
+      p_payment_method, p_customer_type, p_dine_in_takeout, p_customer_payment,
+      current_recipe_version_id(fp.id), v_breakdown
+    FROM finished_products fp
+    WHERE fp.id = v_item.product_id
+    RETURNING to_jsonb(sales.*) INTO v_sale;
+
+    v_sales := v_sales || jsonb_build_array(v_sale);
+  END LOOP;
+
+  -- Deduct ingredients relative to the current stock
+  PERFORM set_stock_movement_context('sale_deduction', NULL, v_transaction_id, v_transaction_number);
+
+  WITH demand AS (
+    SELECT pi.item_id, SUM(pi.qty * c.qty) AS required
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    GROUP BY pi.item_id
+  )
+  UPDATE products p
+  SET qty = p.qty - to_storage_unit(p.unit_type, d.required)
+  FROM demand d
+  WHERE p.id = d.item_id;
+
+  PERFORM clear_stock_movement_context();
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'transaction_number', v_transaction_number,
+    'sales', v_sales
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+-- ============================================
+-- 6. RECIPE HISTORY
+-- ============================================
+-- Every version of a product, newest first. current_cost is what that
+-- version's ingredients would cost at today's prices; the sales columns only
+-- count sales that weren't cancelled.
+
+CREATE OR REPLACE FUNCTION get_recipe_history(p_product_id UUID)
+RETURNS TABLE (
+  id UUID,
+  version_number INTEGER,
+  product_name TEXT,
+  ingredients JSONB,
+  recipe_cost DECIMAL,
+  current_cost DECIMAL,
+  effective_from TIMESTAMP WITH TIME ZONE,
+  effective_to TIMESTAMP WITH TIME ZONE,
+  created_by_name TEXT,
+  units_sold BIGINT,
+  average_unit_cost DECIMAL,
+  average_selling_price DECIMAL
+) AS $$
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to view recipes' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    rv.id,
+    rv.version_number,
+    rv.product_name,
+    rv.ingredients,
+    rv.recipe_cost,
+    COALESCE((
+      SELECT SUM((i->>'qty')::DECIMAL * COALESCE(p.cost, (i->>'unit_cost')::DECIMAL))
+      FROM jsonb_array_elements(rv.ingredients) AS i
+      LEFT JOIN products p ON p.id = (i->>'item_id')::UUID
+    ), 0)::DECIMAL,
+    rv.effective_from,
+    rv.effective_to,
+    rv.created_by_name,
+    COALESCE(SUM(s.qty), 0)::BIGINT,
+    CASE WHEN SUM(s.qty) > 0 THEN ROUND(SUM(s.cost * s.qty) / SUM(s.qty), 4) END,
+    CASE WHEN SUM(s.qty) > 0 THEN ROUND(SUM(s.selling_price * s.qty) / SUM(s.qty), 2) END
+  FROM recipe_versions rv
+  LEFT JOIN sales s ON s.recipe_version_id = rv.id AND NOT s.cancelled
+  WHERE rv.product_id = p_product_id
+  GROUP BY rv.id
+  ORDER BY rv.version_number DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v21 completed - recipe effective dates and sale cost breakdowns added!' as status;
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name IN ('recipe_cost_breakdown', 'current_recipe_version_id', 'save_finished_product', 'process_checkout', 'get_recipe_history')
+ORDER BY routine_name;
@@ -0,0 +1,290 @@
+-- KASHPOS v2.0 Database Schema Update v22
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v21-recipe-history.sql
+--
+-- This update adds:
+-- 1. Prep items - inventory items made in-house in batches (sauces, fillings)
+--    from raw inventory items. They are products rows, so finished products
+--    use them as ingredients and checkout deducts them like any other item.
+-- 2. prep_item_ingredients table - the raw items one batch uses
+-- 3. production_batches table - every batch produced with its cost
+-- 4. save_prep_recipe() and produce_batch() - a batch deducts the raw items
+--    and adds the prep item's stock at the batch's cost per unit
+
+-- ============================================
+-- 1. PREP ITEMS
+-- ============================================
+-- batch_yield is how much one batch makes, in storage units like qty.
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS is_prep BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS batch_yield DECIMAL(10, 2) CHECK (batch_yield IS NULL OR batch_yield > 0);
+
+-- ============================================
+-- 2. PREP RECIPES
+-- ============================================
+-- qty is per batch, in g / ml / pcs like product_ingredients.qty. Only raw
+-- items can go into a prep item.
+
+CREATE TABLE IF NOT EXISTS prep_item_ingredients (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  prep_item_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  qty DECIMAL(10, 2) NOT NULL CHECK (qty > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (prep_item_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prep_item_ingredients_prep_item_id ON prep_item_ingredients(prep_item_id);
+
+ALTER TABLE prep_item_ingredients ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for the app; written by save_prep_recipe()
+DROP POLICY IF EXISTS "Inventory staff can read prep_item_ingredients" ON prep_item_ingredients;
+CREATE POLICY "Inventory staff can read prep_item_ingredients" ON prep_item_ingredients
+  FOR SELECT USING (has_permission('adjust_inventory'));
+
+-- ============================================
+-- 3. PRODUCTION BATCHES
+-- ============================================
+-- qty is in storage units; unit_cost and the cost columns are per g / ml / pc.
+-- ingredients is [{ item_id, item_name, unit_type, qty, unit_cost }] with the
+-- raw amounts actually used.
+
+CREATE TABLE IF NOT EXISTS production_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  prep_item_id UUID NOT NULL,
+  prep_item_name TEXT NOT NULL,
+  batches DECIMAL(10, 2) NOT NULL CHECK (batches > 0),
+  qty DECIMAL(10, 2) NOT NULL CHECK (qty > 0),
+  total_cost DECIMAL(12, 4) NOT NULL,
+  unit_cost DECIMAL(12, 4) NOT NULL,
+  previous_cost DECIMAL(12, 4) NOT NULL,
+  new_cost DECIMAL(12, 4) NOT NULL,
+  ingredients JSONB NOT NULL DEFAULT '[]'::JSONB,
+  note TEXT,
+  produced_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  produced_by_name TEXT,
+  produced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_production_batches_prep_item_id ON production_batches(prep_item_id, produced_at);
+
+ALTER TABLE production_batches ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for the app; rows are only written by produce_batch()
+DROP POLICY IF EXISTS "Inventory staff can read production_batches" ON production_batches;
+CREATE POLICY "Inventory staff can read production_batches" ON production_batches
+  FOR SELECT USING (has_permission('adjust_inventory'));
+
+-- Ledger types for the two sides of a batch
+ALTER TABLE stock_movements DROP CONSTRAINT IF EXISTS stock_movements_movement_type_check;
+ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_movement_type_check CHECK (movement_type IN (
+  'purchase', 'sale_deduction', 'cancel_restore', 'refund_restore',
+  'manual_adjustment', 'waste', 'count_correction',
+  'production_use', 'production_output'
+));
+
+-- ============================================
+-- 4. PREP FUNCTIONS
+-- ============================================
+
+-- Replaces a prep item's recipe and batch yield.
+-- p_ingredients: [{ "item_id": "<products.id>", "qty": 500 }, ...] per batch
+CREATE OR REPLACE FUNCTION save_prep_recipe(
+  p_prep_item_id UUID,
+  p_batch_yield DECIMAL,
+  p_ingredients JSONB
+)
+RETURNS products AS $$
+DECLARE
+  v_item products;
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust inventory' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_item FROM products WHERE id = p_prep_item_id FOR UPDATE;
+
+  IF v_item.id IS NULL THEN
+    RAISE EXCEPTION 'Item % not found', p_prep_item_id;
+  END IF;
+
+  IF p_batch_yield IS NULL OR p_batch_yield <= 0 THEN
+    RAISE EXCEPTION 'Enter how much one batch makes';
+  END IF;
+
+  IF p_ingredients IS NULL OR jsonb_typeof(p_ingredients) <> 'array' OR jsonb_array_length(p_ingredients) = 0 THEN
+    RAISE EXCEPTION 'Add at least one ingredient';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_ingredients) AS i(item_id UUID, qty DECIMAL)
+    WHERE i.item_id IS NULL OR i.qty IS NULL OR i.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every ingredient needs an item and a positive quantity';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_ingredients) AS i(item_id UUID, qty DECIMAL)
+    LEFT JOIN products p ON p.id = i.item_id
+    WHERE p.id IS NULL OR p.is_prep OR p.id = p_prep_item_id
+  ) THEN
+    RAISE EXCEPTION 'Prep items can only be made from raw inventory items';
+  END IF;
+
+  -- No prep items inside prep items
+  IF EXISTS (SELECT 1 FROM prep_item_ingredients WHERE item_id = p_prep_item_id) THEN
+    RAISE EXCEPTION '% is an ingredient of another prep item', v_item.name;
+  END IF;
+
+  DELETE FROM prep_item_ingredients WHERE prep_item_id = p_prep_item_id;
+
+  INSERT INTO prep_item_ingredients (prep_item_id, item_id, qty)
+  SELECT p_prep_item_id, i.item_id, ROUND(SUM(i.qty), 2)
+  FROM jsonb_to_recordset(p_ingredients) AS i(item_id UUID, qty DECIMAL)
+  GROUP BY i.item_id;
+
+  UPDATE products
+  SET is_prep = true, batch_yield = p_batch_yield
+  WHERE id = p_prep_item_id
+  RETURNING * INTO v_item;
+
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- Makes p_batches batches of a prep item. p_actual_yield (storage units)
+-- records what actually came out when it differs from batches x batch_yield.
+-- The prep item's cost becomes the weighted average of what's on hand and
+-- the new batch, like receive_stock().
+CREATE OR REPLACE FUNCTION produce_batch(
+  p_prep_item_id UUID,
+  p_batches DECIMAL,
+  p_actual_yield DECIMAL DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS products AS $$
+DECLARE
+  v_item products;
+  v_yield DECIMAL;
+  v_short TEXT;
+  v_ingredients JSONB;
+  v_total_cost DECIMAL;
+  v_on_hand DECIMAL;
+  v_produced DECIMAL;
+  v_unit_cost DECIMAL(12, 4);
+  v_new_cost DECIMAL(12, 4);
+  v_note TEXT;
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to adjust inventory' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_batches IS NULL OR p_batches <= 0 THEN
+    RAISE EXCEPTION 'Enter how many batches to make';
+  END IF;
+
+  -- Lock the prep item and its raw items in id order so concurrent batches
+  -- and checkouts wait for each other
+  PERFORM 1
+  FROM products
+  WHERE id = p_prep_item_id
+     OR id IN (SELECT item_id FROM prep_item_ingredients WHERE prep_item_id = p_prep_item_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_item FROM products WHERE id = p_prep_item_id;
+
+  IF v_item.id IS NULL THEN
+    RAISE EXCEPTION 'Item % not found', p_prep_item_id;
+  END IF;
+
+  IF NOT v_item.is_prep OR NOT EXISTS (SELECT 1 FROM prep_item_ingredients WHERE prep_item_id = p_prep_item_id) THEN
+    RAISE EXCEPTION '% has no prep recipe', v_item.name;
+  END IF;
+
+  v_yield := COALESCE(p_actual_yield, v_item.batch_yield * p_batches);
+
+  IF v_yield IS NULL OR v_yield <= 0 THEN
+    RAISE EXCEPTION 'Enter how much the batch made';
+  END IF;
+
+  SELECT string_agg(p.name, ', ' ORDER BY p.name)
+  INTO v_short
+  FROM prep_item_ingredients pii
+  JOIN products p ON p.id = pii.item_id
+  WHERE pii.prep_item_id = p_prep_item_id
+    AND to_ingredient_unit(p.unit_type, p.qty) < pii.qty * p_batches;
+
+  IF v_short IS NOT NULL THEN
+    RAISE EXCEPTION 'Not enough stock: %', v_short;
+  END IF;
+
+  SELECT
+    jsonb_agg(jsonb_build_object(
+      'item_id', p.id,
+      'item_name', p.name,
+      'unit_type', p.unit_type,
+      'qty', pii.qty * p_batches,
+      'unit_cost', p.cost
+    ) ORDER BY p.name),
+    SUM(pii.qty * p_batches * p.cost)
+  INTO v_ingredients, v_total_cost
+  FROM prep_item_ingredients pii
+  JOIN products p ON p.id = pii.item_id
+  WHERE pii.prep_item_id = p_prep_item_id;
+
+  -- Weighted average in cost units (per g / ml / pc)
+  v_on_hand := GREATEST(to_ingredient_unit(v_item.unit_type, v_item.qty), 0);
+  v_produced := to_ingredient_unit(v_item.unit_type, v_yield);
+  v_unit_cost := v_total_cost / v_produced;
+  v_new_cost := (v_on_hand * v_item.cost + v_total_cost) / (v_on_hand + v_produced);
+  v_note := CONCAT_WS(' · ', 'Batch of ' || v_item.name, NULLIF(TRIM(p_note), ''));
+
+  INSERT INTO production_batches (
+    prep_item_id, prep_item_name, batches, qty, total_cost, unit_cost, previous_cost, new_cost,
+    ingredients, note, produced_by, produced_by_name
+  )
+  VALUES (
+    v_item.id, v_item.name, p_batches, v_yield, v_total_cost, v_unit_cost, v_item.cost, v_new_cost,
+    v_ingredients, NULLIF(TRIM(p_note), ''), current_app_user_id(), current_app_user_name()
+  );
+
+  -- Raw items out
+  PERFORM set_stock_movement_context('production_use', NULL, NULL, NULL, v_note);
+
+  UPDATE products p
+  SET qty = p.qty - to_storage_unit(p.unit_type, pii.qty * p_batches)
+  FROM prep_item_ingredients pii
+  WHERE pii.prep_item_id = p_prep_item_id AND p.id = pii.item_id;
+
+  PERFORM clear_stock_movement_context();
+
+  -- Prep item in
+  PERFORM set_stock_movement_context('production_output', NULL, NULL, NULL, v_note, v_unit_cost);
+
+  UPDATE products
+  SET qty = qty + v_yield, cost = v_new_cost
+  WHERE id = p_prep_item_id
+  RETURNING * INTO v_item;
+
+  PERFORM clear_stock_movement_context();
+
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v22 completed - prep items and batch production added!' as status;
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name IN ('save_prep_recipe', 'produce_batch')
+ORDER BY routine_name;
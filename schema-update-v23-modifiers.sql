@@ -0,0 +1,668 @@
+-- KASHPOS v2.0 Database Schema Update v23
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v22-prep-items.sql
+--
+-- This update adds:
+-- 1. modifier_groups, modifiers and modifier_ingredients tables - sizes,
+--    add-ons and remove-ons for a finished product, each with a price delta
+--    and the inventory it adds or takes away
+-- 2. save_modifier_groups() - replaces a product's modifier groups in one
+--    transaction
+-- 3. sales.modifiers - the modifiers chosen on each sale line
+-- 4. process_checkout() - takes modifier_ids per cart item, prices the line
+--    with the deltas and deducts and costs the modified recipe
+-- 5. refund_sale_lines() / cancel_recent_transaction() - restock what the
+--    sale line actually used (its cost breakdown) instead of today's recipe
+
+-- ============================================
+-- 1. MODIFIER TABLES
+-- ============================================
+-- A group is required when min_select > 0; max_select NULL means no limit
+-- and 1 makes it a pick-one (e.g. sizes). modifier_ingredients.qty is per
+-- unit sold in g / ml / pcs like product_ingredients.qty: positive adds
+-- inventory (extra egg), negative takes it out of the recipe (no rice).
+
+CREATE TABLE IF NOT EXISTS modifier_groups (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id UUID NOT NULL REFERENCES finished_products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  min_select INTEGER NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select INTEGER CHECK (max_select IS NULL OR (max_select >= 1 AND max_select >= min_select)),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS modifiers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  group_id UUID NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  price_delta DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS modifier_ingredients (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  modifier_id UUID NOT NULL REFERENCES modifiers(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  qty DECIMAL(10, 2) NOT NULL CHECK (qty <> 0),
+  UNIQUE (modifier_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_modifier_groups_product_id ON modifier_groups(product_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_modifiers_group_id ON modifiers(group_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_modifier_ingredients_modifier_id ON modifier_ingredients(modifier_id);
+
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifier_ingredients ENABLE ROW LEVEL SECURITY;
+
+-- Everyone at the till reads them; they're only written by save_modifier_groups()
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['modifier_groups', 'modifiers', 'modifier_ingredients']
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Signed-in users can read %1$s" ON %1$I', v_table);
+    EXECUTE format('CREATE POLICY "Signed-in users can read %1$s" ON %1$I FOR SELECT USING (is_signed_in())', v_table);
+  END LOOP;
+END $$;
+
+-- ============================================
+-- 2. SAVE MODIFIER GROUPS
+-- ============================================
+-- p_groups replaces every group of the product, in order:
+-- [{ "name": "Size", "min_select": 1, "max_select": 1, "modifiers": [
+--    { "name": "Large", "price_delta": 20, "ingredients": [{ "item_id": "<products.id>", "qty": 100 }] }
+-- ] }]
+-- Sale lines keep their own copy of the modifiers, so replacing them
+-- doesn't change past sales.
+
+CREATE OR REPLACE FUNCTION save_modifier_groups(p_product_id UUID, p_groups JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_group RECORD;
+  v_modifier RECORD;
+  v_group_id UUID;
+  v_modifier_id UUID;
+  v_group_name TEXT;
+  v_min INTEGER;
+  v_max INTEGER;
+  v_count INTEGER;
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to edit products' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM finished_products WHERE id = p_product_id) THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id;
+  END IF;
+
+  IF p_groups IS NULL OR jsonb_typeof(p_groups) <> 'array' THEN
+    RAISE EXCEPTION 'Modifier groups must be a list';
+  END IF;
+
+  DELETE FROM modifier_groups WHERE product_id = p_product_id;
+
+  FOR v_group IN
+    SELECT e.item, e.position
+    FROM jsonb_array_elements(p_groups) WITH ORDINALITY AS e(item, position)
+    ORDER BY e.position
+  LOOP
+    v_group_name := NULLIF(TRIM(v_group.item->>'name'), '');
+    v_min := COALESCE((v_group.item->>'min_select')::INTEGER, 0);
+    v_max := (v_group.item->>'max_select')::INTEGER;
+    v_count := COALESCE(jsonb_array_length(v_group.item->'modifiers'), 0);
+
+    IF v_group_name IS NULL THEN
+      RAISE EXCEPTION 'Every modifier group needs a name';
+    END IF;
+
+    IF v_count = 0 THEN
+      RAISE EXCEPTION 'Add at least one option to %', v_group_name;
+    END IF;
+
+    IF v_min < 0 OR v_min > v_count OR (v_max IS NOT NULL AND (v_max < 1 OR v_max < v_min)) THEN
+      RAISE EXCEPTION 'Check the minimum and maximum choices for %', v_group_name;
+    END IF;
+
+    INSERT INTO modifier_groups (product_id, name, min_select, max_select, sort_order)
+    VALUES (p_product_id, v_group_name, v_min, v_max, v_group.position)
+    RETURNING id INTO v_group_id;
+
+    FOR v_modifier IN
+      SELECT e.item, e.position
+      FROM jsonb_array_elements(v_group.item->'modifiers') WITH ORDINALITY AS e(item, position)
+      ORDER BY e.position
+    LOOP
+      IF NULLIF(TRIM(v_modifier.item->>'name'), '') IS NULL THEN
+        RAISE EXCEPTION 'Every option in % needs a name', v_group_name;
+      END IF;
+
+      IF EXISTS (
+        SELECT 1
+        FROM jsonb_to_recordset(COALESCE(v_modifier.item->'ingredients', '[]'::JSONB)) AS i(item_id UUID, qty DECIMAL)
+        LEFT JOIN products p ON p.id = i.item_id
+        WHERE p.id IS NULL OR i.qty IS NULL OR i.qty = 0
+      ) THEN
+        RAISE EXCEPTION 'Every ingredient of % needs an inventory item and a quantity', TRIM(v_modifier.item->>'name');
+      END IF;
+
+      INSERT INTO modifiers (group_id, name, price_delta, sort_order)
+      VALUES (
+        v_group_id,
+        TRIM(v_modifier.item->>'name'),
+        COALESCE((v_modifier.item->>'price_delta')::DECIMAL, 0),
+        v_modifier.position
+      )
+      RETURNING id INTO v_modifier_id;
+
+      -- Same item twice is one ingredient with the quantities added up
+      INSERT INTO modifier_ingredients (modifier_id, item_id, qty)
+      SELECT v_modifier_id, i.item_id, ROUND(SUM(i.qty), 2)
+      FROM jsonb_to_recordset(COALESCE(v_modifier.item->'ingredients', '[]'::JSONB)) AS i(item_id UUID, qty DECIMAL)
+      GROUP BY i.item_id
+      HAVING ROUND(SUM(i.qty), 2) <> 0;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 3. MODIFIERS ON SALES
+-- ============================================
+-- [{ modifier_id, group_name, name, price_delta }] as they were at checkout.
+-- selling_price already includes the price deltas and cost_breakdown the
+-- ingredient changes.
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS modifiers JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- What one unit of a product with these modifiers uses and costs right now,
+-- ingredient by ingredient, in the same shape as recipe_cost_breakdown().
+-- Removing more than the recipe has stops at zero.
+CREATE OR REPLACE FUNCTION modified_cost_breakdown(p_product_id UUID, p_modifier_ids UUID[])
+RETURNS JSONB AS $$
+  WITH usage AS (
+    SELECT item_id, SUM(qty) AS qty
+    FROM (
+      SELECT pi.item_id, pi.qty
+      FROM product_ingredients pi
+      WHERE pi.product_id = p_product_id
+      UNION ALL
+      SELECT mi.item_id, mi.qty
+      FROM modifier_ingredients mi
+      WHERE mi.modifier_id = ANY(COALESCE(p_modifier_ids, '{}'))
+    ) lines
+    GROUP BY item_id
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'item_id', u.item_id,
+        'item_name', p.name,
+        'unit_type', p.unit_type,
+        'qty', u.qty,
+        'unit_cost', p.cost,
+        'cost', ROUND(u.qty * p.cost, 4)
+      )
+      ORDER BY p.name, u.item_id
+    ),
+    '[]'::JSONB
+  )
+  FROM usage u
+  JOIN products p ON p.id = u.item_id
+  WHERE u.qty > 0;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- What one unit of a sale line took out of stock. Lines from before v21
+-- have no breakdown and fall back to the product's current recipe.
+CREATE OR REPLACE FUNCTION sale_unit_ingredients(p_sale_id UUID)
+RETURNS TABLE (item_id UUID, qty DECIMAL) AS $$
+  SELECT (b->>'item_id')::UUID, (b->>'qty')::DECIMAL
+  FROM sales s, jsonb_array_elements(s.cost_breakdown) AS b
+  WHERE s.id = p_sale_id AND s.cost_breakdown IS NOT NULL
+  UNION ALL
+  SELECT pi.item_id, pi.qty
+  FROM sales s
+  JOIN product_ingredients pi ON pi.product_id = s.product_id
+  WHERE s.id = p_sale_id AND s.cost_breakdown IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 4. CHECKOUT WITH MODIFIERS
+-- ============================================
+-- Same as v21, plus p_items[].modifier_ids. Each cart item is checked
+-- against its product's groups (only its own modifiers, each once, within
+-- every group's min / max) before anything is written.
+
+CREATE OR REPLACE FUNCTION process_checkout(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_customer_type TEXT,
+  p_dine_in_takeout TEXT,
+  p_customer_payment DECIMAL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_id UUID := uuid_generate_v4();
+  v_transaction_number TEXT;
+  v_unknown_product UUID;
+  v_cart_total DECIMAL;
+  v_out_of_stock JSONB;
+  v_item RECORD;
+  v_product finished_products;
+  v_modifier_ids UUID[];
+  v_group modifier_groups;
+  v_modifiers JSONB;
+  v_lines JSONB := '[]'::JSONB;
+  v_sale JSONB;
+  v_sales JSONB := '[]'::JSONB;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to record sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    WHERE c.product_id IS NULL OR c.qty IS NULL OR c.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every cart item needs a product and a positive quantity';
+  END IF;
+
+  SELECT c.product_id INTO v_unknown_product
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  LEFT JOIN finished_products fp ON fp.id = c.product_id
+  WHERE fp.id IS NULL
+  LIMIT 1;
+
+  IF v_unknown_product IS NOT NULL THEN
+    RAISE EXCEPTION 'Product % not found', v_unknown_product;
+  END IF;
+
+  -- Lock every inventory row this cart touches, modifiers included (in id
+  -- order to avoid deadlocks) so concurrent checkouts wait for each other
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    UNION
+    SELECT mi.item_id
+    FROM jsonb_array_elements(p_items) AS e(item),
+         jsonb_array_elements_text(COALESCE(e.item->'modifier_ids', '[]'::JSONB)) AS m(id)
+    JOIN modifier_ingredients mi ON mi.modifier_id = m.id::UUID
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Check each cart item's modifiers and work out its price and recipe
+  FOR v_item IN
+    SELECT e.item, e.position
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position)
+    ORDER BY e.position
+  LOOP
+    SELECT * INTO v_product FROM finished_products WHERE id = (v_item.item->>'product_id')::UUID;
+
+    v_modifier_ids := ARRAY(
+      SELECT m.id::UUID
+      FROM jsonb_array_elements_text(COALESCE(v_item.item->'modifier_ids', '[]'::JSONB)) AS m(id)
+    );
+
+    IF cardinality(v_modifier_ids) <> (SELECT COUNT(DISTINCT m) FROM unnest(v_modifier_ids) AS m) THEN
+      RAISE EXCEPTION 'The same option was picked twice for %', v_product.name;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM unnest(v_modifier_ids) AS m(id)
+      LEFT JOIN modifiers mo ON mo.id = m.id
+      LEFT JOIN modifier_groups g ON g.id = mo.group_id
+      WHERE g.product_id IS DISTINCT FROM v_product.id
+    ) THEN
+      RAISE EXCEPTION 'One of the options for % is no longer available', v_product.name;
+    END IF;
+
+    SELECT g.* INTO v_group
+    FROM modifier_groups g
+    WHERE g.product_id = v_product.id
+      AND (
+        (SELECT COUNT(*) FROM modifiers mo WHERE mo.group_id = g.id AND mo.id = ANY(v_modifier_ids)) < g.min_select
+        OR (SELECT COUNT(*) FROM modifiers mo WHERE mo.group_id = g.id AND mo.id = ANY(v_modifier_ids)) > g.max_select
+      )
+    ORDER BY g.sort_order
+    LIMIT 1;
+
+    IF v_group.id IS NOT NULL THEN
+      RAISE EXCEPTION 'Choose % for %', CASE
+        WHEN v_group.max_select IS NULL THEN 'at least ' || v_group.min_select
+        WHEN v_group.min_select = v_group.max_select THEN v_group.min_select::TEXT
+        WHEN v_group.min_select = 0 THEN 'up to ' || v_group.max_select
+        ELSE v_group.min_select || ' to ' || v_group.max_select
+      END || ' ' || v_group.name, v_product.name;
+    END IF;
+
+    SELECT COALESCE(
+      jsonb_agg(
+        jsonb_build_object('modifier_id', mo.id, 'group_name', g.name, 'name', mo.name, 'price_delta', mo.price_delta)
+        ORDER BY g.sort_order, mo.sort_order
+      ),
+      '[]'::JSONB
+    )
+    INTO v_modifiers
+    FROM modifiers mo
+    JOIN modifier_groups g ON g.id = mo.group_id
+    WHERE mo.id = ANY(v_modifier_ids);
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'product_id', v_product.id,
+      'qty', (v_item.item->>'qty')::INTEGER,
+      'unit_price', v_product.selling_price + COALESCE((
+        SELECT SUM((m->>'price_delta')::DECIMAL) FROM jsonb_array_elements(v_modifiers) AS m
+      ), 0),
+      'modifiers', v_modifiers,
+      'breakdown', modified_cost_breakdown(v_product.id, v_modifier_ids)
+    ));
+  END LOOP;
+
+  SELECT SUM((l->>'qty')::INTEGER * (l->>'unit_price')::DECIMAL) INTO v_cart_total
+  FROM jsonb_array_elements(v_lines) AS l;
+
+  IF COALESCE(p_customer_payment, 0) < v_cart_total THEN
+    RAISE EXCEPTION 'Payment of % does not cover the total of %', COALESCE(p_customer_payment, 0), v_cart_total;
+  END IF;
+
+  -- Compare ingredient demand with the current (locked) stock
+  WITH demand AS (
+    SELECT (b->>'item_id')::UUID AS item_id, SUM((b->>'qty')::DECIMAL * (l->>'qty')::INTEGER) AS required
+    FROM jsonb_array_elements(v_lines) AS l,
+         jsonb_array_elements(l->'breakdown') AS b
+    GROUP BY 1
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'item_name', p.name,
+    'unit_type', p.unit_type,
+    'required', d.required,
+    'available', to_ingredient_unit(p.unit_type, p.qty)
+  ) ORDER BY p.name)
+  INTO v_out_of_stock
+  FROM demand d
+  JOIN products p ON p.id = d.item_id
+  WHERE to_ingredient_unit(p.unit_type, p.qty) < d.required;
+
+  IF v_out_of_stock IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'out_of_stock',
+      'out_of_stock', v_out_of_stock
+    );
+  END IF;
+
+  -- Reserve the next transaction number; the counter row stays locked until
+  -- this transaction commits, and a rolled back checkout releases its number
+  v_transaction_number := next_transaction_number();
+
+  -- Insert one sale line per cart item, in cart order
+  -- (cost is ingredient cost only, no OPEX per unit)
+  FOR v_item IN
+    SELECT l AS line FROM jsonb_array_elements(v_lines) AS l
+  LOOP
+    INSERT INTO sales (
+      transaction_id, transaction_number, product_id, product_name, qty, unit_type,
+      cost, selling_price, total, payment_method, customer_type, dine_in_takeout,
+      customer_payment, recipe_version_id, cost_breakdown, modifiers
+    )
+    SELECT
+      v_transaction_id, v_transaction_number, fp.id, fp.name, (v_item.line->>'qty')::INTEGER, 'quantity',
+      COALESCE((SELECT SUM((b->>'cost')::DECIMAL) FROM jsonb_array_elements(v_item.line->'breakdown') AS b), 0),
+      (v_item.line->>'unit_price')::DECIMAL,
+      (v_item.line->>'qty')::INTEGER * (v_item.line->>'unit_price')::DECIMAL,
+      p_payment_method, p_customer_type, p_dine_in_takeout, p_customer_payment,
+      current_recipe_version_id(fp.id), v_item.line->'breakdown', v_item.line->'modifiers'
+    FROM finished_products fp
+    WHERE fp.id = (v_item.line->>'product_id')::UUID
+    RETURNING to_jsonb(sales.*) INTO v_sale;
+
+    v_sales := v_sales || jsonb_build_array(v_sale);
+  END LOOP;
+
+  -- Deduct ingredients relative to the current stock
+  PERFORM set_stock_movement_context('sale_deduction', NULL, v_transaction_id, v_transaction_number);
+
+  WITH demand AS (
+    SELECT (b->>'item_id')::UUID AS item_id, SUM((b->>'qty')::DECIMAL * (l->>'qty')::INTEGER) AS required
+    FROM jsonb_array_elements(v_lines) AS l,
+         jsonb_array_elements(l->'breakdown') AS b
+    GROUP BY 1
+  )
+  UPDATE products p
+  SET qty = p.qty - to_storage_unit(p.unit_type, d.required)
+  FROM demand d
+  WHERE p.id = d.item_id;
+
+  PERFORM clear_stock_movement_context();
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'transaction_number', v_transaction_number,
+    'sales', v_sales
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 5. RESTOCK WHAT THE SALE USED
+-- ============================================
+-- Same as v16, but restocking goes through sale_unit_ingredients() so
+-- modifiers and later recipe edits don't change what comes back.
+
+CREATE OR REPLACE FUNCTION refund_sale_lines(
+  p_kind TEXT,
+  p_lines JSONB,
+  p_reason_code TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_restock BOOLEAN DEFAULT true
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_line JSONB;
+  v_sale sales;
+  v_qty DECIMAL(10, 2);
+  v_refunded_qty DECIMAL(10, 2);
+  v_refunded_amount DECIMAL(10, 2);
+  v_amount DECIMAL(10, 2);
+  v_shift_id UUID;
+  v_refund sale_refunds;
+  v_refunds JSONB := '[]'::jsonb;
+BEGIN
+  IF NOT has_permission('void_sales') THEN
+    RAISE EXCEPTION 'You do not have permission to void or refund sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_kind NOT IN ('void', 'refund') THEN
+    RAISE EXCEPTION 'Unknown refund kind %', p_kind;
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item';
+  END IF;
+
+  SELECT id INTO v_shift_id FROM shifts WHERE closed_at IS NULL;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    SELECT * INTO v_sale FROM sales WHERE id = (v_line->>'sale_id')::UUID FOR UPDATE;
+
+    IF v_sale.id IS NULL THEN
+      RAISE EXCEPTION 'Sale % not found', v_line->>'sale_id';
+    END IF;
+
+    IF v_sale.cancelled THEN
+      RAISE EXCEPTION '% has already been voided', v_sale.product_name;
+    END IF;
+
+    v_qty := (v_line->>'qty')::DECIMAL;
+
+    SELECT COALESCE(SUM(qty), 0), COALESCE(SUM(amount), 0)
+    INTO v_refunded_qty, v_refunded_amount
+    FROM sale_refunds
+    WHERE sale_id = v_sale.id AND kind = 'refund';
+
+    IF p_kind = 'void' THEN
+      IF v_refunded_qty > 0 THEN
+        RAISE EXCEPTION '% has refunds already; refund the rest instead of voiding', v_sale.product_name;
+      END IF;
+
+      v_qty := v_sale.qty;
+      v_amount := v_sale.total;
+
+      UPDATE sales
+      SET cancelled = true, cancelled_at = NOW()
+      WHERE id = v_sale.id;
+    ELSE
+      IF v_qty IS NULL OR v_qty <= 0 OR v_qty > v_sale.qty - v_refunded_qty THEN
+        RAISE EXCEPTION 'Only % of % can be refunded', trim_scale(v_sale.qty - v_refunded_qty), v_sale.product_name;
+      END IF;
+
+      -- The last unit takes whatever is left so rounding never over-refunds
+      v_amount := CASE
+        WHEN v_refunded_qty + v_qty = v_sale.qty THEN v_sale.total - v_refunded_amount
+        ELSE ROUND(v_sale.total * v_qty / v_sale.qty, 2)
+      END;
+    END IF;
+
+    INSERT INTO sale_refunds (
+      kind, sale_id, transaction_id, transaction_number, product_id, product_name,
+      qty, amount, cost, payment_method, cashier_id, cashier_name, reason_code, note, restocked, shift_id,
+      refunded_by, refunded_by_name
+    )
+    VALUES (
+      p_kind, v_sale.id, v_sale.transaction_id, v_sale.transaction_number, v_sale.product_id, v_sale.product_name,
+      v_qty, v_amount, v_sale.cost * v_qty, v_sale.payment_method, v_sale.cashier_id, v_sale.cashier_name,
+      p_reason_code, NULLIF(TRIM(p_note), ''), p_restock, v_shift_id, current_app_user_id(), current_app_user_name()
+    )
+    RETURNING * INTO v_refund;
+
+    IF p_restock THEN
+      PERFORM set_stock_movement_context(
+        'refund_restore', v_sale.id, v_sale.transaction_id, v_sale.transaction_number,
+        NULLIF(TRIM(p_note), '')
+      );
+
+      UPDATE products p
+      SET qty = p.qty + to_storage_unit(p.unit_type, u.qty * v_qty)
+      FROM sale_unit_ingredients(v_sale.id) u
+      WHERE p.id = u.item_id;
+
+      PERFORM clear_stock_movement_context();
+    END IF;
+
+    v_refunds := v_refunds || to_jsonb(v_refund);
+  END LOOP;
+
+  RETURN v_refunds;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION cancel_recent_transaction(p_transaction_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_sale sales;
+  v_count INTEGER := 0;
+  v_total DECIMAL(10, 2) := 0;
+  v_shift_id UUID;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to cancel sales' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock every line first so a concurrent cancel or refund has to wait
+  PERFORM 1 FROM sales WHERE transaction_id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM sales WHERE transaction_id = p_transaction_id AND cancelled) THEN
+    RAISE EXCEPTION 'Transaction has already been cancelled';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM sale_refunds WHERE transaction_id = p_transaction_id) THEN
+    RAISE EXCEPTION 'Transaction has refunds; void or refund it from Reports instead';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM sales
+    WHERE transaction_id = p_transaction_id AND created_at < NOW() - INTERVAL '1 minute'
+  ) AND NOT has_permission('void_sales') THEN
+    RAISE EXCEPTION 'Sale cannot be cancelled - time expired' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_shift_id FROM shifts WHERE closed_at IS NULL;
+
+  FOR v_sale IN SELECT * FROM sales WHERE transaction_id = p_transaction_id
+  LOOP
+    UPDATE sales
+    SET cancelled = true, cancelled_at = NOW()
+    WHERE id = v_sale.id;
+
+    PERFORM set_stock_movement_context(
+      'cancel_restore', v_sale.id, v_sale.transaction_id, v_sale.transaction_number
+    );
+
+    UPDATE products p
+    SET qty = p.qty + to_storage_unit(p.unit_type, u.qty * v_sale.qty)
+    FROM sale_unit_ingredients(v_sale.id) u
+    WHERE p.id = u.item_id;
+
+    PERFORM clear_stock_movement_context();
+
+    INSERT INTO sale_refunds (
+      kind, sale_id, transaction_id, transaction_number, product_id, product_name,
+      qty, amount, cost, payment_method, cashier_id, cashier_name, reason_code, note, restocked, shift_id,
+      refunded_by, refunded_by_name
+    )
+    VALUES (
+      'void', v_sale.id, v_sale.transaction_id, v_sale.transaction_number, v_sale.product_id, v_sale.product_name,
+      v_sale.qty, v_sale.total, v_sale.cost * v_sale.qty, v_sale.payment_method, v_sale.cashier_id, v_sale.cashier_name,
+      'cashier_error', 'Cancelled right after checkout', true, v_shift_id,
+      current_app_user_id(), current_app_user_name()
+    );
+
+    v_count := v_count + 1;
+    v_total := v_total + v_sale.total;
+  END LOOP;
+
+  RETURN jsonb_build_object('lines', v_count, 'total', v_total);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v23 completed - product modifiers added!' as status;
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name IN (
+  'save_modifier_groups', 'modified_cost_breakdown', 'sale_unit_ingredients',
+  'process_checkout', 'refund_sale_lines', 'cancel_recent_transaction'
+)
+ORDER BY routine_name;
@@ -0,0 +1,516 @@
+-- KASHPOS v2.0 Database Schema Update v24
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v23-modifiers.sql
+--
+-- This update adds:
+-- 1. Combos - finished products sold at a bundle price and made of other
+--    finished products (finished_products.is_combo)
+-- 2. combo_slots and combo_slot_options tables - each slot is one component,
+--    either fixed (one option) or a choice (e.g. any drink), and an option
+--    can cost extra
+-- 3. save_combo() - creates or edits a combo and its slots in one transaction
+-- 4. sales.combo_id / combo_name / combo_line_id - a combo is sold as one
+--    sale line per component with the bundle price split across them
+-- 5. process_checkout() - takes combo_choices per combo cart item; stock and
+--    cost come from each component's own recipe
+
+-- ============================================
+-- 1. COMBOS
+-- ============================================
+-- A combo's selling_price is the bundle price. Combos have no ingredients of
+-- their own; everything comes from their components.
+
+ALTER TABLE finished_products
+ADD COLUMN IF NOT EXISTS is_combo BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================
+-- 2. COMBO SLOTS
+-- ============================================
+-- Every slot is one component of the combo; a slot with a single option is
+-- always that product. price_delta is added to the bundle price when that
+-- option is picked (e.g. +₱15 for a large drink).
+
+CREATE TABLE IF NOT EXISTS combo_slots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  combo_id UUID NOT NULL REFERENCES finished_products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS combo_slot_options (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  slot_id UUID NOT NULL REFERENCES combo_slots(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES finished_products(id) ON DELETE CASCADE,
+  price_delta DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (slot_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_combo_slots_combo_id ON combo_slots(combo_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_combo_slot_options_slot_id ON combo_slot_options(slot_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_combo_slot_options_product_id ON combo_slot_options(product_id);
+
+ALTER TABLE combo_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE combo_slot_options ENABLE ROW LEVEL SECURITY;
+
+-- Everyone at the till reads them; they're only written by save_combo()
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['combo_slots', 'combo_slot_options']
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Signed-in users can read %1$s" ON %1$I', v_table);
+    EXECUTE format('CREATE POLICY "Signed-in users can read %1$s" ON %1$I FOR SELECT USING (is_signed_in())', v_table);
+  END LOOP;
+END $$;
+
+-- ============================================
+-- 3. SAVE COMBO
+-- ============================================
+-- p_id NULL creates the combo. p_slots replaces every slot, in order:
+-- [{ "name": "Drink", "options": [{ "product_id": "<finished_products.id>", "price_delta": 0 }] }]
+
+CREATE OR REPLACE FUNCTION save_combo(
+  p_id UUID,
+  p_name TEXT,
+  p_selling_price DECIMAL,
+  p_image_url TEXT,
+  p_slots JSONB
+)
+RETURNS finished_products AS $$
+DECLARE
+  v_combo finished_products;
+  v_name TEXT := NULLIF(TRIM(p_name), '');
+  v_slot RECORD;
+  v_slot_id UUID;
+  v_slot_name TEXT;
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to edit products' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_name IS NULL THEN
+    RAISE EXCEPTION 'Enter a combo name';
+  END IF;
+
+  IF p_selling_price IS NULL OR p_selling_price <= 0 THEN
+    RAISE EXCEPTION 'Enter a valid bundle price';
+  END IF;
+
+  IF p_slots IS NULL OR jsonb_typeof(p_slots) <> 'array' OR jsonb_array_length(p_slots) < 2 THEN
+    RAISE EXCEPTION 'A combo needs at least two items';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO finished_products (name, selling_price, image_url, is_combo)
+    VALUES (v_name, p_selling_price, p_image_url, true)
+    RETURNING * INTO v_combo;
+  ELSE
+    UPDATE finished_products
+    SET name = v_name,
+        selling_price = p_selling_price,
+        image_url = p_image_url
+    WHERE id = p_id AND is_combo
+    RETURNING * INTO v_combo;
+
+    IF v_combo.id IS NULL THEN
+      RAISE EXCEPTION 'Combo % not found', p_id;
+    END IF;
+  END IF;
+
+  DELETE FROM combo_slots WHERE combo_id = v_combo.id;
+
+  FOR v_slot IN
+    SELECT e.slot, e.position
+    FROM jsonb_array_elements(p_slots) WITH ORDINALITY AS e(slot, position)
+    ORDER BY e.position
+  LOOP
+    v_slot_name := COALESCE(NULLIF(TRIM(v_slot.slot->>'name'), ''), 'Item ' || v_slot.position);
+
+    IF COALESCE(jsonb_array_length(v_slot.slot->'options'), 0) = 0 THEN
+      RAISE EXCEPTION 'Pick at least one product for %', v_slot_name;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(v_slot.slot->'options') AS o(product_id UUID, price_delta DECIMAL)
+      LEFT JOIN finished_products fp ON fp.id = o.product_id
+      WHERE fp.id IS NULL OR fp.is_combo
+    ) THEN
+      RAISE EXCEPTION 'Every option in % must be a product that isn''t a combo', v_slot_name;
+    END IF;
+
+    INSERT INTO combo_slots (combo_id, name, sort_order)
+    VALUES (v_combo.id, v_slot_name, v_slot.position)
+    RETURNING id INTO v_slot_id;
+
+    INSERT INTO combo_slot_options (slot_id, product_id, price_delta, sort_order)
+    SELECT DISTINCT ON (o.product_id) v_slot_id, o.product_id, COALESCE(o.price_delta, 0), e.position
+    FROM jsonb_array_elements(v_slot.slot->'options') WITH ORDINALITY AS e(option, position),
+         jsonb_to_record(e.option) AS o(product_id UUID, price_delta DECIMAL)
+    ORDER BY o.product_id, e.position;
+  END LOOP;
+
+  RETURN v_combo;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 4. COMBOS ON SALES
+-- ============================================
+-- Each component is its own sale line (product_id is the component) so
+-- stock, cost and product reports work as before. combo_line_id is shared by
+-- the components of one combo in the cart.
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS combo_id UUID,
+ADD COLUMN IF NOT EXISTS combo_name TEXT,
+ADD COLUMN IF NOT EXISTS combo_line_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_sales_combo_id ON sales(combo_id) WHERE combo_id IS NOT NULL;
+
+-- The sale lines for p_qty of a combo, in the shape process_checkout() uses.
+-- p_choices is [{ slot_id, product_id }]; slots with one option don't need
+-- a choice. The bundle price is split across the components in proportion to
+-- their own prices (the last one takes the rounding), then each option's
+-- price_delta goes to its component.
+CREATE OR REPLACE FUNCTION combo_cart_lines(p_combo finished_products, p_qty INTEGER, p_choices JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_line_id UUID := uuid_generate_v4();
+  v_slot RECORD;
+  v_option combo_slot_options;
+  v_components JSONB := '[]'::JSONB;
+  v_component JSONB;
+  v_list_total DECIMAL;
+  v_count INTEGER;
+  v_allocated DECIMAL := 0;
+  v_share DECIMAL;
+  v_lines JSONB := '[]'::JSONB;
+  v_position INTEGER := 0;
+BEGIN
+  FOR v_slot IN
+    SELECT cs.* FROM combo_slots cs WHERE cs.combo_id = p_combo.id ORDER BY cs.sort_order
+  LOOP
+    SELECT o.* INTO v_option
+    FROM combo_slot_options o
+    WHERE o.slot_id = v_slot.id
+      AND (
+        o.product_id = (
+          SELECT (c->>'product_id')::UUID
+          FROM jsonb_array_elements(COALESCE(p_choices, '[]'::JSONB)) AS c
+          WHERE (c->>'slot_id')::UUID = v_slot.id
+          LIMIT 1
+        )
+        OR (SELECT COUNT(*) FROM combo_slot_options WHERE slot_id = v_slot.id) = 1
+      )
+    LIMIT 1;
+
+    IF v_option.id IS NULL THEN
+      RAISE EXCEPTION 'Choose the % for %', v_slot.name, p_combo.name;
+    END IF;
+
+    v_components := v_components || jsonb_build_array(jsonb_build_object(
+      'product_id', v_option.product_id,
+      'price_delta', v_option.price_delta,
+      'list_price', (SELECT selling_price FROM finished_products WHERE id = v_option.product_id)
+    ));
+  END LOOP;
+
+  v_count := jsonb_array_length(v_components);
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION '% has no items', p_combo.name;
+  END IF;
+
+  SELECT SUM((c->>'list_price')::DECIMAL) INTO v_list_total FROM jsonb_array_elements(v_components) AS c;
+
+  FOR v_component IN SELECT c FROM jsonb_array_elements(v_components) AS c
+  LOOP
+    v_position := v_position + 1;
+
+    v_share := CASE
+      WHEN v_position = v_count THEN p_combo.selling_price - v_allocated
+      WHEN v_list_total > 0 THEN ROUND(p_combo.selling_price * (v_component->>'list_price')::DECIMAL / v_list_total, 2)
+      ELSE ROUND(p_combo.selling_price / v_count, 2)
+    END;
+    v_allocated := v_allocated + v_share;
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'product_id', v_component->>'product_id',
+      'qty', p_qty,
+      'unit_price', v_share + (v_component->>'price_delta')::DECIMAL,
+      'modifiers', '[]'::JSONB,
+      'breakdown', modified_cost_breakdown((v_component->>'product_id')::UUID, '{}'),
+      'combo_id', p_combo.id,
+      'combo_name', p_combo.name,
+      'combo_line_id', v_line_id
+    ));
+  END LOOP;
+
+  RETURN v_lines;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 5. CHECKOUT WITH COMBOS
+-- ============================================
+-- Same as v23, plus p_items[].combo_choices for combos. A combo cart item
+-- becomes one line per component; everything after that (stock check,
+-- deductions, cost breakdowns) works on the component lines.
+
+CREATE OR REPLACE FUNCTION process_checkout(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_customer_type TEXT,
+  p_dine_in_takeout TEXT,
+  p_customer_payment DECIMAL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_id UUID := uuid_generate_v4();
+  v_transaction_number TEXT;
+  v_unknown_product UUID;
+  v_cart_total DECIMAL;
+  v_out_of_stock JSONB;
+  v_item RECORD;
+  v_product finished_products;
+  v_modifier_ids UUID[];
+  v_group modifier_groups;
+  v_modifiers JSONB;
+  v_lines JSONB := '[]'::JSONB;
+  v_sale JSONB;
+  v_sales JSONB := '[]'::JSONB;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to record sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    WHERE c.product_id IS NULL OR c.qty IS NULL OR c.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every cart item needs a product and a positive quantity';
+  END IF;
+
+  SELECT c.product_id INTO v_unknown_product
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  LEFT JOIN finished_products fp ON fp.id = c.product_id
+  WHERE fp.id IS NULL
+  LIMIT 1;
+
+  IF v_unknown_product IS NOT NULL THEN
+    RAISE EXCEPTION 'Product % not found', v_unknown_product;
+  END IF;
+
+  -- Lock every inventory row this cart touches, modifiers and combo
+  -- components included (in id order to avoid deadlocks) so concurrent
+  -- checkouts wait for each other
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    UNION
+    SELECT mi.item_id
+    FROM jsonb_array_elements(p_items) AS e(item),
+         jsonb_array_elements_text(COALESCE(e.item->'modifier_ids', '[]'::JSONB)) AS m(id)
+    JOIN modifier_ingredients mi ON mi.modifier_id = m.id::UUID
+    UNION
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN combo_slots cs ON cs.combo_id = c.product_id
+    JOIN combo_slot_options o ON o.slot_id = cs.id
+    JOIN product_ingredients pi ON pi.product_id = o.product_id
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Check each cart item's modifiers and work out its price and recipe
+  FOR v_item IN
+    SELECT e.item, e.position
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position)
+    ORDER BY e.position
+  LOOP
+    SELECT * INTO v_product FROM finished_products WHERE id = (v_item.item->>'product_id')::UUID;
+
+    IF v_product.is_combo THEN
+      IF COALESCE(jsonb_array_length(v_item.item->'modifier_ids'), 0) > 0 THEN
+        RAISE EXCEPTION '% is a combo and has no options', v_product.name;
+      END IF;
+
+      v_lines := v_lines || combo_cart_lines(v_product, (v_item.item->>'qty')::INTEGER, v_item.item->'combo_choices');
+      CONTINUE;
+    END IF;
+
+    v_modifier_ids := ARRAY(
+      SELECT m.id::UUID
+      FROM jsonb_array_elements_text(COALESCE(v_item.item->'modifier_ids', '[]'::JSONB)) AS m(id)
+    );
+
+    IF cardinality(v_modifier_ids) <> (SELECT COUNT(DISTINCT m) FROM unnest(v_modifier_ids) AS m) THEN
+      RAISE EXCEPTION 'The same option was picked twice for %', v_product.name;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM unnest(v_modifier_ids) AS m(id)
+      LEFT JOIN modifiers mo ON mo.id = m.id
+      LEFT JOIN modifier_groups g ON g.id = mo.group_id
+      WHERE g.product_id IS DISTINCT FROM v_product.id
+    ) THEN
+      RAISE EXCEPTION 'One of the options for % is no longer available', v_product.name;
+    END IF;
+
+    SELECT g.* INTO v_group
+    FROM modifier_groups g
+    WHERE g.product_id = v_product.id
+      AND (
+        (SELECT COUNT(*) FROM modifiers mo WHERE mo.group_id = g.id AND mo.id = ANY(v_modifier_ids)) < g.min_select
+        OR (SELECT COUNT(*) FROM modifiers mo WHERE mo.group_id = g.id AND mo.id = ANY(v_modifier_ids)) > g.max_select
+      )
+    ORDER BY g.sort_order
+    LIMIT 1;
+
+    IF v_group.id IS NOT NULL THEN
+      RAISE EXCEPTION 'Choose % for %', CASE
+        WHEN v_group.max_select IS NULL THEN 'at least ' || v_group.min_select
+        WHEN v_group.min_select = v_group.max_select THEN v_group.min_select::TEXT
+        WHEN v_group.min_select = 0 THEN 'up to ' || v_group.max_select
+        ELSE v_group.min_select || ' to ' || v_group.max_select
+      END || ' ' || v_group.name, v_product.name;
+    END IF;
+
+    SELECT COALESCE(
+      jsonb_agg(
+        jsonb_build_object('modifier_id', mo.id, 'group_name', g.name, 'name', mo.name, 'price_delta', mo.price_delta)
+        ORDER BY g.sort_order, mo.sort_order
+      ),
+      '[]'::JSONB
+    )
+    INTO v_modifiers
+    FROM modifiers mo
+    JOIN modifier_groups g ON g.id = mo.group_id
+    WHERE mo.id = ANY(v_modifier_ids);
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'product_id', v_product.id,
+      'qty', (v_item.item->>'qty')::INTEGER,
+      'unit_price', v_product.selling_price + COALESCE((
+        SELECT SUM((m->>'price_delta')::DECIMAL) FROM jsonb_array_elements(v_modifiers) AS m
+      ), 0),
+      'modifiers', v_modifiers,
+      'breakdown', modified_cost_breakdown(v_product.id, v_modifier_ids)
+    ));
+  END LOOP;
+
+  SELECT SUM((l->>'qty')::INTEGER * (l->>'unit_price')::DECIMAL) INTO v_cart_total
+  FROM jsonb_array_elements(v_lines) AS l;
+
+  IF COALESCE(p_customer_payment, 0) < v_cart_total THEN
+    RAISE EXCEPTION 'Payment of % does not cover the total of %', COALESCE(p_customer_payment, 0), v_cart_total;
+  END IF;
+
+  -- Compare ingredient demand with the current (locked) stock
+  WITH demand AS (
+    SELECT (b->>'item_id')::UUID AS item_id, SUM((b->>'qty')::DECIMAL * (l->>'qty')::INTEGER) AS required
+    FROM jsonb_array_elements(v_lines) AS l,
+         jsonb_array_elements(l->'breakdown') AS b
+    GROUP BY 1
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'item_name', p.name,
+    'unit_type', p.unit_type,
+    'required', d.required,
+    'available', to_ingredient_unit(p.unit_type, p.qty)
+  ) ORDER BY p.name)
+  INTO v_out_of_stock
+  FROM demand d
+  JOIN products p ON p.id = d.item_id
+  WHERE to_ingredient_unit(p.unit_type, p.qty) < d.required;
+
+  IF v_out_of_stock IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'out_of_stock',
+      'out_of_stock', v_out_of_stock
+    );
+  END IF;
+
+  -- Reserve the next transaction number; the counter row stays locked until
+  -- this transaction commits, and a rolled back checkout releases its number
+  v_transaction_number := next_transaction_number();
+
+  -- Insert one sale line per cart item (per component for combos), in cart
+  -- order (cost is ingredient cost only, no OPEX per unit)
+  FOR v_item IN
+    SELECT l AS line FROM jsonb_array_elements(v_lines) AS l
+  LOOP
+    INSERT INTO sales (
+      transaction_id, transaction_number, product_id, product_name, qty, unit_type,
+      cost, selling_price, total, payment_method, customer_type, dine_in_takeout,
+      customer_payment, recipe_version_id, cost_breakdown, modifiers,
+      combo_id, combo_name, combo_line_id
+    )
+    SELECT
+      v_transaction_id, v_transaction_number, fp.id, fp.name, (v_item.line->>'qty')::INTEGER, 'quantity',
+      COALESCE((SELECT SUM((b->>'cost')::DECIMAL) FROM jsonb_array_elements(v_item.line->'breakdown') AS b), 0),
+      (v_item.line->>'unit_price')::DECIMAL,
+      (v_item.line->>'qty')::INTEGER * (v_item.line->>'unit_price')::DECIMAL,
+      p_payment_method, p_customer_type, p_dine_in_takeout, p_customer_payment,
+      current_recipe_version_id(fp.id), v_item.line->'breakdown', v_item.line->'modifiers',
+      (v_item.line->>'combo_id')::UUID, v_item.line->>'combo_name', (v_item.line->>'combo_line_id')::UUID
+    FROM finished_products fp
+    WHERE fp.id = (v_item.line->>'product_id')::UUID
+    RETURNING to_jsonb(sales.*) INTO v_sale;
+
+    v_sales := v_sales || jsonb_build_array(v_sale);
+  END LOOP;
+
+  -- Deduct ingredients relative to the current stock
+  PERFORM set_stock_movement_context('sale_deduction', NULL, v_transaction_id, v_transaction_number);
+
+  WITH demand AS (
+    SELECT (b->>'item_id')::UUID AS item_id, SUM((b->>'qty')::DECIMAL * (l->>'qty')::INTEGER) AS required
+    FROM jsonb_array_elements(v_lines) AS l,
+         jsonb_array_elements(l->'breakdown') AS b
+    GROUP BY 1
+  )
+  UPDATE products p
+  SET qty = p.qty - to_storage_unit(p.unit_type, d.required)
+  FROM demand d
+  WHERE p.id = d.item_id;
+
+  PERFORM clear_stock_movement_context();
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'transaction_number', v_transaction_number,
+    'sales', v_sales
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v24 completed - combos and bundle pricing added!' as status;
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name IN ('save_combo', 'combo_cart_lines', 'process_checkout')
+ORDER BY routine_name;
@@ -0,0 +1,485 @@
+-- KASHPOS v2.0 Database Schema Update v25
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v24-combos.sql
+--
+-- This update adds:
+-- 1. discounts table - percentage or fixed discounts, per item or per
+--    order, optionally tied to a customer type
+-- 2. Senior Citizen / PWD discounts - the statutory 20% taken after
+--    removing VAT (vat_rate setting), with the ID number recorded
+-- 3. sales.discount_* / vat_exemption_amount columns - sales.total is now
+--    what the customer paid; gross = total + discount + VAT exemption
+-- 4. apply_sale_discounts() - works out every line's discount
+-- 5. process_checkout() - takes p_items[].discount_id and an order
+--    discount (p_discount)
+
+-- ============================================
+-- 1. DISCOUNTS
+-- ============================================
+-- kind 'percent' takes value% off; 'fixed' takes ₱value off each item
+-- (scope 'line') or off the order (scope 'order'). customer_type_id picks
+-- the discount at the till when that customer type is chosen.
+-- Statutory discounts (Senior Citizen / PWD) are percentages taken after
+-- the VAT is removed, need an ID number and can't be combined with other
+-- discounts.
+
+CREATE TABLE IF NOT EXISTS discounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE,
+  kind TEXT NOT NULL CHECK (kind IN ('percent', 'fixed')),
+  value DECIMAL(10, 2) NOT NULL CHECK (value > 0),
+  scope TEXT NOT NULL CHECK (scope IN ('line', 'order')),
+  customer_type_id UUID REFERENCES customer_types(id) ON DELETE SET NULL,
+  is_statutory BOOLEAN NOT NULL DEFAULT false,
+  requires_id BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (kind = 'fixed' OR value <= 100),
+  CHECK (NOT is_statutory OR (kind = 'percent' AND requires_id))
+);
+
+ALTER TABLE discounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in users can read discounts" ON discounts;
+CREATE POLICY "Signed-in users can read discounts" ON discounts
+  FOR SELECT USING (is_signed_in());
+
+DROP POLICY IF EXISTS "Settings editors can manage discounts" ON discounts;
+CREATE POLICY "Settings editors can manage discounts" ON discounts
+  FOR ALL USING (has_permission('manage_settings')) WITH CHECK (has_permission('manage_settings'));
+
+-- ============================================
+-- 2. SENIOR CITIZEN / PWD
+-- ============================================
+-- Prices are VAT-inclusive; vat_rate (percent, 0 if not VAT-registered) is
+-- removed from lines with a statutory discount before the 20% comes off.
+
+INSERT INTO customer_types (name, color) VALUES
+  ('PWD', '#14b8a6')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO settings (key, value) VALUES
+  ('vat_rate', '12')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO discounts (name, kind, value, scope, customer_type_id, is_statutory, requires_id)
+SELECT d.name, 'percent', 20, 'order', ct.id, true, true
+FROM (VALUES ('Senior Citizen', 'Senior'), ('PWD', 'PWD')) AS d(name, customer_type)
+LEFT JOIN customer_types ct ON ct.name = d.customer_type
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================
+-- 3. DISCOUNTS ON SALES
+-- ============================================
+-- total stays what was charged for the line, so revenue, refunds and shift
+-- cash need no changes. The ID number and holder's name are kept on every
+-- discounted line of the transaction.
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS discount_id UUID REFERENCES discounts(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS discount_name TEXT,
+ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS vat_exemption_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS discount_id_number TEXT,
+ADD COLUMN IF NOT EXISTS discount_holder_name TEXT;
+
+-- ============================================
+-- 4. APPLY DISCOUNTS
+-- ============================================
+-- p_lines are process_checkout() lines ({ qty, unit_price, cart_index,
+-- discount_id, ... }); p_discount is { discount_id, id_number, holder_name }
+-- with discount_id an order discount (or null). Lines with their own
+-- discount keep it; the rest get the order discount. Each discount is
+-- worked out on the total it covers (one cart item, or the rest of the
+-- order) and spread over those lines by line total, rounding so the parts
+-- add up exactly; the till's preview does the same sums. Returns the lines
+-- with discount_id, discount_name, discount_amount, vat_exemption_amount and
+-- total added.
+
+CREATE OR REPLACE FUNCTION apply_sale_discounts(p_lines JSONB, p_discount JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_order discounts;
+  v_needs_id discounts;
+  v_vat_rate DECIMAL := COALESCE((SELECT NULLIF(TRIM(value), '')::DECIMAL FROM settings WHERE key = 'vat_rate'), 0);
+  v_result JSONB;
+BEGIN
+  IF p_discount->>'discount_id' IS NOT NULL THEN
+    SELECT * INTO v_order FROM discounts WHERE id = (p_discount->>'discount_id')::UUID AND active;
+
+    IF v_order.id IS NULL THEN
+      RAISE EXCEPTION 'That discount is no longer available';
+    END IF;
+
+    IF v_order.scope <> 'order' THEN
+      RAISE EXCEPTION '% is given per item, not on the whole order', v_order.name;
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_lines) AS l
+    LEFT JOIN discounts d ON d.id = (l->>'discount_id')::UUID AND d.active AND d.scope = 'line'
+    WHERE l->>'discount_id' IS NOT NULL AND d.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'One of the item discounts is no longer available';
+  END IF;
+
+  IF v_order.is_statutory AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_lines) AS l WHERE l->>'discount_id' IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'The % discount can''t be combined with other discounts', v_order.name;
+  END IF;
+
+  IF NULLIF(TRIM(p_discount->>'id_number'), '') IS NULL THEN
+    SELECT d.* INTO v_needs_id
+    FROM discounts d
+    WHERE d.requires_id
+      AND (
+        d.id = v_order.id
+        OR d.id IN (SELECT (l->>'discount_id')::UUID FROM jsonb_array_elements(p_lines) AS l)
+      )
+    LIMIT 1;
+
+    IF v_needs_id.id IS NOT NULL THEN
+      RAISE EXCEPTION 'Enter the customer''s ID number for the % discount', v_needs_id.name;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    a.line || jsonb_build_object(
+      'discount_id', a.discount_id,
+      'discount_name', a.discount_name,
+      'discount_amount', a.discount_amount,
+      'vat_exemption_amount', a.vat_exemption_amount,
+      'total', a.gross - a.vat_exemption_amount - a.discount_amount
+    )
+    ORDER BY a.position
+  ), '[]'::JSONB)
+  INTO v_result
+  FROM (
+    -- Each line's share of its group's amounts, by running line total
+    SELECT
+      t.*,
+      CASE WHEN t.group_gross = 0 THEN 0 ELSE
+        ROUND(t.group_discount * t.running_gross / t.group_gross, 2)
+        - ROUND(t.group_discount * (t.running_gross - t.gross) / t.group_gross, 2)
+      END AS discount_amount,
+      CASE WHEN t.group_gross = 0 THEN 0 ELSE
+        ROUND(t.group_vat_exemption * t.running_gross / t.group_gross, 2)
+        - ROUND(t.group_vat_exemption * (t.running_gross - t.gross) / t.group_gross, 2)
+      END AS vat_exemption_amount
+    FROM (
+      -- What the discount comes to on the whole group
+      SELECT
+        g.*,
+        d.name AS discount_name,
+        CASE
+          WHEN d.id IS NULL THEN 0
+          WHEN d.is_statutory THEN ROUND(ROUND(g.group_gross / (1 + v_vat_rate / 100), 2) * d.value / 100, 2)
+          WHEN d.kind = 'percent' THEN ROUND(g.group_gross * d.value / 100, 2)
+          WHEN d.scope = 'line' THEN LEAST(d.value * g.qty, g.group_gross)
+          ELSE LEAST(d.value, g.group_gross)
+        END AS group_discount,
+        CASE
+          WHEN d.is_statutory THEN g.group_gross - ROUND(g.group_gross / (1 + v_vat_rate / 100), 2)
+          ELSE 0
+        END AS group_vat_exemption
+      FROM (
+        -- An item discount covers the lines of its cart item (all the
+        -- components of a combo); the order discount covers everything else
+        SELECT
+          l.*,
+          SUM(l.gross) OVER (PARTITION BY l.discount_group) AS group_gross,
+          SUM(l.gross) OVER (PARTITION BY l.discount_group ORDER BY l.position) AS running_gross
+        FROM (
+          SELECT
+            e.line,
+            e.position,
+            (e.line->>'qty')::INTEGER AS qty,
+            (e.line->>'qty')::INTEGER * (e.line->>'unit_price')::DECIMAL AS gross,
+            COALESCE((e.line->>'discount_id')::UUID, v_order.id) AS discount_id,
+            CASE WHEN e.line->>'discount_id' IS NOT NULL THEN e.line->>'cart_index' ELSE 'order' END AS discount_group
+          FROM jsonb_array_elements(p_lines) WITH ORDINALITY AS e(line, position)
+        ) AS l
+      ) AS g
+      LEFT JOIN discounts d ON d.id = g.discount_id
+    ) AS t
+  ) AS a;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 5. CHECKOUT WITH DISCOUNTS
+-- ============================================
+-- Same as v24, plus p_items[].discount_id for item discounts and
+-- p_discount ({ discount_id, id_number, holder_name }) for the order
+-- discount and the Senior Citizen / PWD ID. Payment has to cover the total
+-- after discounts. Dropped first because the parameter list changed.
+
+DROP FUNCTION IF EXISTS process_checkout(JSONB, TEXT, TEXT, TEXT, DECIMAL);
+
+CREATE OR REPLACE FUNCTION process_checkout(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_customer_type TEXT,
+  p_dine_in_takeout TEXT,
+  p_customer_payment DECIMAL,
+  p_discount JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_id UUID := uuid_generate_v4();
+  v_transaction_number TEXT;
+  v_unknown_product UUID;
+  v_cart_total DECIMAL;
+  v_out_of_stock JSONB;
+  v_item RECORD;
+  v_product finished_products;
+  v_modifier_ids UUID[];
+  v_group modifier_groups;
+  v_modifiers JSONB;
+  v_item_lines JSONB;
+  v_lines JSONB := '[]'::JSONB;
+  v_sale JSONB;
+  v_sales JSONB := '[]'::JSONB;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to record sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    WHERE c.product_id IS NULL OR c.qty IS NULL OR c.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every cart item needs a product and a positive quantity';
+  END IF;
+
+  SELECT c.product_id INTO v_unknown_product
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  LEFT JOIN finished_products fp ON fp.id = c.product_id
+  WHERE fp.id IS NULL
+  LIMIT 1;
+
+  IF v_unknown_product IS NOT NULL THEN
+    RAISE EXCEPTION 'Product % not found', v_unknown_product;
+  END IF;
+
+  -- Lock every inventory row this cart touches, modifiers and combo
+  -- components included (in id order to avoid deadlocks) so concurrent
+  -- checkouts wait for each other
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    UNION
+    SELECT mi.item_id
+    FROM jsonb_array_elements(p_items) AS e(item),
+         jsonb_array_elements_text(COALESCE(e.item->'modifier_ids', '[]'::JSONB)) AS m(id)
+    JOIN modifier_ingredients mi ON mi.modifier_id = m.id::UUID
+    UNION
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN combo_slots cs ON cs.combo_id = c.product_id
+    JOIN combo_slot_options o ON o.slot_id = cs.id
+    JOIN product_ingredients pi ON pi.product_id = o.product_id
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Check each cart item's modifiers and work out its price and recipe
+  -- (cart_index ties a combo's component lines to their cart item)
+  FOR v_item IN
+    SELECT e.item, e.position
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position)
+    ORDER BY e.position
+  LOOP
+    SELECT * INTO v_product FROM finished_products WHERE id = (v_item.item->>'product_id')::UUID;
+
+    IF v_product.is_combo THEN
+      IF COALESCE(jsonb_array_length(v_item.item->'modifier_ids'), 0) > 0 THEN
+        RAISE EXCEPTION '% is a combo and has no options', v_product.name;
+      END IF;
+
+      v_item_lines := combo_cart_lines(v_product, (v_item.item->>'qty')::INTEGER, v_item.item->'combo_choices');
+    ELSE
+      v_modifier_ids := ARRAY(
+        SELECT m.id::UUID
+        FROM jsonb_array_elements_text(COALESCE(v_item.item->'modifier_ids', '[]'::JSONB)) AS m(id)
+      );
+
+      IF cardinality(v_modifier_ids) <> (SELECT COUNT(DISTINCT m) FROM unnest(v_modifier_ids) AS m) THEN
+        RAISE EXCEPTION 'The same option was picked twice for %', v_product.name;
+      END IF;
+
+      IF EXISTS (
+        SELECT 1
+        FROM unnest(v_modifier_ids) AS m(id)
+        LEFT JOIN modifiers mo ON mo.id = m.id
+        LEFT JOIN modifier_groups g ON g.id = mo.group_id
+        WHERE g.product_id IS DISTINCT FROM v_product.id
+      ) THEN
+        RAISE EXCEPTION 'One of the options for % is no longer available', v_product.name;
+      END IF;
+
+      SELECT g.* INTO v_group
+      FROM modifier_groups g
+      WHERE g.product_id = v_product.id
+        AND (
+          (SELECT COUNT(*) FROM modifiers mo WHERE mo.group_id = g.id AND mo.id = ANY(v_modifier_ids)) < g.min_select
+          OR (SELECT COUNT(*) FROM modifiers mo WHERE mo.group_id = g.id AND mo.id = ANY(v_modifier_ids)) > g.max_select
+        )
+      ORDER BY g.sort_order
+      LIMIT 1;
+
+      IF v_group.id IS NOT NULL THEN
+        RAISE EXCEPTION 'Choose % for %', CASE
+          WHEN v_group.max_select IS NULL THEN 'at least ' || v_group.min_select
+          WHEN v_group.min_select = v_group.max_select THEN v_group.min_select::TEXT
+          WHEN v_group.min_select = 0 THEN 'up to ' || v_group.max_select
+          ELSE v_group.min_select || ' to ' || v_group.max_select
+        END || ' ' || v_group.name, v_product.name;
+      END IF;
+
+      SELECT COALESCE(
+        jsonb_agg(
+          jsonb_build_object('modifier_id', mo.id, 'group_name', g.name, 'name', mo.name, 'price_delta', mo.price_delta)
+          ORDER BY g.sort_order, mo.sort_order
+        ),
+        '[]'::JSONB
+      )
+      INTO v_modifiers
+      FROM modifiers mo
+      JOIN modifier_groups g ON g.id = mo.group_id
+      WHERE mo.id = ANY(v_modifier_ids);
+
+      v_item_lines := jsonb_build_array(jsonb_build_object(
+        'product_id', v_product.id,
+        'qty', (v_item.item->>'qty')::INTEGER,
+        'unit_price', v_product.selling_price + COALESCE((
+          SELECT SUM((m->>'price_delta')::DECIMAL) FROM jsonb_array_elements(v_modifiers) AS m
+        ), 0),
+        'modifiers', v_modifiers,
+        'breakdown', modified_cost_breakdown(v_product.id, v_modifier_ids)
+      ));
+    END IF;
+
+    SELECT v_lines || jsonb_agg(l || jsonb_build_object('cart_index', v_item.position, 'discount_id', v_item.item->'discount_id'))
+    INTO v_lines
+    FROM jsonb_array_elements(v_item_lines) AS l;
+  END LOOP;
+
+  v_lines := apply_sale_discounts(v_lines, p_discount);
+
+  SELECT SUM((l->>'total')::DECIMAL) INTO v_cart_total
+  FROM jsonb_array_elements(v_lines) AS l;
+
+  IF COALESCE(p_customer_payment, 0) < v_cart_total THEN
+    RAISE EXCEPTION 'Payment of % does not cover the total of %', COALESCE(p_customer_payment, 0), v_cart_total;
+  END IF;
+
+  -- Compare ingredient demand with the current (locked) stock
+  WITH demand AS (
+    SELECT (b->>'item_id')::UUID AS item_id, SUM((b->>'qty')::DECIMAL * (l->>'qty')::INTEGER) AS required
+    FROM jsonb_array_elements(v_lines) AS l,
+         jsonb_array_elements(l->'breakdown') AS b
+    GROUP BY 1
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'item_name', p.name,
+    'unit_type', p.unit_type,
+    'required', d.required,
+    'available', to_ingredient_unit(p.unit_type, p.qty)
+  ) ORDER BY p.name)
+  INTO v_out_of_stock
+  FROM demand d
+  JOIN products p ON p.id = d.item_id
+  WHERE to_ingredient_unit(p.unit_type, p.qty) < d.required;
+
+  IF v_out_of_stock IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'out_of_stock',
+      'out_of_stock', v_out_of_stock
+    );
+  END IF;
+
+  -- Reserve the next transaction number; the counter row stays locked until
+  -- this transaction commits, and a rolled back checkout releases its number
+  v_transaction_number := next_transaction_number();
+
+  -- Insert one sale line per cart item (per component for combos), in cart
+  -- order (cost is ingredient cost only, no OPEX per unit)
+  FOR v_item IN
+    SELECT l AS line FROM jsonb_array_elements(v_lines) AS l
+  LOOP
+    INSERT INTO sales (
+      transaction_id, transaction_number, product_id, product_name, qty, unit_type,
+      cost, selling_price, total, payment_method, customer_type, dine_in_takeout,
+      customer_payment, recipe_version_id, cost_breakdown, modifiers,
+      combo_id, combo_name, combo_line_id,
+      discount_id, discount_name, discount_amount, vat_exemption_amount, discount_id_number, discount_holder_name
+    )
+    SELECT
+      v_transaction_id, v_transaction_number, fp.id, fp.name, (v_item.line->>'qty')::INTEGER, 'quantity',
+      COALESCE((SELECT SUM((b->>'cost')::DECIMAL) FROM jsonb_array_elements(v_item.line->'breakdown') AS b), 0),
+      (v_item.line->>'unit_price')::DECIMAL,
+      (v_item.line->>'total')::DECIMAL,
+      p_payment_method, p_customer_type, p_dine_in_takeout, p_customer_payment,
+      current_recipe_version_id(fp.id), v_item.line->'breakdown', v_item.line->'modifiers',
+      (v_item.line->>'combo_id')::UUID, v_item.line->>'combo_name', (v_item.line->>'combo_line_id')::UUID,
+      (v_item.line->>'discount_id')::UUID, v_item.line->>'discount_name',
+      (v_item.line->>'discount_amount')::DECIMAL, (v_item.line->>'vat_exemption_amount')::DECIMAL,
+      CASE WHEN v_item.line->>'discount_id' IS NOT NULL THEN NULLIF(TRIM(p_discount->>'id_number'), '') END,
+      CASE WHEN v_item.line->>'discount_id' IS NOT NULL THEN NULLIF(TRIM(p_discount->>'holder_name'), '') END
+    FROM finished_products fp
+    WHERE fp.id = (v_item.line->>'product_id')::UUID
+    RETURNING to_jsonb(sales.*) INTO v_sale;
+
+    v_sales := v_sales || jsonb_build_array(v_sale);
+  END LOOP;
+
+  -- Deduct ingredients relative to the current stock
+  PERFORM set_stock_movement_context('sale_deduction', NULL, v_transaction_id, v_transaction_number);
+
+  WITH demand AS (
+    SELECT (b->>'item_id')::UUID AS item_id, SUM((b->>'qty')::DECIMAL * (l->>'qty')::INTEGER) AS required
+    FROM jsonb_array_elements(v_lines) AS l,
+         jsonb_array_elements(l->'breakdown') AS b
+    GROUP BY 1
+  )
+  UPDATE products p
+  SET qty = p.qty - to_storage_unit(p.unit_type, d.required)
+  FROM demand d
+  WHERE p.id = d.item_id;
+
+  PERFORM clear_stock_movement_context();
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'transaction_number', v_transaction_number,
+    'sales', v_sales
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v25 completed - discounts and Senior Citizen / PWD handling added!' as status;
+
+SELECT name, kind, value, scope, is_statutory FROM discounts ORDER BY name;
@@ -0,0 +1,600 @@
+-- KASHPOS v2.0 Database Schema Update v26
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v25-discounts.sql
+--
+-- This update adds:
+-- 1. finished_products.tax_category - 'vatable' (the vat_rate setting),
+--    'zero_rated' or 'exempt'
+-- 2. current_vat_rate() - the vat_rate setting as a number
+-- 3. sales tax columns - each line's category and VAT rate, and its total
+--    split into vatable sales, VAT, zero-rated sales and exempt sales
+-- 4. apply_sale_discounts() - the Senior Citizen / PWD VAT exemption now
+--    uses each line's own VAT rate, so exempt items lose no VAT
+-- 5. apply_sale_taxes() - works out every line's tax breakdown
+-- 6. save_finished_product() - takes the tax category
+-- 7. process_checkout() - records the tax breakdown on each sale line
+
+-- ============================================
+-- 1. TAX CATEGORIES
+-- ============================================
+-- Prices are VAT-inclusive. Vatable products carry VAT at the vat_rate
+-- setting; zero-rated products (export sales and the like) are taxed at 0%;
+-- exempt products (unprocessed food and other VAT-exempt goods) carry no
+-- VAT at all. Combos are taxed by their components' categories.
+
+ALTER TABLE finished_products
+ADD COLUMN IF NOT EXISTS tax_category TEXT NOT NULL DEFAULT 'vatable'
+  CHECK (tax_category IN ('vatable', 'zero_rated', 'exempt'));
+
+-- ============================================
+-- 2. VAT RATE
+-- ============================================
+-- vat_rate is a percent (v25); 0 if the store isn't VAT-registered
+
+CREATE OR REPLACE FUNCTION current_vat_rate()
+RETURNS DECIMAL AS $$
+  SELECT COALESCE((SELECT NULLIF(TRIM(value), '')::DECIMAL FROM settings WHERE key = 'vat_rate'), 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 3. TAXES ON SALES
+-- ============================================
+-- vatable_sales + vat_amount + zero_rated_sales + exempt_sales = total.
+-- Lines with a Senior Citizen / PWD discount are exempt sales whatever the
+-- product's category. vat_rate is the rate the line was taxed at (0 unless
+-- vatable).
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS tax_category TEXT NOT NULL DEFAULT 'vatable',
+ADD COLUMN IF NOT EXISTS vat_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS vatable_sales DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS vat_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS zero_rated_sales DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS exempt_sales DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Earlier sales were all charged VAT-inclusive prices: split them at
+-- today's rate (Senior Citizen / PWD lines are exempt)
+UPDATE sales
+SET vat_rate = CASE WHEN vat_exemption_amount > 0 THEN 0 ELSE current_vat_rate() END,
+    vatable_sales = CASE WHEN vat_exemption_amount > 0 THEN 0 ELSE ROUND(total / (1 + current_vat_rate() / 100), 2) END,
+    vat_amount = CASE WHEN vat_exemption_amount > 0 THEN 0 ELSE total - ROUND(total / (1 + current_vat_rate() / 100), 2) END,
+    exempt_sales = CASE WHEN vat_exemption_amount > 0 THEN total ELSE 0 END
+WHERE vatable_sales = 0 AND vat_amount = 0 AND zero_rated_sales = 0 AND exempt_sales = 0 AND total <> 0;
+
+-- ============================================
+-- 4. APPLY DISCOUNTS
+-- ============================================
+-- Same as v25, except the VAT taken off a Senior Citizen / PWD line is at
+-- the line's own vat_rate (0 for zero-rated and exempt products) and comes
+-- off each line as is. The 20% is worked out on the group's total without
+-- VAT and spread over the lines by that amount; other discounts are spread
+-- by line total as before.
+
+CREATE OR REPLACE FUNCTION apply_sale_discounts(p_lines JSONB, p_discount JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_order discounts;
+  v_needs_id discounts;
+  v_result JSONB;
+BEGIN
+  IF p_discount->>'discount_id' IS NOT NULL THEN
+    SELECT * INTO v_order FROM discounts WHERE id = (p_discount->>'discount_id')::UUID AND active;
+
+    IF v_order.id IS NULL THEN
+      RAISE EXCEPTION 'That discount is no longer available';
+    END IF;
+
+    IF v_order.scope <> 'order' THEN
+      RAISE EXCEPTION '% is given per item, not on the whole order', v_order.name;
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_lines) AS l
+    LEFT JOIN discounts d ON d.id = (l->>'discount_id')::UUID AND d.active AND d.scope = 'line'
+    WHERE l->>'discount_id' IS NOT NULL AND d.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'One of the item discounts is no longer available';
+  END IF;
+
+  IF v_order.is_statutory AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_lines) AS l WHERE l->>'discount_id' IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'The % discount can''t be combined with other discounts', v_order.name;
+  END IF;
+
+  IF NULLIF(TRIM(p_discount->>'id_number'), '') IS NULL THEN
+    SELECT d.* INTO v_needs_id
+    FROM discounts d
+    WHERE d.requires_id
+      AND (
+        d.id = v_order.id
+        OR d.id IN (SELECT (l->>'discount_id')::UUID FROM jsonb_array_elements(p_lines) AS l)
+      )
+    LIMIT 1;
+
+    IF v_needs_id.id IS NOT NULL THEN
+      RAISE EXCEPTION 'Enter the customer''s ID number for the % discount', v_needs_id.name;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    a.line || jsonb_build_object(
+      'discount_id', a.discount_id,
+      'discount_name', a.discount_name,
+      'discount_amount', a.discount_amount,
+      'vat_exemption_amount', a.vat_exemption_amount,
+      'total', a.gross - a.vat_exemption_amount - a.discount_amount
+    )
+    ORDER BY a.position
+  ), '[]'::JSONB)
+  INTO v_result
+  FROM (
+    -- Each line's share of its group's discount, by running weight
+    SELECT
+      t.*,
+      CASE WHEN t.group_weight = 0 THEN 0 ELSE
+        ROUND(t.group_discount * t.running_weight / t.group_weight, 2)
+        - ROUND(t.group_discount * (t.running_weight - t.weight) / t.group_weight, 2)
+      END AS discount_amount,
+      CASE WHEN t.is_statutory THEN t.gross - t.base ELSE 0 END AS vat_exemption_amount
+    FROM (
+      -- What the discount comes to on the whole group
+      SELECT
+        w.*,
+        CASE
+          WHEN w.discount_id IS NULL THEN 0
+          WHEN w.is_statutory OR w.kind = 'percent' THEN ROUND(w.group_weight * w.value / 100, 2)
+          WHEN w.scope = 'line' THEN LEAST(w.value * w.qty, w.group_weight)
+          ELSE LEAST(w.value, w.group_weight)
+        END AS group_discount
+      FROM (
+        -- An item discount covers the lines of its cart item (all the
+        -- components of a combo); the order discount covers everything else
+        SELECT
+          g.*,
+          SUM(g.weight) OVER (PARTITION BY g.discount_group) AS group_weight,
+          SUM(g.weight) OVER (PARTITION BY g.discount_group ORDER BY g.position) AS running_weight
+        FROM (
+          -- Senior Citizen / PWD discounts are worked out without the VAT
+          SELECT
+            l.*,
+            d.name AS discount_name,
+            d.kind,
+            d.value,
+            d.scope,
+            COALESCE(d.is_statutory, false) AS is_statutory,
+            CASE WHEN d.is_statutory THEN l.base ELSE l.gross END AS weight
+          FROM (
+            SELECT
+              e.line,
+              e.position,
+              (e.line->>'qty')::INTEGER AS qty,
+              (e.line->>'qty')::INTEGER * (e.line->>'unit_price')::DECIMAL AS gross,
+              ROUND(
+                (e.line->>'qty')::INTEGER * (e.line->>'unit_price')::DECIMAL
+                / (1 + COALESCE((e.line->>'vat_rate')::DECIMAL, 0) / 100),
+                2
+              ) AS base,
+              COALESCE((e.line->>'discount_id')::UUID, v_order.id) AS discount_id,
+              CASE WHEN e.line->>'discount_id' IS NOT NULL THEN e.line->>'cart_index' ELSE 'order' END AS discount_group
+            FROM jsonb_array_elements(p_lines) WITH ORDINALITY AS e(line, position)
+          ) AS l
+          LEFT JOIN discounts d ON d.id = l.discount_id
+        ) AS g
+      ) AS w
+    ) AS t
+  ) AS a;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 5. APPLY TAXES
+-- ============================================
+-- p_lines are apply_sale_discounts() lines with tax_category and vat_rate
+-- added. The VAT is taken out of each line's total (prices include it).
+-- Returns the lines with vat_rate (0 unless taxed), vatable_sales,
+-- vat_amount, zero_rated_sales and exempt_sales added.
+
+CREATE OR REPLACE FUNCTION apply_sale_taxes(p_lines JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(
+    t.line || jsonb_build_object(
+      'vat_rate', CASE WHEN t.taxed THEN t.vat_rate ELSE 0 END,
+      'vatable_sales', CASE WHEN t.taxed THEN ROUND(t.total / (1 + t.vat_rate / 100), 2) ELSE 0 END,
+      'vat_amount', CASE WHEN t.taxed THEN t.total - ROUND(t.total / (1 + t.vat_rate / 100), 2) ELSE 0 END,
+      'zero_rated_sales', CASE WHEN NOT t.taxed AND t.tax_category = 'zero_rated' THEN t.total ELSE 0 END,
+      'exempt_sales', CASE WHEN NOT t.taxed AND t.tax_category <> 'zero_rated' THEN t.total ELSE 0 END
+    )
+    ORDER BY t.position
+  ), '[]'::JSONB)
+  FROM (
+    SELECT
+      e.line,
+      e.position,
+      (e.line->>'total')::DECIMAL AS total,
+      e.line->>'tax_category' AS tax_category,
+      COALESCE((e.line->>'vat_rate')::DECIMAL, 0) AS vat_rate,
+      -- Senior Citizen / PWD lines are VAT-exempt sales
+      e.line->>'tax_category' = 'vatable' AND NOT COALESCE(d.is_statutory, false) AS taxed
+    FROM jsonb_array_elements(p_lines) WITH ORDINALITY AS e(line, position)
+    LEFT JOIN discounts d ON d.id = (e.line->>'discount_id')::UUID
+  ) AS t;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 6. PRODUCT TAX CATEGORY
+-- ============================================
+-- Same as v21, plus p_tax_category; null keeps the product's category
+-- ('vatable' for new products). Dropped first because the parameter list
+-- changed.
+
+DROP FUNCTION IF EXISTS save_finished_product(UUID, TEXT, DECIMAL, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION save_finished_product(
+  p_id UUID,
+  p_name TEXT,
+  p_selling_price DECIMAL,
+  p_image_url TEXT,
+  p_ingredients JSONB,
+  p_tax_category TEXT DEFAULT NULL
+)
+RETURNS finished_products AS $$
+DECLARE
+  v_product finished_products;
+  v_name TEXT := NULLIF(TRIM(p_name), '');
+BEGIN
+  IF NOT has_permission('adjust_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to edit products' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_name IS NULL THEN
+    RAISE EXCEPTION 'Enter a product name';
+  END IF;
+
+  IF p_selling_price IS NULL OR p_selling_price <= 0 THEN
+    RAISE EXCEPTION 'Enter a valid selling price';
+  END IF;
+
+  IF p_tax_category IS NOT NULL AND p_tax_category NOT IN ('vatable', 'zero_rated', 'exempt') THEN
+    RAISE EXCEPTION 'Unknown tax category %', p_tax_category;
+  END IF;
+
+  IF p_ingredients IS NULL OR jsonb_typeof(p_ingredients) <> 'array' OR jsonb_array_length(p_ingredients) = 0 THEN
+    RAISE EXCEPTION 'Add at least one ingredient';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_ingredients) AS i(item_id UUID, qty DECIMAL)
+    WHERE i.item_id IS NULL OR i.qty IS NULL OR i.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every ingredient needs an item and a positive quantity';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_ingredients) AS i(item_id UUID, qty DECIMAL)
+    LEFT JOIN products p ON p.id = i.item_id
+    WHERE p.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'One of the ingredients is no longer in inventory';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO finished_products (name, selling_price, image_url, tax_category)
+    VALUES (v_name, p_selling_price, p_image_url, COALESCE(p_tax_category, 'vatable'))
+    RETURNING * INTO v_product;
+  ELSE
+    UPDATE finished_products
+    SET name = v_name,
+        selling_price = p_selling_price,
+        image_url = p_image_url,
+        tax_category = COALESCE(p_tax_category, tax_category)
+    WHERE id = p_id
+    RETURNING * INTO v_product;
+
+    IF v_product.id IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', p_id;
+    END IF;
+  END IF;
+
+  -- Same item twice is one ingredient with the quantities added up
+  DELETE FROM product_ingredients WHERE product_id = v_product.id;
+
+  INSERT INTO product_ingredients (product_id, item_id, qty)
+  SELECT v_product.id, i.item_id, ROUND(SUM(i.qty), 2)
+  FROM jsonb_to_recordset(p_ingredients) AS i(item_id UUID, qty DECIMAL)
+  GROUP BY i.item_id;
+
+  -- Starts a new version only if the ingredients changed
+  PERFORM current_recipe_version_id(v_product.id);
+
+  RETURN v_product;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 7. CHECKOUT WITH TAXES
+-- ============================================
+-- Same as v25, plus each line's tax category and VAT rate going into the
+-- discounts, and the tax breakdown from apply_sale_taxes() on every sale
+-- line.
+
+CREATE OR REPLACE FUNCTION process_checkout(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_customer_type TEXT,
+  p_dine_in_takeout TEXT,
+  p_customer_payment DECIMAL,
+  p_discount JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_id UUID := uuid_generate_v4();
+  v_transaction_number TEXT;
+  v_unknown_product UUID;
+  v_cart_total DECIMAL;
+  v_out_of_stock JSONB;
+  v_item RECORD;
+  v_product finished_products;
+  v_modifier_ids UUID[];
+  v_group modifier_groups;
+  v_modifiers JSONB;
+  v_item_lines JSONB;
+  v_lines JSONB := '[]'::JSONB;
+  v_sale JSONB;
+  v_sales JSONB := '[]'::JSONB;
+  v_vat_rate DECIMAL := current_vat_rate();
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to record sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    WHERE c.product_id IS NULL OR c.qty IS NULL OR c.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every cart item needs a product and a positive quantity';
+  END IF;
+
+  SELECT c.product_id INTO v_unknown_product
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  LEFT JOIN finished_products fp ON fp.id = c.product_id
+  WHERE fp.id IS NULL
+  LIMIT 1;
+
+  IF v_unknown_product IS NOT NULL THEN
+    RAISE EXCEPTION 'Product % not found', v_unknown_product;
+  END IF;
+
+  -- Lock every inventory row this cart touches, modifiers and combo
+  -- components included (in id order to avoid deadlocks) so concurrent
+  -- checkouts wait for each other
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    UNION
+    SELECT mi.item_id
+    FROM jsonb_array_elements(p_items) AS e(item),
+         jsonb_array_elements_text(COALESCE(e.item->'modifier_ids', '[]'::JSONB)) AS m(id)
+    JOIN modifier_ingredients mi ON mi.modifier_id = m.id::UUID
+    UNION
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN combo_slots cs ON cs.combo_id = c.product_id
+    JOIN combo_slot_options o ON o.slot_id = cs.id
+    JOIN product_ingredients pi ON pi.product_id = o.product_id
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Check each cart item's modifiers and work out its price and recipe
+  -- (cart_index ties a combo's component lines to their cart item)
+  FOR v_item IN
+    SELECT e.item, e.position
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position)
+    ORDER BY e.position
+  LOOP
+    SELECT * INTO v_product FROM finished_products WHERE id = (v_item.item->>'product_id')::UUID;
+
+    IF v_product.is_combo THEN
+      IF COALESCE(jsonb_array_length(v_item.item->'modifier_ids'), 0) > 0 THEN
+        RAISE EXCEPTION '% is a combo and has no options', v_product.name;
+      END IF;
+
+      v_item_lines := combo_cart_lines(v_product, (v_item.item->>'qty')::INTEGER, v_item.item->'combo_choices');
+    ELSE
+      v_modifier_ids := ARRAY(
+        SELECT m.id::UUID
+        FROM jsonb_array_elements_text(COALESCE(v_item.item->'modifier_ids', '[]'::JSONB)) AS m(id)
+      );
+
+      IF cardinality(v_modifier_ids) <> (SELECT COUNT(DISTINCT m) FROM unnest(v_modifier_ids) AS m) THEN
+        RAISE EXCEPTION 'The same option was picked twice for %', v_product.name;
+      END IF;
+
+      IF EXISTS (
+        SELECT 1
+        FROM unnest(v_modifier_ids) AS m(id)
+        LEFT JOIN modifiers mo ON mo.id = m.id
+        LEFT JOIN modifier_groups g ON g.id = mo.group_id
+        WHERE g.product_id IS DISTINCT FROM v_product.id
+      ) THEN
+        RAISE EXCEPTION 'One of the options for % is no longer available', v_product.name;
+      END IF;
+
+      SELECT g.* INTO v_group
+      FROM modifier_groups g
+      WHERE g.product_id = v_product.id
+        AND (
+          (SELECT COUNT(*) FROM modifiers mo WHERE mo.group_id = g.id AND mo.id = ANY(v_modifier_ids)) < g.min_select
+          OR (SELECT COUNT(*) FROM modifiers mo WHERE mo.group_id = g.id AND mo.id = ANY(v_modifier_ids)) > g.max_select
+        )
+      ORDER BY g.sort_order
+      LIMIT 1;
+
+      IF v_group.id IS NOT NULL THEN
+        RAISE EXCEPTION 'Choose % for %', CASE
+          WHEN v_group.max_select IS NULL THEN 'at least ' || v_group.min_select
+          WHEN v_group.min_select = v_group.max_select THEN v_group.min_select::TEXT
+          WHEN v_group.min_select = 0 THEN 'up to ' || v_group.max_select
+          ELSE v_group.min_select || ' to ' || v_group.max_select
+        END || ' ' || v_group.name, v_product.name;
+      END IF;
+
+      SELECT COALESCE(
+        jsonb_agg(
+          jsonb_build_object('modifier_id', mo.id, 'group_name', g.name, 'name', mo.name, 'price_delta', mo.price_delta)
+          ORDER BY g.sort_order, mo.sort_order
+        ),
+        '[]'::JSONB
+      )
+      INTO v_modifiers
+      FROM modifiers mo
+      JOIN modifier_groups g ON g.id = mo.group_id
+      WHERE mo.id = ANY(v_modifier_ids);
+
+      v_item_lines := jsonb_build_array(jsonb_build_object(
+        'product_id', v_product.id,
+        'qty', (v_item.item->>'qty')::INTEGER,
+        'unit_price', v_product.selling_price + COALESCE((
+          SELECT SUM((m->>'price_delta')::DECIMAL) FROM jsonb_array_elements(v_modifiers) AS m
+        ), 0),
+        'modifiers', v_modifiers,
+        'breakdown', modified_cost_breakdown(v_product.id, v_modifier_ids)
+      ));
+    END IF;
+
+    SELECT v_lines || jsonb_agg(l || jsonb_build_object(
+      'cart_index', v_item.position,
+      'discount_id', v_item.item->'discount_id',
+      'tax_category', fp.tax_category,
+      'vat_rate', CASE WHEN fp.tax_category = 'vatable' THEN v_vat_rate ELSE 0 END
+    ))
+    INTO v_lines
+    FROM jsonb_array_elements(v_item_lines) AS l
+    JOIN finished_products fp ON fp.id = (l->>'product_id')::UUID;
+  END LOOP;
+
+  v_lines := apply_sale_taxes(apply_sale_discounts(v_lines, p_discount));
+
+  SELECT SUM((l->>'total')::DECIMAL) INTO v_cart_total
+  FROM jsonb_array_elements(v_lines) AS l;
+
+  IF COALESCE(p_customer_payment, 0) < v_cart_total THEN
+    RAISE EXCEPTION 'Payment of % does not cover the total of %', COALESCE(p_customer_payment, 0), v_cart_total;
+  END IF;
+
+  -- Compare ingredient demand with the current (locked) stock
+  WITH demand AS (
+    SELECT (b->>'item_id')::UUID AS item_id, SUM((b->>'qty')::DECIMAL * (l->>'qty')::INTEGER) AS required
+    FROM jsonb_array_elements(v_lines) AS l,
+         jsonb_array_elements(l->'breakdown') AS b
+    GROUP BY 1
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'item_name', p.name,
+    'unit_type', p.unit_type,
+    'required', d.required,
+    'available', to_ingredient_unit(p.unit_type, p.qty)
+  ) ORDER BY p.name)
+  INTO v_out_of_stock
+  FROM demand d
+  JOIN products p ON p.id = d.item_id
+  WHERE to_ingredient_unit(p.unit_type, p.qty) < d.required;
+
+  IF v_out_of_stock IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'out_of_stock',
+      'out_of_stock', v_out_of_stock
+    );
+  END IF;
+
+  -- Reserve the next transaction number; the counter row stays locked until
+  -- this transaction commits, and a rolled back checkout releases its number
+  v_transaction_number := next_transaction_number();
+
+  -- Insert one sale line per cart item (per component for combos), in cart
+  -- order (cost is ingredient cost only, no OPEX per unit)
+  FOR v_item IN
+    SELECT l AS line FROM jsonb_array_elements(v_lines) AS l
+  LOOP
+    INSERT INTO sales (
+      transaction_id, transaction_number, product_id, product_name, qty, unit_type,
+      cost, selling_price, total, payment_method, customer_type, dine_in_takeout,
+      customer_payment, recipe_version_id, cost_breakdown, modifiers,
+      combo_id, combo_name, combo_line_id,
+      discount_id, discount_name, discount_amount, vat_exemption_amount, discount_id_number, discount_holder_name,
+      tax_category, vat_rate, vatable_sales, vat_amount, zero_rated_sales, exempt_sales
+    )
+    SELECT
+      v_transaction_id, v_transaction_number, fp.id, fp.name, (v_item.line->>'qty')::INTEGER, 'quantity',
+      COALESCE((SELECT SUM((b->>'cost')::DECIMAL) FROM jsonb_array_elements(v_item.line->'breakdown') AS b), 0),
+      (v_item.line->>'unit_price')::DECIMAL,
+      (v_item.line->>'total')::DECIMAL,
+      p_payment_method, p_customer_type, p_dine_in_takeout, p_customer_payment,
+      current_recipe_version_id(fp.id), v_item.line->'breakdown', v_item.line->'modifiers',
+      (v_item.line->>'combo_id')::UUID, v_item.line->>'combo_name', (v_item.line->>'combo_line_id')::UUID,
+      (v_item.line->>'discount_id')::UUID, v_item.line->>'discount_name',
+      (v_item.line->>'discount_amount')::DECIMAL, (v_item.line->>'vat_exemption_amount')::DECIMAL,
+      CASE WHEN v_item.line->>'discount_id' IS NOT NULL THEN NULLIF(TRIM(p_discount->>'id_number'), '') END,
+      CASE WHEN v_item.line->>'discount_id' IS NOT NULL THEN NULLIF(TRIM(p_discount->>'holder_name'), '') END,
+      v_item.line->>'tax_category', (v_item.line->>'vat_rate')::DECIMAL,
+      (v_item.line->>'vatable_sales')::DECIMAL, (v_item.line->>'vat_amount')::DECIMAL,
+      (v_item.line->>'zero_rated_sales')::DECIMAL, (v_item.line->>'exempt_sales')::DECIMAL
+    FROM finished_products fp
+    WHERE fp.id = (v_item.line->>'product_id')::UUID
+    RETURNING to_jsonb(sales.*) INTO v_sale;
+
+    v_sales := v_sales || jsonb_build_array(v_sale);
+  END LOOP;
+
+  -- Deduct ingredients relative to the current stock
+  PERFORM set_stock_movement_context('sale_deduction', NULL, v_transaction_id, v_transaction_number);
+
+  WITH demand AS (
+    SELECT (b->>'item_id')::UUID AS item_id, SUM((b->>'qty')::DECIMAL * (l->>'qty')::INTEGER) AS required
+    FROM jsonb_array_elements(v_lines) AS l,
+         jsonb_array_elements(l->'breakdown') AS b
+    GROUP BY 1
+  )
+  UPDATE products p
+  SET qty = p.qty - to_storage_unit(p.unit_type, d.required)
+  FROM demand d
+  WHERE p.id = d.item_id;
+
+  PERFORM clear_stock_movement_context();
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'transaction_number', v_transaction_number,
+    'sales', v_sales
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v26 completed - VAT and tax categories added!' as status;
+
+SELECT tax_category, COUNT(*) AS products FROM finished_products GROUP BY tax_category ORDER BY tax_category;
@@ -0,0 +1,170 @@
+-- KASHPOS v2.0 Database Schema Update v27
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v26-vat.sql
+--
+-- This update adds:
+-- 1. receipt_deliveries: every email or SMS receipt sent for a transaction,
+--    with the provider's delivery status
+-- 2. start_receipt_delivery() / finish_receipt_delivery(), used by the
+--    server's /api/receipts/send route to record a send and its outcome
+--    for the signed-in user. start_receipt_delivery() returns the
+--    transaction's sale lines, which the server lays the receipt out from.
+
+-- ============================================
+-- 1. RECEIPT DELIVERIES TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS receipt_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transaction_id UUID NOT NULL,
+  transaction_number TEXT,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  -- Email address or mobile number as entered at the till
+  recipient TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error TEXT,
+  provider_message_id TEXT,
+  sent_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  sent_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipt_deliveries_transaction_id ON receipt_deliveries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_receipt_deliveries_created_at ON receipt_deliveries(created_at);
+
+ALTER TABLE receipt_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Same readers as sales; rows are only written by the functions below
+DROP POLICY IF EXISTS "Report viewers can read receipt_deliveries" ON receipt_deliveries;
+CREATE POLICY "Report viewers can read receipt_deliveries" ON receipt_deliveries
+  FOR SELECT USING (has_permission('view_reports') OR has_permission('view_earnings'));
+
+-- ============================================
+-- 2. RECORDING DELIVERIES
+-- ============================================
+-- Any signed-in user can send a receipt (cashiers at checkout, report
+-- viewers when resending), up to 5 times per transaction and 10 a minute
+-- per user. The delivery starts as 'pending' and only the user who started
+-- it can mark it 'sent' or 'failed'.
+--
+-- Returns { delivery_id, sales }. The receipt is only ever built from these
+-- lines on the server, so a send can't carry anything but the receipt. The
+-- lines are returned even to cashiers, who can't read sales, as they're
+-- only sent on to the recipient.
+
+DROP FUNCTION IF EXISTS start_receipt_delivery(UUID, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION start_receipt_delivery(
+  p_transaction_id UUID,
+  p_channel TEXT,
+  p_recipient TEXT,
+  p_provider TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_number TEXT;
+  v_delivery_id UUID;
+BEGIN
+  IF NOT is_signed_in() THEN
+    RAISE EXCEPTION 'Sign in to send receipts' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_channel NOT IN ('email', 'sms') THEN
+    RAISE EXCEPTION 'Unknown receipt channel %', p_channel;
+  END IF;
+
+  IF NULLIF(TRIM(p_recipient), '') IS NULL THEN
+    RAISE EXCEPTION 'Enter an email address or mobile number';
+  END IF;
+
+  SELECT transaction_number INTO v_transaction_number
+  FROM sales
+  WHERE transaction_id = p_transaction_id
+    AND NOT cancelled
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  -- Keeps the shop's email and SMS providers from being used to flood
+  -- anyone. The user's row is locked so parallel sends are counted.
+  PERFORM 1 FROM users WHERE id = current_app_user_id() FOR UPDATE;
+
+  IF (SELECT COUNT(*) FROM receipt_deliveries WHERE transaction_id = p_transaction_id) >= 5 THEN
+    RAISE EXCEPTION 'This receipt has already been sent 5 times' USING ERRCODE = '54000';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM receipt_deliveries
+    WHERE sent_by = current_app_user_id() AND created_at > NOW() - INTERVAL '1 minute'
+  ) >= 10 THEN
+    RAISE EXCEPTION 'Too many receipts sent. Try again in a minute.' USING ERRCODE = '54000';
+  END IF;
+
+  INSERT INTO receipt_deliveries (
+    transaction_id, transaction_number, channel, recipient, provider, sent_by, sent_by_name
+  ) VALUES (
+    p_transaction_id, v_transaction_number, p_channel, TRIM(p_recipient), p_provider,
+    current_app_user_id(), current_app_user_name()
+  )
+  RETURNING id INTO v_delivery_id;
+
+  RETURN jsonb_build_object(
+    'delivery_id', v_delivery_id,
+    'sales', (
+      SELECT jsonb_agg(to_jsonb(s.*) ORDER BY s.created_at, s.id)
+      FROM sales s
+      WHERE s.transaction_id = p_transaction_id
+        AND NOT s.cancelled
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION finish_receipt_delivery(
+  p_delivery_id UUID,
+  p_status TEXT,
+  p_error TEXT DEFAULT NULL,
+  p_provider_message_id TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT is_signed_in() THEN
+    RAISE EXCEPTION 'Sign in to send receipts' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_status NOT IN ('sent', 'failed') THEN
+    RAISE EXCEPTION 'Unknown delivery status %', p_status;
+  END IF;
+
+  UPDATE receipt_deliveries
+  SET status = p_status,
+      error = NULLIF(TRIM(p_error), ''),
+      provider_message_id = p_provider_message_id,
+      completed_at = NOW()
+  WHERE id = p_delivery_id
+    AND status = 'pending'
+    AND sent_by = current_app_user_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt delivery % not found', p_delivery_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v27 completed - email and SMS receipts added!' as status;
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'receipt_deliveries'
+ORDER BY ordinal_position;
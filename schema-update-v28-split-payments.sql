@@ -0,0 +1,928 @@
+-- KASHPOS v2.0 Database Schema Update v28
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v27-digital-receipts.sql
+--
+-- This update adds:
+-- 1. payments: the tenders of each transaction (e.g. cash + GCash), with
+--    rows for the sales made before this update
+-- 2. process_checkout() - takes a list of payments; change is only given
+--    from cash, and split transactions are stamped "Cash + GCash" on their
+--    sale lines
+-- 3. sale_refunds.payments - refunds and voids are split across the
+--    transaction's payments
+-- 4. get_shift_summary() - cash sales, cash refunds and the payment method
+--    totals come from the payments
+-- 5. start_receipt_delivery() - also returns the payments, for the email
+--    and SMS receipts
+-- 6. archive_transactions() - deletes archived transactions' sales and
+--    payments together
+
+-- ============================================
+-- 1. PAYMENTS TABLE
+-- ============================================
+-- amount is what the payment put towards the total; tendered is what the
+-- customer handed over. They only differ for cash, where the change
+-- (sum of tendered - total) comes back out of the drawer.
+
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transaction_id UUID NOT NULL,
+  transaction_number TEXT,
+  payment_method TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0),
+  tendered DECIMAL(10, 2) NOT NULL CHECK (tendered >= amount),
+  -- Order the payments were entered in at the till
+  sort_order INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_transaction_id ON payments(transaction_id);
+
+-- Earlier sales: a payment per payment method on the transaction's lines
+-- (normally one, more if a line's method was edited since) for what those
+-- lines still come to. Voided lines are left out. What the customer handed
+-- over beyond the total is shared across the methods by amount, so it's
+-- only counted once.
+WITH methods AS (
+  SELECT
+    COALESCE(s.transaction_id, s.id) AS transaction_id,
+    s.payment_method,
+    MAX(s.transaction_number) AS transaction_number,
+    SUM(s.total) AS amount,
+    MAX(s.customer_payment) AS customer_payment,
+    MIN(s.created_at) AS created_at
+  FROM sales s
+  WHERE NOT s.cancelled
+    AND NOT EXISTS (SELECT 1 FROM payments p WHERE p.transaction_id = COALESCE(s.transaction_id, s.id))
+  GROUP BY COALESCE(s.transaction_id, s.id), s.payment_method
+),
+running AS (
+  SELECT
+    m.*,
+    ROW_NUMBER() OVER w AS sort_order,
+    SUM(m.amount) OVER w AS amount_through,
+    SUM(m.amount) OVER (PARTITION BY m.transaction_id) AS total,
+    GREATEST(
+      MAX(m.customer_payment) OVER (PARTITION BY m.transaction_id) - SUM(m.amount) OVER (PARTITION BY m.transaction_id),
+      0
+    ) AS extra
+  FROM methods m
+  WINDOW w AS (PARTITION BY m.transaction_id ORDER BY m.amount DESC, m.payment_method)
+)
+INSERT INTO payments (transaction_id, transaction_number, payment_method, amount, tendered, sort_order, created_at)
+SELECT
+  transaction_id,
+  transaction_number,
+  payment_method,
+  amount,
+  -- Rounded so the shares add up to the extra; all of it on the first
+  -- payment when the lines come to nothing
+  amount + COALESCE(
+    ROUND(extra * amount_through / NULLIF(total, 0), 2) - ROUND(extra * (amount_through - amount) / NULLIF(total, 0), 2),
+    CASE WHEN sort_order = 1 THEN extra ELSE 0 END
+  ),
+  sort_order,
+  created_at
+FROM running;
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+-- Same readers as sales; rows are written by process_checkout(), follow the
+-- sales when their payment method is edited, and are deleted with them by
+-- archive_transactions()
+DROP POLICY IF EXISTS "Report viewers can read payments" ON payments;
+CREATE POLICY "Report viewers can read payments" ON payments
+  FOR SELECT USING (has_permission('view_reports') OR has_permission('view_earnings'));
+
+DROP POLICY IF EXISTS "Sale editors can update payments" ON payments;
+CREATE POLICY "Sale editors can update payments" ON payments
+  FOR UPDATE USING (has_permission('edit_sale_details')) WITH CHECK (has_permission('edit_sale_details'));
+
+DROP POLICY IF EXISTS "Archivers can delete payments" ON payments;
+CREATE POLICY "Archivers can delete payments" ON payments
+  FOR DELETE USING (has_permission('archive_sales'));
+
+-- ============================================
+-- 2. CHECKOUT WITH SPLIT PAYMENTS
+-- ============================================
+-- p_payments: [{ "payment_method": "Cash", "amount": 200 }, { "payment_method": "GCash", "amount": 150 }]
+--   amount is what was handed over for that method. Each method can be
+--   used once, and non-cash payments can't add up to more than the total.
+--   When NULL the sale is paid p_customer_payment with p_payment_method,
+--   as before.
+
+DROP FUNCTION IF EXISTS process_checkout(JSONB, TEXT, TEXT, TEXT, DECIMAL, JSONB);
+
+CREATE OR REPLACE FUNCTION process_checkout(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_customer_type TEXT,
+  p_dine_in_takeout TEXT,
+  p_customer_payment DECIMAL,
+  p_discount JSONB DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_id UUID := uuid_generate_v4();
+  v_transaction_number TEXT;
+  v_unknown_product UUID;
+  v_cart_total DECIMAL;
+  v_out_of_stock JSONB;
+  v_item RECORD;
+  v_product finished_products;
+  v_modifier_ids UUID[];
+  v_group modifier_groups;
+  v_modifiers JSONB;
+  v_item_lines JSONB;
+  v_lines JSONB := '[]'::JSONB;
+  v_sale JSONB;
+  v_sales JSONB := '[]'::JSONB;
+  v_vat_rate DECIMAL := current_vat_rate();
+  v_payments JSONB;
+  v_payment_method TEXT;
+  v_tendered DECIMAL;
+  v_non_cash DECIMAL;
+  v_change DECIMAL;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to record sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    WHERE c.product_id IS NULL OR c.qty IS NULL OR c.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every cart item needs a product and a positive quantity';
+  END IF;
+
+  SELECT c.product_id INTO v_unknown_product
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  LEFT JOIN finished_products fp ON fp.id = c.product_id
+  WHERE fp.id IS NULL
+  LIMIT 1;
+
+  IF v_unknown_product IS NOT NULL THEN
+    RAISE EXCEPTION 'Product % not found', v_unknown_product;
+  END IF;
+
+  -- Lock every inventory row this cart touches, modifiers and combo
+  -- components included (in id order to avoid deadlocks) so concurrent
+  -- checkouts wait for each other
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    UNION
+    SELECT mi.item_id
+    FROM jsonb_array_elements(p_items) AS e(item),
+         jsonb_array_elements_text(COALESCE(e.item->'modifier_ids', '[]'::JSONB)) AS m(id)
+    JOIN modifier_ingredients mi ON mi.modifier_id = m.id::UUID
+    UNION
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN combo_slots cs ON cs.combo_id = c.product_id
+    JOIN combo_slot_options o ON o.slot_id = cs.id
+    JOIN product_ingredients pi ON pi.product_id = o.product_id
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Check each cart item's modifiers and work out its price and recipe
+  -- (cart_index ties a combo's component lines to their cart item)
+  FOR v_item IN
+    SELECT e.item, e.position
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position)
+    ORDER BY e.position
+  LOOP
+    SELECT * INTO v_product FROM finished_products WHERE id = (v_item.item->>'product_id')::UUID;
+
+    IF v_product.is_combo THEN
+      IF COALESCE(jsonb_array_length(v_item.item->'modifier_ids'), 0) > 0 THEN
+        RAISE EXCEPTION '% is a combo and has no options', v_product.name;
+      END IF;
+
+      v_item_lines := combo_cart_lines(v_product, (v_item.item->>'qty')::INTEGER, v_item.item->'combo_choices');
+    ELSE
+      v_modifier_ids := ARRAY(
+        SELECT m.id::UUID
+        FROM jsonb_array_elements_text(COALESCE(v_item.item->'modifier_ids', '[]'::JSONB)) AS m(id)
+      );
+
+      IF cardinality(v_modifier_ids) <> (SELECT COUNT(DISTINCT m) FROM unnest(v_modifier_ids) AS m) THEN
+        RAISE EXCEPTION 'The same option was picked twice for %', v_product.name;
+      END IF;
+
+      IF EXISTS (
+        SELECT 1
+        FROM unnest(v_modifier_ids) AS m(id)
+        LEFT JOIN modifiers mo ON mo.id = m.id
+        LEFT JOIN modifier_groups g ON g.id = mo.group_id
+        WHERE g.product_id IS DISTINCT FROM v_product.id
+      ) THEN
+        RAISE EXCEPTION 'One of the options for % is no longer available', v_product.name;
+      END IF;
+
+      SELECT g.* INTO v_group
+      FROM modifier_groups g
+      WHERE g.product_id = v_product.id
+        AND (
+          (SELECT COUNT(*) FROM modifiers mo WHERE mo.group_id = g.id AND mo.id = ANY(v_modifier_ids)) < g.min_select
+          OR (SELECT COUNT(*) FROM modifiers mo WHERE mo.group_id = g.id AND mo.id = ANY(v_modifier_ids)) > g.max_select
+        )
+      ORDER BY g.sort_order
+      LIMIT 1;
+
+      IF v_group.id IS NOT NULL THEN
+        RAISE EXCEPTION 'Choose % for %', CASE
+          WHEN v_group.max_select IS NULL THEN 'at least ' || v_group.min_select
+          WHEN v_group.min_select = v_group.max_select THEN v_group.min_select::TEXT
+          WHEN v_group.min_select = 0 THEN 'up to ' || v_group.max_select
+          ELSE v_group.min_select || ' to ' || v_group.max_select
+        END || ' ' || v_group.name, v_product.name;
+      END IF;
+
+      SELECT COALESCE(
+        jsonb_agg(
+          jsonb_build_object('modifier_id', mo.id, 'group_name', g.name, 'name', mo.name, 'price_delta', mo.price_delta)
+          ORDER BY g.sort_order, mo.sort_order
+        ),
+        '[]'::JSONB
+      )
+      INTO v_modifiers
+      FROM modifiers mo
+      JOIN modifier_groups g ON g.id = mo.group_id
+      WHERE mo.id = ANY(v_modifier_ids);
+
+      v_item_lines := jsonb_build_array(jsonb_build_object(
+        'product_id', v_product.id,
+        'qty', (v_item.item->>'qty')::INTEGER,
+        'unit_price', v_product.selling_price + COALESCE((
+          SELECT SUM((m->>'price_delta')::DECIMAL) FROM jsonb_array_elements(v_modifiers) AS m
+        ), 0),
+        'modifiers', v_modifiers,
+        'breakdown', modified_cost_breakdown(v_product.id, v_modifier_ids)
+      ));
+    END IF;
+
+    SELECT v_lines || jsonb_agg(l || jsonb_build_object(
+      'cart_index', v_item.position,
+      'discount_id', v_item.item->'discount_id',
+      'tax_category', fp.tax_category,
+      'vat_rate', CASE WHEN fp.tax_category = 'vatable' THEN v_vat_rate ELSE 0 END
+    ))
+    INTO v_lines
+    FROM jsonb_array_elements(v_item_lines) AS l
+    JOIN finished_products fp ON fp.id = (l->>'product_id')::UUID;
+  END LOOP;
+
+  v_lines := apply_sale_taxes(apply_sale_discounts(v_lines, p_discount));
+
+  SELECT SUM((l->>'total')::DECIMAL) INTO v_cart_total
+  FROM jsonb_array_elements(v_lines) AS l;
+
+  -- One payment of p_payment_method unless the tenders are listed
+  v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object(
+    'payment_method', p_payment_method,
+    'amount', COALESCE(p_customer_payment, 0)
+  )));
+
+  IF jsonb_typeof(v_payments) <> 'array' OR jsonb_array_length(v_payments) = 0 THEN
+    RAISE EXCEPTION 'Add at least one payment';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(v_payments) AS t(payment_method TEXT, amount DECIMAL)
+    WHERE NULLIF(TRIM(t.payment_method), '') IS NULL OR t.amount IS NULL OR t.amount < 0
+  ) THEN
+    RAISE EXCEPTION 'Every payment needs a payment method and an amount';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) <> COUNT(DISTINCT lower(TRIM(t.payment_method)))
+    FROM jsonb_to_recordset(v_payments) AS t(payment_method TEXT, amount DECIMAL)
+  ) THEN
+    RAISE EXCEPTION 'Each payment method can only be used once';
+  END IF;
+
+  SELECT
+    SUM(t.amount),
+    COALESCE(SUM(t.amount) FILTER (WHERE lower(TRIM(t.payment_method)) <> 'cash'), 0),
+    string_agg(TRIM(t.payment_method), ' + ' ORDER BY t.position)
+  INTO v_tendered, v_non_cash, v_payment_method
+  FROM jsonb_array_elements(v_payments) WITH ORDINALITY AS e(item, position),
+       LATERAL (SELECT e.item->>'payment_method' AS payment_method, (e.item->>'amount')::DECIMAL AS amount, e.position) t;
+
+  IF v_tendered < v_cart_total THEN
+    RAISE EXCEPTION 'Payment of % does not cover the total of %', v_tendered, v_cart_total;
+  END IF;
+
+  -- Change only comes out of the cash drawer
+  IF v_non_cash > v_cart_total THEN
+    RAISE EXCEPTION 'Non-cash payments of % are more than the total of %; only cash can be overpaid', v_non_cash, v_cart_total;
+  END IF;
+
+  v_change := v_tendered - v_cart_total;
+
+  -- Compare ingredient demand with the current (locked) stock
+  WITH demand AS (
+    SELECT (b->>'item_id')::UUID AS item_id, SUM((b->>'qty')::DECIMAL * (l->>'qty')::INTEGER) AS required
+    FROM jsonb_array_elements(v_lines) AS l,
+         jsonb_array_elements(l->'breakdown') AS b
+    GROUP BY 1
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'item_name', p.name,
+    'unit_type', p.unit_type,
+    'required', d.required,
+    'available', to_ingredient_unit(p.unit_type, p.qty)
+  ) ORDER BY p.name)
+  INTO v_out_of_stock
+  FROM demand d
+  JOIN products p ON p.id = d.item_id
+  WHERE to_ingredient_unit(p.unit_type, p.qty) < d.required;
+
+  IF v_out_of_stock IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'out_of_stock',
+      'out_of_stock', v_out_of_stock
+    );
+  END IF;
+
+  -- Reserve the next transaction number; the counter row stays locked until
+  -- this transaction commits, and a rolled back checkout releases its number
+  v_transaction_number := next_transaction_number();
+
+  -- Insert one sale line per cart item (per component for combos), in cart
+  -- order (cost is ingredient cost only, no OPEX per unit)
+  FOR v_item IN
+    SELECT l AS line FROM jsonb_array_elements(v_lines) AS l
+  LOOP
+    INSERT INTO sales (
+      transaction_id, transaction_number, product_id, product_name, qty, unit_type,
+      cost, selling_price, total, payment_method, customer_type, dine_in_takeout,
+      customer_payment, recipe_version_id, cost_breakdown, modifiers,
+      combo_id, combo_name, combo_line_id,
+      discount_id, discount_name, discount_amount, vat_exemption_amount, discount_id_number, discount_holder_name,
+      tax_category, vat_rate, vatable_sales, vat_amount, zero_rated_sales, exempt_sales
+    )
+    SELECT
+      v_transaction_id, v_transaction_number, fp.id, fp.name, (v_item.line->>'qty')::INTEGER, 'quantity',
+      COALESCE((SELECT SUM((b->>'cost')::DECIMAL) FROM jsonb_array_elements(v_item.line->'breakdown') AS b), 0),
+      (v_item.line->>'unit_price')::DECIMAL,
+      (v_item.line->>'total')::DECIMAL,
+      v_payment_method, p_customer_type, p_dine_in_takeout, v_tendered,
+      current_recipe_version_id(fp.id), v_item.line->'breakdown', v_item.line->'modifiers',
+      (v_item.line->>'combo_id')::UUID, v_item.line->>'combo_name', (v_item.line->>'combo_line_id')::UUID,
+      (v_item.line->>'discount_id')::UUID, v_item.line->>'discount_name',
+      (v_item.line->>'discount_amount')::DECIMAL, (v_item.line->>'vat_exemption_amount')::DECIMAL,
+      CASE WHEN v_item.line->>'discount_id' IS NOT NULL THEN NULLIF(TRIM(p_discount->>'id_number'), '') END,
+      CASE WHEN v_item.line->>'discount_id' IS NOT NULL THEN NULLIF(TRIM(p_discount->>'holder_name'), '') END,
+      v_item.line->>'tax_category', (v_item.line->>'vat_rate')::DECIMAL,
+      (v_item.line->>'vatable_sales')::DECIMAL, (v_item.line->>'vat_amount')::DECIMAL,
+      (v_item.line->>'zero_rated_sales')::DECIMAL, (v_item.line->>'exempt_sales')::DECIMAL
+    FROM finished_products fp
+    WHERE fp.id = (v_item.line->>'product_id')::UUID
+    RETURNING to_jsonb(sales.*) INTO v_sale;
+
+    v_sales := v_sales || jsonb_build_array(v_sale);
+  END LOOP;
+
+  -- One payments row per tender; the cash row keeps what stayed in the
+  -- drawer after the change was given
+  INSERT INTO payments (transaction_id, transaction_number, payment_method, amount, tendered, sort_order)
+  SELECT
+    v_transaction_id, v_transaction_number, TRIM(e.item->>'payment_method'),
+    (e.item->>'amount')::DECIMAL - CASE WHEN lower(TRIM(e.item->>'payment_method')) = 'cash' THEN v_change ELSE 0 END,
+    (e.item->>'amount')::DECIMAL,
+    e.position
+  FROM jsonb_array_elements(v_payments) WITH ORDINALITY AS e(item, position);
+
+  -- Deduct ingredients relative to the current stock
+  PERFORM set_stock_movement_context('sale_deduction', NULL, v_transaction_id, v_transaction_number);
+
+  WITH demand AS (
+    SELECT (b->>'item_id')::UUID AS item_id, SUM((b->>'qty')::DECIMAL * (l->>'qty')::INTEGER) AS required
+    FROM jsonb_array_elements(v_lines) AS l,
+         jsonb_array_elements(l->'breakdown') AS b
+    GROUP BY 1
+  )
+  UPDATE products p
+  SET qty = p.qty - to_storage_unit(p.unit_type, d.required)
+  FROM demand d
+  WHERE p.id = d.item_id;
+
+  PERFORM clear_stock_movement_context();
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'transaction_number', v_transaction_number,
+    'sales', v_sales,
+    'payments', (
+      SELECT jsonb_agg(to_jsonb(p.*) ORDER BY p.sort_order)
+      FROM payments p
+      WHERE p.transaction_id = v_transaction_id
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 3. REFUNDS SPLIT ACROSS THE PAYMENTS
+-- ============================================
+-- payments: [{ "payment_method": "Cash", "amount": 40 }, { "payment_method": "GCash", "amount": 10 }]
+--   what each of the transaction's payments gave back, so only the cash
+--   share of a split transaction's refund comes out of the drawer
+
+ALTER TABLE sale_refunds ADD COLUMN IF NOT EXISTS payments JSONB;
+
+-- Earlier refunds were given back on the line's payment method
+UPDATE sale_refunds
+SET payments = jsonb_build_array(jsonb_build_object('payment_method', payment_method, 'amount', amount))
+WHERE payments IS NULL;
+
+-- Splits a refund across the transaction's payments in proportion to their
+-- amounts, rounding as shift_payment_amounts() does. Transactions without
+-- payments give it all back on p_payment_method.
+CREATE OR REPLACE FUNCTION refund_payment_split(p_transaction_id UUID, p_amount DECIMAL, p_payment_method TEXT)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    (
+      SELECT jsonb_agg(jsonb_build_object('payment_method', payment_method, 'amount', share) ORDER BY sort_order, id)
+      FROM (
+        SELECT
+          payment_method,
+          sort_order,
+          id,
+          ROUND(p_amount * SUM(amount) OVER w / NULLIF(SUM(amount) OVER (), 0), 2)
+            - ROUND(p_amount * (SUM(amount) OVER w - amount) / NULLIF(SUM(amount) OVER (), 0), 2) AS share
+        FROM payments
+        WHERE transaction_id = p_transaction_id
+        WINDOW w AS (ORDER BY sort_order, id)
+      ) shares
+      WHERE share IS NOT NULL
+    ),
+    jsonb_build_array(jsonb_build_object('payment_method', p_payment_method, 'amount', p_amount))
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Same as v23, with each refund's split across the payments stored in
+-- payments
+CREATE OR REPLACE FUNCTION refund_sale_lines(
+  p_kind TEXT,
+  p_lines JSONB,
+  p_reason_code TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_restock BOOLEAN DEFAULT true
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_line JSONB;
+  v_sale sales;
+  v_qty DECIMAL(10, 2);
+  v_refunded_qty DECIMAL(10, 2);
+  v_refunded_amount DECIMAL(10, 2);
+  v_amount DECIMAL(10, 2);
+  v_shift_id UUID;
+  v_refund sale_refunds;
+  v_refunds JSONB := '[]'::jsonb;
+BEGIN
+  IF NOT has_permission('void_sales') THEN
+    RAISE EXCEPTION 'You do not have permission to void or refund sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_kind NOT IN ('void', 'refund') THEN
+    RAISE EXCEPTION 'Unknown refund kind %', p_kind;
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item';
+  END IF;
+
+  SELECT id INTO v_shift_id FROM shifts WHERE closed_at IS NULL;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    SELECT * INTO v_sale FROM sales WHERE id = (v_line->>'sale_id')::UUID FOR UPDATE;
+
+    IF v_sale.id IS NULL THEN
+      RAISE EXCEPTION 'Sale % not found', v_line->>'sale_id';
+    END IF;
+
+    IF v_sale.cancelled THEN
+      RAISE EXCEPTION '% has already been voided', v_sale.product_name;
+    END IF;
+
+    v_qty := (v_line->>'qty')::DECIMAL;
+
+    SELECT COALESCE(SUM(qty), 0), COALESCE(SUM(amount), 0)
+    INTO v_refunded_qty, v_refunded_amount
+    FROM sale_refunds
+    WHERE sale_id = v_sale.id AND kind = 'refund';
+
+    IF p_kind = 'void' THEN
+      IF v_refunded_qty > 0 THEN
+        RAISE EXCEPTION '% has refunds already; refund the rest instead of voiding', v_sale.product_name;
+      END IF;
+
+      v_qty := v_sale.qty;
+      v_amount := v_sale.total;
+
+      UPDATE sales
+      SET cancelled = true, cancelled_at = NOW()
+      WHERE id = v_sale.id;
+    ELSE
+      IF v_qty IS NULL OR v_qty <= 0 OR v_qty > v_sale.qty - v_refunded_qty THEN
+        RAISE EXCEPTION 'Only % of % can be refunded', trim_scale(v_sale.qty - v_refunded_qty), v_sale.product_name;
+      END IF;
+
+      -- The last unit takes whatever is left so rounding never over-refunds
+      v_amount := CASE
+        WHEN v_refunded_qty + v_qty = v_sale.qty THEN v_sale.total - v_refunded_amount
+        ELSE ROUND(v_sale.total * v_qty / v_sale.qty, 2)
+      END;
+    END IF;
+
+    INSERT INTO sale_refunds (
+      kind, sale_id, transaction_id, transaction_number, product_id, product_name,
+      qty, amount, cost, payment_method, payments, cashier_id, cashier_name, reason_code, note, restocked, shift_id,
+      refunded_by, refunded_by_name
+    )
+    VALUES (
+      p_kind, v_sale.id, v_sale.transaction_id, v_sale.transaction_number, v_sale.product_id, v_sale.product_name,
+      v_qty, v_amount, v_sale.cost * v_qty, v_sale.payment_method,
+      refund_payment_split(COALESCE(v_sale.transaction_id, v_sale.id), v_amount, v_sale.payment_method),
+      v_sale.cashier_id, v_sale.cashier_name,
+      p_reason_code, NULLIF(TRIM(p_note), ''), p_restock, v_shift_id, current_app_user_id(), current_app_user_name()
+    )
+    RETURNING * INTO v_refund;
+
+    IF p_restock THEN
+      PERFORM set_stock_movement_context(
+        'refund_restore', v_sale.id, v_sale.transaction_id, v_sale.transaction_number,
+        NULLIF(TRIM(p_note), '')
+      );
+
+      UPDATE products p
+      SET qty = p.qty + to_storage_unit(p.unit_type, u.qty * v_qty)
+      FROM sale_unit_ingredients(v_sale.id) u
+      WHERE p.id = u.item_id;
+
+      PERFORM clear_stock_movement_context();
+    END IF;
+
+    v_refunds := v_refunds || to_jsonb(v_refund);
+  END LOOP;
+
+  RETURN v_refunds;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- Same as v23, with each line's split stored the same way
+CREATE OR REPLACE FUNCTION cancel_recent_transaction(p_transaction_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_sale sales;
+  v_count INTEGER := 0;
+  v_total DECIMAL(10, 2) := 0;
+  v_shift_id UUID;
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to cancel sales' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock every line first so a concurrent cancel or refund has to wait
+  PERFORM 1 FROM sales WHERE transaction_id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM sales WHERE transaction_id = p_transaction_id AND cancelled) THEN
+    RAISE EXCEPTION 'Transaction has already been cancelled';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM sale_refunds WHERE transaction_id = p_transaction_id) THEN
+    RAISE EXCEPTION 'Transaction has refunds; void or refund it from Reports instead';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM sales
+    WHERE transaction_id = p_transaction_id AND created_at < NOW() - INTERVAL '1 minute'
+  ) AND NOT has_permission('void_sales') THEN
+    RAISE EXCEPTION 'Sale cannot be cancelled - time expired' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_shift_id FROM shifts WHERE closed_at IS NULL;
+
+  FOR v_sale IN SELECT * FROM sales WHERE transaction_id = p_transaction_id
+  LOOP
+    UPDATE sales
+    SET cancelled = true, cancelled_at = NOW()
+    WHERE id = v_sale.id;
+
+    PERFORM set_stock_movement_context(
+      'cancel_restore', v_sale.id, v_sale.transaction_id, v_sale.transaction_number
+    );
+
+    UPDATE products p
+    SET qty = p.qty + to_storage_unit(p.unit_type, u.qty * v_sale.qty)
+    FROM sale_unit_ingredients(v_sale.id) u
+    WHERE p.id = u.item_id;
+
+    PERFORM clear_stock_movement_context();
+
+    INSERT INTO sale_refunds (
+      kind, sale_id, transaction_id, transaction_number, product_id, product_name,
+      qty, amount, cost, payment_method, payments, cashier_id, cashier_name, reason_code, note, restocked, shift_id,
+      refunded_by, refunded_by_name
+    )
+    VALUES (
+      'void', v_sale.id, v_sale.transaction_id, v_sale.transaction_number, v_sale.product_id, v_sale.product_name,
+      v_sale.qty, v_sale.total, v_sale.cost * v_sale.qty, v_sale.payment_method,
+      refund_payment_split(v_sale.transaction_id, v_sale.total, v_sale.payment_method), v_sale.cashier_id, v_sale.cashier_name,
+      'cashier_error', 'Cancelled right after checkout', true, v_shift_id,
+      current_app_user_id(), current_app_user_name()
+    );
+
+    v_count := v_count + 1;
+    v_total := v_total + v_sale.total;
+  END LOOP;
+
+  RETURN jsonb_build_object('lines', v_count, 'total', v_total);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+
+-- ============================================
+-- 4. PAYMENT METHODS IN THE SHIFT SUMMARY
+-- ============================================
+
+-- What each payment method took for the shift's sales. A transaction's
+-- remaining (not voided) total is split across its payments in proportion
+-- to their amounts, rounding so the parts add up to the total.
+CREATE OR REPLACE FUNCTION shift_payment_amounts(p_shift_id UUID)
+RETURNS TABLE (transaction_id UUID, payment_method TEXT, amount DECIMAL) AS $$
+  WITH totals AS (
+    SELECT COALESCE(s.transaction_id, s.id) AS transaction_id, SUM(s.total) AS total
+    FROM sales s
+    WHERE s.shift_id = p_shift_id AND s.cancelled = false
+    GROUP BY 1
+  ),
+  running AS (
+    SELECT
+      p.transaction_id,
+      p.payment_method,
+      t.total,
+      SUM(p.amount) OVER (PARTITION BY p.transaction_id ORDER BY p.sort_order, p.id) AS paid_through,
+      SUM(p.amount) OVER (PARTITION BY p.transaction_id) AS paid,
+      p.amount
+    FROM payments p
+    JOIN totals t ON t.transaction_id = p.transaction_id
+  )
+  SELECT
+    transaction_id,
+    payment_method,
+    COALESCE(
+      ROUND(total * paid_through / NULLIF(paid, 0), 2) - ROUND(total * (paid_through - amount) / NULLIF(paid, 0), 2),
+      0
+    )
+  FROM running;
+$$ LANGUAGE sql STABLE;
+
+-- Same as v14, with cash sales, cash refunds and the payment method totals
+-- taken from the payments instead of the sale lines' payment method
+CREATE OR REPLACE FUNCTION get_shift_summary(p_shift_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_shift shifts;
+  v_sales_total DECIMAL(10, 2);
+  v_transaction_count INTEGER;
+  v_cash_sales DECIMAL(10, 2);
+  v_refunds_total DECIMAL(10, 2);
+  v_cash_refunds DECIMAL(10, 2);
+  v_cash_in DECIMAL(10, 2);
+  v_cash_out DECIMAL(10, 2);
+  v_payment_methods JSONB;
+  v_movements JSONB;
+BEGIN
+  IF NOT is_signed_in() THEN
+    RAISE EXCEPTION 'Sign in to view shifts' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_shift FROM shifts WHERE id = p_shift_id;
+  IF v_shift.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_shift.closed_at IS NOT NULL
+    AND v_shift.opened_by IS DISTINCT FROM current_app_user_id()
+    AND v_shift.closed_by IS DISTINCT FROM current_app_user_id()
+    AND NOT has_permission('view_reports') THEN
+    RAISE EXCEPTION 'You do not have permission to view this shift' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(total), 0),
+    COUNT(DISTINCT COALESCE(transaction_id, id))
+  INTO v_sales_total, v_transaction_count
+  FROM sales
+  WHERE shift_id = p_shift_id AND cancelled = false;
+
+  SELECT COALESCE(SUM(amount) FILTER (WHERE lower(payment_method) = 'cash'), 0)
+  INTO v_cash_sales
+  FROM shift_payment_amounts(p_shift_id);
+
+  -- Refunds, and voids of sales from an earlier shift (see v14)
+  SELECT COALESCE(SUM(r.amount), 0)
+  INTO v_refunds_total
+  FROM sale_refunds r
+  LEFT JOIN sales s ON s.id = r.sale_id
+  WHERE r.shift_id = p_shift_id
+    AND (r.kind = 'refund' OR (s.id IS NOT NULL AND s.shift_id IS DISTINCT FROM p_shift_id));
+
+  SELECT COALESCE(SUM((p->>'amount')::DECIMAL), 0)
+  INTO v_cash_refunds
+  FROM sale_refunds r
+  LEFT JOIN sales s ON s.id = r.sale_id
+  CROSS JOIN jsonb_array_elements(r.payments) p
+  WHERE r.shift_id = p_shift_id
+    AND (r.kind = 'refund' OR (s.id IS NOT NULL AND s.shift_id IS DISTINCT FROM p_shift_id))
+    AND lower(p->>'payment_method') = 'cash';
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'payment_method', payment_method,
+    'total', method_total,
+    'transactions', method_transactions
+  ) ORDER BY payment_method), '[]'::jsonb)
+  INTO v_payment_methods
+  FROM (
+    SELECT payment_method, SUM(amount) AS method_total, COUNT(DISTINCT transaction_id) AS method_transactions
+    FROM shift_payment_amounts(p_shift_id)
+    GROUP BY payment_method
+  ) by_method;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_in'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_out'), 0),
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'movement_type', movement_type,
+      'amount', amount,
+      'reason', reason,
+      'created_by_name', created_by_name,
+      'created_at', created_at
+    ) ORDER BY created_at), '[]'::jsonb)
+  INTO v_cash_in, v_cash_out, v_movements
+  FROM shift_cash_movements
+  WHERE shift_id = p_shift_id;
+
+  RETURN jsonb_build_object(
+    'shift_id', v_shift.id,
+    'opened_at', v_shift.opened_at,
+    'opened_by_name', v_shift.opened_by_name,
+    'opening_float', v_shift.opening_float,
+    'sales_total', v_sales_total,
+    'transaction_count', v_transaction_count,
+    'payment_methods', v_payment_methods,
+    'cash_sales', v_cash_sales,
+    'refunds_total', v_refunds_total,
+    'cash_refunds', v_cash_refunds,
+    'cash_in', v_cash_in,
+    'cash_out', v_cash_out,
+    'movements', v_movements,
+    'expected_cash', v_shift.opening_float + v_cash_sales - v_cash_refunds + v_cash_in - v_cash_out
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 5. PAYMENTS ON EMAIL AND SMS RECEIPTS
+-- ============================================
+-- Returns { delivery_id, sales, payments }; see
+-- schema-update-v27-digital-receipts.sql
+
+CREATE OR REPLACE FUNCTION start_receipt_delivery(
+  p_transaction_id UUID,
+  p_channel TEXT,
+  p_recipient TEXT,
+  p_provider TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_number TEXT;
+  v_delivery_id UUID;
+BEGIN
+  IF NOT is_signed_in() THEN
+    RAISE EXCEPTION 'Sign in to send receipts' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_channel NOT IN ('email', 'sms') THEN
+    RAISE EXCEPTION 'Unknown receipt channel %', p_channel;
+  END IF;
+
+  IF NULLIF(TRIM(p_recipient), '') IS NULL THEN
+    RAISE EXCEPTION 'Enter an email address or mobile number';
+  END IF;
+
+  SELECT transaction_number INTO v_transaction_number
+  FROM sales
+  WHERE transaction_id = p_transaction_id
+    AND NOT cancelled
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  -- Keeps the shop's email and SMS providers from being used to flood
+  -- anyone. The user's row is locked so parallel sends are counted.
+  PERFORM 1 FROM users WHERE id = current_app_user_id() FOR UPDATE;
+
+  IF (SELECT COUNT(*) FROM receipt_deliveries WHERE transaction_id = p_transaction_id) >= 5 THEN
+    RAISE EXCEPTION 'This receipt has already been sent 5 times' USING ERRCODE = '54000';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM receipt_deliveries
+    WHERE sent_by = current_app_user_id() AND created_at > NOW() - INTERVAL '1 minute'
+  ) >= 10 THEN
+    RAISE EXCEPTION 'Too many receipts sent. Try again in a minute.' USING ERRCODE = '54000';
+  END IF;
+
+  INSERT INTO receipt_deliveries (
+    transaction_id, transaction_number, channel, recipient, provider, sent_by, sent_by_name
+  ) VALUES (
+    p_transaction_id, v_transaction_number, p_channel, TRIM(p_recipient), p_provider,
+    current_app_user_id(), current_app_user_name()
+  )
+  RETURNING id INTO v_delivery_id;
+
+  RETURN jsonb_build_object(
+    'delivery_id', v_delivery_id,
+    'sales', (
+      SELECT jsonb_agg(to_jsonb(s.*) ORDER BY s.created_at, s.id)
+      FROM sales s
+      WHERE s.transaction_id = p_transaction_id
+        AND NOT s.cancelled
+    ),
+    'payments', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(p.*) ORDER BY p.sort_order), '[]'::JSONB)
+      FROM payments p
+      WHERE p.transaction_id = p_transaction_id
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 6. ARCHIVING TRANSACTIONS
+-- ============================================
+-- Reports deletes the transactions it has downloaded through this, so their
+-- payments can't be left behind to be counted in shift summaries. Takes the
+-- transaction ids (a sale's own id when it has none); returns the number of
+-- sale lines deleted.
+
+CREATE OR REPLACE FUNCTION archive_transactions(p_transaction_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT has_permission('archive_sales') THEN
+    RAISE EXCEPTION 'You do not have permission to archive sales' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM payments WHERE transaction_id = ANY(p_transaction_ids);
+
+  DELETE FROM sales WHERE COALESCE(transaction_id, id) = ANY(p_transaction_ids);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v28 completed - split payments added!' as status;
+
+SELECT payment_method, COUNT(*) AS payments, SUM(amount) AS amount
+FROM payments
+GROUP BY payment_method
+ORDER BY payment_method;
@@ -0,0 +1,198 @@
+-- KASHPOS v2.0 Database Schema Update v7
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER all previous schema updates (up to v6)
+--
+-- This update adds:
+-- 1. Unit conversion helpers shared by inventory functions
+-- 2. process_checkout() - a single atomic checkout function that assigns
+--    the transaction number, inserts all sale lines and deducts ingredient
+--    stock in one database transaction
+
+-- ============================================
+-- 1. UNIT CONVERSION HELPERS
+-- ============================================
+-- Inventory is stored in kg / L / pcs, recipes use g / ml / pcs
+
+CREATE OR REPLACE FUNCTION to_ingredient_unit(p_unit_type TEXT, p_qty DECIMAL)
+RETURNS DECIMAL AS $$
+  SELECT CASE WHEN p_unit_type IN ('weight', 'volume') THEN p_qty * 1000 ELSE p_qty END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION to_storage_unit(p_unit_type TEXT, p_qty DECIMAL)
+RETURNS DECIMAL AS $$
+  SELECT CASE WHEN p_unit_type IN ('weight', 'volume') THEN p_qty / 1000 ELSE p_qty END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- 2. ATOMIC CHECKOUT FUNCTION
+-- ============================================
+-- p_items: [{ "product_id": "<finished_products.id>", "qty": 2 }, ...]
+--
+-- Returns on success:
+--   { "success": true, "transaction_id": ..., "transaction_number": ..., "sales": [<sales rows>] }
+-- Returns when an ingredient is short (nothing is written):
+--   { "success": false, "error": "out_of_stock",
+--     "out_of_stock": [{ "item_id", "item_name", "unit_type", "required", "available" }] }
+--
+-- Invalid input (empty cart, unknown product, short payment) raises an exception,
+-- which rolls back the whole checkout.
+
+CREATE OR REPLACE FUNCTION process_checkout(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_customer_type TEXT,
+  p_dine_in_takeout TEXT,
+  p_customer_payment DECIMAL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_id UUID := uuid_generate_v4();
+  v_transaction_number TEXT;
+  v_year_month TEXT := to_char(NOW(), 'YY-MM');
+  v_last_number INTEGER;
+  v_unknown_product UUID;
+  v_cart_total DECIMAL;
+  v_out_of_stock JSONB;
+  v_item RECORD;
+  v_sale JSONB;
+  v_sales JSONB := '[]'::JSONB;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    WHERE c.product_id IS NULL OR c.qty IS NULL OR c.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every cart item needs a product and a positive quantity';
+  END IF;
+
+  SELECT c.product_id INTO v_unknown_product
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  LEFT JOIN finished_products fp ON fp.id = c.product_id
+  WHERE fp.id IS NULL
+  LIMIT 1;
+
+  IF v_unknown_product IS NOT NULL THEN
+    RAISE EXCEPTION 'Product % not found', v_unknown_product;
+  END IF;
+
+  SELECT SUM(c.qty * fp.selling_price) INTO v_cart_total
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  JOIN finished_products fp ON fp.id = c.product_id;
+
+  IF COALESCE(p_customer_payment, 0) < v_cart_total THEN
+    RAISE EXCEPTION 'Payment of % does not cover the total of %', COALESCE(p_customer_payment, 0), v_cart_total;
+  END IF;
+
+  -- Lock every inventory row this cart touches (in id order to avoid deadlocks)
+  -- so concurrent checkouts wait for each other instead of overwriting stock
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Compare ingredient demand with the current (locked) stock
+  WITH demand AS (
+    SELECT pi.item_id, SUM(pi.qty * c.qty) AS required
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    GROUP BY pi.item_id
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'item_name', p.name,
+    'unit_type', p.unit_type,
+    'required', d.required,
+    'available', to_ingredient_unit(p.unit_type, p.qty)
+  ) ORDER BY p.name)
+  INTO v_out_of_stock
+  FROM demand d
+  JOIN products p ON p.id = d.item_id
+  WHERE to_ingredient_unit(p.unit_type, p.qty) < d.required;
+
+  IF v_out_of_stock IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'out_of_stock',
+      'out_of_stock', v_out_of_stock
+    );
+  END IF;
+
+  -- Assign the transaction number (YY-MM-XXXXX, resets monthly).
+  -- The advisory lock serializes numbering until this transaction commits.
+  PERFORM pg_advisory_xact_lock(hashtext('sales_transaction_number'));
+
+  SELECT COALESCE(MAX(NULLIF(split_part(transaction_number, '-', 3), '')::INTEGER), 0)
+  INTO v_last_number
+  FROM sales
+  WHERE transaction_number LIKE v_year_month || '-%';
+
+  v_transaction_number := v_year_month || '-' || lpad((v_last_number + 1)::TEXT, 5, '0');
+
+  -- Insert one sale line per cart item, in cart order
+  -- (cost is ingredient cost only, no OPEX per unit)
+  FOR v_item IN
+    SELECT (e.item->>'product_id')::UUID AS product_id, (e.item->>'qty')::INTEGER AS qty
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position)
+    ORDER BY e.position
+  LOOP
+    INSERT INTO sales (
+      transaction_id, transaction_number, product_id, product_name, qty, unit_type,
+      cost, selling_price, total, payment_method, customer_type, dine_in_takeout,
+      customer_payment
+    )
+    SELECT
+      v_transaction_id, v_transaction_number, fp.id, fp.name, v_item.qty, 'quantity',
+      COALESCE((
+        SELECT SUM(pi.qty * p.cost)
+        FROM product_ingredients pi
+        JOIN products p ON p.id = pi.item_id
+        WHERE pi.product_id = fp.id
+      ), 0),
+      fp.selling_price, v_item.qty * fp.selling_price,
+      p_payment_method, p_customer_type, p_dine_in_takeout, p_customer_payment
+    FROM finished_products fp
+    WHERE fp.id = v_item.product_id
+    RETURNING to_jsonb(sales.*) INTO v_sale;
+
+    v_sales := v_sales || jsonb_build_array(v_sale);
+  END LOOP;
+
+  -- Deduct ingredients relative to the current stock
+  WITH demand AS (
+    SELECT pi.item_id, SUM(pi.qty * c.qty) AS required
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    GROUP BY pi.item_id
+  )
+  UPDATE products p
+  SET qty = p.qty - to_storage_unit(p.unit_type, d.required)
+  FROM demand d
+  WHERE p.id = d.item_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'transaction_number', v_transaction_number,
+    'sales', v_sales
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v7 completed - atomic checkout added!' as status;
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name IN ('process_checkout', 'to_ingredient_unit', 'to_storage_unit');
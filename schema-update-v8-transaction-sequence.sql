@@ -0,0 +1,302 @@
+-- KASHPOS v2.0 Database Schema Update v8
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v7-checkout-rpc.sql
+--
+-- This update adds:
+-- 1. transaction_number_sequences - a race-free counter per branch and period
+-- 2. Transaction number format settings (prefix, branch code, pad width,
+--    reset period, time zone)
+-- 3. next_transaction_number() - reserves the next number
+-- 4. A constraint so one transaction number belongs to exactly one transaction
+-- 5. process_checkout() now takes its number from next_transaction_number()
+
+-- ============================================
+-- 1. CREATE TRANSACTION NUMBER SEQUENCES TABLE
+-- ============================================
+-- One row per branch code and period (e.g. '26-10' when resetting monthly).
+-- The row lock taken while incrementing serializes concurrent checkouts.
+
+CREATE TABLE IF NOT EXISTS transaction_number_sequences (
+  branch_code TEXT NOT NULL DEFAULT '',
+  period_key TEXT NOT NULL,
+  last_value INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (branch_code, period_key)
+);
+
+DROP TRIGGER IF EXISTS update_transaction_number_sequences_updated_at ON transaction_number_sequences;
+CREATE TRIGGER update_transaction_number_sequences_updated_at
+  BEFORE UPDATE ON transaction_number_sequences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE transaction_number_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for public access
+DROP POLICY IF EXISTS "Allow all operations on transaction_number_sequences" ON transaction_number_sequences;
+CREATE POLICY "Allow all operations on transaction_number_sequences" ON transaction_number_sequences
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Continue existing monthly numbering (YY-MM-XXXXX) where it left off
+INSERT INTO transaction_number_sequences (branch_code, period_key, last_value)
+SELECT '', substring(transaction_number FROM 1 FOR 5), MAX(split_part(transaction_number, '-', 3)::INTEGER)
+FROM sales
+WHERE transaction_number ~ '^[0-9]{2}-[0-9]{2}-[0-9]+$'
+GROUP BY substring(transaction_number FROM 1 FOR 5)
+ON CONFLICT (branch_code, period_key) DO UPDATE
+  SET last_value = GREATEST(transaction_number_sequences.last_value, EXCLUDED.last_value);
+
+-- ============================================
+-- 2. TRANSACTION NUMBER FORMAT SETTINGS
+-- ============================================
+-- Defaults reproduce the existing YY-MM-XXXXX format
+
+INSERT INTO settings (key, value) VALUES
+  ('transaction_number_prefix', ''),
+  ('transaction_number_branch_code', ''),
+  ('transaction_number_pad_width', '5'),
+  ('transaction_number_reset_period', 'monthly'),
+  ('transaction_number_timezone', 'Asia/Manila')
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================
+-- 3. NEXT TRANSACTION NUMBER FUNCTION
+-- ============================================
+-- Format: [PREFIX-][BRANCH-]PERIOD-NUMBER, e.g. 26-10-00001 or POS-MNL-26-10-19-0001
+-- The period follows the reset setting: daily YY-MM-DD, monthly YY-MM, yearly YY
+-- An unknown time zone setting falls back to Asia/Manila instead of failing
+-- every checkout.
+
+CREATE OR REPLACE FUNCTION next_transaction_number()
+RETURNS TEXT AS $$
+DECLARE
+  v_prefix TEXT;
+  v_branch_code TEXT;
+  v_pad_width INTEGER;
+  v_reset_period TEXT;
+  v_timezone TEXT;
+  v_local_now TIMESTAMP;
+  v_period_key TEXT;
+  v_value INTEGER;
+BEGIN
+  SELECT
+    COALESCE(MAX(value) FILTER (WHERE key = 'transaction_number_prefix'), ''),
+    COALESCE(MAX(value) FILTER (WHERE key = 'transaction_number_branch_code'), ''),
+    COALESCE(NULLIF(MAX(value) FILTER (WHERE key = 'transaction_number_pad_width'), '')::INTEGER, 5),
+    COALESCE(MAX(value) FILTER (WHERE key = 'transaction_number_reset_period'), 'monthly'),
+    COALESCE(NULLIF(MAX(value) FILTER (WHERE key = 'transaction_number_timezone'), ''), 'Asia/Manila')
+  INTO v_prefix, v_branch_code, v_pad_width, v_reset_period, v_timezone
+  FROM settings
+  WHERE key LIKE 'transaction_number_%';
+
+  BEGIN
+    v_local_now := NOW() AT TIME ZONE v_timezone;
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_local_now := NOW() AT TIME ZONE 'Asia/Manila';
+  END;
+
+  v_period_key := to_char(
+    v_local_now,
+    CASE v_reset_period
+      WHEN 'daily' THEN 'YY-MM-DD'
+      WHEN 'yearly' THEN 'YY'
+      ELSE 'YY-MM'
+    END
+  );
+
+  INSERT INTO transaction_number_sequences (branch_code, period_key, last_value)
+  VALUES (v_branch_code, v_period_key, 1)
+  ON CONFLICT (branch_code, period_key) DO UPDATE
+    SET last_value = transaction_number_sequences.last_value + 1
+  RETURNING last_value INTO v_value;
+
+  RETURN array_to_string(ARRAY[
+    NULLIF(v_prefix, ''),
+    NULLIF(v_branch_code, ''),
+    v_period_key,
+    lpad(v_value::TEXT, GREATEST(v_pad_width, length(v_value::TEXT)), '0')
+  ], '-');
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 4. ONE TRANSACTION PER TRANSACTION NUMBER
+-- ============================================
+-- Sale lines of the same transaction share a number, so a plain UNIQUE does not fit.
+-- The exclusion constraint rejects a number already used by a different transaction_id.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT transaction_number
+    FROM sales
+    WHERE transaction_number IS NOT NULL
+    GROUP BY transaction_number
+    HAVING COUNT(DISTINCT transaction_id) > 1
+  ) THEN
+    RAISE EXCEPTION 'Duplicate transaction numbers found. Check with: SELECT transaction_number, COUNT(DISTINCT transaction_id) FROM sales GROUP BY 1 HAVING COUNT(DISTINCT transaction_id) > 1';
+  END IF;
+END $$;
+
+ALTER TABLE sales DROP CONSTRAINT IF EXISTS sales_transaction_number_unique;
+ALTER TABLE sales ADD CONSTRAINT sales_transaction_number_unique
+  EXCLUDE USING gist (transaction_number WITH =, transaction_id WITH <>);
+
+-- ============================================
+-- 5. USE THE SEQUENCE IN CHECKOUT
+-- ============================================
+
+CREATE OR REPLACE FUNCTION process_checkout(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_customer_type TEXT,
+  p_dine_in_takeout TEXT,
+  p_customer_payment DECIMAL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_id UUID := uuid_generate_v4();
+  v_transaction_number TEXT;
+  v_unknown_product UUID;
+  v_cart_total DECIMAL;
+  v_out_of_stock JSONB;
+  v_item RECORD;
+  v_sale JSONB;
+  v_sales JSONB := '[]'::JSONB;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    WHERE c.product_id IS NULL OR c.qty IS NULL OR c.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every cart item needs a product and a positive quantity';
+  END IF;
+
+  SELECT c.product_id INTO v_unknown_product
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  LEFT JOIN finished_products fp ON fp.id = c.product_id
+  WHERE fp.id IS NULL
+  LIMIT 1;
+
+  IF v_unknown_product IS NOT NULL THEN
+    RAISE EXCEPTION 'Product % not found', v_unknown_product;
+  END IF;
+
+  SELECT SUM(c.qty * fp.selling_price) INTO v_cart_total
+  FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+  JOIN finished_products fp ON fp.id = c.product_id;
+
+  IF COALESCE(p_customer_payment, 0) < v_cart_total THEN
+    RAISE EXCEPTION 'Payment of % does not cover the total of %', COALESCE(p_customer_payment, 0), v_cart_total;
+  END IF;
+
+  -- Lock every inventory row this cart touches (in id order to avoid deadlocks)
+  -- so concurrent checkouts wait for each other instead of overwriting stock
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT pi.item_id
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Compare ingredient demand with the current (locked) stock
+  WITH demand AS (
+    SELECT pi.item_id, SUM(pi.qty * c.qty) AS required
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    GROUP BY pi.item_id
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'item_name', p.name,
+    'unit_type', p.unit_type,
+    'required', d.required,
+    'available', to_ingredient_unit(p.unit_type, p.qty)
+  ) ORDER BY p.name)
+  INTO v_out_of_stock
+  FROM demand d
+  JOIN products p ON p.id = d.item_id
+  WHERE to_ingredient_unit(p.unit_type, p.qty) < d.required;
+
+  IF v_out_of_stock IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'out_of_stock',
+      'out_of_stock', v_out_of_stock
+    );
+  END IF;
+
+  -- Reserve the next transaction number; the counter row stays locked until
+  -- this transaction commits, and a rolled back checkout releases its number
+  v_transaction_number := next_transaction_number();
+
+  -- Insert one sale line per cart item, in cart order
+  -- (cost is ingredient cost only, no OPEX per unit)
+  FOR v_item IN
+    SELECT (e.item->>'product_id')::UUID AS product_id, (e.item->>'qty')::INTEGER AS qty
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS e(item, position)
+    ORDER BY e.position
+  LOOP
+    INSERT INTO sales (
+      transaction_id, transaction_number, product_id, product_name, qty, unit_type,
+      cost, selling_price, total, payment_method, customer_type, dine_in_takeout,
+      customer_payment
+    )
+    SELECT
+      v_transaction_id, v_transaction_number, fp.id, fp.name, v_item.qty, 'quantity',
+      COALESCE((
+        SELECT SUM(pi.qty * p.cost)
+        FROM product_ingredients pi
+        JOIN products p ON p.id = pi.item_id
+        WHERE pi.product_id = fp.id
+      ), 0),
+      fp.selling_price, v_item.qty * fp.selling_price,
+      p_payment_method, p_customer_type, p_dine_in_takeout, p_customer_payment
+    FROM finished_products fp
+    WHERE fp.id = v_item.product_id
+    RETURNING to_jsonb(sales.*) INTO v_sale;
+
+    v_sales := v_sales || jsonb_build_array(v_sale);
+  END LOOP;
+
+  -- Deduct ingredients relative to the current stock
+  WITH demand AS (
+    SELECT pi.item_id, SUM(pi.qty * c.qty) AS required
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty INTEGER)
+    JOIN product_ingredients pi ON pi.product_id = c.product_id
+    GROUP BY pi.item_id
+  )
+  UPDATE products p
+  SET qty = p.qty - to_storage_unit(p.unit_type, d.required)
+  FROM demand d
+  WHERE p.id = d.item_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'transaction_number', v_transaction_number,
+    'sales', v_sales
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v8 completed - transaction number sequences added!' as status;
+
+SELECT * FROM transaction_number_sequences ORDER BY period_key DESC LIMIT 5;
+
+SELECT key, value FROM settings WHERE key LIKE 'transaction_number_%' ORDER BY key;
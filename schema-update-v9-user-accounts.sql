@@ -0,0 +1,326 @@
+-- KASHPOS v2.0 Database Schema Update v9
+-- Run this SQL in your Supabase SQL Editor
+--
+-- IMPORTANT: Run this AFTER schema-update-v8-transaction-sequence.sql
+--
+-- This update adds:
+-- 1. users table with salted (bcrypt) password hashes
+-- 2. user_sessions table with expiring session tokens
+-- 3. Session helpers that read the x-session-token request header
+-- 4. Login / logout / session lookup functions, with an account locked for
+--    15 minutes after 5 wrong passwords in a row
+-- 5. Owner-only user management functions
+-- 6. A default owner account (username: owner, password: owner123)
+--    CHANGE THIS PASSWORD in Settings > Users right after running this update
+
+-- pgcrypto provides crypt(), gen_salt() and digest()
+-- (Supabase installs it in the "extensions" schema)
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ============================================
+-- 1. CREATE USERS TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS users (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  username TEXT NOT NULL,
+  display_name TEXT,
+  password_hash TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'cashier' CHECK (role IN ('owner', 'cashier')),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Wrong passwords since the last sign-in; login_user() refuses the
+  -- account until locked_until once there are too many
+  failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_login_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Usernames are case-insensitive
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_username ON users(lower(username));
+
+DROP TRIGGER IF EXISTS update_users_updated_at ON users;
+CREATE TRIGGER update_users_updated_at
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS without any policies: the table is only reachable through the
+-- SECURITY DEFINER functions below, so password hashes never leave the database
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 2. CREATE USER SESSIONS TABLE
+-- ============================================
+-- Only a SHA-256 hash of each token is stored
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_expires_at ON user_sessions(expires_at);
+
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 3. SESSION HELPERS
+-- ============================================
+-- The app sends the session token in the x-session-token header
+-- (see src/lib/supabase.ts); PostgREST exposes it as request.headers
+
+CREATE OR REPLACE FUNCTION hash_session_token(p_token TEXT)
+RETURNS TEXT AS $$
+  SELECT encode(digest(p_token, 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION request_session_token()
+RETURNS TEXT AS $$
+  SELECT NULLIF(NULLIF(current_setting('request.headers', true), '')::json->>'x-session-token', '');
+$$ LANGUAGE sql STABLE;
+
+-- Active, unexpired user behind the current request (NULL when signed out)
+CREATE OR REPLACE FUNCTION current_app_user_id()
+RETURNS UUID AS $$
+  SELECT u.id
+  FROM user_sessions s
+  JOIN users u ON u.id = s.user_id
+  WHERE s.token_hash = hash_session_token(request_session_token())
+    AND s.expires_at > NOW()
+    AND u.is_active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION current_app_role()
+RETURNS TEXT AS $$
+  SELECT role FROM users WHERE id = current_app_user_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION require_owner()
+RETURNS VOID AS $$
+BEGIN
+  IF current_app_role() IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can do this' USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION user_to_json(p_user users)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'id', p_user.id,
+    'username', p_user.username,
+    'display_name', p_user.display_name,
+    'role', p_user.role
+  );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- 4. LOGIN / LOGOUT / SESSION LOOKUP
+-- ============================================
+
+-- Returns { token, expires_at, user } or NULL when the credentials are wrong.
+-- The 5th wrong password in a row locks the account for 15 minutes; while
+-- locked the password isn't checked at all, so it can't be guessed.
+CREATE OR REPLACE FUNCTION login_user(p_username TEXT, p_password TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_user users;
+  v_token TEXT;
+  v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + INTERVAL '12 hours';
+BEGIN
+  -- Locked so parallel attempts are counted one after another
+  SELECT * INTO v_user
+  FROM users
+  WHERE lower(username) = lower(trim(p_username))
+    AND is_active
+  FOR UPDATE;
+
+  IF v_user.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_user.locked_until > NOW() THEN
+    RAISE EXCEPTION 'Too many wrong passwords. Try again in % minutes.',
+      CEIL(EXTRACT(EPOCH FROM v_user.locked_until - NOW()) / 60)
+      USING ERRCODE = '28000';
+  END IF;
+
+  -- Returning (rather than raising) keeps the attempt counted
+  IF v_user.password_hash <> crypt(p_password, v_user.password_hash) THEN
+    UPDATE users
+    SET failed_login_attempts = CASE WHEN failed_login_attempts + 1 >= 5 THEN 0 ELSE failed_login_attempts + 1 END,
+        locked_until = CASE WHEN failed_login_attempts + 1 >= 5 THEN NOW() + INTERVAL '15 minutes' END
+    WHERE id = v_user.id;
+    RETURN NULL;
+  END IF;
+
+  -- Housekeeping: drop expired sessions
+  DELETE FROM user_sessions WHERE expires_at < NOW();
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO user_sessions (user_id, token_hash, expires_at)
+  VALUES (v_user.id, hash_session_token(v_token), v_expires_at);
+
+  UPDATE users
+  SET last_login_at = NOW(), failed_login_attempts = 0, locked_until = NULL
+  WHERE id = v_user.id;
+
+  RETURN jsonb_build_object(
+    'token', v_token,
+    'expires_at', v_expires_at,
+    'user', user_to_json(v_user)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- Returns the signed-in user for the request's session token, or NULL
+CREATE OR REPLACE FUNCTION get_session_user()
+RETURNS JSONB AS $$
+DECLARE
+  v_user users;
+BEGIN
+  SELECT * INTO v_user FROM users WHERE id = current_app_user_id();
+
+  IF v_user.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE user_sessions
+  SET last_seen_at = NOW()
+  WHERE token_hash = hash_session_token(request_session_token());
+
+  RETURN user_to_json(v_user);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION logout_user()
+RETURNS VOID AS $$
+  DELETE FROM user_sessions WHERE token_hash = hash_session_token(request_session_token());
+$$ LANGUAGE sql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 5. USER MANAGEMENT (OWNER ONLY)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION list_users()
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  display_name TEXT,
+  role TEXT,
+  is_active BOOLEAN,
+  last_login_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  PERFORM require_owner();
+
+  RETURN QUERY
+  SELECT u.id, u.username, u.display_name, u.role, u.is_active, u.last_login_at, u.created_at
+  FROM users u
+  ORDER BY u.is_active DESC, u.role, lower(u.username);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION create_user(
+  p_username TEXT,
+  p_password TEXT,
+  p_role TEXT DEFAULT 'cashier',
+  p_display_name TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  PERFORM require_owner();
+
+  IF COALESCE(trim(p_username), '') = '' THEN
+    RAISE EXCEPTION 'Username is required';
+  END IF;
+
+  IF length(COALESCE(p_password, '')) < 6 THEN
+    RAISE EXCEPTION 'Password must be at least 6 characters';
+  END IF;
+
+  INSERT INTO users (username, display_name, password_hash, role)
+  VALUES (trim(p_username), NULLIF(trim(p_display_name), ''), crypt(p_password, gen_salt('bf')), p_role)
+  RETURNING id INTO v_user_id;
+
+  RETURN v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- Disabling a user also signs them out everywhere
+CREATE OR REPLACE FUNCTION set_user_active(p_user_id UUID, p_is_active BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM require_owner();
+
+  IF p_user_id = current_app_user_id() AND NOT p_is_active THEN
+    RAISE EXCEPTION 'You cannot disable your own account';
+  END IF;
+
+  UPDATE users SET is_active = p_is_active WHERE id = p_user_id;
+
+  IF NOT p_is_active THEN
+    DELETE FROM user_sessions WHERE user_id = p_user_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- Resetting a password signs the user out of their other sessions and
+-- unlocks the account
+CREATE OR REPLACE FUNCTION reset_user_password(p_user_id UUID, p_new_password TEXT)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM require_owner();
+
+  IF length(COALESCE(p_new_password, '')) < 6 THEN
+    RAISE EXCEPTION 'Password must be at least 6 characters';
+  END IF;
+
+  UPDATE users
+  SET password_hash = crypt(p_new_password, gen_salt('bf')),
+      failed_login_attempts = 0,
+      locked_until = NULL
+  WHERE id = p_user_id;
+
+  DELETE FROM user_sessions
+  WHERE user_id = p_user_id
+    AND token_hash IS DISTINCT FROM hash_session_token(request_session_token());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+-- ============================================
+-- 6. DEFAULT OWNER ACCOUNT
+-- ============================================
+
+INSERT INTO users (username, display_name, password_hash, role)
+SELECT 'owner', 'Owner', crypt('owner123', gen_salt('bf')), 'owner'
+WHERE NOT EXISTS (SELECT 1 FROM users WHERE role = 'owner');
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+
+SELECT 'Schema update v9 completed - user accounts added!' as status;
+
+SELECT username, role, is_active FROM users ORDER BY role, username;
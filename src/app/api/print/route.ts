@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { appendFile, mkdir } from 'fs/promises'
+import { Socket } from 'net'
+import path from 'path'
+
+// Sends ESC/POS bytes from the till to a network printer (raw TCP, usually
+// port 9100) or appends them to a file as a stand-in printer. Only hosts in
+// PRINTER_TCP_HOSTS ("host:port,host:port") can be reached, and files are
+// written under PRINT_FILE_DIR when it's set. Only signed-in users can print:
+// the caller's session token is checked with get_session_user().
+
+export const runtime = 'nodejs'
+
+const TCP_TIMEOUT_MS = 5000
+
+// A long receipt is a few KB of ESC/POS; this leaves room for base64 and logos
+const MAX_BODY_BYTES = 256 * 1024
+
+const allowedTcpTargets = () =>
+  (process.env.PRINTER_TCP_HOSTS || '')
+    .split(',')
+    .map((target) => target.trim())
+    .filter(Boolean)
+
+const sendOverTcp = (host: string, port: number, data: Buffer) =>
+  new Promise<void>((resolve, reject) => {
+    const socket = new Socket()
+    socket.setTimeout(TCP_TIMEOUT_MS)
+    socket.once('timeout', () => socket.destroy(new Error(`Printer at ${host}:${port} did not respond`)))
+    socket.once('error', reject)
+    socket.connect(port, host, () => socket.end(data, () => resolve()))
+  })
+
+export async function POST(request: Request) {
+  const sessionToken = request.headers.get('x-session-token')
+  if (!sessionToken) {
+    return NextResponse.json({ error: 'Sign in to print' }, { status: 401 })
+  }
+
+  if (parseInt(request.headers.get('content-length') || '0') > MAX_BODY_BYTES) {
+    return NextResponse.json({ error: 'Print job is too large' }, { status: 413 })
+  }
+
+  const database = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    global: { headers: { 'x-session-token': sessionToken } },
+    auth: { persistSession: false },
+  })
+
+  const { data: sessionUser, error: sessionError } = await (database as any).rpc('get_session_user')
+  if (sessionError || !sessionUser) {
+    return NextResponse.json({ error: 'Sign in to print' }, { status: 401 })
+  }
+
+  // Content-Length can be left out, so the body itself is measured too
+  const raw = await request.text()
+  if (Buffer.byteLength(raw, 'utf8') > MAX_BODY_BYTES) {
+    return NextResponse.json({ error: 'Print job is too large' }, { status: 413 })
+  }
+
+  let body: any
+  try {
+    body = JSON.parse(raw)
+  } catch {
+    return NextResponse.json({ error: 'Invalid print job' }, { status: 400 })
+  }
+
+  if (typeof body?.data !== 'string' || !body.data) {
+    return NextResponse.json({ error: 'Nothing to print' }, { status: 400 })
+  }
+  const data = Buffer.from(body.data, 'base64')
+
+  try {
+    if (body.connection === 'tcp') {
+      const host = String(body.host || '').trim()
+      const port = parseInt(body.port) || 9100
+      if (!allowedTcpTargets().includes(`${host}:${port}`)) {
+        return NextResponse.json(
+          { error: `${host}:${port} is not in PRINTER_TCP_HOSTS on the server` },
+          { status: 403 }
+        )
+      }
+      await sendOverTcp(host, port, data)
+      return NextResponse.json({ ok: true })
+    }
+
+    if (body.connection === 'file') {
+      const directory = process.env.PRINT_FILE_DIR
+      if (!directory) {
+        return NextResponse.json({ error: 'File printing is off (PRINT_FILE_DIR is not set)' }, { status: 403 })
+      }
+      // Only a plain file name, kept inside the print directory
+      const name = String(body.fileName || 'printer').replace(/[^a-zA-Z0-9_-]/g, '_') || 'printer'
+      await mkdir(directory, { recursive: true })
+      await appendFile(path.join(directory, `${name}.bin`), data)
+      return NextResponse.json({ ok: true })
+    }
+
+    return NextResponse.json({ error: 'Unsupported printer connection' }, { status: 400 })
+  } catch (error: any) {
+    console.error('Error sending print job:', error)
+    return NextResponse.json({ error: error?.message || 'Failed to print' }, { status: 502 })
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { buildDigitalReceipt, normalizeRecipient } from '@/lib/digitalReceipts'
+import { getMessageProvider } from '@/lib/messageProviders'
+import { fetchReceiptFormat } from '@/lib/receipts'
+import { Payment, ReceiptChannel, Sale } from '@/types/database'
+
+// Sends a transaction's email or SMS receipt through the channel's provider.
+// The caller's session token goes along to the database, so only signed-in
+// users can send and the delivery is recorded under their name
+// (schema-update-v27-digital-receipts.sql). The receipt is laid out here from
+// the transaction's rows; the caller only picks the transaction and
+// recipient, so the providers can't be used to send anything else, and
+// start_receipt_delivery() limits how often a receipt can be sent.
+
+export const runtime = 'nodejs'
+
+const CHANNEL_LABELS: Record<ReceiptChannel, string> = { email: 'Email', sms: 'SMS' }
+
+// The body is only a transaction id, a channel and a recipient
+const MAX_BODY_BYTES = 4 * 1024
+
+// Raised by start_receipt_delivery() when a receipt is sent too often
+const SEND_LIMIT_ERROR_CODE = '54000'
+
+export async function POST(request: Request) {
+  const sessionToken = request.headers.get('x-session-token')
+  if (!sessionToken) {
+    return NextResponse.json({ error: 'Sign in to send receipts' }, { status: 401 })
+  }
+
+  if (parseInt(request.headers.get('content-length') || '0') > MAX_BODY_BYTES) {
+    return NextResponse.json({ error: 'Invalid receipt' }, { status: 413 })
+  }
+
+  // Content-Length can be left out, so the body itself is measured too
+  const raw = await request.text()
+  if (Buffer.byteLength(raw, 'utf8') > MAX_BODY_BYTES) {
+    return NextResponse.json({ error: 'Invalid receipt' }, { status: 413 })
+  }
+
+  let body: any
+  try {
+    body = JSON.parse(raw)
+  } catch {
+    return NextResponse.json({ error: 'Invalid receipt' }, { status: 400 })
+  }
+
+  const channel = body?.channel as ReceiptChannel
+  if (channel !== 'email' && channel !== 'sms') {
+    return NextResponse.json({ error: 'Unknown receipt channel' }, { status: 400 })
+  }
+
+  const recipient = normalizeRecipient(channel, String(body.recipient || ''))
+  if (!recipient) {
+    return NextResponse.json(
+      { error: channel === 'email' ? 'Enter a valid email address' : 'Enter a valid mobile number' },
+      { status: 400 }
+    )
+  }
+
+  const provider = getMessageProvider(channel)
+  if (!provider) {
+    return NextResponse.json({ error: `${CHANNEL_LABELS[channel]} receipts are not set up on the server` }, { status: 503 })
+  }
+
+  const database = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    global: { headers: { 'x-session-token': sessionToken } },
+    auth: { persistSession: false },
+  })
+
+  const { data: delivery, error: startError } = await (database as any).rpc('start_receipt_delivery', {
+    p_transaction_id: body.transactionId,
+    p_channel: channel,
+    p_recipient: recipient,
+    p_provider: provider.name,
+  })
+
+  if (startError) {
+    const status = startError.code === '42501' ? 403 : startError.code === SEND_LIMIT_ERROR_CODE ? 429 : 400
+    return NextResponse.json({ error: startError.message }, { status })
+  }
+
+  const deliveryId: string = delivery.delivery_id
+  const sales: Sale[] = delivery.sales || []
+  const payments: Payment[] = delivery.payments || []
+
+  let messageId: string | undefined
+  let sendError: string | null = null
+  try {
+    const receiptFormat = await fetchReceiptFormat(database)
+    const result = await provider.send({ to: recipient, ...buildDigitalReceipt(sales, payments, receiptFormat, channel) })
+    messageId = result.messageId
+  } catch (error: any) {
+    console.error(`Error sending ${channel} receipt:`, error)
+    sendError = error?.message || 'The provider did not accept the receipt'
+  }
+
+  const { error: finishError } = await (database as any).rpc('finish_receipt_delivery', {
+    p_delivery_id: deliveryId,
+    p_status: sendError ? 'failed' : 'sent',
+    p_error: sendError,
+    p_provider_message_id: messageId ?? null,
+  })
+
+  if (finishError) console.error('Error recording receipt delivery:', finishError)
+
+  if (sendError) {
+    return NextResponse.json({ error: `Receipt not sent: ${sendError}`, deliveryId }, { status: 502 })
+  }
+  return NextResponse.json({ deliveryId, status: 'sent' })
+}
@@ -0,0 +1,299 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import toast from 'react-hot-toast'
+import { ComboSlotInput, fetchComboSlots, saveCombo } from '@/lib/combos'
+import { FinishedProduct } from '@/types/database'
+
+interface ComboEditorModalProps {
+  // null creates a new combo
+  combo: FinishedProduct | null
+  // Products a slot can offer; combos can't be put in combos
+  products: FinishedProduct[]
+  onClose: () => void
+  onSaved: (combo: FinishedProduct) => void
+}
+
+// Form values are kept as typed
+interface OptionDraft {
+  productId: string
+  priceDelta: string
+}
+
+interface SlotDraft {
+  name: string
+  options: OptionDraft[]
+}
+
+const emptySlot = (): SlotDraft => ({ name: '', options: [{ productId: '', priceDelta: '' }] })
+
+const isSignedDecimal = (value: string) => value === '' || /^-?\d*\.?\d*$/.test(value)
+
+// A combo's bundle price and its items. Slots with one product are fixed;
+// slots with more let the cashier choose, optionally for an extra charge.
+export default function ComboEditorModal({ combo, products, onClose, onSaved }: ComboEditorModalProps) {
+  const [name, setName] = useState(combo?.name || '')
+  const [sellingPrice, setSellingPrice] = useState(combo ? String(combo.selling_price) : '')
+  const [slots, setSlots] = useState<SlotDraft[]>(combo ? [] : [emptySlot(), emptySlot()])
+  const [loading, setLoading] = useState(!!combo)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!combo) return
+
+    fetchComboSlots(combo.id)
+      .then((data) =>
+        setSlots(
+          data.map((slot) => ({
+            name: slot.name,
+            options: slot.combo_slot_options.map((option) => ({
+              productId: option.product_id,
+              priceDelta: option.price_delta ? String(option.price_delta) : '',
+            })),
+          }))
+        )
+      )
+      .catch((error) => {
+        console.error('Error fetching combo:', error)
+        toast.error('Failed to load combo')
+      })
+      .finally(() => setLoading(false))
+  }, [combo])
+
+  const updateSlot = (slotIndex: number, changes: Partial<SlotDraft>) =>
+    setSlots((prev) => prev.map((slot, i) => (i === slotIndex ? { ...slot, ...changes } : slot)))
+
+  const updateOption = (slotIndex: number, optionIndex: number, changes: Partial<OptionDraft>) =>
+    updateSlot(slotIndex, {
+      options: slots[slotIndex].options.map((option, j) => (j === optionIndex ? { ...option, ...changes } : option)),
+    })
+
+  // What the first option of every slot costs when bought separately
+  const listTotal = slots.reduce((total, slot) => {
+    const product = products.find((p) => p.id === slot.options[0]?.productId)
+    return total + (product?.selling_price || 0)
+  }, 0)
+  const bundlePrice = parseFloat(sellingPrice) || 0
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Enter a combo name')
+      return
+    }
+
+    if (bundlePrice <= 0) {
+      toast.error('Enter a valid bundle price')
+      return
+    }
+
+    if (slots.length < 2) {
+      toast.error('A combo needs at least two items')
+      return
+    }
+
+    const input: ComboSlotInput[] = []
+
+    for (let index = 0; index < slots.length; index++) {
+      const slot = slots[index]
+      const slotName = slot.name.trim() || `Item ${index + 1}`
+      // Extra charges only apply to choices; a fixed item's field is hidden
+      const options = slot.options
+        .filter((option) => option.productId)
+        .map((option) => ({
+          productId: option.productId,
+          priceDelta: slot.options.length > 1 ? parseFloat(option.priceDelta) || 0 : 0,
+        }))
+
+      if (options.length === 0) {
+        toast.error(`Pick at least one product for ${slotName}`)
+        return
+      }
+
+      input.push({ name: slotName, options })
+    }
+
+    setIsSaving(true)
+    try {
+      const saved = await saveCombo(combo?.id || null, {
+        name: name.trim(),
+        sellingPrice: bundlePrice,
+        imageUrl: combo?.image_url || null,
+        slots: input,
+      })
+      toast.success(combo ? 'Combo updated!' : 'Combo created!')
+      onSaved(saved)
+    } catch (error: any) {
+      console.error('Error saving combo:', error)
+      toast.error(error?.message || 'Failed to save combo')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">{combo ? `Edit ${combo.name}` : 'New Combo'}</h2>
+            <p className="text-surface-400 text-sm">Products sold together at one bundle price</p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-surface-300 mb-2">Combo Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  placeholder="e.g., Meal 1, Barkada Bundle"
+                />
+              </div>
+              <div className="w-40">
+                <label className="block text-sm font-medium text-surface-300 mb-2">Bundle Price</label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-surface-500">₱</span>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={sellingPrice}
+                    onChange={(e) => /^\d*\.?\d*$/.test(e.target.value) && setSellingPrice(e.target.value)}
+                    className="w-full pl-8 pr-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                    placeholder="0.00"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {slots.map((slot, slotIndex) => (
+              <div key={slotIndex} className="p-4 bg-surface-800/50 rounded-lg space-y-2">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={slot.name}
+                    onChange={(e) => updateSlot(slotIndex, { name: e.target.value })}
+                    className="flex-1 px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+                    placeholder={`Item ${slotIndex + 1}, e.g., Main, Drink`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setSlots((prev) => prev.filter((_, i) => i !== slotIndex))}
+                    className="px-3 py-2 text-red-400 hover:text-red-300 text-sm"
+                  >
+                    Remove
+                  </button>
+                </div>
+
+                {slot.options.map((option, optionIndex) => (
+                  <div key={optionIndex} className="flex gap-2 pl-3">
+                    <select
+                      value={option.productId}
+                      onChange={(e) => updateOption(slotIndex, optionIndex, { productId: e.target.value })}
+                      className="flex-1 px-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-surface-300 text-sm"
+                    >
+                      <option value="">Product...</option>
+                      {products.map((product) => (
+                        <option key={product.id} value={product.id}>
+                          {product.name} (₱{product.selling_price.toFixed(2)})
+                        </option>
+                      ))}
+                    </select>
+                    {slot.options.length > 1 && (
+                      <div className="relative w-28">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-surface-500 text-sm">₱</span>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={option.priceDelta}
+                          onChange={(e) =>
+                            isSignedDecimal(e.target.value) &&
+                            updateOption(slotIndex, optionIndex, { priceDelta: e.target.value })
+                          }
+                          className="w-full pl-7 pr-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-sm"
+                          placeholder="+0.00"
+                        />
+                      </div>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => updateSlot(slotIndex, { options: slot.options.filter((_, j) => j !== optionIndex) })}
+                      className="text-surface-500 hover:text-red-400"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+
+                <button
+                  type="button"
+                  onClick={() => updateSlot(slotIndex, { options: [...slot.options, { productId: '', priceDelta: '' }] })}
+                  className="pl-3 text-xs text-surface-400 hover:text-white"
+                >
+                  + Another choice
+                </button>
+              </div>
+            ))}
+
+            <button
+              type="button"
+              onClick={() => setSlots((prev) => [...prev, emptySlot()])}
+              className="w-full px-4 py-2 border border-dashed border-surface-700 hover:border-surface-500 text-surface-400 hover:text-white text-sm rounded-lg transition-colors"
+            >
+              + Add Item
+            </button>
+
+            <div className="p-3 bg-surface-800/50 rounded-lg space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-surface-400">Bought separately</span>
+                <span className="text-white font-mono">₱{listTotal.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-surface-400">Customer saves</span>
+                <span className={`font-mono ${listTotal - bundlePrice >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  ₱{(listTotal - bundlePrice).toFixed(2)}
+                </span>
+              </div>
+              <p className="text-surface-500 text-xs pt-1">
+                The bundle price is split across the items by their own prices, so each product&apos;s sales and
+                ingredients are recorded as usual.
+              </p>
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : combo ? 'Save Changes' : 'Create Combo'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,36 +1,39 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useAuth } from '@/contexts/AuthContext'
 import { useNotifications } from '@/contexts/NotificationContext'
-import Navigation from './Navigation'
+import { usePermission } from '@/hooks/usePermission'
+import Navigation, { NavPage, PAGE_PERMISSIONS } from './Navigation'
 import NotificationBar from './NotificationBar'
 import SalesPage from './pages/SalesPage'
+import ShiftsPage from './pages/ShiftsPage'
 import ReportsPage from './pages/ReportsPage'
 import InventoryPage from './pages/InventoryPage'
+import PurchasingPage from './pages/PurchasingPage'
 import EarningsPage from './pages/EarningsPage'
 import OPEXPage from './pages/OPEXPage'
 import SettingsPage from './pages/SettingsPage'
 
-type NavPage = 'sales' | 'reports' | 'inventory' | 'earnings' | 'opex' | 'settings'
-
 export default function Dashboard() {
-  const { user } = useAuth()
-  const { checkStorage } = useNotifications()
+  const can = usePermission()
+  const { checkStorage, checkLowStock } = useNotifications()
   const [activePage, setActivePage] = useState<NavPage>('sales')
 
   useEffect(() => {
     checkStorage()
-    // Check storage periodically
-    const interval = setInterval(checkStorage, 60000)
+    checkLowStock()
+    // Check storage and stock levels periodically
+    const interval = setInterval(() => {
+      checkStorage()
+      checkLowStock()
+    }, 60000)
     return () => clearInterval(interval)
-  }, [checkStorage])
-
-  // Cashier can only access Sales
-  const isCashier = user?.role === 'cashier'
+  }, [checkStorage, checkLowStock])
 
   const renderPage = () => {
-    if (isCashier && activePage !== 'sales') {
+    // Fall back to Sales when the user lacks the page's permission
+    const pagePermission = PAGE_PERMISSIONS[activePage]
+    if (pagePermission && !can(pagePermission)) {
       setActivePage('sales')
       return <SalesPage />
     }
@@ -38,10 +41,14 @@ export default function Dashboard() {
     switch (activePage) {
       case 'sales':
         return <SalesPage />
+      case 'shifts':
+        return <ShiftsPage />
       case 'reports':
         return <ReportsPage />
       case 'inventory':
         return <InventoryPage />
+      case 'purchasing':
+        return <PurchasingPage />
       case 'earnings':
         return <EarningsPage />
       case 'opex':
@@ -64,7 +71,6 @@ export default function Dashboard() {
         <Navigation
           activePage={activePage}
           setActivePage={setActivePage}
-          isCashier={isCashier}
         />
 
         {/* Page Content */}
@@ -0,0 +1,134 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+import { RECEIPT_CHANNELS, normalizeRecipient, sendDigitalReceipt } from '@/lib/digitalReceipts'
+import { ReceiptChannel, ReceiptDelivery, ReceiptDeliveryStatus, Sale } from '@/types/database'
+
+interface DigitalReceiptModalProps {
+  // Every sale line of the transaction, in cart order
+  sales: Sale[]
+  // Receipts already sent for the transaction, newest first
+  deliveries: ReceiptDelivery[]
+  onClose: () => void
+  // Called after every send attempt, so the caller can reload the statuses
+  onSent: () => void
+}
+
+const STATUS_STYLES: Record<ReceiptDeliveryStatus, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400',
+  sent: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+}
+
+// Email and SMS receipts sent for a transaction, and sending another
+export default function DigitalReceiptModal({ sales, deliveries, onClose, onSent }: DigitalReceiptModalProps) {
+  const [channel, setChannel] = useState<ReceiptChannel>(deliveries[0]?.channel || 'email')
+  const [recipient, setRecipient] = useState(deliveries[0]?.recipient || '')
+  const [isSending, setIsSending] = useState(false)
+
+  const transactionNumber = sales[0]?.transaction_number || sales[0]?.transaction_id || ''
+  const isValid = normalizeRecipient(channel, recipient) !== null
+
+  // Switching channel fills in the last address or number used on it
+  const handleChannelChange = (next: ReceiptChannel) => {
+    setChannel(next)
+    setRecipient(deliveries.find((d) => d.channel === next)?.recipient || '')
+  }
+
+  const handleSend = async () => {
+    setIsSending(true)
+    try {
+      await sendDigitalReceipt(sales[0]?.transaction_id || null, channel, recipient)
+      toast.success(`Receipt sent to ${recipient.trim()}`)
+    } catch (error: any) {
+      console.error('Error sending receipt:', error)
+      toast.error(error?.message || 'Failed to send receipt')
+    } finally {
+      setIsSending(false)
+      onSent()
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-md w-full">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Email / SMS Receipt</h2>
+            <p className="text-surface-400 text-sm">Transaction {transactionNumber}</p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-2 mb-4 max-h-48 overflow-y-auto">
+          {deliveries.length === 0 ? (
+            <p className="text-surface-500 text-sm">No receipts sent yet</p>
+          ) : (
+            deliveries.map((delivery) => (
+              <div key={delivery.id} className="p-3 bg-surface-800/50 rounded-lg">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-white text-sm truncate">
+                    <span className="text-surface-500 text-xs uppercase mr-2">{delivery.channel}</span>
+                    {delivery.recipient}
+                  </p>
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${STATUS_STYLES[delivery.status]}`}>
+                    {delivery.status}
+                  </span>
+                </div>
+                <p className="text-surface-500 text-xs">
+                  {format(new Date(delivery.created_at), 'MMM d yyyy h:mm a')}
+                  {delivery.sent_by_name && ` · ${delivery.sent_by_name}`}
+                </p>
+                {delivery.error && <p className="text-red-400 text-xs mt-1">{delivery.error}</p>}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex gap-2 mb-3">
+          {RECEIPT_CHANNELS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => handleChannelChange(option.value)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                channel === option.value ? 'bg-primary-500 text-white' : 'bg-surface-800 text-surface-400 hover:text-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <input
+          type={channel === 'email' ? 'email' : 'tel'}
+          value={recipient}
+          onChange={(e) => setRecipient(e.target.value)}
+          placeholder={channel === 'email' ? 'customer@email.com' : '0917 123 4567'}
+          className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white mb-4"
+        />
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={!isValid || isSending}
+            className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSending ? 'Sending...' : deliveries.length > 0 ? 'Resend' : 'Send'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
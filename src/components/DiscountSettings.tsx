@@ -0,0 +1,238 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import toast from 'react-hot-toast'
+import { supabase } from '@/lib/supabase'
+import { describeDiscount, fetchDiscounts } from '@/lib/discounts'
+import { CustomerType, Discount, DiscountKind, DiscountScope } from '@/types/database'
+
+interface DiscountSettingsProps {
+  customerTypes: CustomerType[]
+}
+
+const EMPTY_DISCOUNT = {
+  name: '',
+  kind: 'percent' as DiscountKind,
+  value: '',
+  scope: 'order' as DiscountScope,
+  customerTypeId: '',
+  isStatutory: false,
+  requiresId: false,
+}
+
+// Discounts offered at the till (settings editors only)
+export default function DiscountSettings({ customerTypes }: DiscountSettingsProps) {
+  const [discounts, setDiscounts] = useState<Discount[]>([])
+  const [newDiscount, setNewDiscount] = useState(EMPTY_DISCOUNT)
+  const [isAdding, setIsAdding] = useState(false)
+
+  const loadDiscounts = useCallback(async () => {
+    try {
+      setDiscounts(await fetchDiscounts())
+    } catch (error) {
+      console.error('Error fetching discounts:', error)
+      toast.error('Failed to load discounts')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadDiscounts()
+  }, [loadDiscounts])
+
+  const addDiscount = async () => {
+    const value = parseFloat(newDiscount.value) || 0
+
+    if (!newDiscount.name.trim()) {
+      toast.error('Please enter a discount name')
+      return
+    }
+
+    if (value <= 0 || (newDiscount.kind === 'percent' && value > 100)) {
+      toast.error('Please enter a valid discount value')
+      return
+    }
+
+    setIsAdding(true)
+    try {
+      const { error } = await (supabase as any).from('discounts').insert({
+        name: newDiscount.name.trim(),
+        kind: newDiscount.kind,
+        value,
+        scope: newDiscount.scope,
+        customer_type_id: newDiscount.customerTypeId || null,
+        is_statutory: newDiscount.isStatutory,
+        requires_id: newDiscount.requiresId,
+      })
+
+      if (error) throw error
+      toast.success('Discount added')
+      setNewDiscount(EMPTY_DISCOUNT)
+      loadDiscounts()
+    } catch (error) {
+      console.error('Error adding discount:', error)
+      toast.error('Failed to add discount')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const toggleDiscount = async (discount: Discount) => {
+    try {
+      const { error } = await (supabase as any)
+        .from('discounts')
+        .update({ active: !discount.active })
+        .eq('id', discount.id)
+
+      if (error) throw error
+      setDiscounts((prev) => prev.map((d) => (d.id === discount.id ? { ...d, active: !d.active } : d)))
+    } catch (error) {
+      console.error('Error updating discount:', error)
+      toast.error('Failed to update discount')
+    }
+  }
+
+  const deleteDiscount = async (id: string) => {
+    if (!confirm('Delete this discount? Past sales keep its name.')) return
+
+    try {
+      const { error } = await supabase.from('discounts').delete().eq('id', id)
+      if (error) throw error
+      toast.success('Discount deleted')
+      loadDiscounts()
+    } catch (error) {
+      console.error('Error deleting discount:', error)
+      toast.error('Failed to delete discount')
+    }
+  }
+
+  return (
+    <div className="card p-6 mt-6">
+      <h3 className="text-lg font-semibold text-white mb-4">Discounts</h3>
+      <p className="text-surface-400 text-sm mb-4">
+        Order discounts are picked at checkout (or automatically with their customer type); item discounts are picked
+        per item. Senior Citizen / PWD discounts take the VAT off first, then the discount, and need an ID number.
+      </p>
+
+      {/* Existing Discounts */}
+      <div className="space-y-2 mb-4">
+        {discounts.length === 0 ? (
+          <p className="text-surface-500 text-sm">No discounts configured yet</p>
+        ) : (
+          discounts.map((discount) => (
+            <div
+              key={discount.id}
+              className={`flex items-center justify-between p-3 bg-surface-800/50 rounded-lg ${
+                discount.active ? '' : 'opacity-50'
+              }`}
+            >
+              <div>
+                <p className="text-white font-medium">
+                  {discount.name}{' '}
+                  <span className="text-green-400 text-sm font-mono">{describeDiscount(discount)}</span>
+                </p>
+                <p className="text-surface-500 text-xs">
+                  {discount.scope === 'order' ? 'Whole order' : 'Per item'}
+                  {discount.customer_type_id &&
+                    ` · ${customerTypes.find((ct) => ct.id === discount.customer_type_id)?.name || 'Customer type'} customers`}
+                  {discount.is_statutory && ' · VAT-exempt'}
+                  {discount.requires_id && ' · ID required'}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <button onClick={() => toggleDiscount(discount)} className="text-sm text-surface-400 hover:text-white">
+                  {discount.active ? 'Disable' : 'Enable'}
+                </button>
+                <button onClick={() => deleteDiscount(discount.id)} className="text-sm text-red-400 hover:text-red-300">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Add New Discount */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-3">
+        <input
+          type="text"
+          value={newDiscount.name}
+          onChange={(e) => setNewDiscount((prev) => ({ ...prev, name: e.target.value }))}
+          placeholder="Discount name"
+          className="col-span-2 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        />
+        <select
+          value={newDiscount.kind}
+          onChange={(e) => setNewDiscount((prev) => ({ ...prev, kind: e.target.value as DiscountKind }))}
+          disabled={newDiscount.isStatutory}
+          className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white disabled:opacity-50"
+        >
+          <option value="percent">Percent (%)</option>
+          <option value="fixed">Fixed (₱)</option>
+        </select>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={newDiscount.value}
+          onChange={(e) =>
+            /^\d*\.?\d*$/.test(e.target.value) && setNewDiscount((prev) => ({ ...prev, value: e.target.value }))
+          }
+          placeholder={newDiscount.kind === 'percent' ? '20' : '0.00'}
+          className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+        />
+        <select
+          value={newDiscount.scope}
+          onChange={(e) => setNewDiscount((prev) => ({ ...prev, scope: e.target.value as DiscountScope }))}
+          className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        >
+          <option value="order">Whole order</option>
+          <option value="line">Per item</option>
+        </select>
+        <select
+          value={newDiscount.customerTypeId}
+          onChange={(e) => setNewDiscount((prev) => ({ ...prev, customerTypeId: e.target.value }))}
+          className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        >
+          <option value="">Any customer</option>
+          {customerTypes.map((ct) => (
+            <option key={ct.id} value={ct.id}>
+              {ct.name}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-surface-300">
+          <input
+            type="checkbox"
+            checked={newDiscount.isStatutory}
+            onChange={(e) =>
+              setNewDiscount((prev) => ({
+                ...prev,
+                isStatutory: e.target.checked,
+                kind: e.target.checked ? 'percent' : prev.kind,
+                requiresId: e.target.checked || prev.requiresId,
+              }))
+            }
+            className="rounded"
+          />
+          Senior / PWD (VAT-exempt)
+        </label>
+        <label className="flex items-center gap-2 text-sm text-surface-300">
+          <input
+            type="checkbox"
+            checked={newDiscount.requiresId}
+            disabled={newDiscount.isStatutory}
+            onChange={(e) => setNewDiscount((prev) => ({ ...prev, requiresId: e.target.checked }))}
+            className="rounded"
+          />
+          Requires ID number
+        </label>
+      </div>
+      <button
+        onClick={addDiscount}
+        disabled={isAdding}
+        className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+      >
+        Add Discount
+      </button>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import { ACCOUNT_LOCKED_ERROR_CODE } from "@/lib/users";
 import toast from "react-hot-toast";
 
 export default function LoginPage() {
@@ -16,14 +17,20 @@ export default function LoginPage() {
 
     setIsLoading(true);
 
-    // Simulate loading
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    const success = login(username, password);
-    if (success) {
-      toast.success("Welcome to KASHPOS!");
-    } else {
-      toast.error("Invalid username or password");
+    try {
+      const success = await login(username, password);
+      if (success) {
+        toast.success("Welcome to KASHPOS!");
+      } else {
+        toast.error("Invalid username or password");
+      }
+    } catch (error: any) {
+      console.error("Error signing in:", error);
+      if (error?.code === ACCOUNT_LOCKED_ERROR_CODE) {
+        toast.error(error.message);
+      } else {
+        toast.error("Unable to sign in. Check your connection and try again.");
+      }
     }
     setIsLoading(false);
   };
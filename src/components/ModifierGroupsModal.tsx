@@ -0,0 +1,359 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import toast from 'react-hot-toast'
+import { describeSelectionRule, fetchModifierGroups, ModifierGroupInput, saveModifierGroups } from '@/lib/modifiers'
+import { getUnitLabel } from '@/lib/units'
+import { FinishedProduct, Product } from '@/types/database'
+
+interface ModifierGroupsModalProps {
+  product: FinishedProduct
+  // Inventory items the options can add or take away
+  items: Product[]
+  onClose: () => void
+}
+
+// Form values are kept as typed; qty is per unit sold in g / ml / pcs and
+// negative for remove-ons
+interface IngredientDraft {
+  itemId: string
+  qty: string
+}
+
+interface ModifierDraft {
+  name: string
+  priceDelta: string
+  ingredients: IngredientDraft[]
+}
+
+interface GroupDraft {
+  name: string
+  minSelect: string
+  maxSelect: string
+  modifiers: ModifierDraft[]
+}
+
+const emptyModifier = (): ModifierDraft => ({ name: '', priceDelta: '', ingredients: [] })
+const emptyGroup = (): GroupDraft => ({ name: '', minSelect: '0', maxSelect: '', modifiers: [emptyModifier()] })
+
+// Signed decimals for price deltas and ingredient changes
+const isSignedDecimal = (value: string) => value === '' || /^-?\d*\.?\d*$/.test(value)
+
+// The sizes, add-ons and remove-ons offered for a finished product at the
+// till. Every group is saved together and replaces the previous ones.
+export default function ModifierGroupsModal({ product, items, onClose }: ModifierGroupsModalProps) {
+  const [groups, setGroups] = useState<GroupDraft[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    fetchModifierGroups(product.id)
+      .then((data) =>
+        setGroups(
+          data.map((group) => ({
+            name: group.name,
+            minSelect: String(group.min_select),
+            maxSelect: group.max_select !== null ? String(group.max_select) : '',
+            modifiers: group.modifiers.map((modifier) => ({
+              name: modifier.name,
+              priceDelta: modifier.price_delta ? String(modifier.price_delta) : '',
+              ingredients: modifier.modifier_ingredients.map((ingredient) => ({
+                itemId: ingredient.item_id,
+                qty: String(ingredient.qty),
+              })),
+            })),
+          }))
+        )
+      )
+      .catch((error) => {
+        console.error('Error fetching modifiers:', error)
+        toast.error('Failed to load modifiers')
+      })
+      .finally(() => setLoading(false))
+  }, [product.id])
+
+  const updateGroup = (groupIndex: number, changes: Partial<GroupDraft>) =>
+    setGroups((prev) => prev.map((group, i) => (i === groupIndex ? { ...group, ...changes } : group)))
+
+  const updateModifier = (groupIndex: number, modifierIndex: number, changes: Partial<ModifierDraft>) =>
+    setGroups((prev) =>
+      prev.map((group, i) =>
+        i === groupIndex
+          ? { ...group, modifiers: group.modifiers.map((m, j) => (j === modifierIndex ? { ...m, ...changes } : m)) }
+          : group
+      )
+    )
+
+  const updateIngredient = (groupIndex: number, modifierIndex: number, ingredientIndex: number, changes: Partial<IngredientDraft>) => {
+    const modifier = groups[groupIndex].modifiers[modifierIndex]
+    updateModifier(groupIndex, modifierIndex, {
+      ingredients: modifier.ingredients.map((ing, k) => (k === ingredientIndex ? { ...ing, ...changes } : ing)),
+    })
+  }
+
+  const handleSave = async () => {
+    const input: ModifierGroupInput[] = []
+
+    for (const group of groups) {
+      const name = group.name.trim()
+      const minSelect = parseInt(group.minSelect) || 0
+      const maxSelect = group.maxSelect === '' ? null : parseInt(group.maxSelect) || 0
+
+      if (!name) {
+        toast.error('Every group needs a name')
+        return
+      }
+
+      if (group.modifiers.length === 0 || group.modifiers.some((m) => !m.name.trim())) {
+        toast.error(`Every option in ${name} needs a name`)
+        return
+      }
+
+      if (minSelect > group.modifiers.length || (maxSelect !== null && (maxSelect < 1 || maxSelect < minSelect))) {
+        toast.error(`Check the minimum and maximum choices for ${name}`)
+        return
+      }
+
+      const modifiers = group.modifiers.map((modifier) => ({
+        name: modifier.name.trim(),
+        priceDelta: parseFloat(modifier.priceDelta) || 0,
+        ingredients: modifier.ingredients
+          .map((ingredient) => ({ itemId: ingredient.itemId, qty: parseFloat(ingredient.qty) || 0 }))
+          .filter((ingredient) => ingredient.itemId && ingredient.qty !== 0),
+      }))
+
+      input.push({ name, minSelect, maxSelect, modifiers })
+    }
+
+    setIsSaving(true)
+    try {
+      await saveModifierGroups(product.id, input)
+      toast.success('Modifiers saved')
+      onClose()
+    } catch (error: any) {
+      console.error('Error saving modifiers:', error)
+      toast.error(error?.message || 'Failed to save modifiers')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Modifiers</h2>
+            <p className="text-surface-400 text-sm">
+              {product.name} · sizes, add-ons and remove-ons offered at the till
+            </p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.length === 0 && (
+              <p className="text-surface-500 text-sm text-center py-4">No modifier groups yet</p>
+            )}
+
+            {groups.map((group, groupIndex) => (
+              <div key={groupIndex} className="p-4 bg-surface-800/50 rounded-lg space-y-3">
+                <div className="flex gap-2 items-end">
+                  <div className="flex-1">
+                    <label className="block text-xs font-medium text-surface-400 mb-1">Group</label>
+                    <input
+                      type="text"
+                      value={group.name}
+                      onChange={(e) => updateGroup(groupIndex, { name: e.target.value })}
+                      className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+                      placeholder="e.g., Size, Add-ons"
+                    />
+                  </div>
+                  <div className="w-20">
+                    <label className="block text-xs font-medium text-surface-400 mb-1">Min</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={group.minSelect}
+                      onChange={(e) => /^\d*$/.test(e.target.value) && updateGroup(groupIndex, { minSelect: e.target.value })}
+                      className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-sm"
+                    />
+                  </div>
+                  <div className="w-20">
+                    <label className="block text-xs font-medium text-surface-400 mb-1">Max</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={group.maxSelect}
+                      onChange={(e) => /^\d*$/.test(e.target.value) && updateGroup(groupIndex, { maxSelect: e.target.value })}
+                      className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-sm"
+                      placeholder="Any"
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setGroups((prev) => prev.filter((_, i) => i !== groupIndex))}
+                    className="px-3 py-2 text-red-400 hover:text-red-300 text-sm"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <p className="text-surface-500 text-xs">
+                  {describeSelectionRule({
+                    min_select: parseInt(group.minSelect) || 0,
+                    max_select: group.maxSelect === '' ? null : parseInt(group.maxSelect) || 0,
+                  })}
+                  {(parseInt(group.minSelect) || 0) > 0 && ' · required'}
+                </p>
+
+                {group.modifiers.map((modifier, modifierIndex) => (
+                  <div key={modifierIndex} className="pl-3 border-l-2 border-surface-700 space-y-2">
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={modifier.name}
+                        onChange={(e) => updateModifier(groupIndex, modifierIndex, { name: e.target.value })}
+                        className="flex-1 px-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+                        placeholder="Option, e.g., Large, Extra egg, No rice"
+                      />
+                      <div className="relative w-28">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-surface-500 text-sm">₱</span>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={modifier.priceDelta}
+                          onChange={(e) =>
+                            isSignedDecimal(e.target.value) &&
+                            updateModifier(groupIndex, modifierIndex, { priceDelta: e.target.value })
+                          }
+                          className="w-full pl-7 pr-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-sm"
+                          placeholder="+0.00"
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateGroup(groupIndex, { modifiers: group.modifiers.filter((_, j) => j !== modifierIndex) })
+                        }
+                        className="text-surface-500 hover:text-red-400"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+
+                    {modifier.ingredients.map((ingredient, ingredientIndex) => {
+                      const item = items.find((i) => i.id === ingredient.itemId)
+                      return (
+                        <div key={ingredientIndex} className="flex gap-2 pl-3">
+                          <select
+                            value={ingredient.itemId}
+                            onChange={(e) => updateIngredient(groupIndex, modifierIndex, ingredientIndex, { itemId: e.target.value })}
+                            className="flex-1 px-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-surface-300 text-xs"
+                          >
+                            <option value="">Inventory item...</option>
+                            {items.map((i) => (
+                              <option key={i.id} value={i.id}>
+                                {i.name}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            value={ingredient.qty}
+                            onChange={(e) =>
+                              isSignedDecimal(e.target.value) &&
+                              updateIngredient(groupIndex, modifierIndex, ingredientIndex, { qty: e.target.value })
+                            }
+                            className="w-24 px-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-xs"
+                            placeholder="+/- qty"
+                          />
+                          <span className="w-8 py-1.5 text-surface-500 text-xs">{item ? getUnitLabel(item.unit_type) : ''}</span>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateModifier(groupIndex, modifierIndex, {
+                                ingredients: modifier.ingredients.filter((_, k) => k !== ingredientIndex),
+                              })
+                            }
+                            className="text-surface-500 hover:text-red-400"
+                          >
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                          </button>
+                        </div>
+                      )
+                    })}
+
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateModifier(groupIndex, modifierIndex, {
+                          ingredients: [...modifier.ingredients, { itemId: '', qty: '' }],
+                        })
+                      }
+                      className="pl-3 text-xs text-surface-400 hover:text-white"
+                    >
+                      + Inventory change
+                    </button>
+                  </div>
+                ))}
+
+                <button
+                  type="button"
+                  onClick={() => updateGroup(groupIndex, { modifiers: [...group.modifiers, emptyModifier()] })}
+                  className="text-sm text-primary-400 hover:text-primary-300"
+                >
+                  + Add Option
+                </button>
+              </div>
+            ))}
+
+            <button
+              type="button"
+              onClick={() => setGroups((prev) => [...prev, emptyGroup()])}
+              className="w-full px-4 py-2 border border-dashed border-surface-700 hover:border-surface-500 text-surface-400 hover:text-white text-sm rounded-lg transition-colors"
+            >
+              + Add Group
+            </button>
+
+            <p className="text-surface-500 text-xs">
+              Inventory changes are per item sold: positive to add (extra egg), negative to take out of the recipe (no
+              rice).
+            </p>
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save Modifiers'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,28 @@
 'use client'
 
 import { useAuth } from '@/contexts/AuthContext'
+import { usePermission } from '@/hooks/usePermission'
+import { Permission } from '@/types/database'
 
-type NavPage = 'sales' | 'reports' | 'inventory' | 'earnings' | 'opex' | 'settings'
+export type NavPage = 'sales' | 'shifts' | 'reports' | 'inventory' | 'purchasing' | 'earnings' | 'opex' | 'settings'
+
+// Permission needed to open each page (null = every signed-in user).
+// Settings is open to everyone for the account section; its other
+// sections check manage_settings themselves.
+export const PAGE_PERMISSIONS: Record<NavPage, Permission | null> = {
+  sales: null,
+  shifts: null,
+  reports: 'view_reports',
+  inventory: 'adjust_inventory',
+  purchasing: 'adjust_inventory',
+  earnings: 'view_earnings',
+  opex: 'manage_opex',
+  settings: null,
+}
 
 interface NavigationProps {
   activePage: NavPage
   setActivePage: (page: NavPage) => void
-  isCashier: boolean
 }
 
 const navItems: { id: NavPage; label: string; icon: JSX.Element }[] = [
@@ -20,6 +35,15 @@ const navItems: { id: NavPage; label: string; icon: JSX.Element }[] = [
       </svg>
     ),
   },
+  {
+    id: 'shifts',
+    label: 'Shifts',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
+      </svg>
+    ),
+  },
   {
     id: 'reports',
     label: 'Reports',
@@ -38,6 +62,15 @@ const navItems: { id: NavPage; label: string; icon: JSX.Element }[] = [
       </svg>
     ),
   },
+  {
+    id: 'purchasing',
+    label: 'Purchasing',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+      </svg>
+    ),
+  },
   {
     id: 'earnings',
     label: 'Earnings',
@@ -68,10 +101,14 @@ const navItems: { id: NavPage; label: string; icon: JSX.Element }[] = [
   },
 ]
 
-export default function Navigation({ activePage, setActivePage, isCashier }: NavigationProps) {
+export default function Navigation({ activePage, setActivePage }: NavigationProps) {
   const { user } = useAuth()
+  const can = usePermission()
 
-  const visibleItems = isCashier ? navItems.filter((item) => item.id === 'sales') : navItems
+  const visibleItems = navItems.filter((item) => {
+    const permission = PAGE_PERMISSIONS[item.id]
+    return !permission || can(permission)
+  })
 
   return (
     <>
@@ -119,7 +156,7 @@ export default function Navigation({ activePage, setActivePage, isCashier }: Nav
               </span>
             </div>
             <div className="flex-1 min-w-0">
-              <p className="text-sm font-medium text-white truncate">{user?.username}</p>
+              <p className="text-sm font-medium text-white truncate">{user?.displayName || user?.username}</p>
               <p className="text-xs text-surface-500 capitalize">{user?.role}</p>
             </div>
           </div>
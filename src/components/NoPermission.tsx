@@ -0,0 +1,13 @@
+'use client'
+
+export default function NoPermission({ page }: { page: string }) {
+  return (
+    <div className="card p-12 text-center max-w-lg mx-auto">
+      <svg className="w-12 h-12 text-surface-600 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+      </svg>
+      <h3 className="text-lg font-medium text-white mb-2">No access to {page}</h3>
+      <p className="text-surface-400 text-sm">Ask the owner to grant your role access in Settings.</p>
+    </div>
+  )
+}
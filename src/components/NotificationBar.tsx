@@ -2,37 +2,44 @@
 
 import { useState, useEffect } from 'react'
 import { useNotifications } from '@/contexts/NotificationContext'
+import { getUnitLabel, toDisplayQty } from '@/lib/units'
+import { formatSaleLineName } from '@/lib/modifiers'
 
 export default function NotificationBar() {
-  const { recentSales, cancelSale, storageWarning } = useNotifications()
+  const { recentTransactions, cancelTransaction, storageWarning, lowStockItems, dismissLowStock } = useNotifications()
   const [showCancelModal, setShowCancelModal] = useState<string | null>(null)
   const [timeLeft, setTimeLeft] = useState<Record<string, number>>({})
+  const [isCancelling, setIsCancelling] = useState(false)
 
   // Update countdown timers
   useEffect(() => {
     const interval = setInterval(() => {
       const newTimeLeft: Record<string, number> = {}
-      recentSales.forEach((rs) => {
-        const remaining = Math.max(0, Math.floor((rs.expiresAt - Date.now()) / 1000))
-        newTimeLeft[rs.sale.id] = remaining
+      recentTransactions.forEach((rt) => {
+        const remaining = Math.max(0, Math.floor((rt.expiresAt - Date.now()) / 1000))
+        newTimeLeft[rt.transactionId] = remaining
       })
       setTimeLeft(newTimeLeft)
     }, 1000)
 
     return () => clearInterval(interval)
-  }, [recentSales])
+  }, [recentTransactions])
 
-  const handleCancelClick = (saleId: string) => {
-    setShowCancelModal(saleId)
+  const handleCancelClick = (transactionId: string) => {
+    setShowCancelModal(transactionId)
   }
 
   const handleConfirmCancel = async () => {
     if (showCancelModal) {
-      await cancelSale(showCancelModal)
+      setIsCancelling(true)
+      await cancelTransaction(showCancelModal)
+      setIsCancelling(false)
       setShowCancelModal(null)
     }
   }
 
+  const cancelTarget = recentTransactions.find((rt) => rt.transactionId === showCancelModal)
+
   return (
     <>
       {/* Storage Warning - Top most */}
@@ -47,24 +54,50 @@ export default function NotificationBar() {
         </div>
       )}
 
+      {/* Low Stock Alert - stays until dismissed or restocked */}
+      {lowStockItems.length > 0 && (
+        <div className="bg-yellow-500/10 border-b border-yellow-500/20 px-4 py-2 notification-enter">
+          <div className="max-w-7xl mx-auto flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2 min-w-0">
+              <svg className="w-4 h-4 text-yellow-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+              </svg>
+              <span className="text-sm text-yellow-400 font-medium truncate">
+                Low stock:{' '}
+                {lowStockItems
+                  .map((item) => `${item.name} (${toDisplayQty(item.unit_type, item.qty).toLocaleString()} ${getUnitLabel(item.unit_type)} left)`)
+                  .join(', ')}
+              </span>
+            </div>
+            <button
+              onClick={dismissLowStock}
+              className="px-3 py-1 text-xs font-medium text-surface-400 hover:text-white hover:bg-surface-800 rounded-md transition-colors flex-shrink-0"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* New Purchase Notifications */}
-      {recentSales.map((rs) => (
+      {recentTransactions.map((rt) => (
         <div
-          key={rs.sale.id}
+          key={rt.transactionId}
           className="bg-green-500/10 border-b border-green-500/20 px-4 py-2 notification-enter"
         >
           <div className="max-w-7xl mx-auto flex items-center justify-between gap-4">
-            <div className="flex items-center gap-2">
-              <div className="w-2 h-2 bg-green-500 rounded-full pulse-glow" />
-              <span className="text-sm text-green-400 font-medium">
-                New Purchase: {rs.sale.product_name} x{rs.sale.qty}
+            <div className="flex items-center gap-2 min-w-0">
+              <div className="w-2 h-2 bg-green-500 rounded-full pulse-glow flex-shrink-0" />
+              <span className="text-sm text-green-400 font-medium truncate">
+                New Purchase {rt.transactionNumber}:{' '}
+                {rt.sales.map((sale) => `${formatSaleLineName(sale)} x${sale.qty}`).join(', ')} — ₱{rt.total.toFixed(2)}
               </span>
-              <span className="text-xs text-surface-500">
-                ({timeLeft[rs.sale.id] || 0}s left to cancel)
+              <span className="text-xs text-surface-500 flex-shrink-0">
+                ({timeLeft[rt.transactionId] || 0}s left to cancel)
               </span>
             </div>
             <button
-              onClick={() => handleCancelClick(rs.sale.id)}
+              onClick={() => handleCancelClick(rt.transactionId)}
               className="px-3 py-1 text-xs font-medium text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-md transition-colors"
             >
               Cancel
@@ -78,9 +111,26 @@ export default function NotificationBar() {
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="card p-6 max-w-md w-full">
             <h3 className="text-lg font-semibold text-white mb-2">Cancel Purchase?</h3>
-            <p className="text-surface-400 text-sm mb-6">
-              This will remove the sale from reports and restore the inventory. This action cannot be undone.
+            <p className="text-surface-400 text-sm mb-4">
+              This will remove every item in this sale from reports and restore the inventory. This action cannot be undone.
             </p>
+            {cancelTarget && (
+              <div className="p-3 bg-surface-800/50 rounded-lg mb-6">
+                <p className="text-surface-500 text-xs font-mono mb-2">{cancelTarget.transactionNumber}</p>
+                <ul className="space-y-1">
+                  {cancelTarget.sales.map((sale) => (
+                    <li key={sale.id} className="flex justify-between text-sm">
+                      <span className="text-white">{formatSaleLineName(sale)} x{sale.qty}</span>
+                      <span className="text-surface-400 font-mono">₱{sale.total.toFixed(2)}</span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex justify-between text-sm font-semibold border-t border-surface-700 mt-2 pt-2">
+                  <span className="text-white">Total</span>
+                  <span className="text-white font-mono">₱{cancelTarget.total.toFixed(2)}</span>
+                </div>
+              </div>
+            )}
             <div className="flex gap-3">
               <button
                 onClick={() => setShowCancelModal(null)}
@@ -90,9 +140,10 @@ export default function NotificationBar() {
               </button>
               <button
                 onClick={handleConfirmCancel}
-                className="flex-1 px-4 py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors"
+                disabled={isCancelling}
+                className="flex-1 px-4 py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
               >
-                Cancel Sale
+                {isCancelling ? 'Cancelling...' : 'Cancel Sale'}
               </button>
             </div>
           </div>
@@ -0,0 +1,390 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+import { fetchPrepRecipe, fetchProductionBatches, produceBatch, savePrepRecipe } from '@/lib/prepItems'
+import { RecipeIngredientInput } from '@/lib/recipes'
+import { getUnitLabel, toDisplayQty, toStorageQty } from '@/lib/units'
+import { Product, ProductionBatch } from '@/types/database'
+
+interface PrepItemModalProps {
+  item: Product
+  // Every inventory item; raw ones can go into the recipe
+  items: Product[]
+  onClose: () => void
+  onSaved: (item: Product) => void
+}
+
+const sameRecipe = (a: RecipeIngredientInput[], b: RecipeIngredientInput[]) =>
+  a.length === b.length && a.every((ingredient) => b.some((i) => i.itemId === ingredient.itemId && i.qty === ingredient.qty))
+
+// A prep item's batch recipe and the Produce Batch action. Producing takes
+// the raw items out of stock and adds the yield to the prep item at the
+// batch's cost, averaged with what's already on hand.
+export default function PrepItemModal({ item, items, onClose, onSaved }: PrepItemModalProps) {
+  const [recipe, setRecipe] = useState<RecipeIngredientInput[]>([])
+  const [savedRecipe, setSavedRecipe] = useState<RecipeIngredientInput[]>([])
+  const [batchYield, setBatchYield] = useState(item.batch_yield !== null ? String(toDisplayQty(item.unit_type, item.batch_yield)) : '')
+  const [newIngredientId, setNewIngredientId] = useState('')
+  const [newIngredientQty, setNewIngredientQty] = useState('')
+  const [batches, setBatches] = useState('1')
+  const [actualYield, setActualYield] = useState('')
+  const [note, setNote] = useState('')
+  const [recentBatches, setRecentBatches] = useState<ProductionBatch[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const unitLabel = getUnitLabel(item.unit_type)
+
+  useEffect(() => {
+    Promise.all([fetchPrepRecipe(item.id), fetchProductionBatches(item.id)])
+      .then(([ingredients, produced]) => {
+        setRecipe(ingredients)
+        setSavedRecipe(ingredients)
+        setRecentBatches(produced)
+      })
+      .catch((error) => {
+        console.error('Error fetching prep recipe:', error)
+        toast.error('Failed to load prep recipe')
+      })
+      .finally(() => setLoading(false))
+  }, [item.id])
+
+  // Prep items can't go into other prep items
+  const rawItems = items.filter((i) => !i.is_prep && i.id !== item.id)
+  const findItem = (itemId: string) => items.find((i) => i.id === itemId)
+
+  const yieldPerBatch = parseFloat(batchYield) || 0
+  const batchCost = recipe.reduce((sum, ingredient) => sum + ingredient.qty * (findItem(ingredient.itemId)?.cost || 0), 0)
+  const hasUnsavedChanges =
+    !sameRecipe(recipe, savedRecipe) ||
+    (item.batch_yield === null ? yieldPerBatch > 0 : yieldPerBatch !== toDisplayQty(item.unit_type, item.batch_yield))
+
+  const batchCount = parseFloat(batches) || 0
+  const expectedYield = yieldPerBatch * batchCount
+  const producedYield = actualYield === '' ? expectedYield : parseFloat(actualYield) || 0
+  const producedCost = batchCost * batchCount
+
+  // Same calculation as produce_batch(); negative stock doesn't count
+  const onHand = Math.max(toDisplayQty(item.unit_type, item.qty), 0)
+  const newCost = producedYield > 0 ? (onHand * item.cost + producedCost) / (onHand + producedYield) : item.cost
+
+  const shortages = savedRecipe.filter((ingredient) => {
+    const raw = findItem(ingredient.itemId)
+    return !raw || toDisplayQty(raw.unit_type, raw.qty) < ingredient.qty * batchCount
+  })
+
+  const handleDecimalChange = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const val = e.target.value
+    if (val === '' || /^\d*\.?\d*$/.test(val)) {
+      setter(val)
+    }
+  }
+
+  const handleAddIngredient = () => {
+    const qty = parseFloat(newIngredientQty) || 0
+    if (!newIngredientId || qty <= 0) {
+      toast.error('Pick an item and enter a quantity')
+      return
+    }
+
+    setRecipe((prev) =>
+      prev.some((i) => i.itemId === newIngredientId)
+        ? prev.map((i) => (i.itemId === newIngredientId ? { ...i, qty: i.qty + qty } : i))
+        : [...prev, { itemId: newIngredientId, qty }]
+    )
+    setNewIngredientId('')
+    setNewIngredientQty('')
+  }
+
+  const handleSaveRecipe = async () => {
+    if (yieldPerBatch <= 0) {
+      toast.error('Please enter how much one batch makes')
+      return
+    }
+
+    if (recipe.length === 0) {
+      toast.error('Add at least one ingredient')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const updated = await savePrepRecipe(item.id, toStorageQty(item.unit_type, yieldPerBatch), recipe)
+      setSavedRecipe(recipe)
+      toast.success('Prep recipe saved')
+      onSaved(updated)
+    } catch (error: any) {
+      console.error('Error saving prep recipe:', error)
+      toast.error(error?.message || 'Failed to save prep recipe')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleProduce = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (batchCount <= 0) {
+      toast.error('Please enter how many batches')
+      return
+    }
+
+    if (producedYield <= 0) {
+      toast.error('Please enter how much the batch made')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const updated = await produceBatch(item.id, {
+        batches: batchCount,
+        actualYield: actualYield === '' ? null : toStorageQty(item.unit_type, producedYield),
+        note,
+      })
+      toast.success(`Produced ${producedYield.toLocaleString()} ${unitLabel} of ${item.name}`)
+      setBatches('1')
+      setActualYield('')
+      setNote('')
+      setRecentBatches(await fetchProductionBatches(item.id))
+      onSaved(updated)
+    } catch (error: any) {
+      console.error('Error producing batch:', error)
+      toast.error(error?.message || 'Failed to produce batch')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Prep Item</h2>
+            <p className="text-surface-400 text-sm">
+              {item.name} · {toDisplayQty(item.unit_type, item.qty).toLocaleString()} {unitLabel} on hand
+            </p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Batch Recipe */}
+            <div className="space-y-3">
+              <h3 className="text-white font-medium">Batch Recipe</h3>
+
+              {recipe.length === 0 ? (
+                <p className="text-surface-500 text-sm">No ingredients yet</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {recipe.map((ingredient) => {
+                    const raw = findItem(ingredient.itemId)
+                    return (
+                      <li key={ingredient.itemId} className="flex items-center justify-between p-2 bg-surface-800/50 rounded-lg">
+                        <span className="text-surface-300">
+                          {raw?.name || 'Removed item'} ({ingredient.qty.toLocaleString()} {raw ? getUnitLabel(raw.unit_type) : ''})
+                        </span>
+                        <div className="flex items-center gap-3">
+                          <span className="text-surface-400 font-mono">₱{(ingredient.qty * (raw?.cost || 0)).toFixed(2)}</span>
+                          <button
+                            type="button"
+                            onClick={() => setRecipe((prev) => prev.filter((i) => i.itemId !== ingredient.itemId))}
+                            className="text-surface-500 hover:text-red-400"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                          </button>
+                        </div>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+
+              <div className="flex gap-2">
+                <select
+                  value={newIngredientId}
+                  onChange={(e) => setNewIngredientId(e.target.value)}
+                  className="flex-1 px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+                >
+                  <option value="">Add an ingredient...</option>
+                  {rawItems.map((raw) => (
+                    <option key={raw.id} value={raw.id}>
+                      {raw.name} ({getUnitLabel(raw.unit_type)})
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={newIngredientQty}
+                  onChange={handleDecimalChange(setNewIngredientQty)}
+                  className="w-24 px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-sm"
+                  placeholder="Qty"
+                />
+                <button
+                  type="button"
+                  onClick={handleAddIngredient}
+                  className="px-3 py-2 bg-surface-700 hover:bg-surface-600 text-surface-300 text-sm font-medium rounded-lg transition-colors"
+                >
+                  Add
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">One batch makes ({unitLabel})</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={batchYield}
+                  onChange={handleDecimalChange(setBatchYield)}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                  placeholder="0"
+                />
+              </div>
+
+              <div className="p-4 bg-surface-800/50 rounded-lg border border-surface-700 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-surface-400">Cost per batch</span>
+                  <span className="font-mono text-white">₱{batchCost.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-surface-400">Cost per {unitLabel}</span>
+                  <span className="font-mono font-bold text-primary-500">
+                    ₱{(yieldPerBatch > 0 ? batchCost / yieldPerBatch : 0).toFixed(4)}
+                  </span>
+                </div>
+              </div>
+
+              <button
+                type="button"
+                onClick={handleSaveRecipe}
+                disabled={isSaving || !hasUnsavedChanges}
+                className="w-full px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save Recipe'}
+              </button>
+            </div>
+
+            {/* Produce Batch */}
+            {item.is_prep && savedRecipe.length > 0 && (
+              <form onSubmit={handleProduce} className="space-y-3 pt-6 border-t border-surface-800">
+                <h3 className="text-white font-medium">Produce Batch</h3>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-surface-300 mb-2">Batches</label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={batches}
+                      onChange={handleDecimalChange(setBatches)}
+                      className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-surface-300 mb-2">Actual Yield ({unitLabel})</label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={actualYield}
+                      onChange={handleDecimalChange(setActualYield)}
+                      className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                      placeholder={expectedYield.toLocaleString()}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-2">Note</label>
+                  <input
+                    type="text"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                    placeholder="Optional"
+                  />
+                </div>
+
+                {/* Ingredients used and cost preview */}
+                <div className="p-4 bg-surface-800/50 rounded-lg border border-surface-700 space-y-1 text-sm">
+                  {savedRecipe.map((ingredient) => {
+                    const raw = findItem(ingredient.itemId)
+                    const isShort = shortages.includes(ingredient)
+                    return (
+                      <div key={ingredient.itemId} className="flex justify-between">
+                        <span className={isShort ? 'text-red-400' : 'text-surface-400'}>{raw?.name || 'Removed item'}</span>
+                        <span className={`font-mono ${isShort ? 'text-red-400' : 'text-white'}`}>
+                          {(ingredient.qty * batchCount).toLocaleString()} / {raw ? toDisplayQty(raw.unit_type, raw.qty).toLocaleString() : 0}{' '}
+                          {raw ? getUnitLabel(raw.unit_type) : ''}
+                        </span>
+                      </div>
+                    )
+                  })}
+                  <div className="flex justify-between pt-2">
+                    <span className="text-surface-400">Batch cost per {unitLabel}</span>
+                    <span className="font-mono text-white">
+                      ₱{(producedYield > 0 ? producedCost / producedYield : 0).toFixed(4)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-surface-400">Average cost per {unitLabel}</span>
+                    <span className="font-mono font-bold text-primary-500">
+                      ₱{item.cost.toFixed(4)} → ₱{newCost.toFixed(4)}
+                    </span>
+                  </div>
+                </div>
+
+                {hasUnsavedChanges && (
+                  <p className="text-yellow-400 text-xs">Save the recipe changes before producing</p>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={isSaving || hasUnsavedChanges || shortages.length > 0}
+                  className="w-full px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : shortages.length > 0 ? 'Not enough stock' : 'Produce'}
+                </button>
+              </form>
+            )}
+
+            {/* Recent Batches */}
+            {recentBatches.length > 0 && (
+              <div className="space-y-2 pt-6 border-t border-surface-800">
+                <h3 className="text-white font-medium">Recent Batches</h3>
+                <ul className="space-y-1 text-sm">
+                  {recentBatches.map((batch) => (
+                    <li key={batch.id} className="flex justify-between">
+                      <span className="text-surface-400">
+                        {format(new Date(batch.produced_at), 'MMM d, h:mm a')}
+                        {batch.produced_by_name && ` · ${batch.produced_by_name}`}
+                        {batch.note && ` · ${batch.note}`}
+                      </span>
+                      <span className="font-mono text-surface-300">
+                        +{toDisplayQty(item.unit_type, batch.qty).toLocaleString()} {unitLabel} @ ₱{batch.unit_cost.toFixed(4)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
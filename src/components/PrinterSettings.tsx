@@ -0,0 +1,360 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import toast from 'react-hot-toast'
+import {
+  DEFAULT_PRINTER_PORT,
+  PRINTER_CONNECTIONS,
+  fetchPrinters,
+  pairPrinterDevice,
+  printTestPage,
+  savePrinters,
+} from '@/lib/printers'
+import { PrinterConfig, PrinterConnection, PrinterRole, ReceiptPaperWidth } from '@/types/database'
+
+type NewPrinter = Omit<PrinterConfig, 'id'>
+
+const EMPTY_PRINTER: NewPrinter = {
+  name: '',
+  role: 'receipt',
+  connection: 'usb',
+  paperWidth: 58,
+  autoPrint: true,
+  openDrawer: false,
+}
+
+const describePrinter = (printer: PrinterConfig) => {
+  const connection = PRINTER_CONNECTIONS.find((c) => c.value === printer.connection)?.label || printer.connection
+  const target =
+    printer.connection === 'tcp'
+      ? ` ${printer.host}:${printer.port || DEFAULT_PRINTER_PORT}`
+      : printer.connection === 'file'
+        ? ` ${printer.fileName}.bin`
+        : ''
+  return `${printer.role === 'kitchen' ? 'Kitchen' : 'Receipt'} · ${connection}${target} · ${printer.paperWidth}mm`
+}
+
+// Receipt and kitchen printers (settings editors only). USB and serial
+// printers are paired with the browser on each till that prints to them.
+export default function PrinterSettings() {
+  const [printers, setPrinters] = useState<PrinterConfig[]>([])
+  const [newPrinter, setNewPrinter] = useState<NewPrinter>(EMPTY_PRINTER)
+  const [isSaving, setIsSaving] = useState(false)
+  const [testingId, setTestingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchPrinters()
+      .then(setPrinters)
+      .catch((error) => {
+        console.error('Error fetching printers:', error)
+        toast.error('Failed to load printers')
+      })
+  }, [])
+
+  const persist = async (next: PrinterConfig[], successMessage: string) => {
+    setIsSaving(true)
+    try {
+      await savePrinters(next)
+      setPrinters(next)
+      toast.success(successMessage)
+      return true
+    } catch (error) {
+      console.error('Error saving printers:', error)
+      toast.error('Failed to save printers')
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const pairNewPrinter = async () => {
+    if (newPrinter.connection !== 'usb' && newPrinter.connection !== 'serial') return
+    try {
+      const ids = await pairPrinterDevice(newPrinter.connection)
+      setNewPrinter((prev) => ({ ...prev, ...ids }))
+      toast.success('Printer paired')
+    } catch (error: any) {
+      // Closing the browser's device chooser is not an error
+      if (error?.name === 'NotFoundError') return
+      console.error('Error pairing printer:', error)
+      toast.error(error?.message || 'Failed to pair printer')
+    }
+  }
+
+  const addPrinter = async () => {
+    if (!newPrinter.name.trim()) {
+      toast.error('Please enter a printer name')
+      return
+    }
+
+    if (newPrinter.connection === 'tcp' && !newPrinter.host?.trim()) {
+      toast.error('Please enter the printer address')
+      return
+    }
+
+    if (newPrinter.connection === 'file' && !newPrinter.fileName?.trim()) {
+      toast.error('Please enter a file name')
+      return
+    }
+
+    if (
+      (newPrinter.connection === 'usb' || newPrinter.connection === 'serial') &&
+      newPrinter.usbVendorId === undefined &&
+      newPrinter.usbProductId === undefined
+    ) {
+      toast.error('Please pair the printer first')
+      return
+    }
+
+    const printer: PrinterConfig = {
+      ...newPrinter,
+      id: `printer-${Date.now()}-${Math.random().toString(36).substring(2)}`,
+      name: newPrinter.name.trim(),
+      host: newPrinter.connection === 'tcp' ? newPrinter.host?.trim() : undefined,
+      port: newPrinter.connection === 'tcp' ? newPrinter.port || DEFAULT_PRINTER_PORT : undefined,
+      fileName: newPrinter.connection === 'file' ? newPrinter.fileName?.trim() : undefined,
+      baudRate: newPrinter.connection === 'serial' ? newPrinter.baudRate : undefined,
+      openDrawer: newPrinter.role === 'receipt' && newPrinter.openDrawer,
+    }
+
+    if (await persist([...printers, printer], 'Printer added')) setNewPrinter(EMPTY_PRINTER)
+  }
+
+  const toggleAutoPrint = (printer: PrinterConfig) =>
+    persist(
+      printers.map((p) => (p.id === printer.id ? { ...p, autoPrint: !p.autoPrint } : p)),
+      printer.autoPrint ? 'Auto-print turned off' : 'Auto-print turned on'
+    )
+
+  const removePrinter = (printer: PrinterConfig) => {
+    if (!confirm(`Remove ${printer.name}?`)) return
+    persist(
+      printers.filter((p) => p.id !== printer.id),
+      'Printer removed'
+    )
+  }
+
+  const pairOnThisDevice = async (printer: PrinterConfig) => {
+    if (printer.connection !== 'usb' && printer.connection !== 'serial') return
+    try {
+      const ids = await pairPrinterDevice(printer.connection)
+      await persist(
+        printers.map((p) => (p.id === printer.id ? { ...p, ...ids } : p)),
+        `${printer.name} paired`
+      )
+    } catch (error: any) {
+      if (error?.name === 'NotFoundError') return
+      console.error('Error pairing printer:', error)
+      toast.error(error?.message || 'Failed to pair printer')
+    }
+  }
+
+  const testPrinter = async (printer: PrinterConfig) => {
+    setTestingId(printer.id)
+    try {
+      await printTestPage(printer)
+      toast.success(`Test page sent to ${printer.name}`)
+    } catch (error: any) {
+      console.error('Error printing test page:', error)
+      toast.error(error?.message || `Failed to print to ${printer.name}`)
+    } finally {
+      setTestingId(null)
+    }
+  }
+
+  const isDevice = newPrinter.connection === 'usb' || newPrinter.connection === 'serial'
+  const isPaired = newPrinter.usbVendorId !== undefined || newPrinter.usbProductId !== undefined
+
+  return (
+    <div className="card p-6 mt-6">
+      <h3 className="text-lg font-semibold text-white mb-4">Printers</h3>
+      <p className="text-surface-400 text-sm mb-4">
+        Thermal printers that take ESC/POS. Receipt printers print after every checkout and can open the cash drawer
+        on cash sales; kitchen printers print a ticket of what to make. USB and serial printers work in Chrome and
+        Edge and need to be paired on each till. Network and file printers have to be allowed on the server.
+      </p>
+
+      <div className="space-y-2 mb-4">
+        {printers.length === 0 ? (
+          <p className="text-surface-500 text-sm">No printers configured yet</p>
+        ) : (
+          printers.map((printer) => (
+            <div
+              key={printer.id}
+              className={`flex items-center justify-between p-3 bg-surface-800/50 rounded-lg ${
+                printer.autoPrint ? '' : 'opacity-50'
+              }`}
+            >
+              <div>
+                <p className="text-white font-medium">
+                  {printer.name}
+                  {printer.openDrawer && <span className="ml-2 text-green-400 text-xs">opens drawer</span>}
+                </p>
+                <p className="text-surface-500 text-xs">{describePrinter(printer)}</p>
+              </div>
+              <div className="flex items-center gap-3">
+                {(printer.connection === 'usb' || printer.connection === 'serial') && (
+                  <button onClick={() => pairOnThisDevice(printer)} className="text-sm text-surface-400 hover:text-white">
+                    Pair
+                  </button>
+                )}
+                <button
+                  onClick={() => testPrinter(printer)}
+                  disabled={testingId === printer.id}
+                  className="text-sm text-surface-400 hover:text-white disabled:opacity-50"
+                >
+                  {testingId === printer.id ? 'Printing...' : 'Test'}
+                </button>
+                <button
+                  onClick={() => toggleAutoPrint(printer)}
+                  disabled={isSaving}
+                  className="text-sm text-surface-400 hover:text-white"
+                >
+                  {printer.autoPrint ? 'Auto-print on' : 'Auto-print off'}
+                </button>
+                <button
+                  onClick={() => removePrinter(printer)}
+                  disabled={isSaving}
+                  className="text-sm text-red-400 hover:text-red-300"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-3">
+        <input
+          type="text"
+          value={newPrinter.name}
+          onChange={(e) => setNewPrinter((prev) => ({ ...prev, name: e.target.value }))}
+          placeholder="Printer name (e.g. Counter)"
+          className="col-span-2 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        />
+        <select
+          value={newPrinter.role}
+          onChange={(e) => setNewPrinter((prev) => ({ ...prev, role: e.target.value as PrinterRole }))}
+          className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        >
+          <option value="receipt">Receipts</option>
+          <option value="kitchen">Kitchen tickets</option>
+        </select>
+        <select
+          value={newPrinter.paperWidth}
+          onChange={(e) =>
+            setNewPrinter((prev) => ({ ...prev, paperWidth: parseInt(e.target.value) as ReceiptPaperWidth }))
+          }
+          className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        >
+          <option value={58}>58mm</option>
+          <option value={80}>80mm</option>
+        </select>
+        <select
+          value={newPrinter.connection}
+          onChange={(e) =>
+            setNewPrinter((prev) => ({
+              ...prev,
+              connection: e.target.value as PrinterConnection,
+              usbVendorId: undefined,
+              usbProductId: undefined,
+            }))
+          }
+          className="col-span-2 px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        >
+          {PRINTER_CONNECTIONS.map((connection) => (
+            <option key={connection.value} value={connection.value}>
+              {connection.label}
+            </option>
+          ))}
+        </select>
+
+        {newPrinter.connection === 'tcp' && (
+          <>
+            <input
+              type="text"
+              value={newPrinter.host || ''}
+              onChange={(e) => setNewPrinter((prev) => ({ ...prev, host: e.target.value }))}
+              placeholder="IP address"
+              className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+            />
+            <input
+              type="number"
+              value={newPrinter.port ?? DEFAULT_PRINTER_PORT}
+              onChange={(e) => setNewPrinter((prev) => ({ ...prev, port: parseInt(e.target.value) || undefined }))}
+              placeholder="Port"
+              className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+            />
+          </>
+        )}
+
+        {newPrinter.connection === 'file' && (
+          <input
+            type="text"
+            value={newPrinter.fileName || ''}
+            onChange={(e) => setNewPrinter((prev) => ({ ...prev, fileName: e.target.value }))}
+            placeholder="File name"
+            className="col-span-2 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+          />
+        )}
+
+        {isDevice && (
+          <>
+            <button
+              onClick={pairNewPrinter}
+              className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-surface-300 hover:text-white"
+            >
+              {isPaired ? 'Paired ✓' : 'Pair Device'}
+            </button>
+            {newPrinter.connection === 'serial' ? (
+              <select
+                value={newPrinter.baudRate || 9600}
+                onChange={(e) => setNewPrinter((prev) => ({ ...prev, baudRate: parseInt(e.target.value) }))}
+                className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+              >
+                {[9600, 19200, 38400, 115200].map((rate) => (
+                  <option key={rate} value={rate}>
+                    {rate} baud
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <div />
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-3">
+        <label className="flex items-center gap-2 text-sm text-surface-300">
+          <input
+            type="checkbox"
+            checked={newPrinter.autoPrint}
+            onChange={(e) => setNewPrinter((prev) => ({ ...prev, autoPrint: e.target.checked }))}
+            className="rounded"
+          />
+          Print on every checkout
+        </label>
+        {newPrinter.role === 'receipt' && (
+          <label className="flex items-center gap-2 text-sm text-surface-300">
+            <input
+              type="checkbox"
+              checked={newPrinter.openDrawer}
+              onChange={(e) => setNewPrinter((prev) => ({ ...prev, openDrawer: e.target.checked }))}
+              className="rounded"
+            />
+            Open cash drawer on cash sales
+          </label>
+        )}
+      </div>
+      <button
+        onClick={addPrinter}
+        disabled={isSaving}
+        className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+      >
+        Add Printer
+      </button>
+    </div>
+  )
+}
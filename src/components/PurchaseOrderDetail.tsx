@@ -0,0 +1,302 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+import { PURCHASE_ORDER_STATUS_LABELS, cancelPurchaseOrder, receivePurchaseOrder, sendPurchaseOrder } from '@/lib/purchasing'
+import { getUnitLabel, toDisplayQty, toStorageQty } from '@/lib/units'
+import { Product, PurchaseOrderLine, PurchaseOrderWithLines } from '@/types/database'
+
+interface PurchaseOrderDetailProps {
+  order: PurchaseOrderWithLines
+  items: Product[]
+  onClose: () => void
+  onEdit: () => void
+  onChanged: () => void
+}
+
+interface ReceiveLine {
+  qty: string
+  unitCost: string
+}
+
+// One purchase order: its lines with ordered / received quantities, and
+// the actions its status allows. Receiving adds the stock and updates each
+// item's average cost.
+export default function PurchaseOrderDetail({ order, items, onClose, onEdit, onChanged }: PurchaseOrderDetailProps) {
+  const itemsById = new Map(items.map((item) => [item.id, item]))
+  const [receiving, setReceiving] = useState(false)
+  const [receiveLines, setReceiveLines] = useState<Record<string, ReceiveLine>>({})
+  const [referenceNumber, setReferenceNumber] = useState('')
+  const [note, setNote] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const canReceive = order.status === 'sent' || order.status === 'partially_received'
+  const canCancel = order.status !== 'received' && order.status !== 'cancelled'
+
+  const getItem = (line: PurchaseOrderLine) => (line.item_id ? itemsById.get(line.item_id) : undefined)
+
+  const formatLineQty = (line: PurchaseOrderLine, qty: number) => {
+    const item = getItem(line)
+    return item ? `${toDisplayQty(item.unit_type, qty).toLocaleString()} ${getUnitLabel(item.unit_type)}` : qty.toLocaleString()
+  }
+
+  const getLineTotal = (line: PurchaseOrderLine) => {
+    const item = getItem(line)
+    return item ? toDisplayQty(item.unit_type, line.qty_ordered) * line.expected_unit_cost : 0
+  }
+
+  const orderTotal = order.purchase_order_lines.reduce((sum, line) => sum + getLineTotal(line), 0)
+
+  // Pre-fill what's still outstanding at the expected cost
+  const startReceiving = () => {
+    setReceiveLines(
+      order.purchase_order_lines.reduce((acc, line) => {
+        const item = getItem(line)
+        const remaining = Math.max(line.qty_ordered - line.qty_received, 0)
+        acc[line.id] = {
+          qty: item && remaining > 0 ? String(toDisplayQty(item.unit_type, remaining)) : '',
+          unitCost: String(line.expected_unit_cost),
+        }
+        return acc
+      }, {} as Record<string, ReceiveLine>)
+    )
+    setReceiving(true)
+  }
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string, errorMessage: string) => {
+    setIsSaving(true)
+    try {
+      await action()
+      toast.success(successMessage)
+      onChanged()
+    } catch (error: any) {
+      console.error(errorMessage, error)
+      toast.error(error?.message || errorMessage)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReceive = () => {
+    const lines = order.purchase_order_lines
+      .map((line) => {
+        const item = getItem(line)
+        const entry = receiveLines[line.id]
+        const qty = parseFloat(entry?.qty || '') || 0
+        if (!item || qty <= 0) return null
+        return {
+          lineId: line.id,
+          qty: toStorageQty(item.unit_type, qty),
+          unitCost: parseFloat(entry.unitCost) || 0,
+        }
+      })
+      .filter((line): line is { lineId: string; qty: number; unitCost: number } => line !== null)
+
+    if (lines.length === 0) {
+      toast.error('Enter the quantity received for at least one item')
+      return
+    }
+
+    runAction(
+      () => receivePurchaseOrder(order.id, { lines, referenceNumber, note }),
+      `${order.po_number} received`,
+      'Failed to receive purchase order'
+    )
+  }
+
+  const handleCancelOrder = () => {
+    if (!confirm(`Cancel ${order.po_number}? Stock already received stays in inventory.`)) return
+    runAction(() => cancelPurchaseOrder(order.id), `${order.po_number} cancelled`, 'Failed to cancel purchase order')
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">
+              {order.po_number} <span className="text-surface-400 font-normal">· {order.supplier_name}</span>
+            </h2>
+            <p className="text-surface-400 text-sm">
+              {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+              {order.expected_at && ` · Expected ${format(new Date(`${order.expected_at}T00:00:00`), 'MMM d, yyyy')}`}
+              {order.created_by_name && ` · Created by ${order.created_by_name}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Lines */}
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-surface-800 text-surface-400">
+                <th className="p-2 text-left font-medium">Item</th>
+                <th className="p-2 text-right font-medium">Ordered</th>
+                <th className="p-2 text-right font-medium">Received</th>
+                <th className="p-2 text-right font-medium">{receiving ? 'Receive Now' : 'Unit Cost'}</th>
+                <th className="p-2 text-right font-medium">{receiving ? 'Unit Cost' : 'Total'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {order.purchase_order_lines.map((line) => {
+                const item = getItem(line)
+                const entry = receiveLines[line.id]
+
+                return (
+                  <tr key={line.id} className="border-b border-surface-800/50">
+                    <td className="p-2 text-white">
+                      {line.item_name}
+                      {!item && <span className="block text-red-400 text-xs">Deleted from inventory</span>}
+                    </td>
+                    <td className="p-2 text-right font-mono text-surface-300">{formatLineQty(line, line.qty_ordered)}</td>
+                    <td
+                      className={`p-2 text-right font-mono ${
+                        line.qty_received >= line.qty_ordered ? 'text-green-400' : 'text-surface-300'
+                      }`}
+                    >
+                      {formatLineQty(line, line.qty_received)}
+                    </td>
+                    {receiving ? (
+                      <>
+                        <td className="p-2 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={entry?.qty || ''}
+                            disabled={!item}
+                            onChange={(e) => setReceiveLines({ ...receiveLines, [line.id]: { ...entry, qty: e.target.value } })}
+                            className="w-24 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white font-mono text-right disabled:opacity-40"
+                            placeholder="0"
+                          />
+                        </td>
+                        <td className="p-2 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={entry?.unitCost || ''}
+                            disabled={!item}
+                            onChange={(e) => setReceiveLines({ ...receiveLines, [line.id]: { ...entry, unitCost: e.target.value } })}
+                            className="w-24 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white font-mono text-right disabled:opacity-40"
+                          />
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td className="p-2 text-right font-mono text-surface-300">₱{line.expected_unit_cost.toFixed(4)}</td>
+                        <td className="p-2 text-right font-mono text-white">₱{getLineTotal(line).toFixed(2)}</td>
+                      </>
+                    )}
+                  </tr>
+                )
+              })}
+            </tbody>
+            {!receiving && (
+              <tfoot>
+                <tr>
+                  <td colSpan={4} className="p-2 text-right text-surface-400">Expected total</td>
+                  <td className="p-2 text-right font-mono font-bold text-primary-500">₱{orderTotal.toFixed(2)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+
+        {order.notes && <p className="text-surface-400 text-sm mb-4">{order.notes}</p>}
+
+        {receiving && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+            <div>
+              <label className="block text-xs font-medium text-surface-400 mb-1">Reference No.</label>
+              <input
+                type="text"
+                value={referenceNumber}
+                onChange={(e) => setReferenceNumber(e.target.value)}
+                className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+                placeholder="Invoice / DR no."
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-surface-400 mb-1">Note</label>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex flex-wrap gap-3">
+          {receiving ? (
+            <>
+              <button
+                onClick={() => setReceiving(false)}
+                className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleReceive}
+                disabled={isSaving}
+                className="flex-1 px-4 py-2 bg-green-500 hover:bg-green-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Confirm Receipt'}
+              </button>
+            </>
+          ) : (
+            <>
+              {canCancel && (
+                <button
+                  onClick={handleCancelOrder}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Cancel Order
+                </button>
+              )}
+              <div className="flex-1" />
+              {order.status === 'draft' && (
+                <>
+                  <button
+                    onClick={onEdit}
+                    className="px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() =>
+                      runAction(() => sendPurchaseOrder(order.id), `${order.po_number} sent`, 'Failed to send purchase order')
+                    }
+                    disabled={isSaving}
+                    className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Mark as Sent
+                  </button>
+                </>
+              )}
+              {canReceive && (
+                <button
+                  onClick={startReceiving}
+                  className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white font-medium rounded-lg transition-colors"
+                >
+                  Receive
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,284 @@
+'use client'
+
+import { useState } from 'react'
+import { addDays, format } from 'date-fns'
+import toast from 'react-hot-toast'
+import { SuggestedOrder } from '@/lib/lowStock'
+import { savePurchaseOrder, sendPurchaseOrder } from '@/lib/purchasing'
+import { getUnitLabel, toDisplayQty, toStorageQty } from '@/lib/units'
+import { Product, PurchaseOrderWithLines, Supplier } from '@/types/database'
+
+interface EditorLine {
+  itemId: string
+  qty: string
+  unitCost: string
+}
+
+interface PurchaseOrderEditorProps {
+  // null for a new order
+  order: PurchaseOrderWithLines | null
+  // Pre-fills a new order from the low-stock suggestions
+  suggestion?: SuggestedOrder
+  suppliers: Supplier[]
+  items: Product[]
+  onClose: () => void
+  onSaved: () => void
+}
+
+const getExpectedDate = (supplier: Supplier | undefined) =>
+  format(addDays(new Date(), supplier?.lead_time_days || 0), 'yyyy-MM-dd')
+
+// Create or edit a draft purchase order. Quantities are entered in g / ml /
+// pcs and costs per g / ml / pc, like the Inventory page.
+export default function PurchaseOrderEditor({ order, suggestion, suppliers, items, onClose, onSaved }: PurchaseOrderEditorProps) {
+  const itemsById = new Map(items.map((item) => [item.id, item]))
+
+  const [supplierId, setSupplierId] = useState(order?.supplier_id || suggestion?.supplier?.id || '')
+  const [expectedAt, setExpectedAt] = useState(
+    order?.expected_at || (suggestion?.supplier ? getExpectedDate(suggestion.supplier) : '')
+  )
+  const [notes, setNotes] = useState(order?.notes || '')
+  const [lines, setLines] = useState<EditorLine[]>(
+    order?.purchase_order_lines
+      .filter((line) => line.item_id && itemsById.has(line.item_id))
+      .map((line) => {
+        const item = itemsById.get(line.item_id as string) as Product
+        return {
+          itemId: item.id,
+          qty: String(toDisplayQty(item.unit_type, line.qty_ordered)),
+          unitCost: String(line.expected_unit_cost),
+        }
+      }) ||
+      suggestion?.lines.map(({ item, qty }) => ({
+        itemId: item.id,
+        qty: String(toDisplayQty(item.unit_type, qty)),
+        unitCost: String(item.cost),
+      })) ||
+      []
+  )
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSupplierChange = (id: string) => {
+    setSupplierId(id)
+    if (!expectedAt) {
+      setExpectedAt(getExpectedDate(suppliers.find((s) => s.id === id)))
+    }
+  }
+
+  // Items from this supplier first
+  const sortedItems = [...items].sort((a, b) => {
+    const aPreferred = a.supplier_id === supplierId ? 0 : 1
+    const bPreferred = b.supplier_id === supplierId ? 0 : 1
+    return aPreferred - bPreferred || a.name.localeCompare(b.name)
+  })
+
+  const addLine = () => {
+    setLines([...lines, { itemId: '', qty: '', unitCost: '' }])
+  }
+
+  const updateLine = (index: number, changes: Partial<EditorLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+  }
+
+  const handleItemChange = (index: number, itemId: string) => {
+    const item = itemsById.get(itemId)
+    updateLine(index, { itemId, unitCost: item ? String(item.cost) : '' })
+  }
+
+  const removeLine = (index: number) => {
+    setLines(lines.filter((_, i) => i !== index))
+  }
+
+  const getLineTotal = (line: EditorLine) => (parseFloat(line.qty) || 0) * (parseFloat(line.unitCost) || 0)
+  const orderTotal = lines.reduce((sum, line) => sum + getLineTotal(line), 0)
+
+  const handleSave = async (send: boolean) => {
+    if (!supplierId) {
+      toast.error('Please choose a supplier')
+      return
+    }
+
+    const validLines = lines.filter((line) => line.itemId && (parseFloat(line.qty) || 0) > 0)
+    if (validLines.length === 0) {
+      toast.error('Add at least one item with a quantity')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const saved = await savePurchaseOrder(order?.id || null, {
+        supplierId,
+        expectedAt: expectedAt || null,
+        notes,
+        lines: validLines.map((line) => {
+          const item = itemsById.get(line.itemId) as Product
+          return {
+            itemId: line.itemId,
+            qtyOrdered: toStorageQty(item.unit_type, parseFloat(line.qty)),
+            expectedUnitCost: parseFloat(line.unitCost) || 0,
+          }
+        }),
+      })
+
+      if (send) {
+        await sendPurchaseOrder(saved.id)
+        toast.success(`${saved.po_number} sent`)
+      } else {
+        toast.success(`${saved.po_number} saved as draft`)
+      }
+      onSaved()
+    } catch (error: any) {
+      console.error('Error saving purchase order:', error)
+      toast.error(error?.message || 'Failed to save purchase order')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">
+            {order ? `Edit ${order.po_number}` : 'New Purchase Order'}
+          </h2>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Supplier</label>
+            <select
+              value={supplierId}
+              onChange={(e) => handleSupplierChange(e.target.value)}
+              className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+            >
+              <option value="">Choose a supplier</option>
+              {suppliers.map((supplier) => (
+                <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Expected Delivery</label>
+            <input
+              type="date"
+              value={expectedAt}
+              onChange={(e) => setExpectedAt(e.target.value)}
+              className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+            />
+          </div>
+        </div>
+
+        {/* Lines */}
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-surface-300">Items</span>
+          <button onClick={addLine} className="text-sm text-primary-400 hover:text-primary-300">
+            + Add item
+          </button>
+        </div>
+        <div className="space-y-2 mb-4">
+          {lines.length === 0 ? (
+            <p className="text-surface-500 text-sm text-center py-4 bg-surface-800/50 rounded-lg">No items yet</p>
+          ) : (
+            lines.map((line, index) => {
+              const item = itemsById.get(line.itemId)
+              const unitLabel = item ? getUnitLabel(item.unit_type) : ''
+
+              return (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center p-2 bg-surface-800/50 rounded-lg">
+                  <select
+                    value={line.itemId}
+                    onChange={(e) => handleItemChange(index, e.target.value)}
+                    className="col-span-5 px-2 py-1.5 bg-surface-800 border border-surface-700 rounded text-white text-sm"
+                  >
+                    <option value="">Choose item</option>
+                    {sortedItems.map((option) => (
+                      <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                  </select>
+                  <div className="col-span-3 relative">
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={line.qty}
+                      onChange={(e) => updateLine(index, { qty: e.target.value })}
+                      className="w-full pl-2 pr-9 py-1.5 bg-surface-800 border border-surface-700 rounded text-white text-sm font-mono text-right"
+                      placeholder="Qty"
+                    />
+                    <span className="absolute right-2 top-1/2 -translate-y-1/2 text-surface-500 text-xs">{unitLabel}</span>
+                  </div>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={line.unitCost}
+                    onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                    title={unitLabel ? `Cost per ${unitLabel}` : 'Unit cost'}
+                    className="col-span-2 px-2 py-1.5 bg-surface-800 border border-surface-700 rounded text-white text-sm font-mono text-right"
+                    placeholder="₱/unit"
+                  />
+                  <span className="col-span-1 text-right text-surface-400 text-xs font-mono">
+                    ₱{getLineTotal(line).toFixed(2)}
+                  </span>
+                  <button
+                    onClick={() => removeLine(index)}
+                    className="col-span-1 justify-self-end text-red-400 hover:text-red-300 p-1"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              )
+            })
+          )}
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-surface-300 mb-2">Notes</label>
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+            placeholder="Optional"
+          />
+        </div>
+
+        <div className="flex items-center justify-between p-3 bg-surface-800/50 border border-surface-700 rounded-lg mb-4">
+          <span className="text-surface-400 text-sm">Expected total</span>
+          <span className="text-primary-500 font-bold font-mono">₱{orderTotal.toFixed(2)}</span>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => handleSave(false)}
+            disabled={isSaving}
+            className="flex-1 px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            Save Draft
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={isSaving}
+            className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save & Send'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
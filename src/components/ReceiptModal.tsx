@@ -0,0 +1,178 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import toast from 'react-hot-toast'
+import { PAPER_COLUMNS } from '@/lib/escpos'
+import {
+  DEFAULT_RECEIPT_FORMAT,
+  buildReceiptLines,
+  downloadReceiptEscPos,
+  fetchReceiptFormat,
+  printReceiptHtml,
+  renderReceiptEscPos,
+  renderReceiptHtml,
+} from '@/lib/receipts'
+import { fetchPrinters, printKitchenTicket, printReceipt } from '@/lib/printers'
+import { Payment, PrinterConfig, ReceiptFormat, ReceiptPaperWidth, Sale } from '@/types/database'
+
+interface ReceiptModalProps {
+  // Every sale line of the transaction, in cart order
+  sales: Sale[]
+  // The transaction's payments, when it was split across payment methods
+  payments?: Payment[]
+  // Reprints from Reports are marked as such
+  reprint?: boolean
+  onClose: () => void
+}
+
+const PAPER_WIDTHS: ReceiptPaperWidth[] = [58, 80]
+
+// Receipt preview with printing from the browser, ESC/POS output for
+// thermal printers and sending to a configured printer
+export default function ReceiptModal({ sales, payments = [], reprint = false, onClose }: ReceiptModalProps) {
+  const [receiptFormat, setReceiptFormat] = useState<ReceiptFormat>(DEFAULT_RECEIPT_FORMAT)
+  const [paperWidth, setPaperWidth] = useState<ReceiptPaperWidth>(DEFAULT_RECEIPT_FORMAT.paperWidth)
+  const [printers, setPrinters] = useState<PrinterConfig[]>([])
+  const [printerId, setPrinterId] = useState('')
+  const [isSending, setIsSending] = useState(false)
+
+  useEffect(() => {
+    fetchReceiptFormat()
+      .then((loaded) => {
+        setReceiptFormat(loaded)
+        setPaperWidth(loaded.paperWidth)
+      })
+      .catch((error) => {
+        console.error('Error fetching receipt settings:', error)
+        toast.error('Failed to load receipt settings')
+      })
+
+    fetchPrinters()
+      .then((loaded) => {
+        setPrinters(loaded)
+        setPrinterId((loaded.find((p) => p.role === 'receipt') || loaded[0])?.id || '')
+      })
+      .catch((error) => console.error('Error fetching printers:', error))
+  }, [])
+
+  const lines = buildReceiptLines(sales, receiptFormat, { paperWidth, reprint, payments })
+  const transactionNumber = sales[0]?.transaction_number || sales[0]?.transaction_id || 'receipt'
+
+  const handlePrint = () => {
+    try {
+      printReceiptHtml(renderReceiptHtml(lines, paperWidth, `Receipt ${transactionNumber}`))
+    } catch (error: any) {
+      console.error('Error printing receipt:', error)
+      toast.error(error?.message || 'Failed to print receipt')
+    }
+  }
+
+  const handleDownloadEscPos = () => {
+    downloadReceiptEscPos(renderReceiptEscPos(lines), transactionNumber)
+  }
+
+  // Kitchen printers get the kitchen ticket instead of the receipt
+  const handleSendToPrinter = async () => {
+    const printer = printers.find((p) => p.id === printerId)
+    if (!printer) return
+
+    setIsSending(true)
+    try {
+      if (printer.role === 'kitchen') await printKitchenTicket(printer, sales, { reprint })
+      else await printReceipt(printer, sales, receiptFormat, { reprint, payments })
+      toast.success(`Sent to ${printer.name}`)
+    } catch (error: any) {
+      console.error('Error sending to printer:', error)
+      toast.error(error?.message || `Failed to print to ${printer.name}`)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-md w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">{reprint ? 'Reprint Receipt' : 'Receipt'}</h2>
+            <p className="text-surface-400 text-sm">Transaction {transactionNumber}</p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-3">
+          {PAPER_WIDTHS.map((width) => (
+            <button
+              key={width}
+              onClick={() => setPaperWidth(width)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                paperWidth === width ? 'bg-primary-500 text-white' : 'bg-surface-800 text-surface-400 hover:text-white'
+              }`}
+            >
+              {width}mm
+            </button>
+          ))}
+        </div>
+
+        {/* Preview, one character per column like the printer */}
+        <div className="flex-1 overflow-auto bg-surface-800/50 rounded-lg p-4 flex justify-center">
+          <div className="bg-white text-black font-mono text-[11px] leading-tight p-3 shadow-lg">
+            {lines.map((line, index) => (
+              <div
+                key={index}
+                className={`whitespace-pre ${line.bold ? 'font-bold' : ''} ${line.large ? 'text-[22px]' : ''} ${
+                  line.align === 'center' ? 'text-center' : line.align === 'right' ? 'text-right' : ''
+                }`}
+                style={{ width: `${line.large ? PAPER_COLUMNS[paperWidth] / 2 : PAPER_COLUMNS[paperWidth]}ch` }}
+              >
+                {line.text || ' '}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {printers.length > 0 && (
+          <div className="flex gap-3 mt-4">
+            <select
+              value={printerId}
+              onChange={(e) => setPrinterId(e.target.value)}
+              className="flex-1 px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+            >
+              {printers.map((printer) => (
+                <option key={printer.id} value={printer.id}>
+                  {printer.role === 'kitchen' ? `${printer.name} (kitchen ticket)` : printer.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleSendToPrinter}
+              disabled={isSending || !printerId}
+              className="px-4 py-2 bg-surface-800 hover:bg-surface-700 text-white rounded-lg transition-colors text-sm disabled:opacity-50"
+            >
+              {isSending ? 'Sending...' : 'Send to Printer'}
+            </button>
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-4">
+          <button
+            onClick={handleDownloadEscPos}
+            className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors text-sm"
+          >
+            Download ESC/POS
+          </button>
+          <button
+            onClick={handlePrint}
+            className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors"
+          >
+            Print
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import toast from 'react-hot-toast'
+import { DEFAULT_RECEIPT_FORMAT, fetchReceiptFormat, saveReceiptFormat } from '@/lib/receipts'
+import { ReceiptFormat, ReceiptPaperWidth } from '@/types/database'
+
+// What's printed above and below every receipt, and the paper it's laid out
+// for (settings editors only)
+export default function ReceiptSettings() {
+  const [receiptFormat, setReceiptFormat] = useState<ReceiptFormat>(DEFAULT_RECEIPT_FORMAT)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    fetchReceiptFormat()
+      .then(setReceiptFormat)
+      .catch((error) => {
+        console.error('Error fetching receipt settings:', error)
+        toast.error('Failed to load receipt settings')
+      })
+  }, [])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await saveReceiptFormat(receiptFormat)
+      toast.success('Receipt settings saved')
+    } catch (error) {
+      console.error('Error saving receipt settings:', error)
+      toast.error('Failed to save receipt settings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="card p-6 mt-6">
+      <h3 className="text-lg font-semibold text-white mb-4">Receipts</h3>
+      <p className="text-surface-400 text-sm mb-4">
+        The first header line is the store name, printed large. Add the address, TIN and other details on the lines
+        below it.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-surface-300 mb-2">Header</label>
+          <textarea
+            value={receiptFormat.header}
+            onChange={(e) => setReceiptFormat((prev) => ({ ...prev, header: e.target.value }))}
+            rows={4}
+            className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-surface-300 mb-2">Footer</label>
+          <textarea
+            value={receiptFormat.footer}
+            onChange={(e) => setReceiptFormat((prev) => ({ ...prev, footer: e.target.value }))}
+            rows={4}
+            className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium text-surface-300 mb-2">Paper Width</label>
+          <select
+            value={receiptFormat.paperWidth}
+            onChange={(e) =>
+              setReceiptFormat((prev) => ({ ...prev, paperWidth: parseInt(e.target.value) as ReceiptPaperWidth }))
+            }
+            className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+          >
+            <option value={58}>58mm</option>
+            <option value={80}>80mm</option>
+          </select>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Receipt Settings'}
+        </button>
+      </div>
+    </div>
+  )
+}
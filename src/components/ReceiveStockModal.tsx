@@ -0,0 +1,199 @@
+'use client'
+
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { receiveStock } from '@/lib/stockMovements'
+import { getUnitLabel, toDisplayQty, toStorageQty } from '@/lib/units'
+import { Product, Supplier } from '@/types/database'
+
+interface ReceiveStockModalProps {
+  item: Product
+  // The item's preferred supplier, pre-filled when set
+  supplier?: Supplier
+  onClose: () => void
+  onReceived: (item: Product) => void
+}
+
+// Adds a delivery to the current stock. The item's cost becomes the average
+// of what's on hand and what was delivered, weighted by quantity.
+export default function ReceiveStockModal({ item, supplier: preferredSupplier, onClose, onReceived }: ReceiveStockModalProps) {
+  const [qty, setQty] = useState('')
+  const [totalCost, setTotalCost] = useState('')
+  const [supplier, setSupplier] = useState(preferredSupplier?.name || '')
+  const [referenceNumber, setReferenceNumber] = useState('')
+  const [note, setNote] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const unitLabel = getUnitLabel(item.unit_type)
+  const onHand = toDisplayQty(item.unit_type, item.qty)
+  const received = parseFloat(qty) || 0
+  const invoiceTotal = parseFloat(totalCost) || 0
+
+  // Same calculation as receive_stock(); negative stock doesn't count
+  const countedOnHand = Math.max(onHand, 0)
+  const newCost = received > 0 ? (countedOnHand * item.cost + invoiceTotal) / (countedOnHand + received) : item.cost
+
+  const handleDecimalChange = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const val = e.target.value
+    if (val === '' || /^\d*\.?\d*$/.test(val)) {
+      setter(val)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (received <= 0) {
+      toast.error('Please enter the quantity received')
+      return
+    }
+
+    if (totalCost === '' || invoiceTotal < 0) {
+      toast.error('Please enter the invoice cost')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const updated = await receiveStock(item.id, {
+        qty: toStorageQty(item.unit_type, received),
+        totalCost: invoiceTotal,
+        supplier,
+        // Only link the saved supplier if the name wasn't changed
+        supplierId: preferredSupplier && supplier === preferredSupplier.name ? preferredSupplier.id : null,
+        referenceNumber,
+        note,
+      })
+      toast.success(`Received ${received.toLocaleString()} ${unitLabel} of ${item.name}`)
+      onReceived(updated)
+    } catch (error: any) {
+      console.error('Error receiving stock:', error)
+      toast.error(error?.message || 'Failed to receive stock')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Receive Stock</h2>
+            <p className="text-surface-400 text-sm">
+              {item.name} · {onHand.toLocaleString()} {unitLabel} on hand
+            </p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-surface-300 mb-2">Quantity ({unitLabel})</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={qty}
+                onChange={handleDecimalChange(setQty)}
+                className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                placeholder="0"
+                autoFocus
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-surface-300 mb-2">Invoice Total (₱)</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={totalCost}
+                onChange={handleDecimalChange(setTotalCost)}
+                className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                placeholder="0.00"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-surface-300 mb-2">Supplier</label>
+              <input
+                type="text"
+                value={supplier}
+                onChange={(e) => setSupplier(e.target.value)}
+                className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                placeholder="Optional"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-surface-300 mb-2">Reference No.</label>
+              <input
+                type="text"
+                value={referenceNumber}
+                onChange={(e) => setReferenceNumber(e.target.value)}
+                className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                placeholder="Invoice / DR no."
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Note</label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+              placeholder="Optional"
+            />
+          </div>
+
+          {/* Cost Preview */}
+          <div className="p-4 bg-surface-800/50 rounded-lg border border-surface-700 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-surface-400">New stock</span>
+              <span className="font-mono text-white">
+                {(onHand + received).toLocaleString()} {unitLabel}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-surface-400">Delivered cost per {unitLabel}</span>
+              <span className="font-mono text-white">
+                ₱{(received > 0 ? invoiceTotal / received : 0).toFixed(4)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-surface-400">Average cost per {unitLabel}</span>
+              <span className="font-mono font-bold text-primary-500">
+                ₱{item.cost.toFixed(4)} → ₱{newCost.toFixed(4)}
+              </span>
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Receive'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+import { fetchRecipeHistory } from '@/lib/recipes'
+import { getUnitLabel } from '@/lib/units'
+import { FinishedProduct, RecipeHistoryEntry, RecipeVersionIngredient } from '@/types/database'
+
+interface RecipeHistoryModalProps {
+  product: FinishedProduct
+  onClose: () => void
+}
+
+type IngredientChange = 'added' | 'changed' | null
+
+const formatDateTime = (value: string) => format(new Date(value), 'MMM d, yyyy h:mm a')
+
+// How an ingredient differs from the version before it
+const getIngredientChange = (
+  ingredient: RecipeVersionIngredient,
+  previous: RecipeHistoryEntry | undefined
+): IngredientChange => {
+  if (!previous) return null
+  const before = previous.ingredients.find((i) => i.item_id === ingredient.item_id)
+  if (!before) return 'added'
+  return before.qty !== ingredient.qty ? 'changed' : null
+}
+
+// Every version of a finished product's recipe, newest first, with what it
+// cost when it was saved, what it would cost today, and the average cost
+// and price of the sales made with it.
+export default function RecipeHistoryModal({ product, onClose }: RecipeHistoryModalProps) {
+  const [versions, setVersions] = useState<RecipeHistoryEntry[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchRecipeHistory(product.id)
+      .then(setVersions)
+      .catch((error) => {
+        console.error('Error fetching recipe history:', error)
+        toast.error('Failed to load recipe history')
+      })
+      .finally(() => setLoading(false))
+  }, [product.id])
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Recipe History</h2>
+            <p className="text-surface-400 text-sm">{product.name}</p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-surface-500 text-sm text-center py-8">No recipe versions recorded yet</p>
+        ) : (
+          <>
+            {/* Version comparison */}
+            <div className="overflow-x-auto mb-6">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-surface-800 text-surface-400">
+                    <th className="p-2 text-left font-medium">Version</th>
+                    <th className="p-2 text-left font-medium">In Effect</th>
+                    <th className="p-2 text-right font-medium">Cost Then</th>
+                    <th className="p-2 text-right font-medium">Cost Today</th>
+                    <th className="p-2 text-right font-medium">Sold</th>
+                    <th className="p-2 text-right font-medium">Avg Cost</th>
+                    <th className="p-2 text-right font-medium">Avg Margin</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {versions.map((version) => {
+                    const margin =
+                      version.average_selling_price && version.average_unit_cost !== null
+                        ? ((version.average_selling_price - version.average_unit_cost) / version.average_selling_price) * 100
+                        : null
+
+                    return (
+                      <tr key={version.id} className="border-b border-surface-800/50">
+                        <td className="p-2 text-white">
+                          v{version.version_number}
+                          {!version.effective_to && (
+                            <span className="ml-2 px-1.5 py-0.5 bg-green-500/10 text-green-400 text-xs rounded">Current</span>
+                          )}
+                        </td>
+                        <td className="p-2 text-surface-400 text-xs">
+                          {format(new Date(version.effective_from), 'MMM d, yyyy')} –{' '}
+                          {version.effective_to ? format(new Date(version.effective_to), 'MMM d, yyyy') : 'now'}
+                        </td>
+                        <td className="p-2 text-right font-mono text-surface-300">₱{version.recipe_cost.toFixed(2)}</td>
+                        <td
+                          className={`p-2 text-right font-mono ${
+                            version.current_cost > version.recipe_cost
+                              ? 'text-red-400'
+                              : version.current_cost < version.recipe_cost
+                                ? 'text-green-400'
+                                : 'text-surface-300'
+                          }`}
+                        >
+                          ₱{version.current_cost.toFixed(2)}
+                        </td>
+                        <td className="p-2 text-right text-surface-300">{version.units_sold}</td>
+                        <td className="p-2 text-right font-mono text-surface-300">
+                          {version.average_unit_cost !== null ? `₱${version.average_unit_cost.toFixed(2)}` : '—'}
+                        </td>
+                        <td className="p-2 text-right font-mono text-primary-500">
+                          {margin !== null ? `${margin.toFixed(1)}%` : '—'}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Ingredients per version */}
+            <div className="space-y-4">
+              {versions.map((version, index) => {
+                const previous = versions[index + 1]
+                const removed = previous
+                  ? previous.ingredients.filter((p) => !version.ingredients.some((i) => i.item_id === p.item_id))
+                  : []
+
+                return (
+                  <div key={version.id} className="p-4 bg-surface-800/50 rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-white font-medium">Version {version.version_number}</span>
+                      <span className="text-surface-500 text-xs">
+                        {formatDateTime(version.effective_from)}
+                        {version.created_by_name && ` · ${version.created_by_name}`}
+                      </span>
+                    </div>
+                    <ul className="space-y-1 text-sm">
+                      {version.ingredients.map((ingredient) => {
+                        const change = getIngredientChange(ingredient, previous)
+                        return (
+                          <li key={ingredient.item_id} className="flex justify-between">
+                            <span
+                              className={
+                                change === 'added' ? 'text-green-400' : change === 'changed' ? 'text-yellow-400' : 'text-surface-300'
+                              }
+                            >
+                              {ingredient.item_name} ({ingredient.qty} {getUnitLabel(ingredient.unit_type)})
+                              {change === 'added' && ' · added'}
+                              {change === 'changed' && ' · changed'}
+                            </span>
+                            <span className="text-surface-400 font-mono">
+                              ₱{(ingredient.qty * ingredient.unit_cost).toFixed(2)}
+                            </span>
+                          </li>
+                        )
+                      })}
+                      {removed.map((ingredient) => (
+                        <li key={ingredient.item_id} className="text-red-400 line-through">
+                          {ingredient.item_name} ({ingredient.qty} {getUnitLabel(ingredient.unit_type)})
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,228 @@
+'use client'
+
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { REFUND_REASONS, refundSaleLines } from '@/lib/refunds'
+import { formatSaleLineName } from '@/lib/modifiers'
+import { RefundKind, RefundLine, RefundReasonCode, Sale } from '@/types/database'
+
+type RefundableSale = Pick<Sale, 'id' | 'product_name' | 'modifiers' | 'combo_name' | 'qty' | 'total'>
+
+interface RefundModalProps {
+  transactionNumber: string
+  items: RefundableSale[]
+  // Quantity already refunded per sale id
+  refundedQty: Record<string, number>
+  onClose: () => void
+  onDone: () => void
+}
+
+// Void or refund some or all lines of one transaction. Voids take whole
+// lines; refunds can return part of a line's quantity.
+export default function RefundModal({ transactionNumber, items, refundedQty, onClose, onDone }: RefundModalProps) {
+  const [kind, setKind] = useState<RefundKind>('refund')
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+  const [reasonCode, setReasonCode] = useState<RefundReasonCode>('customer_request')
+  const [note, setNote] = useState('')
+  const [restock, setRestock] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const remainingQty = (item: RefundableSale) => item.qty - (refundedQty[item.id] || 0)
+
+  const getLineQty = (item: RefundableSale) => {
+    if (kind === 'void') return quantities[item.id] ? item.qty : 0
+    const qty = parseFloat(quantities[item.id] || '')
+    return isNaN(qty) ? 0 : qty
+  }
+
+  const lines: RefundLine[] = items
+    .map((item) => ({ sale_id: item.id, qty: getLineQty(item) }))
+    .filter((line) => line.qty > 0)
+
+  const refundTotal = items.reduce((sum, item) => sum + (item.total / item.qty) * getLineQty(item), 0)
+
+  const switchKind = (newKind: RefundKind) => {
+    setKind(newKind)
+    setQuantities({})
+  }
+
+  const selectAll = () => {
+    setQuantities(
+      items.reduce((acc, item) => {
+        const remaining = remainingQty(item)
+        if (kind === 'void' ? (refundedQty[item.id] || 0) === 0 : remaining > 0) {
+          acc[item.id] = kind === 'void' ? '1' : String(remaining)
+        }
+        return acc
+      }, {} as Record<string, string>)
+    )
+  }
+
+  const handleSubmit = async () => {
+    if (lines.length === 0) {
+      toast.error('Select at least one item')
+      return
+    }
+
+    const overLimit = items.find((item) => kind === 'refund' && getLineQty(item) > remainingQty(item))
+    if (overLimit) {
+      toast.error(`Only ${remainingQty(overLimit)} of ${overLimit.product_name} can be refunded`)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await refundSaleLines({ kind, lines, reasonCode, note, restock })
+      toast.success(kind === 'void' ? 'Items voided' : `Refunded ₱${refundTotal.toFixed(2)}`)
+      onDone()
+    } catch (error: any) {
+      console.error('Error recording refund:', error)
+      toast.error(error?.message || `Failed to ${kind} items`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">
+            {kind === 'void' ? 'Void' : 'Refund'} <span className="font-mono text-surface-400">{transactionNumber}</span>
+          </h2>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Kind */}
+        <div className="flex bg-surface-800 rounded-lg p-1 mb-2">
+          {(['refund', 'void'] as RefundKind[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => switchKind(option)}
+              className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-all ${
+                kind === option ? 'bg-primary-500 text-white' : 'text-surface-400 hover:text-white'
+              }`}
+            >
+              {option === 'refund' ? 'Refund' : 'Void'}
+            </button>
+          ))}
+        </div>
+        <p className="text-surface-500 text-xs mb-4">
+          {kind === 'refund'
+            ? 'Money goes back to the customer today. The sale stays on its report date and the refund is subtracted from today.'
+            : 'The sale should never have happened. Voided lines are removed from their original report date.'}
+        </p>
+
+        {/* Lines */}
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-surface-300">Items</span>
+          <button onClick={selectAll} className="text-xs text-primary-400 hover:text-primary-300">
+            Select all
+          </button>
+        </div>
+        <div className="space-y-2 mb-4">
+          {items.map((item) => {
+            const refunded = refundedQty[item.id] || 0
+            const remaining = remainingQty(item)
+            const voidDisabled = kind === 'void' && refunded > 0
+
+            return (
+              <div key={item.id} className="flex items-center justify-between gap-3 p-3 bg-surface-800/50 rounded-lg">
+                <div className="min-w-0">
+                  <p className="text-white text-sm truncate">{formatSaleLineName(item)}</p>
+                  <p className="text-surface-500 text-xs">
+                    {item.qty} pcs · ₱{item.total.toFixed(2)}
+                    {refunded > 0 && ` · ${refunded} refunded`}
+                  </p>
+                </div>
+                {kind === 'void' ? (
+                  <input
+                    type="checkbox"
+                    checked={!!quantities[item.id]}
+                    disabled={voidDisabled}
+                    onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.checked ? '1' : '' })}
+                    title={voidDisabled ? 'Already partly refunded - refund the rest instead' : undefined}
+                    className="w-5 h-5 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500 disabled:opacity-40"
+                  />
+                ) : (
+                  <input
+                    type="number"
+                    min="0"
+                    max={remaining}
+                    step="1"
+                    value={quantities[item.id] || ''}
+                    disabled={remaining <= 0}
+                    onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                    className="w-20 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-sm font-mono text-right disabled:opacity-40"
+                    placeholder={`0/${remaining}`}
+                  />
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Reason */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+          <div>
+            <label className="block text-xs font-medium text-surface-400 mb-1">Reason</label>
+            <select
+              value={reasonCode}
+              onChange={(e) => setReasonCode(e.target.value as RefundReasonCode)}
+              className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+            >
+              {REFUND_REASONS.map((reason) => (
+                <option key={reason.value} value={reason.value}>{reason.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-surface-400 mb-1">Note</label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 mb-4 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={restock}
+            onChange={(e) => setRestock(e.target.checked)}
+            className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
+          />
+          <span className="text-surface-300 text-sm">Return ingredients to inventory</span>
+        </label>
+
+        <div className="flex items-center justify-between p-3 bg-red-500/10 border border-red-500/20 rounded-lg mb-4">
+          <span className="text-red-400 text-sm">{kind === 'void' ? 'Void total' : 'Refund total'}</span>
+          <span className="text-red-400 font-bold font-mono">₱{refundTotal.toFixed(2)}</span>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isSaving || lines.length === 0}
+            className="flex-1 px-4 py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : kind === 'void' ? 'Void Items' : 'Refund'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
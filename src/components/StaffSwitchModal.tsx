@@ -0,0 +1,134 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import toast from 'react-hot-toast'
+import { useAuth } from '@/contexts/AuthContext'
+import { ACCOUNT_LOCKED_ERROR_CODE, listSwitchableUsers } from '@/lib/users'
+import { SwitchableUser } from '@/types/database'
+
+const PIN_MAX_LENGTH = 6
+
+// PIN quick switch for a till shared by several staff. Only users with a PIN
+// (set in Settings) are listed; sales made after switching are recorded
+// under the new user.
+export default function StaffSwitchModal({ onClose }: { onClose: () => void }) {
+  const { user, switchUser } = useAuth()
+  const [staff, setStaff] = useState<SwitchableUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedStaff, setSelectedStaff] = useState<SwitchableUser | null>(null)
+  const [pin, setPin] = useState('')
+  const [switching, setSwitching] = useState(false)
+
+  useEffect(() => {
+    listSwitchableUsers()
+      .then(setStaff)
+      .catch((error) => {
+        console.error('Error fetching staff:', error)
+        toast.error('Failed to load staff')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleSwitch = async () => {
+    if (!selectedStaff || !pin) return
+
+    setSwitching(true)
+    try {
+      const switched = await switchUser(selectedStaff.id, pin)
+      if (switched) {
+        toast.success(`Switched to ${selectedStaff.display_name || selectedStaff.username}`)
+        onClose()
+      } else {
+        toast.error('Incorrect PIN')
+        setPin('')
+      }
+    } catch (error: any) {
+      console.error('Error switching user:', error)
+      toast.error(error?.code === ACCOUNT_LOCKED_ERROR_CODE ? error.message : 'Failed to switch user')
+    } finally {
+      setSwitching(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-sm w-full">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">
+            {selectedStaff ? `PIN for ${selectedStaff.display_name || selectedStaff.username}` : 'Switch User'}
+          </h3>
+          <button onClick={onClose} className="p-1 text-surface-400 hover:text-white">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="w-6 h-6 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : !selectedStaff ? (
+          staff.length === 0 ? (
+            <p className="text-surface-500 text-sm text-center py-6">
+              No staff have a PIN yet. The owner can set PINs in Settings.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {staff.map((member) => (
+                <button
+                  key={member.id}
+                  onClick={() => setSelectedStaff(member)}
+                  disabled={member.id === user?.id}
+                  className="p-3 bg-surface-800 hover:bg-surface-700 rounded-lg text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <p className="text-white text-sm font-medium truncate">{member.display_name || member.username}</p>
+                  <p className="text-surface-500 text-xs capitalize">
+                    {member.id === user?.id ? 'Signed in' : member.role}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleSwitch()
+            }}
+          >
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, PIN_MAX_LENGTH))}
+              className="w-full px-4 py-3 bg-surface-900 border border-surface-700 rounded-lg text-white text-center text-2xl tracking-[0.5em] font-mono focus:border-primary-500 transition-colors mb-4"
+              placeholder="••••"
+            />
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => {
+                  setSelectedStaff(null)
+                  setPin('')
+                }}
+                className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+              >
+                Back
+              </button>
+              <button
+                type="submit"
+                disabled={switching || !pin}
+                className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                {switching ? 'Switching...' : 'Switch'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
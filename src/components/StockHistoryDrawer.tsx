@@ -0,0 +1,202 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+import { STOCK_ADJUSTMENT_TYPES, STOCK_MOVEMENT_LABELS, adjustStock, fetchStockMovements } from '@/lib/stockMovements'
+import { getUnitLabel, toDisplayQty, toStorageQty } from '@/lib/units'
+import { Product, StockAdjustmentType, StockMovement } from '@/types/database'
+
+interface StockHistoryDrawerProps {
+  item: Product
+  onClose: () => void
+  onAdjusted: (item: Product) => void
+}
+
+const QTY_LABELS: Record<StockAdjustmentType, string> = {
+  waste: 'Amount wasted',
+  count_correction: 'Counted stock',
+  manual_adjustment: 'Amount to add (negative to remove)',
+}
+
+// Same rules as adjust_stock(): counts can be zero, manual adjustments can be negative
+const isValidAdjustment = (type: StockAdjustmentType, qty: number) => {
+  if (isNaN(qty)) return false
+  if (type === 'waste') return qty > 0
+  if (type === 'count_correction') return qty >= 0
+  return qty !== 0
+}
+
+// Ledger of every stock change for one inventory item, newest first, with
+// the balance after each movement. Waste, counts and manual adjustments can
+// be recorded from here.
+export default function StockHistoryDrawer({ item, onClose, onAdjusted }: StockHistoryDrawerProps) {
+  const [movements, setMovements] = useState<StockMovement[]>([])
+  const [loading, setLoading] = useState(true)
+  const [adjustmentType, setAdjustmentType] = useState<StockAdjustmentType>('waste')
+  const [adjustmentQty, setAdjustmentQty] = useState('')
+  const [adjustmentNote, setAdjustmentNote] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const unitLabel = getUnitLabel(item.unit_type)
+
+  const loadMovements = useCallback(async () => {
+    try {
+      setMovements(await fetchStockMovements(item.id))
+    } catch (error) {
+      console.error('Error fetching stock history:', error)
+      toast.error('Failed to load stock history')
+    } finally {
+      setLoading(false)
+    }
+  }, [item.id])
+
+  useEffect(() => {
+    loadMovements()
+  }, [loadMovements])
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const qty = parseFloat(adjustmentQty)
+    if (!isValidAdjustment(adjustmentType, qty)) {
+      toast.error('Please enter a valid quantity')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const updated = await adjustStock(item.id, adjustmentType, toStorageQty(item.unit_type, qty), adjustmentNote)
+      toast.success('Stock updated')
+      setAdjustmentQty('')
+      setAdjustmentNote('')
+      onAdjusted(updated)
+      loadMovements()
+    } catch (error: any) {
+      console.error('Error adjusting stock:', error)
+      toast.error(error?.message || 'Failed to update stock')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const formatQty = (qty: number) => `${toDisplayQty(item.unit_type, qty).toLocaleString()} ${unitLabel}`
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={onClose}>
+      <div
+        className="bg-surface-900 border-l border-surface-800 w-full max-w-md h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between p-4 border-b border-surface-800">
+          <div>
+            <h2 className="text-lg font-bold text-white">{item.name}</h2>
+            <p className="text-surface-400 text-sm">{formatQty(item.qty)} in stock</p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white p-1">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Adjustment */}
+        <form onSubmit={handleAdjust} className="p-4 border-b border-surface-800 space-y-3">
+          <div className="flex bg-surface-800 rounded-lg p-1">
+            {STOCK_ADJUSTMENT_TYPES.map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setAdjustmentType(type)}
+                className={`flex-1 px-2 py-1.5 text-xs font-medium rounded-md transition-all ${
+                  adjustmentType === type ? 'bg-primary-500 text-white' : 'text-surface-400 hover:text-white'
+                }`}
+              >
+                {STOCK_MOVEMENT_LABELS[type]}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-surface-400 mb-1">
+                {QTY_LABELS[adjustmentType]} ({unitLabel})
+              </label>
+              <input
+                type="number"
+                step="any"
+                value={adjustmentQty}
+                onChange={(e) => setAdjustmentQty(e.target.value)}
+                className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm font-mono"
+                placeholder="0"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-surface-400 mb-1">Note</label>
+              <input
+                type="text"
+                value={adjustmentNote}
+                onChange={(e) => setAdjustmentNote(e.target.value)}
+                className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving || !adjustmentQty}
+            className="w-full px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50 text-sm"
+          >
+            {isSaving ? 'Saving...' : `Record ${STOCK_MOVEMENT_LABELS[adjustmentType]}`}
+          </button>
+        </form>
+
+        {/* Movements */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {loading ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="w-6 h-6 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : movements.length === 0 ? (
+            <p className="text-surface-500 text-sm text-center py-6">No stock movements recorded yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-surface-500 text-xs">
+                  <th className="text-left font-medium pb-2">Movement</th>
+                  <th className="text-right font-medium pb-2">Change</th>
+                  <th className="text-right font-medium pb-2">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-surface-800">
+                {movements.map((movement) => (
+                  <tr key={movement.id}>
+                    <td className="py-2 pr-2">
+                      <p className="text-white">{STOCK_MOVEMENT_LABELS[movement.movement_type]}</p>
+                      <p className="text-surface-500 text-xs">
+                        {format(new Date(movement.created_at), 'MMM d, h:mm a')}
+                        {movement.created_by_name && ` · ${movement.created_by_name}`}
+                        {movement.transaction_number && ` · ${movement.transaction_number}`}
+                      </p>
+                      {movement.note && <p className="text-surface-400 text-xs italic">{movement.note}</p>}
+                    </td>
+                    <td
+                      className={`py-2 text-right font-mono whitespace-nowrap ${
+                        movement.qty_delta < 0 ? 'text-red-400' : 'text-green-400'
+                      }`}
+                    >
+                      {movement.qty_delta > 0 && '+'}
+                      {formatQty(movement.qty_delta)}
+                    </td>
+                    <td className="py-2 text-right font-mono text-surface-300 whitespace-nowrap">
+                      {formatQty(movement.balance_after)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import toast from 'react-hot-toast'
+import { DEFAULT_VAT_RATE, fetchVatRate, saveVatRate } from '@/lib/taxes'
+
+// The VAT rate included in the prices of VATable products (settings editors
+// only). Each product's tax category is set in its Inventory edit window.
+export default function TaxSettings() {
+  const [vatRate, setVatRate] = useState(DEFAULT_VAT_RATE.toString())
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    fetchVatRate()
+      .then((rate) => setVatRate(rate.toString()))
+      .catch((error) => {
+        console.error('Error fetching VAT rate:', error)
+        toast.error('Failed to load VAT rate')
+      })
+  }, [])
+
+  const handleSave = async () => {
+    const rate = parseFloat(vatRate)
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      toast.error('Please enter a valid VAT rate')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await saveVatRate(rate)
+      toast.success('VAT rate saved')
+    } catch (error) {
+      console.error('Error saving VAT rate:', error)
+      toast.error('Failed to save VAT rate')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="card p-6 mt-6">
+      <h3 className="text-lg font-semibold text-white mb-4">Tax</h3>
+      <p className="text-surface-400 text-sm mb-4">
+        Prices include VAT. Each product is VATable (taxed at the rate below), zero-rated (taxed at 0%) or VAT-exempt;
+        set it in the product&apos;s edit window. Senior Citizen / PWD sales are always VAT-exempt.
+      </p>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium text-surface-300 mb-2">VAT Rate (%)</label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={vatRate}
+            onChange={(e) => /^\d*\.?\d*$/.test(e.target.value) && setVatRate(e.target.value)}
+            className="w-32 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+          />
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+        >
+          Save VAT Rate
+        </button>
+        <p className="text-surface-500 text-xs sm:pb-2">Set 0 if the store isn&apos;t VAT-registered.</p>
+      </div>
+    </div>
+  )
+}
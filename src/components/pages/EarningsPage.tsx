@@ -2,7 +2,14 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '@/lib/supabase'
-import { Sale } from '@/types/database'
+import { usePermission } from '@/hooks/usePermission'
+import NoPermission from '@/components/NoPermission'
+import { getCashierKey, getCashierOptions, UNASSIGNED_CASHIER } from '@/lib/cashiers'
+import { fetchRefunds } from '@/lib/refunds'
+import { getSaleGross } from '@/lib/discounts'
+import { summarizeTaxes } from '@/lib/taxes'
+import { fetchTransactionPayments, summarizePaymentMethods } from '@/lib/payments'
+import { Payment, Sale, SaleRefund } from '@/types/database'
 import { format, startOfDay, endOfDay, startOfMonth, endOfMonth, subDays, eachDayOfInterval, parseISO } from 'date-fns'
 import {
   Chart as ChartJS,
@@ -53,12 +60,30 @@ interface MonthlySale {
   created_at: string
 }
 
+// Gross margin taken back by a refund: the refunded amount, less the item
+// cost when the ingredients went back into stock (voids are already
+// excluded as cancelled sales)
+const getRefundMargin = (refund: SaleRefund) => refund.amount - (refund.restocked ? refund.cost : 0)
+
+interface CashierSummary {
+  key: string
+  name: string
+  transactionIds: Set<string>
+  revenue: number
+  itemExpenses: number
+  refunds: number
+}
+
 export default function EarningsPage() {
-  const [sales, setSales] = useState<Sale[]>([])
+  const can = usePermission()
+  const [periodSales, setPeriodSales] = useState<Sale[]>([])
+  const [periodRefunds, setPeriodRefunds] = useState<SaleRefund[]>([])
+  const [periodPayments, setPeriodPayments] = useState<Payment[]>([])
   const [loading, setLoading] = useState(true)
   const [viewMode, setViewMode] = useState<'today' | 'range'>('today')
   const [startDate, setStartDate] = useState<string>(format(subDays(new Date(), 7), 'yyyy-MM-dd'))
   const [endDate, setEndDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'))
+  const [cashierFilter, setCashierFilter] = useState<string>('all')
   
   // OPEX data
   const [totalMonthlyOpex, setTotalMonthlyOpex] = useState(0)
@@ -90,19 +115,25 @@ export default function EarningsPage() {
         .order('created_at', { ascending: true })
 
       const salesData: MonthlySale[] = data || []
-      
-      // Calculate gross margin (revenue - item expenses) for each sale
+      const monthRefunds = (await fetchRefunds(monthStart, monthEnd)).filter((r) => r.kind === 'refund')
+
+      // Gross margin (revenue - item expenses) for each sale, and the margin
+      // each refund takes back, in the order they happened
+      const marginEvents = [
+        ...salesData.map((sale) => ({ at: sale.created_at, margin: sale.total - (sale.cost * sale.qty) })),
+        ...monthRefunds.map((refund) => ({ at: refund.refunded_at, margin: -getRefundMargin(refund) })),
+      ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+
       let runningGrossMargin = 0
       let foundBreakEven = false
       let breakEvenTimestamp: Date | null = null
 
-      for (const sale of salesData) {
-        const saleGrossMargin = sale.total - (sale.cost * sale.qty)
-        runningGrossMargin += saleGrossMargin
+      for (const event of marginEvents) {
+        runningGrossMargin += event.margin
         
         // Check if break-even reached at this sale
         if (runningGrossMargin >= totalMonthlyOpex && !foundBreakEven && totalMonthlyOpex > 0) {
-          breakEvenTimestamp = new Date(sale.created_at)
+          breakEvenTimestamp = new Date(event.at)
           foundBreakEven = true
         }
       }
@@ -130,26 +161,18 @@ export default function EarningsPage() {
         earnings_datetime: sale.earnings_datetime || sale.store_sale_datetime || sale.created_at
       }))
 
-      let filteredSales = normalizedSales
-
-      if (viewMode === 'today') {
-        const today = new Date()
-        const dateStart = startOfDay(today)
-        const dateEnd = endOfDay(today)
-        filteredSales = normalizedSales.filter((s: any) => {
-          const saleDate = new Date(s.earnings_datetime)
-          return saleDate >= dateStart && saleDate <= dateEnd
-        })
-      } else {
-        const dateStart = startOfDay(new Date(startDate))
-        const dateEnd = endOfDay(new Date(endDate))
-        filteredSales = normalizedSales.filter((s: any) => {
-          const saleDate = new Date(s.earnings_datetime)
-          return saleDate >= dateStart && saleDate <= dateEnd
-        })
-      }
-
-      setSales(filteredSales)
+      const dateStart = viewMode === 'today' ? startOfDay(new Date()) : startOfDay(new Date(startDate))
+      const dateEnd = viewMode === 'today' ? endOfDay(new Date()) : endOfDay(new Date(endDate))
+      const filteredSales = normalizedSales.filter((s: any) => {
+        const saleDate = new Date(s.earnings_datetime)
+        return saleDate >= dateStart && saleDate <= dateEnd
+      })
+
+      setPeriodSales(filteredSales)
+      const transactionIds = Array.from(new Set<string>(filteredSales.map((s: any) => s.transaction_id || s.id)))
+      setPeriodPayments(await fetchTransactionPayments(transactionIds))
+      // Refunds count on the day they were made, not the day of the sale
+      setPeriodRefunds((await fetchRefunds(dateStart, dateEnd)).filter((r) => r.kind === 'refund'))
     } catch (error) {
       console.error('Error fetching sales:', error)
       toast.error('Failed to load earnings data')
@@ -183,9 +206,56 @@ export default function EarningsPage() {
     }
   }, [fetchSales, fetchMonthlySales, viewMode])
 
+  // Cashier filter narrows the period's sales; monthly OPEX and break-even stay store-wide
+  const cashierOptions = getCashierOptions(periodSales)
+  const sales = cashierFilter === 'all'
+    ? periodSales
+    : periodSales.filter((s) => getCashierKey(s) === cashierFilter)
+  const refunds = cashierFilter === 'all'
+    ? periodRefunds
+    : periodRefunds.filter((r) => getCashierKey(r) === cashierFilter)
+
+  // Sales by cashier for the period
+  const cashierSummaryMap = periodSales.reduce((acc, sale) => {
+    const key = getCashierKey(sale)
+    if (!acc[key]) {
+      const option = cashierOptions.find((o) => o.key === key)
+      acc[key] = { key, name: option?.name || 'Unassigned', transactionIds: new Set(), revenue: 0, itemExpenses: 0, refunds: 0 }
+    }
+    acc[key].transactionIds.add(sale.transaction_id || sale.id)
+    acc[key].revenue += sale.total
+    acc[key].itemExpenses += sale.cost * sale.qty
+    return acc
+  }, {} as Record<string, CashierSummary>)
+
+  periodRefunds.forEach((refund) => {
+    const key = getCashierKey(refund)
+    if (!cashierSummaryMap[key]) {
+      cashierSummaryMap[key] = {
+        key, name: refund.cashier_name || 'Unassigned', transactionIds: new Set(), revenue: 0, itemExpenses: 0, refunds: 0,
+      }
+    }
+    cashierSummaryMap[key].refunds += refund.amount
+    if (refund.restocked) cashierSummaryMap[key].itemExpenses -= refund.cost
+  })
+
+  const cashierSummaries = Object.values(cashierSummaryMap).sort((a, b) => {
+    if (a.key === UNASSIGNED_CASHIER) return 1
+    if (b.key === UNASSIGNED_CASHIER) return -1
+    return b.revenue - a.revenue
+  })
+
   // Calculate totals for displayed data
-  const totalRevenue = sales.reduce((sum, s) => sum + s.total, 0)
-  const totalItemExpenses = sales.reduce((sum, s) => sum + (s.cost * s.qty), 0)
+  // Refunds made in the period come off revenue; restocked items come off expenses
+  const totalRefunds = refunds.reduce((sum, r) => sum + r.amount, 0)
+  const restockedRefundCost = refunds.reduce((sum, r) => sum + (r.restocked ? r.cost : 0), 0)
+  const totalRevenue = sales.reduce((sum, s) => sum + s.total, 0) - totalRefunds
+  // Revenue is after discounts; the Senior Citizen / PWD VAT exemption counts as a discount here
+  const totalGrossSales = sales.reduce((sum, s) => sum + getSaleGross(s), 0)
+  const totalDiscounts = sales.reduce((sum, s) => sum + s.discount_amount + s.vat_exemption_amount, 0)
+  // Split of the sales rung up in the period, before refunds
+  const totalTaxes = summarizeTaxes(sales)
+  const totalItemExpenses = sales.reduce((sum, s) => sum + (s.cost * s.qty), 0) - restockedRefundCost
   const grossMargin = totalRevenue - totalItemExpenses
   
   // Remaining OPEX calculation (for current month)
@@ -202,11 +272,9 @@ export default function EarningsPage() {
     return acc
   }, {} as Record<string, number>)
 
-  // Payment method data for pie chart
-  const paymentMethodData = sales.reduce((acc, sale) => {
-    acc[sale.payment_method] = (acc[sale.payment_method] || 0) + 1
-    return acc
-  }, {} as Record<string, number>)
+  // Amount taken per payment method for pie chart; split payments count
+  // towards each of their methods
+  const paymentMethodData = summarizePaymentMethods(sales, periodPayments)
 
   // Dine in / Takeout data
   const dineInTakeoutData = sales.reduce((acc, sale) => {
@@ -237,8 +305,11 @@ export default function EarningsPage() {
         format(new Date(s.earnings_datetime || s.created_at), 'yyyy-MM-dd') === dayStr
       )
       
-      const dayRevenue = daySales.reduce((sum, s) => sum + s.total, 0)
-      const dayItemExpenses = daySales.reduce((sum, s) => sum + (s.cost * s.qty), 0)
+      const dayRefunds = refunds.filter((r) => format(new Date(r.refunded_at), 'yyyy-MM-dd') === dayStr)
+
+      const dayRevenue = daySales.reduce((sum, s) => sum + s.total, 0) - dayRefunds.reduce((sum, r) => sum + r.amount, 0)
+      const dayItemExpenses = daySales.reduce((sum, s) => sum + (s.cost * s.qty), 0) -
+        dayRefunds.reduce((sum, r) => sum + (r.restocked ? r.cost : 0), 0)
       const dayGrossMargin = dayRevenue - dayItemExpenses
       
       runningGrossMargin += dayGrossMargin
@@ -284,7 +355,7 @@ export default function EarningsPage() {
   }
 
   // Calculate range totals
-  const rangeTotalItemExpenses = sales.reduce((sum, s) => sum + (s.cost * s.qty), 0)
+  const rangeTotalItemExpenses = totalItemExpenses
   const rangeGrossMargin = totalRevenue - rangeTotalItemExpenses
   const rangeOpexPaid = Math.min(rangeGrossMargin, totalMonthlyOpex)
 
@@ -304,6 +375,18 @@ export default function EarningsPage() {
     },
   }
 
+  const paymentPieOptions = {
+    ...pieOptions,
+    plugins: {
+      ...pieOptions.plugins,
+      tooltip: {
+        callbacks: {
+          label: (context: any) => ` ${context.label}: ₱${Number(context.raw).toFixed(2)}`,
+        },
+      },
+    },
+  }
+
   const lineOptions = {
     responsive: true,
     plugins: {
@@ -336,6 +419,10 @@ export default function EarningsPage() {
     },
   }
 
+  if (!can('view_earnings')) {
+    return <NoPermission page="Earnings" />
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -378,6 +465,17 @@ export default function EarningsPage() {
             </button>
           </div>
 
+          <select
+            value={cashierFilter}
+            onChange={(e) => setCashierFilter(e.target.value)}
+            className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+          >
+            <option value="all">All cashiers</option>
+            {cashierOptions.map((option) => (
+              <option key={option.key} value={option.key}>{option.name}</option>
+            ))}
+          </select>
+
           {viewMode === 'range' && (
             <div className="flex items-center gap-2">
               <input
@@ -453,6 +551,14 @@ export default function EarningsPage() {
             <div>
               <p className="text-surface-400 text-sm">Total Revenue</p>
               <p className="text-2xl font-bold text-white font-mono">₱{totalRevenue.toFixed(2)}</p>
+              {totalDiscounts > 0 && (
+                <p className="text-xs text-green-400">
+                  ₱{totalGrossSales.toFixed(2)} gross − ₱{totalDiscounts.toFixed(2)} discounts
+                </p>
+              )}
+              {totalRefunds > 0 && (
+                <p className="text-xs text-red-400">after ₱{totalRefunds.toFixed(2)} refunds</p>
+              )}
             </div>
           </div>
         </div>
@@ -528,6 +634,28 @@ export default function EarningsPage() {
         </div>
       )}
 
+      {/* VAT Totals */}
+      {sales.length > 0 && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <div className="card p-4">
+            <p className="text-surface-400 text-sm">VATable Sales</p>
+            <p className="text-xl font-bold text-white font-mono">₱{totalTaxes.vatableSales.toFixed(2)}</p>
+          </div>
+          <div className="card p-4">
+            <p className="text-surface-400 text-sm">VAT</p>
+            <p className="text-xl font-bold text-white font-mono">₱{totalTaxes.vatAmount.toFixed(2)}</p>
+          </div>
+          <div className="card p-4">
+            <p className="text-surface-400 text-sm">Zero-rated Sales</p>
+            <p className="text-xl font-bold text-white font-mono">₱{totalTaxes.zeroRatedSales.toFixed(2)}</p>
+          </div>
+          <div className="card p-4">
+            <p className="text-surface-400 text-sm">VAT-exempt Sales</p>
+            <p className="text-xl font-bold text-white font-mono">₱{totalTaxes.exemptSales.toFixed(2)}</p>
+          </div>
+        </div>
+      )}
+
       {sales.length === 0 ? (
         <div className="card p-12 text-center">
           <svg className="w-12 h-12 text-surface-600 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -578,21 +706,31 @@ export default function EarningsPage() {
             <div className="card p-6">
               <h3 className="text-lg font-semibold text-white mb-4">Payment Methods</h3>
               {Object.keys(paymentMethodData).length > 0 ? (
-                <div className="aspect-square">
-                  <Pie
-                    data={{
-                      labels: Object.keys(paymentMethodData),
-                      datasets: [
-                        {
-                          data: Object.values(paymentMethodData),
-                          backgroundColor: CHART_COLORS,
-                          borderWidth: 0,
-                        },
-                      ],
-                    }}
-                    options={pieOptions}
-                  />
-                </div>
+                <>
+                  <div className="aspect-square">
+                    <Pie
+                      data={{
+                        labels: Object.keys(paymentMethodData),
+                        datasets: [
+                          {
+                            data: Object.values(paymentMethodData),
+                            backgroundColor: CHART_COLORS,
+                            borderWidth: 0,
+                          },
+                        ],
+                      }}
+                      options={paymentPieOptions}
+                    />
+                  </div>
+                  <div className="mt-4 space-y-1">
+                    {Object.entries(paymentMethodData).map(([method, amount]) => (
+                      <div key={method} className="flex justify-between text-sm">
+                        <span className="text-surface-400">{method}</span>
+                        <span className="text-white font-mono">₱{amount.toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
               ) : (
                 <p className="text-surface-500 text-center py-8">No data</p>
               )}
@@ -624,6 +762,51 @@ export default function EarningsPage() {
               )}
             </div>
           </div>
+
+          {/* Sales by Cashier */}
+          <div className="card overflow-hidden mt-6">
+            <div className="p-6 pb-4">
+              <h3 className="text-lg font-semibold text-white">Sales by Cashier</h3>
+              <p className="text-surface-400 text-sm mt-1">
+                {viewMode === 'today' ? 'Today' : 'Selected date range'}, all cashiers
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-surface-800 bg-surface-800/50">
+                    <th className="p-4 text-left text-sm font-medium text-surface-400">Cashier</th>
+                    <th className="p-4 text-right text-sm font-medium text-surface-400">Transactions</th>
+                    <th className="p-4 text-right text-sm font-medium text-surface-400">Revenue</th>
+                    <th className="p-4 text-right text-sm font-medium text-surface-400">Refunds</th>
+                    <th className="p-4 text-right text-sm font-medium text-surface-400">Item Expenses</th>
+                    <th className="p-4 text-right text-sm font-medium text-surface-400">Gross Margin</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {cashierSummaries.map((summary) => (
+                    <tr
+                      key={summary.key}
+                      className={`border-b border-surface-800/50 ${
+                        cashierFilter === summary.key ? 'bg-primary-500/10' : ''
+                      }`}
+                    >
+                      <td className="p-4 text-white text-sm">{summary.name}</td>
+                      <td className="p-4 text-right text-surface-300 text-sm font-mono">{summary.transactionIds.size}</td>
+                      <td className="p-4 text-right text-white text-sm font-mono">₱{summary.revenue.toFixed(2)}</td>
+                      <td className="p-4 text-right text-red-400 text-sm font-mono">
+                        {summary.refunds > 0 ? `-₱${summary.refunds.toFixed(2)}` : '-'}
+                      </td>
+                      <td className="p-4 text-right text-yellow-400 text-sm font-mono">₱{summary.itemExpenses.toFixed(2)}</td>
+                      <td className="p-4 text-right text-blue-400 text-sm font-mono">
+                        ₱{(summary.revenue - summary.refunds - summary.itemExpenses).toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
         </>
       )}
     </div>
@@ -2,7 +2,19 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { supabase, getProductImageUrl, PRODUCT_IMAGES_BUCKET } from '@/lib/supabase'
-import { Product, UnitType } from '@/types/database'
+import { usePermission } from '@/hooks/usePermission'
+import NoPermission from '@/components/NoPermission'
+import StockHistoryDrawer from '@/components/StockHistoryDrawer'
+import ReceiveStockModal from '@/components/ReceiveStockModal'
+import RecipeHistoryModal from '@/components/RecipeHistoryModal'
+import PrepItemModal from '@/components/PrepItemModal'
+import ModifierGroupsModal from '@/components/ModifierGroupsModal'
+import ComboEditorModal from '@/components/ComboEditorModal'
+import { isLowStock } from '@/lib/lowStock'
+import { fetchSuppliers } from '@/lib/purchasing'
+import { fetchFinishedProducts, fetchProductIngredients, saveFinishedProduct } from '@/lib/recipes'
+import { TAX_CATEGORIES } from '@/lib/taxes'
+import { FinishedProduct, Product, Supplier, TaxCategory, UnitType } from '@/types/database'
 import imageCompression from 'browser-image-compression'
 import toast from 'react-hot-toast'
 
@@ -12,11 +24,15 @@ interface ProductCreationItem {
 }
 
 export default function InventoryPage() {
+  const can = usePermission()
   const [items, setItems] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
   const [showAddModal, setShowAddModal] = useState(false)
   const [editingItem, setEditingItem] = useState<Product | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [historyItem, setHistoryItem] = useState<Product | null>(null)
+  const [receivingItem, setReceivingItem] = useState<Product | null>(null)
+  const [prepItem, setPrepItem] = useState<Product | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   // Product Creation state
@@ -26,9 +42,20 @@ export default function InventoryPage() {
   const [showProductSaveModal, setShowProductSaveModal] = useState(false)
   const [productName, setProductName] = useState('')
   const [productSellingPrice, setProductSellingPrice] = useState('')
+  const [productTaxCategory, setProductTaxCategory] = useState<TaxCategory>('vatable')
   const [productImageFile, setProductImageFile] = useState<File | null>(null)
   const [productImagePreview, setProductImagePreview] = useState<string | null>(null)
   const productFileInputRef = useRef<HTMLInputElement>(null)
+  // Set while an existing finished product is loaded into the builder
+  const [finishedProducts, setFinishedProducts] = useState<FinishedProduct[]>([])
+  const [editingProduct, setEditingProduct] = useState<FinishedProduct | null>(null)
+  // Bumped when quantities change from outside the qty inputs so they re-read pc.qty
+  const [builderRevision, setBuilderRevision] = useState(0)
+  const [showRecipeHistory, setShowRecipeHistory] = useState(false)
+  const [showModifiers, setShowModifiers] = useState(false)
+  // Combos are edited in their own modal; editingCombo null there means a new combo
+  const [showComboEditor, setShowComboEditor] = useState(false)
+  const [editingCombo, setEditingCombo] = useState<FinishedProduct | null>(null)
 
   // Form state for inventory items
   const [formData, setFormData] = useState({
@@ -36,7 +63,12 @@ export default function InventoryPage() {
     unit_type: 'quantity' as UnitType,
     qty: '',
     totalCost: '',
+    supplier_id: '',
+    reorder_point: '',
+    par_level: '',
+    is_prep: false,
   })
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
   const [imageFile, setImageFile] = useState<File | null>(null)
   const [imagePreview, setImagePreview] = useState<string | null>(null)
 
@@ -61,12 +93,34 @@ export default function InventoryPage() {
     fetchItems()
   }, [fetchItems])
 
+  const loadFinishedProducts = useCallback(async () => {
+    try {
+      setFinishedProducts(await fetchFinishedProducts())
+    } catch (error) {
+      console.error('Error fetching products:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadFinishedProducts()
+  }, [loadFinishedProducts])
+
+  useEffect(() => {
+    fetchSuppliers()
+      .then(setSuppliers)
+      .catch((error) => console.error('Error fetching suppliers:', error))
+  }, [])
+
   const resetForm = () => {
     setFormData({
       name: '',
       unit_type: 'quantity',
       qty: '',
       totalCost: '',
+      supplier_id: '',
+      reorder_point: '',
+      par_level: '',
+      is_prep: false,
     })
     setImageFile(null)
     setImagePreview(null)
@@ -87,6 +141,10 @@ export default function InventoryPage() {
       unit_type: item.unit_type,
       qty: stockInDisplayUnit.toString(),
       totalCost: totalCost.toFixed(2),
+      supplier_id: item.supplier_id || '',
+      reorder_point: item.reorder_point !== null ? String(getDisplayQuantity({ ...item, qty: item.reorder_point })) : '',
+      par_level: item.par_level !== null ? String(getDisplayQuantity({ ...item, qty: item.par_level })) : '',
+      is_prep: item.is_prep,
     })
     setImagePreview(item.image_url ? getProductImageUrl(item.image_url) : null)
     setImageFile(null)
@@ -188,12 +246,23 @@ export default function InventoryPage() {
       return
     }
 
+    // Stock and cost of existing items change through Receive Stock and the
+    // stock history adjustments so every change is in the ledger. Prep items
+    // start empty and get their stock and cost from produced batches.
     const qty = parseFloat(formData.qty) || 0
-    if (qty <= 0) {
+    if (!editingItem && !formData.is_prep && qty <= 0) {
       toast.error('Please enter a valid quantity')
       return
     }
 
+    // Reorder point and par level are optional; blank means not tracked
+    const reorderPoint = formData.reorder_point === '' ? null : parseFloat(formData.reorder_point)
+    const parLevel = formData.par_level === '' ? null : parseFloat(formData.par_level)
+    if (reorderPoint !== null && parLevel !== null && parLevel < reorderPoint) {
+      toast.error('Par level must be at least the reorder point')
+      return
+    }
+
     setIsSubmitting(true)
 
     try {
@@ -211,16 +280,19 @@ export default function InventoryPage() {
         }
       }
 
-      const perUnitCost = calculatePerUnitCost()
-      const storageQty = getStorageQuantity(qty, formData.unit_type)
-
       const itemData: Record<string, any> = {
         name: formData.name,
         unit_type: formData.unit_type,
-        qty: storageQty,
-        cost: perUnitCost,
         selling_price: 0,
         image_url: imagePath,
+        supplier_id: formData.supplier_id || null,
+        reorder_point: reorderPoint !== null ? getStorageQuantity(reorderPoint, formData.unit_type) : null,
+        par_level: parLevel !== null ? getStorageQuantity(parLevel, formData.unit_type) : null,
+      }
+
+      if (!editingItem) {
+        itemData.qty = formData.is_prep ? 0 : getStorageQuantity(qty, formData.unit_type)
+        itemData.cost = formData.is_prep ? 0 : calculatePerUnitCost()
       }
 
       if (editingItem) {
@@ -238,12 +310,17 @@ export default function InventoryPage() {
         if (error) throw error
         toast.success('Item updated!')
       } else {
-        const { error } = await (supabase as any)
+        const { data, error } = await (supabase as any)
           .from('products')
           .insert(itemData)
+          .select()
+          .single()
 
         if (error) throw error
         toast.success('Item added!')
+
+        // Straight on to the batch recipe
+        if (formData.is_prep) setPrepItem(data)
       }
 
       closeModal()
@@ -315,6 +392,7 @@ export default function InventoryPage() {
     } else {
       setProductCreation([...productCreation, { item: selectedItem, qty }])
     }
+    setBuilderRevision((r) => r + 1)
 
     toast.success('Added to product')
     setSelectedItem(null)
@@ -325,8 +403,54 @@ export default function InventoryPage() {
     setProductCreation(productCreation.filter((pc) => pc.item.id !== itemId))
   }
 
+  const handleProductCreationQtyChange = (itemId: string, value: string) => {
+    if (value !== '' && !/^\d*\.?\d*$/.test(value)) return
+    setProductCreation(
+      productCreation.map((pc) => (pc.item.id === itemId ? { ...pc, qty: parseFloat(value) || 0 } : pc))
+    )
+  }
+
   const handleClearProductCreation = () => {
     setProductCreation([])
+    setEditingProduct(null)
+  }
+
+  // Load a finished product's recipe into the builder for editing
+  const handleEditProduct = async (productId: string) => {
+    const product = finishedProducts.find((p) => p.id === productId)
+    if (!product) return
+
+    if (product.is_combo) {
+      setEditingCombo(product)
+      setShowComboEditor(true)
+      return
+    }
+
+    try {
+      const ingredients = await fetchProductIngredients(product.id)
+      const loaded = ingredients
+        .map((ingredient) => {
+          const item = items.find((i) => i.id === ingredient.itemId)
+          return item ? { item, qty: ingredient.qty } : null
+        })
+        .filter((pc): pc is ProductCreationItem => pc !== null)
+
+      if (loaded.length < ingredients.length) {
+        toast.error('Some ingredients are no longer in inventory and were left out')
+      }
+
+      setProductCreation(loaded)
+      setBuilderRevision((r) => r + 1)
+      setEditingProduct(product)
+      setProductName(product.name)
+      setProductSellingPrice(product.selling_price.toString())
+      setProductTaxCategory(product.tax_category)
+      setProductImageFile(null)
+      setProductImagePreview(product.image_url ? getProductImageUrl(product.image_url) : null)
+    } catch (error) {
+      console.error('Error loading product:', error)
+      toast.error('Failed to load product')
+    }
   }
 
   const handleProductImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -366,10 +490,18 @@ export default function InventoryPage() {
       toast.error('Add at least one ingredient')
       return
     }
-    setProductName('')
-    setProductSellingPrice('')
-    setProductImageFile(null)
-    setProductImagePreview(null)
+    if (productCreation.some((pc) => pc.qty <= 0)) {
+      toast.error('Every ingredient needs a quantity')
+      return
+    }
+    // Editing keeps the name, price and image loaded with the product
+    if (!editingProduct) {
+      setProductName('')
+      setProductSellingPrice('')
+      setProductTaxCategory('vatable')
+      setProductImageFile(null)
+      setProductImagePreview(null)
+    }
     setShowProductSaveModal(true)
   }
 
@@ -392,7 +524,7 @@ export default function InventoryPage() {
     setIsSubmitting(true)
 
     try {
-      let imagePath = null
+      let imagePath = editingProduct?.image_url || null
 
       if (productImageFile) {
         const fileExt = productImageFile.name.split('.').pop()
@@ -410,38 +542,30 @@ export default function InventoryPage() {
         }
       }
 
-      // Create the finished product
-      const { data: productData, error: productError } = await (supabase as any)
-        .from('finished_products')
-        .insert({
-          name: productName.trim(),
-          selling_price: sellingPrice,
-          image_url: imagePath,
-        })
-        .select()
-        .single()
-
-      if (productError) throw productError
-
-      // Create product ingredients
-      const ingredientRecords = productCreation.map((pc) => ({
-        product_id: productData.id,
-        item_id: pc.item.id,
-        qty: pc.qty,
-      }))
-
-      const { error: ingError } = await (supabase as any)
-        .from('product_ingredients')
-        .insert(ingredientRecords)
-
-      if (ingError) throw ingError
+      // Product, ingredients and recipe version are saved together
+      await saveFinishedProduct(editingProduct?.id || null, {
+        name: productName.trim(),
+        sellingPrice,
+        imageUrl: imagePath,
+        taxCategory: productTaxCategory,
+        ingredients: productCreation.map((pc) => ({ itemId: pc.item.id, qty: pc.qty })),
+      })
+
+      // Remove the replaced image
+      if (editingProduct?.image_url && imagePath !== editingProduct.image_url) {
+        await (supabase as any).storage
+          .from(PRODUCT_IMAGES_BUCKET)
+          .remove([editingProduct.image_url])
+      }
 
-      toast.success('Product created!')
+      toast.success(editingProduct ? 'Product updated!' : 'Product created!')
       setProductCreation([])
+      setEditingProduct(null)
       closeProductSaveModal()
-    } catch (error) {
+      loadFinishedProducts()
+    } catch (error: any) {
       console.error('Error saving product:', error)
-      toast.error('Failed to create product')
+      toast.error(error?.message || (editingProduct ? 'Failed to update product' : 'Failed to create product'))
     } finally {
       setIsSubmitting(false)
     }
@@ -463,6 +587,10 @@ export default function InventoryPage() {
   const ingredientCost = calculateIngredientCost()
   const grossProfit = (parseFloat(productSellingPrice) || 0) - ingredientCost
 
+  if (!can('adjust_inventory')) {
+    return <NoPermission page="Inventory" />
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -477,25 +605,67 @@ export default function InventoryPage() {
       <div className="card p-4 mb-4">
         <div className="flex items-center justify-between mb-3">
           <h2 className="text-lg font-semibold text-white">
-            Product Creation{' '}
+            {editingProduct ? `Editing ${editingProduct.name}` : 'Product Creation'}{' '}
             {productCreation.length > 0 && (
               <span className="text-surface-400">({productCreation.length} ingredients)</span>
             )}
           </h2>
           <div className="flex gap-2">
-            {productCreation.length > 0 && (
+            {!editingProduct && productCreation.length === 0 && finishedProducts.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => handleEditProduct(e.target.value)}
+                className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-surface-300 text-sm"
+              >
+                <option value="">Edit a product...</option>
+                {finishedProducts.map((product) => (
+                  <option key={product.id} value={product.id}>
+                    {product.name}
+                    {product.is_combo ? ' (combo)' : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+            {!editingProduct && productCreation.length === 0 && finishedProducts.some((p) => !p.is_combo) && (
+              <button
+                onClick={() => {
+                  setEditingCombo(null)
+                  setShowComboEditor(true)
+                }}
+                className="px-3 py-2 text-sm text-surface-300 hover:text-white bg-surface-800 hover:bg-surface-700 rounded-lg transition-colors"
+              >
+                New Combo
+              </button>
+            )}
+            {editingProduct && (
+              <>
+                <button
+                  onClick={() => setShowModifiers(true)}
+                  className="text-sm text-surface-400 hover:text-white px-3 py-1"
+                >
+                  Modifiers
+                </button>
+                <button
+                  onClick={() => setShowRecipeHistory(true)}
+                  className="text-sm text-surface-400 hover:text-white px-3 py-1"
+                >
+                  Recipe History
+                </button>
+              </>
+            )}
+            {(productCreation.length > 0 || editingProduct) && (
               <>
                 <button
                   onClick={handleClearProductCreation}
                   className="text-sm text-red-400 hover:text-red-300 px-3 py-1"
                 >
-                  Clear
+                  {editingProduct ? 'Cancel Edit' : 'Clear'}
                 </button>
                 <button
                   onClick={openProductSaveModal}
                   className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors text-sm"
                 >
-                  Save Product
+                  {editingProduct ? 'Save Changes' : 'Save Product'}
                 </button>
               </>
             )}
@@ -544,9 +714,17 @@ export default function InventoryPage() {
                     <span className="text-white text-sm">{pc.item.name}</span>
                   </div>
                   <div className="flex items-center gap-4">
-                    <span className="text-surface-400 text-sm">
-                      {pc.qty} {getUnitLabel(pc.item.unit_type)}
-                    </span>
+                    <div className="flex items-center gap-1">
+                      <input
+                        key={builderRevision}
+                        type="text"
+                        inputMode="decimal"
+                        defaultValue={pc.qty}
+                        onChange={(e) => handleProductCreationQtyChange(pc.item.id, e.target.value)}
+                        className="w-16 px-2 py-0.5 bg-surface-800 border border-surface-700 rounded text-white text-sm font-mono text-right"
+                      />
+                      <span className="text-surface-400 text-sm">{getUnitLabel(pc.item.unit_type)}</span>
+                    </div>
                     <span className="text-primary-500 font-mono text-sm">
                       ₱{(pc.item.cost * pc.qty).toFixed(2)}
                     </span>
@@ -615,6 +793,53 @@ export default function InventoryPage() {
                 onClick={() => handleItemClick(item)}
                 className="card p-3 text-left hover:border-primary-500/50 transition-all group relative"
               >
+                {/* Receive stock and stock history buttons */}
+                <div className="absolute top-2 left-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setReceivingItem(item)
+                    }}
+                    title="Receive stock"
+                    className="p-1 bg-surface-800/80 rounded text-surface-400 hover:text-white"
+                  >
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setHistoryItem(item)
+                    }}
+                    title="Stock history"
+                    className="p-1 bg-surface-800/80 rounded text-surface-400 hover:text-white"
+                  >
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                  </button>
+                  {item.is_prep && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setPrepItem(item)
+                      }}
+                      title="Produce batch"
+                      className="p-1 bg-surface-800/80 rounded text-surface-400 hover:text-white"
+                    >
+                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z"
+                        />
+                      </svg>
+                    </button>
+                  )}
+                </div>
+
                 {/* Edit button */}
                 <button
                   onClick={(e) => {
@@ -633,7 +858,17 @@ export default function InventoryPage() {
                   </svg>
                 </button>
 
-                <div className="aspect-square bg-surface-800 rounded-lg mb-2 overflow-hidden">
+                <div className="aspect-square bg-surface-800 rounded-lg mb-2 overflow-hidden relative">
+                  {isLowStock(item) && (
+                    <span className="absolute bottom-1 left-1 px-1.5 py-0.5 bg-yellow-500/90 text-black text-[10px] font-bold rounded">
+                      LOW
+                    </span>
+                  )}
+                  {item.is_prep && (
+                    <span className="absolute bottom-1 right-1 px-1.5 py-0.5 bg-blue-500/90 text-white text-[10px] font-bold rounded">
+                      PREP
+                    </span>
+                  )}
                 {item.image_url ? (
                   <img
                     src={getProductImageUrl(item.image_url) || ''}
@@ -659,7 +894,7 @@ export default function InventoryPage() {
                   )}
                 </div>
                 <h4 className="font-medium text-white text-xs truncate">{item.name}</h4>
-                <p className="text-surface-400 text-xs">{formatStock(item)}</p>
+                <p className={`text-xs ${isLowStock(item) ? 'text-yellow-400' : 'text-surface-400'}`}>{formatStock(item)}</p>
                 <p className="text-primary-500 font-mono text-xs">
                   ₱{item.cost.toFixed(4)}/{getUnitLabel(item.unit_type)}
                 </p>
@@ -669,6 +904,68 @@ export default function InventoryPage() {
                 )}
               </div>
 
+      {/* Stock History Drawer */}
+      {historyItem && (
+        <StockHistoryDrawer
+          item={historyItem}
+          onClose={() => setHistoryItem(null)}
+          onAdjusted={(updated) => {
+            setHistoryItem(updated)
+            setItems((prev) => prev.map((i) => (i.id === updated.id ? updated : i)))
+          }}
+        />
+      )}
+
+      {/* Recipe History Modal */}
+      {showRecipeHistory && editingProduct && (
+        <RecipeHistoryModal product={editingProduct} onClose={() => setShowRecipeHistory(false)} />
+      )}
+
+      {/* Modifier Groups Modal */}
+      {showModifiers && editingProduct && (
+        <ModifierGroupsModal product={editingProduct} items={items} onClose={() => setShowModifiers(false)} />
+      )}
+
+      {/* Combo Editor Modal */}
+      {showComboEditor && (
+        <ComboEditorModal
+          combo={editingCombo}
+          products={finishedProducts.filter((p) => !p.is_combo)}
+          onClose={() => setShowComboEditor(false)}
+          onSaved={() => {
+            setShowComboEditor(false)
+            loadFinishedProducts()
+          }}
+        />
+      )}
+
+      {/* Prep Item Modal */}
+      {prepItem && (
+        <PrepItemModal
+          item={prepItem}
+          items={items}
+          onClose={() => setPrepItem(null)}
+          onSaved={(updated) => {
+            setPrepItem(updated)
+            // Producing also changes the raw items' stock
+            fetchItems()
+          }}
+        />
+      )}
+
+      {/* Receive Stock Modal */}
+      {receivingItem && (
+        <ReceiveStockModal
+          item={receivingItem}
+          supplier={suppliers.find((s) => s.id === receivingItem.supplier_id)}
+          onClose={() => setReceivingItem(null)}
+          onReceived={(updated) => {
+            setReceivingItem(null)
+            setItems((prev) => prev.map((i) => (i.id === updated.id ? updated : i)))
+          }}
+        />
+      )}
+
       {/* Item Selection Modal */}
       {selectedItem && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -893,68 +1190,189 @@ export default function InventoryPage() {
                 </div>
               </div>
 
-              {/* Stock Amount */}
-              <div>
-                <label className="block text-sm font-medium text-surface-300 mb-2">
-                  Stock Amount ({getUnitLabel(formData.unit_type)})
+              {/* Prep Item */}
+              {!editingItem && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_prep}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, is_prep: e.target.checked }))}
+                    className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
+                  />
+                  <span className="text-surface-300 text-sm">Made in-house in batches (sauce, filling, ...)</span>
                 </label>
-                <input
-                  type="text"
-                  inputMode="decimal"
-                  value={formData.qty}
-                  onChange={(e) => {
-                    const val = e.target.value
-                    if (val === '' || /^\d*\.?\d*$/.test(val)) {
-                      setFormData((prev) => ({ ...prev, qty: val }))
-                    }
-                  }}
-                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
-                  placeholder={
-                    formData.unit_type === 'weight'
-                      ? 'e.g., 100000 (for 100kg)'
-                      : formData.unit_type === 'volume'
-                      ? 'e.g., 5000 (for 5L)'
-                      : 'e.g., 50'
-                  }
-                  required
-                />
-              </div>
+              )}
 
-              {/* Total Cost */}
-              <div>
-                <label className="block text-sm font-medium text-surface-300 mb-2">
-                  Total Cost (₱) <span className="text-surface-500 text-xs">for the entire quantity</span>
-                </label>
-                <div className="relative">
-                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-surface-500">₱</span>
-                <input
+              {/* Preferred Supplier */}
+              {suppliers.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-2">Preferred Supplier</label>
+                  <select
+                    value={formData.supplier_id}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, supplier_id: e.target.value }))}
+                    className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  >
+                    <option value="">None</option>
+                    {suppliers.map((supplier) => (
+                      <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Reorder Point / Par Level */}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-2">
+                    Reorder Point ({getUnitLabel(formData.unit_type)})
+                  </label>
+                  <input
                     type="text"
                     inputMode="decimal"
-                    value={formData.totalCost}
+                    value={formData.reorder_point}
                     onChange={(e) => {
                       const val = e.target.value
                       if (val === '' || /^\d*\.?\d*$/.test(val)) {
-                        setFormData((prev) => ({ ...prev, totalCost: val }))
+                        setFormData((prev) => ({ ...prev, reorder_point: val }))
                       }
                     }}
-                    className="w-full pl-8 pr-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
-                    placeholder="e.g., 5000"
-                    required
+                    className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                    placeholder="Not tracked"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-2">
+                    Par Level ({getUnitLabel(formData.unit_type)})
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={formData.par_level}
+                    onChange={(e) => {
+                      const val = e.target.value
+                      if (val === '' || /^\d*\.?\d*$/.test(val)) {
+                        setFormData((prev) => ({ ...prev, par_level: val }))
+                      }
+                    }}
+                    className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                    placeholder="Order up to"
                   />
                 </div>
               </div>
 
-              {/* Per Unit Cost Preview */}
-              <div className="p-4 bg-surface-800/50 rounded-lg border border-surface-700">
-                <div className="flex justify-between items-center">
-                  <span className="text-surface-400">
-                    Cost per {getUnitLabel(formData.unit_type)}:
-                  </span>
-                  <span className="font-mono font-bold text-primary-500 text-lg">
-                    ₱{perUnitCost.toFixed(4)}
-                  </span>
+              {editingItem ? (
+                <div className="p-4 bg-surface-800/50 rounded-lg border border-surface-700 space-y-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-surface-400">In stock</span>
+                    <span className="font-mono text-white">{formatStock(editingItem)}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-surface-400">Cost per {getUnitLabel(editingItem.unit_type)}</span>
+                    <span className="font-mono font-bold text-primary-500">₱{editingItem.cost.toFixed(4)}</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setReceivingItem(editingItem)
+                        closeModal()
+                      }}
+                      className="flex-1 px-3 py-2 bg-primary-500/10 hover:bg-primary-500/20 text-primary-400 text-sm font-medium rounded-lg transition-colors"
+                    >
+                      Receive Stock
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setHistoryItem(editingItem)
+                        closeModal()
+                      }}
+                      className="flex-1 px-3 py-2 bg-surface-700 hover:bg-surface-600 text-surface-300 text-sm font-medium rounded-lg transition-colors"
+                    >
+                      History / Adjust
+                    </button>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setPrepItem(editingItem)
+                      closeModal()
+                    }}
+                    className="w-full px-3 py-2 bg-surface-700 hover:bg-surface-600 text-surface-300 text-sm font-medium rounded-lg transition-colors"
+                  >
+                    {editingItem.is_prep ? 'Prep Recipe / Produce Batch' : 'Make In-House (Prep Item)'}
+                  </button>
                 </div>
-              </div>
+              ) : formData.is_prep ? (
+                <p className="p-4 bg-surface-800/50 rounded-lg border border-surface-700 text-surface-400 text-sm">
+                  Prep items start with no stock. Set the batch recipe after saving, then produce batches to add stock.
+                </p>
+              ) : (
+                <>
+                  {/* Stock Amount */}
+                  <div>
+                    <label className="block text-sm font-medium text-surface-300 mb-2">
+                      Stock Amount ({getUnitLabel(formData.unit_type)})
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={formData.qty}
+                      onChange={(e) => {
+                        const val = e.target.value
+                        if (val === '' || /^\d*\.?\d*$/.test(val)) {
+                          setFormData((prev) => ({ ...prev, qty: val }))
+                        }
+                      }}
+                      className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                      placeholder={
+                        formData.unit_type === 'weight'
+                          ? 'e.g., 100000 (for 100kg)'
+                          : formData.unit_type === 'volume'
+                          ? 'e.g., 5000 (for 5L)'
+                          : 'e.g., 50'
+                      }
+                      required
+                    />
+                  </div>
+
+                  {/* Total Cost */}
+                  <div>
+                    <label className="block text-sm font-medium text-surface-300 mb-2">
+                      Total Cost (₱) <span className="text-surface-500 text-xs">for the entire quantity</span>
+                    </label>
+                    <div className="relative">
+                      <span className="absolute left-4 top-1/2 -translate-y-1/2 text-surface-500">₱</span>
+                    <input
+                        type="text"
+                        inputMode="decimal"
+                        value={formData.totalCost}
+                        onChange={(e) => {
+                          const val = e.target.value
+                          if (val === '' || /^\d*\.?\d*$/.test(val)) {
+                            setFormData((prev) => ({ ...prev, totalCost: val }))
+                          }
+                        }}
+                        className="w-full pl-8 pr-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                        placeholder="e.g., 5000"
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  {/* Per Unit Cost Preview */}
+                  <div className="p-4 bg-surface-800/50 rounded-lg border border-surface-700">
+                    <div className="flex justify-between items-center">
+                      <span className="text-surface-400">
+                        Cost per {getUnitLabel(formData.unit_type)}:
+                      </span>
+                      <span className="font-mono font-bold text-primary-500 text-lg">
+                        ₱{perUnitCost.toFixed(4)}
+                      </span>
+                    </div>
+                  </div>
+                </>
+              )}
 
               {/* Submit */}
               <button
@@ -984,7 +1402,7 @@ export default function InventoryPage() {
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="card p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between mb-6">
-              <h2 className="text-xl font-bold text-white">Save New Product</h2>
+              <h2 className="text-xl font-bold text-white">{editingProduct ? 'Save Product Changes' : 'Save New Product'}</h2>
               <button onClick={closeProductSaveModal} className="text-surface-400 hover:text-white">
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path
@@ -1102,6 +1520,23 @@ export default function InventoryPage() {
                 </div>
               </div>
 
+              {/* Tax Category */}
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Tax</label>
+                <select
+                  value={productTaxCategory}
+                  onChange={(e) => setProductTaxCategory(e.target.value as TaxCategory)}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                >
+                  {TAX_CATEGORIES.map((category) => (
+                    <option key={category.value} value={category.value}>
+                      {category.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-surface-500 text-xs mt-1">The selling price includes VAT for VATable products</p>
+              </div>
+
               {/* Profit Preview */}
               <div className="p-3 bg-surface-800/50 rounded-lg">
                 <div className="flex justify-between text-sm">
@@ -1120,7 +1555,7 @@ export default function InventoryPage() {
                 disabled={isSubmitting}
                 className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50"
               >
-                {isSubmitting ? 'Saving...' : 'Create Product'}
+                {isSubmitting ? 'Saving...' : editingProduct ? 'Save Changes' : 'Create Product'}
               </button>
             </div>
           </div>
@@ -2,10 +2,13 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '@/lib/supabase'
+import { usePermission } from '@/hooks/usePermission'
+import NoPermission from '@/components/NoPermission'
 import { Opex } from '@/types/database'
 import toast from 'react-hot-toast'
 
 export default function OPEXPage() {
+  const can = usePermission()
   const [opexItems, setOpexItems] = useState<Opex[]>([])
   const [loading, setLoading] = useState(true)
   const [showAddModal, setShowAddModal] = useState(false)
@@ -130,6 +133,10 @@ export default function OPEXPage() {
     }
   }
 
+  if (!can('manage_opex')) {
+    return <NoPermission page="OPEX" />
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -0,0 +1,592 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+import { supabase } from '@/lib/supabase'
+import { usePermission } from '@/hooks/usePermission'
+import NoPermission from '@/components/NoPermission'
+import PurchaseOrderEditor from '@/components/PurchaseOrderEditor'
+import PurchaseOrderDetail from '@/components/PurchaseOrderDetail'
+import { SuggestedOrder, buildSuggestedOrders } from '@/lib/lowStock'
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  SupplierInput,
+  deleteSupplier,
+  fetchPurchaseOrders,
+  fetchSuppliers,
+  saveSupplier,
+} from '@/lib/purchasing'
+import { getUnitLabel, toDisplayQty } from '@/lib/units'
+import { Product, PurchaseOrderStatus, PurchaseOrderWithLines, Supplier } from '@/types/database'
+
+type PurchasingTab = 'orders' | 'suggested' | 'suppliers'
+
+// 'open' = anything still waiting on the supplier
+type StatusFilter = PurchaseOrderStatus | 'open' | 'all'
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-surface-700 text-surface-300',
+  sent: 'bg-blue-500/10 text-blue-400',
+  partially_received: 'bg-yellow-500/10 text-yellow-400',
+  received: 'bg-green-500/10 text-green-400',
+  cancelled: 'bg-red-500/10 text-red-400',
+}
+
+const EMPTY_SUPPLIER_FORM = {
+  name: '',
+  contact_name: '',
+  phone: '',
+  email: '',
+  lead_time_days: '',
+  payment_terms: '',
+  notes: '',
+}
+
+export default function PurchasingPage() {
+  const can = usePermission()
+  const [activeTab, setActiveTab] = useState<PurchasingTab>('orders')
+  const [orders, setOrders] = useState<PurchaseOrderWithLines[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [items, setItems] = useState<Product[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open')
+
+  // Purchase order modals
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrderWithLines | null>(null)
+  const [orderSuggestion, setOrderSuggestion] = useState<SuggestedOrder | undefined>(undefined)
+  const [showOrderEditor, setShowOrderEditor] = useState(false)
+  const [viewingOrderId, setViewingOrderId] = useState<string | null>(null)
+
+  // Supplier modal
+  const [showSupplierModal, setShowSupplierModal] = useState(false)
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null)
+  const [supplierForm, setSupplierForm] = useState(EMPTY_SUPPLIER_FORM)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [orderData, supplierData, { data: itemData, error: itemError }] = await Promise.all([
+        fetchPurchaseOrders(),
+        fetchSuppliers(),
+        (supabase as any).from('products').select('*').order('name'),
+      ])
+      if (itemError) throw itemError
+
+      setOrders(orderData)
+      setSuppliers(supplierData)
+      setItems(itemData || [])
+    } catch (error) {
+      console.error('Error fetching purchasing data:', error)
+      toast.error('Failed to load purchasing data')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const itemsById = new Map(items.map((item) => [item.id, item]))
+
+  const getOrderTotal = (order: PurchaseOrderWithLines) =>
+    order.purchase_order_lines.reduce((sum, line) => {
+      const item = line.item_id ? itemsById.get(line.item_id) : undefined
+      return sum + (item ? toDisplayQty(item.unit_type, line.qty_ordered) * line.expected_unit_cost : 0)
+    }, 0)
+
+  const visibleOrders = orders.filter((order) => {
+    if (statusFilter === 'all') return true
+    if (statusFilter === 'open') return ['draft', 'sent', 'partially_received'].includes(order.status)
+    return order.status === statusFilter
+  })
+
+  const suggestedOrders = buildSuggestedOrders(items, suppliers)
+
+  // Still to be delivered on sent / partially received orders, per item
+  const onOrderByItem = orders
+    .filter((order) => order.status === 'sent' || order.status === 'partially_received')
+    .flatMap((order) => order.purchase_order_lines)
+    .reduce((acc, line) => {
+      if (line.item_id) {
+        acc[line.item_id] = (acc[line.item_id] || 0) + Math.max(line.qty_ordered - line.qty_received, 0)
+      }
+      return acc
+    }, {} as Record<string, number>)
+
+  const formatQty = (item: Product, qty: number) =>
+    `${toDisplayQty(item.unit_type, qty).toLocaleString()} ${getUnitLabel(item.unit_type)}`
+
+  const viewingOrder = orders.find((order) => order.id === viewingOrderId) || null
+
+  const openNewOrder = (suggestion?: SuggestedOrder) => {
+    if (suppliers.length === 0) {
+      toast.error('Add a supplier first')
+      setActiveTab('suppliers')
+      return
+    }
+    setEditingOrder(null)
+    setOrderSuggestion(suggestion)
+    setShowOrderEditor(true)
+  }
+
+  const closeOrderEditor = () => {
+    setShowOrderEditor(false)
+    setEditingOrder(null)
+    setOrderSuggestion(undefined)
+  }
+
+  const handleOrderSaved = () => {
+    closeOrderEditor()
+    fetchData()
+  }
+
+  // Suppliers
+  const openSupplierModal = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier)
+    setSupplierForm(
+      supplier
+        ? {
+            name: supplier.name,
+            contact_name: supplier.contact_name || '',
+            phone: supplier.phone || '',
+            email: supplier.email || '',
+            lead_time_days: String(supplier.lead_time_days),
+            payment_terms: supplier.payment_terms || '',
+            notes: supplier.notes || '',
+          }
+        : EMPTY_SUPPLIER_FORM
+    )
+    setShowSupplierModal(true)
+  }
+
+  const closeSupplierModal = () => {
+    setShowSupplierModal(false)
+    setEditingSupplier(null)
+    setSupplierForm(EMPTY_SUPPLIER_FORM)
+  }
+
+  const handleSupplierSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!supplierForm.name.trim()) {
+      toast.error('Please enter a supplier name')
+      return
+    }
+
+    const leadTime = parseInt(supplierForm.lead_time_days || '0', 10)
+    if (isNaN(leadTime) || leadTime < 0) {
+      toast.error('Please enter a valid lead time')
+      return
+    }
+
+    const supplier: SupplierInput = {
+      name: supplierForm.name.trim(),
+      contact_name: supplierForm.contact_name.trim() || null,
+      phone: supplierForm.phone.trim() || null,
+      email: supplierForm.email.trim() || null,
+      lead_time_days: leadTime,
+      payment_terms: supplierForm.payment_terms.trim() || null,
+      notes: supplierForm.notes.trim() || null,
+    }
+
+    setIsSubmitting(true)
+    try {
+      await saveSupplier(editingSupplier?.id || null, supplier)
+      toast.success(editingSupplier ? 'Supplier updated!' : 'Supplier added!')
+      closeSupplierModal()
+      fetchData()
+    } catch (error: any) {
+      console.error('Error saving supplier:', error)
+      toast.error(error?.code === '23505' ? 'A supplier with that name already exists' : 'Failed to save supplier')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDeleteSupplier = async (supplier: Supplier) => {
+    if (!confirm(`Delete "${supplier.name}"? Existing purchase orders keep the supplier name.`)) return
+
+    try {
+      await deleteSupplier(supplier.id)
+      toast.success('Supplier deleted')
+      fetchData()
+    } catch (error) {
+      console.error('Error deleting supplier:', error)
+      toast.error('Failed to delete supplier')
+    }
+  }
+
+  if (!can('adjust_inventory')) {
+    return <NoPermission page="Purchasing" />
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Purchasing</h1>
+          <p className="text-surface-400 text-sm mt-1">Suppliers, purchase orders and deliveries</p>
+        </div>
+        <button
+          onClick={activeTab === 'suppliers' ? () => openSupplierModal(null) : () => openNewOrder()}
+          className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors flex items-center gap-2"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          {activeTab === 'suppliers' ? 'Add Supplier' : 'New Purchase Order'}
+        </button>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex bg-surface-800 rounded-lg p-1 mb-6 max-w-lg">
+        {(['orders', 'suggested', 'suppliers'] as PurchasingTab[]).map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-all ${
+              activeTab === tab ? 'bg-primary-500 text-white' : 'text-surface-400 hover:text-white'
+            }`}
+          >
+            {tab === 'orders'
+              ? 'Purchase Orders'
+              : tab === 'suggested'
+                ? `Suggested (${suggestedOrders.length})`
+                : `Suppliers (${suppliers.length})`}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'orders' ? (
+        <>
+          <div className="flex items-center gap-2 mb-4">
+            <label className="text-sm text-surface-400">Show</label>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+              className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+            >
+              <option value="open">Open orders</option>
+              <option value="all">All orders</option>
+              {(Object.keys(PURCHASE_ORDER_STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+                <option key={status} value={status}>{PURCHASE_ORDER_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+
+          {visibleOrders.length === 0 ? (
+            <div className="card p-12 text-center">
+              <h3 className="text-lg font-medium text-white mb-2">No purchase orders</h3>
+              <p className="text-surface-400 text-sm">Create a purchase order to track what you&apos;ve ordered from suppliers.</p>
+            </div>
+          ) : (
+            <div className="card overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-surface-800 bg-surface-800/50">
+                    <th className="p-4 text-left text-sm font-medium text-surface-400">PO #</th>
+                    <th className="p-4 text-left text-sm font-medium text-surface-400">Supplier</th>
+                    <th className="p-4 text-left text-sm font-medium text-surface-400">Status</th>
+                    <th className="p-4 text-left text-sm font-medium text-surface-400">Expected</th>
+                    <th className="p-4 text-right text-sm font-medium text-surface-400">Items</th>
+                    <th className="p-4 text-right text-sm font-medium text-surface-400">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleOrders.map((order) => (
+                    <tr
+                      key={order.id}
+                      onClick={() => setViewingOrderId(order.id)}
+                      className="border-b border-surface-800/50 hover:bg-surface-800/30 cursor-pointer"
+                    >
+                      <td className="p-4 text-white font-mono">{order.po_number}</td>
+                      <td className="p-4 text-white">{order.supplier_name}</td>
+                      <td className="p-4">
+                        <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[order.status]}`}>
+                          {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                        </span>
+                      </td>
+                      <td className="p-4 text-surface-400 text-sm">
+                        {order.expected_at ? format(new Date(`${order.expected_at}T00:00:00`), 'MMM d, yyyy') : '—'}
+                      </td>
+                      <td className="p-4 text-right text-surface-400">{order.purchase_order_lines.length}</td>
+                      <td className="p-4 text-right text-primary-500 font-mono">₱{getOrderTotal(order).toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      ) : activeTab === 'suggested' ? (
+        suggestedOrders.length === 0 ? (
+          <div className="card p-12 text-center">
+            <h3 className="text-lg font-medium text-white mb-2">Nothing to reorder</h3>
+            <p className="text-surface-400 text-sm">
+              Items show up here once they drop to the reorder point set on the Inventory page.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {suggestedOrders.map((suggestion) => (
+              <div key={suggestion.supplier?.id || 'none'} className="card overflow-x-auto">
+                <div className="flex items-center justify-between p-4 border-b border-surface-800">
+                  <div>
+                    <h3 className="text-white font-medium">{suggestion.supplier?.name || 'No preferred supplier'}</h3>
+                    {suggestion.supplier && (
+                      <p className="text-surface-500 text-xs">
+                        Lead time {suggestion.supplier.lead_time_days}{' '}
+                        {suggestion.supplier.lead_time_days === 1 ? 'day' : 'days'}
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => openNewOrder(suggestion)}
+                    className="px-3 py-1.5 bg-primary-500/10 hover:bg-primary-500/20 text-primary-400 text-sm font-medium rounded-lg transition-colors"
+                  >
+                    Create Purchase Order
+                  </button>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-surface-800 text-surface-400">
+                      <th className="p-3 text-left font-medium">Item</th>
+                      <th className="p-3 text-right font-medium">On Hand</th>
+                      <th className="p-3 text-right font-medium">Reorder Point</th>
+                      <th className="p-3 text-right font-medium">Par Level</th>
+                      <th className="p-3 text-right font-medium">On Order</th>
+                      <th className="p-3 text-right font-medium">Suggested</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {suggestion.lines.map(({ item, qty }) => (
+                      <tr key={item.id} className="border-b border-surface-800/50">
+                        <td className="p-3 text-white">{item.name}</td>
+                        <td className="p-3 text-right font-mono text-yellow-400">{formatQty(item, item.qty)}</td>
+                        <td className="p-3 text-right font-mono text-surface-300">
+                          {item.reorder_point !== null ? formatQty(item, item.reorder_point) : '—'}
+                        </td>
+                        <td className="p-3 text-right font-mono text-surface-300">
+                          {item.par_level !== null ? formatQty(item, item.par_level) : '—'}
+                        </td>
+                        <td className="p-3 text-right font-mono text-surface-400">
+                          {onOrderByItem[item.id] ? formatQty(item, onOrderByItem[item.id]) : '—'}
+                        </td>
+                        <td className="p-3 text-right font-mono font-bold text-primary-500">{formatQty(item, qty)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )
+      ) : suppliers.length === 0 ? (
+        <div className="card p-12 text-center">
+          <h3 className="text-lg font-medium text-white mb-2">No suppliers yet</h3>
+          <p className="text-surface-400 text-sm">Add the suppliers you order ingredients from.</p>
+        </div>
+      ) : (
+        <div className="card overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-surface-800 bg-surface-800/50">
+                <th className="p-4 text-left text-sm font-medium text-surface-400">Supplier</th>
+                <th className="p-4 text-left text-sm font-medium text-surface-400">Contact</th>
+                <th className="p-4 text-right text-sm font-medium text-surface-400">Lead Time</th>
+                <th className="p-4 text-left text-sm font-medium text-surface-400">Terms</th>
+                <th className="p-4 text-right text-sm font-medium text-surface-400">Items</th>
+                <th className="p-4 text-center text-sm font-medium text-surface-400">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {suppliers.map((supplier) => (
+                <tr key={supplier.id} className="border-b border-surface-800/50 hover:bg-surface-800/30">
+                  <td className="p-4">
+                    <p className="text-white font-medium">{supplier.name}</p>
+                    {supplier.notes && <p className="text-surface-500 text-xs">{supplier.notes}</p>}
+                  </td>
+                  <td className="p-4 text-sm">
+                    <p className="text-surface-300">{supplier.contact_name || '—'}</p>
+                    <p className="text-surface-500 text-xs">
+                      {[supplier.phone, supplier.email].filter(Boolean).join(' · ')}
+                    </p>
+                  </td>
+                  <td className="p-4 text-right text-surface-300">
+                    {supplier.lead_time_days} {supplier.lead_time_days === 1 ? 'day' : 'days'}
+                  </td>
+                  <td className="p-4 text-surface-300 text-sm">{supplier.payment_terms || '—'}</td>
+                  <td className="p-4 text-right text-surface-400">
+                    {items.filter((item) => item.supplier_id === supplier.id).length}
+                  </td>
+                  <td className="p-4">
+                    <div className="flex items-center justify-center gap-2">
+                      <button
+                        onClick={() => openSupplierModal(supplier)}
+                        className="p-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+                        title="Edit"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => handleDeleteSupplier(supplier)}
+                        className="p-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-lg transition-colors"
+                        title="Delete"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Purchase Order Editor */}
+      {showOrderEditor && (
+        <PurchaseOrderEditor
+          order={editingOrder}
+          suggestion={orderSuggestion}
+          suppliers={suppliers}
+          items={items}
+          onClose={closeOrderEditor}
+          onSaved={handleOrderSaved}
+        />
+      )}
+
+      {/* Purchase Order Detail */}
+      {viewingOrder && (
+        <PurchaseOrderDetail
+          key={`${viewingOrder.id}-${viewingOrder.updated_at}`}
+          order={viewingOrder}
+          items={items}
+          onClose={() => setViewingOrderId(null)}
+          onEdit={() => {
+            setEditingOrder(viewingOrder)
+            setViewingOrderId(null)
+            setShowOrderEditor(true)
+          }}
+          onChanged={fetchData}
+        />
+      )}
+
+      {/* Supplier Modal */}
+      {showSupplierModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="card p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-white">{editingSupplier ? 'Edit Supplier' : 'Add Supplier'}</h2>
+              <button onClick={closeSupplierModal} className="text-surface-400 hover:text-white">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={handleSupplierSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={supplierForm.name}
+                  onChange={(e) => setSupplierForm((prev) => ({ ...prev, name: e.target.value }))}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  placeholder="e.g., Metro Rice Trading"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Contact Person</label>
+                <input
+                  type="text"
+                  value={supplierForm.contact_name}
+                  onChange={(e) => setSupplierForm((prev) => ({ ...prev, contact_name: e.target.value }))}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-2">Phone</label>
+                  <input
+                    type="tel"
+                    value={supplierForm.phone}
+                    onChange={(e) => setSupplierForm((prev) => ({ ...prev, phone: e.target.value }))}
+                    className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-2">Email</label>
+                  <input
+                    type="email"
+                    value={supplierForm.email}
+                    onChange={(e) => setSupplierForm((prev) => ({ ...prev, email: e.target.value }))}
+                    className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-2">Lead Time (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={supplierForm.lead_time_days}
+                    onChange={(e) => setSupplierForm((prev) => ({ ...prev, lead_time_days: e.target.value }))}
+                    className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                    placeholder="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-2">Payment Terms</label>
+                  <input
+                    type="text"
+                    value={supplierForm.payment_terms}
+                    onChange={(e) => setSupplierForm((prev) => ({ ...prev, payment_terms: e.target.value }))}
+                    className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                    placeholder="e.g., COD, Net 30"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Notes</label>
+                <input
+                  type="text"
+                  value={supplierForm.notes}
+                  onChange={(e) => setSupplierForm((prev) => ({ ...prev, notes: e.target.value }))}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  placeholder="Optional"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : editingSupplier ? 'Update Supplier' : 'Add Supplier'}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
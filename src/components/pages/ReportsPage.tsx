@@ -2,7 +2,19 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '@/lib/supabase'
-import { Sale, PaymentMethod, CustomerType } from '@/types/database'
+import { usePermission } from '@/hooks/usePermission'
+import NoPermission from '@/components/NoPermission'
+import RefundModal from '@/components/RefundModal'
+import ReceiptModal from '@/components/ReceiptModal'
+import DigitalReceiptModal from '@/components/DigitalReceiptModal'
+import { getCashierKey, getCashierName, getCashierOptions } from '@/lib/cashiers'
+import { fetchRefundsSince, getRefundReasonLabel } from '@/lib/refunds'
+import { formatSaleLineName } from '@/lib/modifiers'
+import { getSaleGross } from '@/lib/discounts'
+import { summarizeTaxes } from '@/lib/taxes'
+import { fetchReceiptDeliveriesSince } from '@/lib/digitalReceipts'
+import { archiveTransactions, fetchTransactionPayments, getPaymentAmounts } from '@/lib/payments'
+import { Sale, SaleRefund, PaymentMethod, CustomerType, ReceiptDelivery, Payment } from '@/types/database'
 import { format, startOfDay, endOfDay, subDays } from 'date-fns'
 import toast from 'react-hot-toast'
 
@@ -15,17 +27,38 @@ interface Transaction {
   id: string
   transaction_number: string
   items: SaleWithEarnings[]
+  // total is after discounts; gross = total + discount + vat_exemption
   total: number
+  gross: number
+  discount: number
+  vat_exemption: number
+  discount_names: string[]
+  discount_id_number: string | null
+  // total = vatable_sales + vat_amount + zero_rated_sales + exempt_sales
+  vatable_sales: number
+  vat_amount: number
+  zero_rated_sales: number
+  exempt_sales: number
   payment_method: string
   customer_type: string
   dine_in_takeout: 'dine_in' | 'takeout'
   created_at: string
   earnings_datetime: string
   customer_payment: number | null
+  cashier_id: string | null
+  cashier_name: string | null
 }
 
 export default function ReportsPage() {
+  const can = usePermission()
+  const canArchive = can('archive_sales')
+  const canEditDetails = can('edit_sale_details')
+  const canEditReportDate = can('edit_report_date')
+  const canVoid = can('void_sales')
   const [sales, setSales] = useState<SaleWithEarnings[]>([])
+  const [refunds, setRefunds] = useState<SaleRefund[]>([])
+  const [receiptDeliveries, setReceiptDeliveries] = useState<ReceiptDelivery[]>([])
+  const [payments, setPayments] = useState<Payment[]>([])
   const [transactions, setTransactions] = useState<Transaction[]>([])
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([])
   const [customerTypes, setCustomerTypes] = useState<CustomerType[]>([])
@@ -34,6 +67,9 @@ export default function ReportsPage() {
   // Date range
   const [startDate, setStartDate] = useState<string>(format(subDays(new Date(), 7), 'yyyy-MM-dd'))
   const [endDate, setEndDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'))
+
+  // Cashier filter ('all' or a key from getCashierKey)
+  const [cashierFilter, setCashierFilter] = useState<string>('all')
   
   // Selection
   const [selectedTransactions, setSelectedTransactions] = useState<Set<string>>(new Set())
@@ -42,6 +78,20 @@ export default function ReportsPage() {
   // Editing
   const [editingField, setEditingField] = useState<string | null>(null)
 
+  // Void / refund
+  const [refundingTransaction, setRefundingTransaction] = useState<Transaction | null>(null)
+  const [receiptTransaction, setReceiptTransaction] = useState<Transaction | null>(null)
+  const [digitalReceiptTransaction, setDigitalReceiptTransaction] = useState<Transaction | null>(null)
+
+  // Email / SMS receipts; the report still loads if these can't be read
+  const fetchReceiptDeliveries = useCallback(async () => {
+    try {
+      setReceiptDeliveries(await fetchReceiptDeliveriesSince(startOfDay(new Date(startDate))))
+    } catch (error) {
+      console.error('Error fetching receipt deliveries:', error)
+    }
+  }, [startDate])
+
   const fetchSales = useCallback(async () => {
     setLoading(true)
     try {
@@ -77,16 +127,38 @@ export default function ReportsPage() {
             transaction_number: sale.transaction_number || txId.substring(0, 8),
             items: [],
             total: 0,
+            gross: 0,
+            discount: 0,
+            vat_exemption: 0,
+            discount_names: [],
+            discount_id_number: null,
+            vatable_sales: 0,
+            vat_amount: 0,
+            zero_rated_sales: 0,
+            exempt_sales: 0,
             payment_method: sale.payment_method,
             customer_type: sale.customer_type,
             dine_in_takeout: sale.dine_in_takeout,
             created_at: sale.created_at,
             earnings_datetime: sale.earnings_datetime || sale.created_at,
-            customer_payment: sale.customer_payment
+            customer_payment: sale.customer_payment,
+            cashier_id: sale.cashier_id,
+            cashier_name: sale.cashier_name
           }
         }
         acc[txId].items.push(sale)
         acc[txId].total += sale.total
+        acc[txId].gross += getSaleGross(sale)
+        acc[txId].discount += sale.discount_amount
+        acc[txId].vat_exemption += sale.vat_exemption_amount
+        if (sale.discount_name && !acc[txId].discount_names.includes(sale.discount_name)) {
+          acc[txId].discount_names.push(sale.discount_name)
+        }
+        acc[txId].discount_id_number = acc[txId].discount_id_number || sale.discount_id_number
+        acc[txId].vatable_sales += sale.vatable_sales
+        acc[txId].vat_amount += sale.vat_amount
+        acc[txId].zero_rated_sales += sale.zero_rated_sales
+        acc[txId].exempt_sales += sale.exempt_sales
         return acc
       }, {} as Record<string, Transaction>)
 
@@ -96,13 +168,22 @@ export default function ReportsPage() {
       )
 
       setTransactions(sortedTransactions)
+      setRefunds(await fetchRefundsSince(dateStart))
+
+      // Without them each transaction shows its sale lines' payment method
+      try {
+        setPayments(await fetchTransactionPayments(sortedTransactions.map((t) => t.id)))
+      } catch (error) {
+        console.error('Error fetching payments:', error)
+      }
+      fetchReceiptDeliveries()
     } catch (error) {
       console.error('Error fetching sales:', error)
       toast.error('Failed to load sales')
     } finally {
       setLoading(false)
     }
-  }, [startDate, endDate])
+  }, [startDate, endDate, fetchReceiptDeliveries])
 
   const fetchOptions = useCallback(async () => {
     const [paymentRes, customerRes] = await Promise.all([
@@ -130,11 +211,56 @@ export default function ReportsPage() {
     })
   }
 
+  // Newest first, as loaded
+  const deliveriesByTransaction: Record<string, ReceiptDelivery[]> = {}
+  receiptDeliveries.forEach((delivery) => {
+    deliveriesByTransaction[delivery.transaction_id] = [
+      ...(deliveriesByTransaction[delivery.transaction_id] || []),
+      delivery,
+    ]
+  })
+
+  // In the order they were entered at the till
+  const paymentsByTransaction: Record<string, Payment[]> = {}
+  payments.forEach((payment) => {
+    paymentsByTransaction[payment.transaction_id] = [
+      ...(paymentsByTransaction[payment.transaction_id] || []),
+      payment,
+    ]
+  })
+
+  // What each payment method took, after voided lines
+  const getTransactionPaymentAmounts = (tx: Transaction) =>
+    getPaymentAmounts(tx.items, paymentsByTransaction[tx.id] || [])
+
+  // Refunds (not voids) already taken against each sale line / transaction
+  const refundedQtyBySale: Record<string, number> = {}
+  const refundedAmountByTransaction: Record<string, number> = {}
+  refunds.forEach((refund) => {
+    if (refund.kind !== 'refund') return
+    if (refund.sale_id) refundedQtyBySale[refund.sale_id] = (refundedQtyBySale[refund.sale_id] || 0) + refund.qty
+    if (refund.transaction_id) {
+      refundedAmountByTransaction[refund.transaction_id] =
+        (refundedAmountByTransaction[refund.transaction_id] || 0) + refund.amount
+    }
+  })
+
+  const cashierOptions = getCashierOptions(transactions)
+  const visibleTransactions = cashierFilter === 'all'
+    ? transactions
+    : transactions.filter((t) => getCashierKey(t) === cashierFilter)
+
+  const handleCashierFilterChange = (value: string) => {
+    setCashierFilter(value)
+    // Don't let hidden transactions stay selected for archiving
+    setSelectedTransactions(new Set())
+  }
+
   const toggleSelectAll = () => {
-    if (selectedTransactions.size === transactions.length) {
+    if (selectedTransactions.size === visibleTransactions.length) {
       setSelectedTransactions(new Set())
     } else {
-      setSelectedTransactions(new Set(transactions.map((t) => t.id)))
+      setSelectedTransactions(new Set(visibleTransactions.map((t) => t.id)))
     }
   }
 
@@ -144,34 +270,53 @@ export default function ReportsPage() {
     try {
       // Get selected transactions
       const selectedTxs = transactions.filter((t) => selectedTransactions.has(t.id))
-      
-      // Get all sale IDs for selected transactions
-      const salesToArchive = sales.filter((s) => selectedTransactions.has(s.transaction_id || s.id))
 
       // Generate CSV with exactly what's shown in the report
       const csvHeaders = [
         'Transaction #',
         'Items',
         'Payment',
+        'Payment Amounts',
         'Customer',
         'Order',
+        'Cashier',
         'Timestamp',
         'Report Date',
-        'Total'
+        'Gross',
+        'Discount',
+        'VAT Exemption',
+        'Discount Type',
+        'Discount ID No.',
+        'Total',
+        'VATable Sales',
+        'VAT',
+        'Zero-rated Sales',
+        'VAT-exempt Sales'
       ]
       
       const csvRows = selectedTxs.map((tx) => {
-        const itemsList = tx.items.map(i => `${i.product_name} (${i.qty}pcs)`).join('; ')
+        const itemsList = tx.items.map(i => `${formatSaleLineName(i)} (${i.qty}pcs)`).join('; ')
         
         return [
           tx.transaction_number,
           `"${itemsList}"`,
           tx.payment_method,
+          `"${getTransactionPaymentAmounts(tx).map((p) => `${p.payment_method} ${p.amount.toFixed(2)}`).join('; ')}"`,
           tx.customer_type,
           tx.dine_in_takeout === 'dine_in' ? 'Dine In' : 'Takeout',
+          `"${getCashierName(tx)}"`,
           format(new Date(tx.created_at), 'MMM d yyyy h:mm a'),
           format(new Date(tx.earnings_datetime), 'MMM d yyyy h:mm a'),
+          tx.gross.toFixed(2),
+          tx.discount.toFixed(2),
+          tx.vat_exemption.toFixed(2),
+          `"${tx.discount_names.join('; ')}"`,
+          `"${tx.discount_id_number || ''}"`,
           tx.total.toFixed(2),
+          tx.vatable_sales.toFixed(2),
+          tx.vat_amount.toFixed(2),
+          tx.zero_rated_sales.toFixed(2),
+          tx.exempt_sales.toFixed(2),
         ]
       })
 
@@ -186,13 +331,8 @@ export default function ReportsPage() {
       a.click()
       window.URL.revokeObjectURL(url)
 
-      // Delete from database
-      const { error } = await supabase
-        .from('sales')
-        .delete()
-        .in('id', salesToArchive.map(s => s.id))
-
-      if (error) throw error
+      // Delete from database, with the transactions' payments
+      await archiveTransactions(selectedTxs.map((t) => t.id))
 
       toast.success('Reports archived and downloaded')
       setSelectedTransactions(new Set())
@@ -213,6 +353,18 @@ export default function ReportsPage() {
 
       if (error) throw error
 
+      // A single payment follows its sale lines' payment method
+      if (field === 'payment_method') {
+        const { error: paymentsError } = await (supabase as any)
+          .from('payments')
+          .update({ payment_method: value })
+          .eq('transaction_id', txId)
+
+        if (paymentsError) throw paymentsError
+
+        setPayments(prev => prev.map(p => p.transaction_id === txId ? { ...p, payment_method: value } : p))
+      }
+
       // Update local state
       setSales(prev => prev.map(s => 
         (s.transaction_id || s.id) === txId ? { ...s, [field]: value } : s
@@ -268,6 +420,10 @@ export default function ReportsPage() {
     }
   }
 
+  if (!can('view_reports')) {
+    return <NoPermission page="Reports" />
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -276,7 +432,18 @@ export default function ReportsPage() {
     )
   }
 
-  const totalSales = transactions.reduce((sum, t) => sum + t.total, 0)
+  const totalSales = visibleTransactions.reduce((sum, t) => sum + t.total, 0)
+  const totalGross = visibleTransactions.reduce((sum, t) => sum + t.gross, 0)
+  const totalDiscounts = visibleTransactions.reduce((sum, t) => sum + t.discount, 0)
+  const totalVatExemptions = visibleTransactions.reduce((sum, t) => sum + t.vat_exemption, 0)
+  const totalTaxes = summarizeTaxes(visibleTransactions)
+
+  // Refunds count against the day they were made, so this uses refunded_at
+  const rangeEnd = endOfDay(new Date(endDate))
+  const refundsInRange = refunds.filter((r) => new Date(r.refunded_at) <= rangeEnd)
+  const totalRefunds = refundsInRange
+    .filter((r) => r.kind === 'refund')
+    .reduce((sum, r) => sum + r.amount, 0)
 
   return (
     <div className="max-w-7xl mx-auto">
@@ -303,8 +470,20 @@ export default function ReportsPage() {
               className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
             />
           </div>
+
+          {/* Cashier */}
+          <select
+            value={cashierFilter}
+            onChange={(e) => handleCashierFilterChange(e.target.value)}
+            className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+          >
+            <option value="all">All cashiers</option>
+            {cashierOptions.map((option) => (
+              <option key={option.key} value={option.key}>{option.name}</option>
+            ))}
+          </select>
           
-          {selectedTransactions.size > 0 && (
+          {canArchive && selectedTransactions.size > 0 && (
             <button
               onClick={() => setShowArchiveModal(true)}
               className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors flex items-center gap-2"
@@ -326,26 +505,32 @@ export default function ReportsPage() {
         </p>
       </div>
 
-      {transactions.length === 0 ? (
+      {visibleTransactions.length === 0 ? (
         <div className="card p-12 text-center">
           <svg className="w-12 h-12 text-surface-600 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
           </svg>
-          <h3 className="text-lg font-medium text-white mb-2">No sales in this date range</h3>
-          <p className="text-surface-400 text-sm">Try selecting a different date range</p>
+          <h3 className="text-lg font-medium text-white mb-2">
+            {transactions.length === 0 ? 'No sales in this date range' : 'No sales by this cashier in this date range'}
+          </h3>
+          <p className="text-surface-400 text-sm">
+            {transactions.length === 0 ? 'Try selecting a different date range' : 'Try selecting a different cashier'}
+          </p>
         </div>
       ) : (
         <div className="space-y-4">
           {/* Select All */}
-          <div className="flex items-center gap-2 px-2">
-            <input
-              type="checkbox"
-              checked={selectedTransactions.size === transactions.length && transactions.length > 0}
-              onChange={toggleSelectAll}
-              className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
-            />
-            <span className="text-surface-400 text-sm">Select All ({transactions.length} transactions)</span>
-          </div>
+          {canArchive && (
+            <div className="flex items-center gap-2 px-2">
+              <input
+                type="checkbox"
+                checked={selectedTransactions.size === visibleTransactions.length && visibleTransactions.length > 0}
+                onChange={toggleSelectAll}
+                className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
+              />
+              <span className="text-surface-400 text-sm">Select All ({visibleTransactions.length} transactions)</span>
+            </div>
+          )}
 
           {/* Transactions Table */}
           <div className="card overflow-hidden">
@@ -353,12 +538,13 @@ export default function ReportsPage() {
               <table className="w-full">
                 <thead>
                   <tr className="border-b border-surface-800 bg-surface-800/50">
-                    <th className="p-4 text-left w-12"></th>
+                    {canArchive && <th className="p-4 text-left w-12"></th>}
                     <th className="p-4 text-left text-sm font-medium text-surface-400">Transaction #</th>
                     <th className="p-4 text-left text-sm font-medium text-surface-400">Items</th>
                     <th className="p-4 text-left text-sm font-medium text-surface-400">Payment</th>
                     <th className="p-4 text-left text-sm font-medium text-surface-400">Customer</th>
                     <th className="p-4 text-left text-sm font-medium text-surface-400">Order</th>
+                    <th className="p-4 text-left text-sm font-medium text-surface-400">Cashier</th>
                     <th className="p-4 text-left text-sm font-medium text-surface-400">
                       <span className="text-surface-500">Timestamp</span>
                     </th>
@@ -366,31 +552,45 @@ export default function ReportsPage() {
                       <span className="text-primary-400">Report Date</span>
                     </th>
                     <th className="p-4 text-right text-sm font-medium text-surface-400">Total</th>
+                    <th className="p-4 w-12"></th>
+                    {canVoid && <th className="p-4 w-12"></th>}
                   </tr>
                 </thead>
                 <tbody>
-                  {transactions.map((tx) => (
+                  {visibleTransactions.map((tx) => (
                     <tr key={tx.id} className="border-b border-surface-800/50 hover:bg-surface-800/30">
-                      <td className="p-4">
-                        <input
-                          type="checkbox"
-                          checked={selectedTransactions.has(tx.id)}
-                          onChange={() => toggleSelectTransaction(tx.id)}
-                          className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
-                        />
-                      </td>
+                      {canArchive && (
+                        <td className="p-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedTransactions.has(tx.id)}
+                            onChange={() => toggleSelectTransaction(tx.id)}
+                            className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
+                          />
+                        </td>
+                      )}
                       <td className="p-4">
                         <span className="text-white font-mono text-sm">{tx.transaction_number}</span>
                       </td>
                       <td className="p-4">
                         <div className="max-w-xs">
                           <span className="text-white text-sm">
-                            {tx.items.map(i => `${i.product_name} (${i.qty}pcs)`).join(', ')}
+                            {tx.items.map(i => `${formatSaleLineName(i)} (${i.qty}pcs)`).join(', ')}
                           </span>
                         </div>
                       </td>
                       <td className="p-4">
-                        {editingField === `${tx.id}-payment` ? (
+                        {(paymentsByTransaction[tx.id]?.length || 0) > 1 ? (
+                          // Split payments can't be changed to a single method
+                          <div className="space-y-0.5">
+                            {getTransactionPaymentAmounts(tx).map((p) => (
+                              <p key={p.payment_method} className="text-surface-300 text-sm whitespace-nowrap">
+                                {p.payment_method}{' '}
+                                <span className="text-surface-500 font-mono">₱{p.amount.toFixed(2)}</span>
+                              </p>
+                            ))}
+                          </div>
+                        ) : editingField === `${tx.id}-payment` ? (
                           <select
                             value={tx.payment_method}
                             onChange={(e) => handleUpdateTransaction(tx.id, 'payment_method', e.target.value)}
@@ -405,7 +605,8 @@ export default function ReportsPage() {
                         ) : (
                           <button
                             onClick={() => setEditingField(`${tx.id}-payment`)}
-                            className="text-surface-300 hover:text-white text-sm"
+                            disabled={!canEditDetails}
+                            className="text-surface-300 hover:text-white disabled:hover:text-surface-300 text-sm"
                           >
                             {tx.payment_method}
                           </button>
@@ -427,7 +628,8 @@ export default function ReportsPage() {
                         ) : (
                           <button
                             onClick={() => setEditingField(`${tx.id}-customer`)}
-                            className="text-surface-300 hover:text-white text-sm"
+                            disabled={!canEditDetails}
+                            className="text-surface-300 hover:text-white disabled:hover:text-surface-300 text-sm"
                           >
                             {tx.customer_type}
                           </button>
@@ -448,6 +650,7 @@ export default function ReportsPage() {
                         ) : (
                           <button
                             onClick={() => setEditingField(`${tx.id}-order`)}
+                            disabled={!canEditDetails}
                             className={`px-2 py-1 rounded text-xs font-medium ${
                               tx.dine_in_takeout === 'dine_in' 
                                 ? 'bg-blue-500/20 text-blue-400' 
@@ -458,6 +661,9 @@ export default function ReportsPage() {
                           </button>
                         )}
                       </td>
+                      <td className="p-4 text-surface-300 text-sm">
+                        {getCashierName(tx)}
+                      </td>
                       <td className="p-4 text-surface-500 text-sm font-mono">
                         {format(new Date(tx.created_at), 'MMM d yyyy h:mm a')}
                       </td>
@@ -474,15 +680,67 @@ export default function ReportsPage() {
                         ) : (
                           <button
                             onClick={() => setEditingField(`${tx.id}-earnings`)}
-                            className="text-primary-400 hover:text-primary-300 text-sm font-mono"
+                            disabled={!canEditReportDate}
+                            className="text-primary-400 hover:text-primary-300 disabled:hover:text-primary-400 text-sm font-mono"
                           >
                             {format(new Date(tx.earnings_datetime), 'MMM d yyyy h:mm a')}
                           </button>
                         )}
                       </td>
-                      <td className="p-4 text-right text-primary-500 font-bold font-mono">
-                        ₱{tx.total.toFixed(2)}
+                      <td className="p-4 text-right font-mono">
+                        <span className="text-primary-500 font-bold">₱{tx.total.toFixed(2)}</span>
+                        {tx.discount + tx.vat_exemption > 0 && (
+                          <p
+                            className="text-green-400 text-xs"
+                            title={tx.discount_id_number ? `ID ${tx.discount_id_number}` : undefined}
+                          >
+                            -₱{(tx.discount + tx.vat_exemption).toFixed(2)} {tx.discount_names.join(', ')}
+                          </p>
+                        )}
+                        {refundedAmountByTransaction[tx.id] > 0 && (
+                          <p className="text-red-400 text-xs">-₱{refundedAmountByTransaction[tx.id].toFixed(2)} refunded</p>
+                        )}
+                      </td>
+                      <td className="p-4 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => setReceiptTransaction(tx)}
+                          className="p-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+                          title="Reprint receipt"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={() => setDigitalReceiptTransaction(tx)}
+                          className={`p-2 hover:bg-surface-800 rounded-lg transition-colors ${
+                            deliveriesByTransaction[tx.id]?.[0]?.status === 'failed'
+                              ? 'text-red-400 hover:text-red-300'
+                              : deliveriesByTransaction[tx.id]?.[0]?.status === 'sent'
+                                ? 'text-green-400 hover:text-green-300'
+                                : 'text-surface-400 hover:text-white'
+                          }`}
+                          title={
+                            deliveriesByTransaction[tx.id]?.[0]
+                              ? `Receipt ${deliveriesByTransaction[tx.id][0].status} to ${deliveriesByTransaction[tx.id][0].recipient}`
+                              : 'Email / SMS receipt'
+                          }
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                          </svg>
+                        </button>
                       </td>
+                      {canVoid && (
+                        <td className="p-4 text-right">
+                          <button
+                            onClick={() => setRefundingTransaction(tx)}
+                            className="px-3 py-1.5 text-sm text-red-400 hover:text-white hover:bg-red-500 rounded-lg transition-colors border border-red-500/30 whitespace-nowrap"
+                          >
+                            Void / Refund
+                          </button>
+                        </td>
+                      )}
                     </tr>
                   ))}
                 </tbody>
@@ -492,6 +750,24 @@ export default function ReportsPage() {
 
           {/* Total Summary */}
           <div className="card p-4 bg-primary-500/10 border border-primary-500/20">
+            {totalDiscounts + totalVatExemptions > 0 && (
+              <div className="mb-2 pb-2 border-b border-primary-500/20 space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-surface-400">Gross Sales</span>
+                  <span className="text-white font-mono">₱{totalGross.toFixed(2)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-surface-400">Discounts</span>
+                  <span className="text-green-400 font-mono">-₱{totalDiscounts.toFixed(2)}</span>
+                </div>
+                {totalVatExemptions > 0 && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-surface-400">VAT Exemption (Senior / PWD)</span>
+                    <span className="text-green-400 font-mono">-₱{totalVatExemptions.toFixed(2)}</span>
+                  </div>
+                )}
+              </div>
+            )}
             <div className="flex items-center justify-between">
               <span className="text-surface-400 font-medium text-lg">
                 Total Sales ({startDate === endDate ? format(new Date(startDate), 'MMM d, yyyy') : `${format(new Date(startDate), 'MMM d')} - ${format(new Date(endDate), 'MMM d, yyyy')}`})
@@ -500,10 +776,130 @@ export default function ReportsPage() {
                 ₱{totalSales.toFixed(2)}
               </span>
             </div>
+            {totalSales > 0 && (
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-2 text-sm">
+                <div>
+                  <p className="text-surface-500 text-xs">VATable Sales</p>
+                  <p className="text-white font-mono">₱{totalTaxes.vatableSales.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-surface-500 text-xs">VAT</p>
+                  <p className="text-white font-mono">₱{totalTaxes.vatAmount.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-surface-500 text-xs">Zero-rated Sales</p>
+                  <p className="text-white font-mono">₱{totalTaxes.zeroRatedSales.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-surface-500 text-xs">VAT-exempt Sales</p>
+                  <p className="text-white font-mono">₱{totalTaxes.exemptSales.toFixed(2)}</p>
+                </div>
+              </div>
+            )}
+            {totalRefunds > 0 && (
+              <>
+                <div className="flex items-center justify-between mt-2">
+                  <span className="text-surface-400">Refunds</span>
+                  <span className="text-red-400 font-mono">-₱{totalRefunds.toFixed(2)}</span>
+                </div>
+                <div className="flex items-center justify-between mt-2 pt-2 border-t border-primary-500/20">
+                  <span className="text-surface-400 font-medium">Net Sales</span>
+                  <span className="text-white font-bold font-mono">₱{(totalSales - totalRefunds).toFixed(2)}</span>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Refunds & Voids */}
+      {refundsInRange.length > 0 && (
+        <div className="card overflow-hidden mt-6">
+          <div className="p-6 pb-4">
+            <h3 className="text-lg font-semibold text-white">Refunds & Voids</h3>
+            <p className="text-surface-400 text-sm mt-1">Recorded in this date range</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-surface-800 bg-surface-800/50">
+                  <th className="p-4 text-left text-sm font-medium text-surface-400">When</th>
+                  <th className="p-4 text-left text-sm font-medium text-surface-400">Transaction #</th>
+                  <th className="p-4 text-left text-sm font-medium text-surface-400">Item</th>
+                  <th className="p-4 text-left text-sm font-medium text-surface-400">Type</th>
+                  <th className="p-4 text-left text-sm font-medium text-surface-400">Reason</th>
+                  <th className="p-4 text-left text-sm font-medium text-surface-400">By</th>
+                  <th className="p-4 text-right text-sm font-medium text-surface-400">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {refundsInRange.map((refund) => (
+                  <tr key={refund.id} className="border-b border-surface-800/50">
+                    <td className="p-4 text-surface-500 text-sm font-mono">
+                      {format(new Date(refund.refunded_at), 'MMM d yyyy h:mm a')}
+                    </td>
+                    <td className="p-4 text-white text-sm font-mono">{refund.transaction_number || '-'}</td>
+                    <td className="p-4 text-white text-sm">
+                      {refund.product_name} ({refund.qty}pcs)
+                      {!refund.restocked && <span className="text-surface-500 text-xs ml-2">not restocked</span>}
+                    </td>
+                    <td className="p-4">
+                      <span
+                        className={`px-2 py-1 rounded text-xs font-medium ${
+                          refund.kind === 'void' ? 'bg-surface-700 text-surface-300' : 'bg-red-500/20 text-red-400'
+                        }`}
+                      >
+                        {refund.kind === 'void' ? 'Void' : 'Refund'}
+                      </span>
+                    </td>
+                    <td className="p-4 text-surface-300 text-sm">
+                      {getRefundReasonLabel(refund.reason_code)}
+                      {refund.note && <p className="text-surface-500 text-xs">{refund.note}</p>}
+                    </td>
+                    <td className="p-4 text-surface-300 text-sm">{refund.refunded_by_name || '-'}</td>
+                    <td className="p-4 text-right text-red-400 font-mono text-sm">₱{refund.amount.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
         </div>
       )}
 
+      {/* Void / Refund Modal */}
+      {refundingTransaction && (
+        <RefundModal
+          transactionNumber={refundingTransaction.transaction_number}
+          items={refundingTransaction.items}
+          refundedQty={refundedQtyBySale}
+          onClose={() => setRefundingTransaction(null)}
+          onDone={() => {
+            setRefundingTransaction(null)
+            fetchSales()
+          }}
+        />
+      )}
+
+      {/* Receipt Reprint */}
+      {receiptTransaction && (
+        <ReceiptModal
+          sales={receiptTransaction.items}
+          payments={paymentsByTransaction[receiptTransaction.id]}
+          reprint
+          onClose={() => setReceiptTransaction(null)}
+        />
+      )}
+
+      {/* Email / SMS Receipt */}
+      {digitalReceiptTransaction && (
+        <DigitalReceiptModal
+          sales={digitalReceiptTransaction.items}
+          deliveries={deliveriesByTransaction[digitalReceiptTransaction.id] || []}
+          onClose={() => setDigitalReceiptTransaction(null)}
+          onSent={fetchReceiptDeliveries}
+        />
+      )}
+
       {/* Archive Confirmation Modal */}
       {showArchiveModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -2,11 +2,35 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { supabase, getProductImageUrl, PRODUCT_IMAGES_BUCKET } from '@/lib/supabase'
-import { PaymentMethod, CustomerType } from '@/types/database'
+import {
+  PaymentMethod,
+  CustomerType,
+  ModifierGroupWithModifiers,
+  ModifierWithIngredients,
+  ComboSlotOption,
+  ComboSlotWithOptions,
+  Discount,
+  Sale,
+  Payment,
+  PaymentTender,
+  TaxCategory,
+  ReceiptChannel,
+} from '@/types/database'
 import { useNotifications } from '@/contexts/NotificationContext'
 import { useAuth } from '@/contexts/AuthContext'
-import { format } from 'date-fns'
+import { usePermission } from '@/hooks/usePermission'
+import { processCheckout } from '@/lib/checkout'
+import { fetchOpenShift } from '@/lib/shifts'
+import { describeSelectionRule, fetchModifierGroups, formatModifiers } from '@/lib/modifiers'
+import { fetchComboSlots, splitComboPrice } from '@/lib/combos'
+import { DiscountLine, calculateCartDiscounts, calculateDiscount, describeDiscount, fetchDiscounts } from '@/lib/discounts'
+import { fetchVatRate, getProductVatRate } from '@/lib/taxes'
+import { printAfterCheckout } from '@/lib/printers'
+import { addTender, getTenderError, summarizeTenders } from '@/lib/payments'
+import { RECEIPT_CHANNELS, normalizeRecipient, sendDigitalReceipt } from '@/lib/digitalReceipts'
 import toast from 'react-hot-toast'
+import StaffSwitchModal from '@/components/StaffSwitchModal'
+import ReceiptModal from '@/components/ReceiptModal'
 
 interface FinishedProduct {
   id: string
@@ -14,6 +38,8 @@ interface FinishedProduct {
   image_url: string | null
   selling_price: number
   opex_cost: number
+  is_combo: boolean
+  tax_category: TaxCategory
   created_at: string
   updated_at: string
 }
@@ -36,14 +62,37 @@ interface InventoryItem {
 interface CartItem {
   product: FinishedProduct
   quantity: number
+  modifiers: ModifierWithIngredients[]
+  // Combos only: the option picked for each slot, in slot order
+  comboOptions: ComboSlotOption[]
+  // Item discount; lines without one get the order discount
+  discount: Discount | null
 }
 
+// The same product with the same modifiers (or combo choices) and discount is one cart line
+const getCartItemKey = (
+  productId: string,
+  modifiers: { id: string }[],
+  comboOptions: { id: string }[] = [],
+  discount: { id: string } | null = null
+) => [productId, ...modifiers.map(m => m.id).sort(), ...comboOptions.map(o => o.id), discount?.id || ''].join(':')
+
+const getUnitPrice = (item: Pick<CartItem, 'product' | 'modifiers' | 'comboOptions'>) =>
+  item.product.selling_price +
+  item.modifiers.reduce((sum, m) => sum + m.price_delta, 0) +
+  item.comboOptions.reduce((sum, o) => sum + o.price_delta, 0)
+
 export default function SalesPage() {
   const { user } = useAuth()
-  const { addRecentSale } = useNotifications()
+  const can = usePermission()
+  const { addRecentTransaction, checkLowStock } = useNotifications()
   const [products, setProducts] = useState<FinishedProduct[]>([])
   const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([])
   const [productIngredients, setProductIngredients] = useState<Record<string, ProductIngredient[]>>({})
+  const [modifierGroups, setModifierGroups] = useState<Record<string, ModifierGroupWithModifiers[]>>({})
+  const [comboSlots, setComboSlots] = useState<Record<string, ComboSlotWithOptions[]>>({})
+  const [discounts, setDiscounts] = useState<Discount[]>([])
+  const [vatRate, setVatRate] = useState(0)
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([])
   const [customerTypes, setCustomerTypes] = useState<CustomerType[]>([])
   const [loading, setLoading] = useState(true)
@@ -54,27 +103,54 @@ export default function SalesPage() {
   const [selectedCustomerType, setSelectedCustomerType] = useState<string>('')
   const [selectedDineInTakeout, setSelectedDineInTakeout] = useState<'dine_in' | 'takeout' | null>(null)
   const [customerPayment, setCustomerPayment] = useState<string>('')
+  // Payments already added when the customer splits across payment methods;
+  // the method and amount above are the one being entered
+  const [splitTenders, setSplitTenders] = useState<PaymentTender[]>([])
+  // Order discount, and the Senior Citizen / PWD ID it may need
+  const [orderDiscountId, setOrderDiscountId] = useState<string | null>(null)
+  const [discountIdNumber, setDiscountIdNumber] = useState('')
+  const [discountHolderName, setDiscountHolderName] = useState('')
+  // Email or SMS receipt requested by the customer
+  const [receiptChannel, setReceiptChannel] = useState<ReceiptChannel | null>(null)
+  const [receiptRecipient, setReceiptRecipient] = useState('')
   const [isCheckingOut, setIsCheckingOut] = useState(false)
+  // Sale lines of the transaction just completed, for its receipt
+  const [receiptSales, setReceiptSales] = useState<Sale[] | null>(null)
+  const [receiptPayments, setReceiptPayments] = useState<Payment[]>([])
 
   // Product/Cart item modal state
   const [selectedProduct, setSelectedProduct] = useState<FinishedProduct | null>(null)
   const [editingCartItem, setEditingCartItem] = useState<CartItem | null>(null)
   const [modalQuantity, setModalQuantity] = useState<string>('1')
+  const [selectedModifierIds, setSelectedModifierIds] = useState<string[]>([])
+  // Combo slot id -> picked option id; slots left out use their first option
+  const [selectedComboOptionIds, setSelectedComboOptionIds] = useState<Record<string, string>>({})
+  const [selectedLineDiscountId, setSelectedLineDiscountId] = useState<string | null>(null)
 
   // Delete confirmation modal
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [deletingProduct, setDeletingProduct] = useState<FinishedProduct | null>(null)
 
-  const isOwner = user?.role === 'owner'
+  // Cash drawer shift (only used to warn when none is open)
+  const [hasOpenShift, setHasOpenShift] = useState(true)
+
+  // Staff quick switch
+  const [showSwitchUser, setShowSwitchUser] = useState(false)
+
+  const canDeleteProducts = can('adjust_inventory')
 
   const fetchData = useCallback(async () => {
     try {
-      const [productsRes, inventoryRes, ingredientsRes, paymentRes, customerRes] = await Promise.all([
+      const [productsRes, inventoryRes, ingredientsRes, paymentRes, customerRes, groups, slots, discountList, rate] = await Promise.all([
         supabase.from('finished_products').select('*').order('name'),
         supabase.from('products').select('*').order('name'),
         supabase.from('product_ingredients').select('*'),
         supabase.from('payment_methods').select('*').order('name'),
         supabase.from('customer_types').select('*').order('name'),
+        fetchModifierGroups(),
+        fetchComboSlots(),
+        fetchDiscounts(),
+        fetchVatRate(),
       ])
 
       if (productsRes.data) setProducts(productsRes.data)
@@ -89,6 +165,25 @@ export default function SalesPage() {
         setProductIngredients(grouped)
       }
       
+      setModifierGroups(
+        groups.reduce((acc: Record<string, ModifierGroupWithModifiers[]>, group) => {
+          if (!acc[group.product_id]) acc[group.product_id] = []
+          acc[group.product_id].push(group)
+          return acc
+        }, {})
+      )
+
+      setComboSlots(
+        slots.reduce((acc: Record<string, ComboSlotWithOptions[]>, slot) => {
+          if (!acc[slot.combo_id]) acc[slot.combo_id] = []
+          acc[slot.combo_id].push(slot)
+          return acc
+        }, {})
+      )
+
+      setDiscounts(discountList.filter(d => d.active))
+      setVatRate(rate)
+
       if (paymentRes.data) setPaymentMethods(paymentRes.data)
       if (customerRes.data) setCustomerTypes(customerRes.data)
     } catch (error) {
@@ -103,6 +198,12 @@ export default function SalesPage() {
     fetchData()
   }, [fetchData])
 
+  useEffect(() => {
+    fetchOpenShift()
+      .then((shift) => setHasOpenShift(!!shift))
+      .catch((error) => console.error('Error fetching shift:', error))
+  }, [])
+
   // Get inventory stock in the same unit as ingredients
   const getInventoryInIngredientUnit = (item: InventoryItem): number => {
     if (item.unit_type === 'weight') return item.qty * 1000 // kg to g
@@ -110,77 +211,155 @@ export default function SalesPage() {
     return item.qty // pieces
   }
 
-  // Check if product is out of stock (any ingredient has 0 stock)
-  const isProductOutOfStock = (product: FinishedProduct): boolean => {
-    const ingredients = productIngredients[product.id] || []
-    if (ingredients.length === 0) return true
-    
-    return ingredients.some(ing => {
-      const item = inventoryItems.find(i => i.id === ing.item_id)
-      if (!item) return true
-      const availableQty = getInventoryInIngredientUnit(item)
-      return availableQty < ing.qty
+  // What one unit of a product with these modifiers uses, per inventory item
+  // in ingredient units. Like process_checkout(), removing more than the
+  // recipe has stops at zero. A combo uses its chosen components' recipes.
+  const getUnitIngredients = (
+    product: FinishedProduct,
+    modifiers: ModifierWithIngredients[] = [],
+    comboOptions: ComboSlotOption[] = []
+  ): Record<string, number> => {
+    const usage: Record<string, number> = {}
+    const recipe = product.is_combo
+      ? comboOptions.flatMap(o => productIngredients[o.product_id] || [])
+      : productIngredients[product.id] || []
+    recipe.forEach(ing => {
+      usage[ing.item_id] = (usage[ing.item_id] || 0) + ing.qty
+    })
+    modifiers.forEach(m => m.modifier_ingredients.forEach(ing => {
+      usage[ing.item_id] = (usage[ing.item_id] || 0) + ing.qty
+    }))
+    Object.keys(usage).forEach(itemId => {
+      if (usage[itemId] <= 0) delete usage[itemId]
     })
+    return usage
   }
 
-  // Calculate product cost based on ingredients only (no OPEX per unit)
-  const calculateProductCost = (product: FinishedProduct): number => {
-    const ingredients = productIngredients[product.id] || []
-    const ingredientCost = ingredients.reduce((total, ing) => {
-      const item = inventoryItems.find(i => i.id === ing.item_id)
-      return total + (item ? item.cost * ing.qty : 0)
-    }, 0)
-    return ingredientCost
+  // Ingredient demand of the cart in ingredient units, per inventory item.
+  // excludeItems leaves those cart lines out.
+  const getCartDemand = (excludeItems: (CartItem | null | undefined)[] = []): Record<string, number> =>
+    cart.reduce((acc, cartItem) => {
+      if (excludeItems.includes(cartItem)) return acc
+      Object.entries(getUnitIngredients(cartItem.product, cartItem.modifiers, cartItem.comboOptions)).forEach(([itemId, qty]) => {
+        acc[itemId] = (acc[itemId] || 0) + qty * cartItem.quantity
+      })
+      return acc
+    }, {} as Record<string, number>)
+
+  // A combo's first option in every slot, i.e. what it is unless the
+  // cashier picks something else
+  const getDefaultComboOptions = (product: FinishedProduct): ComboSlotOption[] =>
+    (comboSlots[product.id] || []).map(slot => slot.combo_slot_options[0]).filter(Boolean)
+
+  // Servings of a product (with these modifiers or combo choices) that can
+  // be made from current stock, minus whatever `reserved` (e.g. the rest of
+  // the cart) already needs
+  const getServingsMakeable = (
+    product: FinishedProduct,
+    reserved: Record<string, number> = {},
+    modifiers: ModifierWithIngredients[] = [],
+    comboOptions: ComboSlotOption[] = product.is_combo ? getDefaultComboOptions(product) : []
+  ): number => {
+    const ingredients = Object.entries(getUnitIngredients(product, modifiers, comboOptions))
+    if ((!product.is_combo && (productIngredients[product.id] || []).length === 0) || ingredients.length === 0) return 0
+
+    return Math.max(
+      0,
+      Math.min(
+        ...ingredients.map(([itemId, qty]) => {
+          const item = inventoryItems.find(i => i.id === itemId)
+          if (!item) return 0
+          const availableQty = getInventoryInIngredientUnit(item) - (reserved[itemId] || 0)
+          // Small epsilon so kg -> g rounding (0.29 * 1000) doesn't lose a serving
+          return Math.floor(availableQty / qty + 1e-9)
+        })
+      )
+    )
   }
 
-  // Cart calculations
-  const cartTotal = cart.reduce((sum, item) => sum + (item.quantity * item.product.selling_price), 0)
+  // The sale lines process_checkout() makes from a cart item (one per
+  // product of a combo), with the VAT each one's price includes
+  const getDiscountLines = (
+    item: Pick<CartItem, 'product' | 'modifiers' | 'comboOptions'>,
+    quantity: number
+  ): DiscountLine[] => {
+    if (!item.product.is_combo) {
+      return [
+        {
+          gross: quantity * getUnitPrice(item),
+          qty: quantity,
+          vatRate: getProductVatRate(item.product.tax_category, vatRate),
+        },
+      ]
+    }
+
+    const components = item.comboOptions.map(o => products.find(p => p.id === o.product_id))
+    const shares = splitComboPrice(item.product.selling_price, components.map(p => p?.selling_price || 0))
+
+    return item.comboOptions.map((option, index) => ({
+      gross: quantity * (shares[index] + option.price_delta),
+      qty: quantity,
+      vatRate: getProductVatRate(components[index]?.tax_category || 'vatable', vatRate),
+    }))
+  }
+
+  // Cart calculations (process_checkout() works out the same discounts)
+  const orderDiscounts = discounts.filter(d => d.scope === 'order')
+  const lineDiscounts = discounts.filter(d => d.scope === 'line')
+  const orderDiscount = orderDiscounts.find(d => d.id === orderDiscountId) || null
+  const cartDiscounts = calculateCartDiscounts(
+    cart.flatMap((item, cartIndex) =>
+      getDiscountLines(item, item.quantity).map(line => ({ ...line, cartIndex, discount: item.discount }))
+    ),
+    orderDiscount
+  )
+  const cartTotal = cartDiscounts.total
   const paymentAmount = parseFloat(customerPayment) || 0
-  const changeAmount = paymentAmount - cartTotal
+  const tenders = selectedPaymentMethod && paymentAmount > 0
+    ? addTender(splitTenders, { payment_method: selectedPaymentMethod, amount: paymentAmount })
+    : splitTenders
+  const tenderSummary = summarizeTenders(tenders, cartTotal)
+  const tenderError = getTenderError(tenders, cartTotal)
+  // Still to pay before the payment being entered
+  const splitRemaining = summarizeTenders(splitTenders, cartTotal).remaining
+  const changeAmount = tenderSummary.tendered - cartTotal
+  const discountNeedingId = [orderDiscount, ...cart.map(item => item.discount)].find(d => d?.requires_id)
 
   // Check if checkout is valid
   const canCheckout = cart.length > 0 && 
-    selectedPaymentMethod && 
+    tenders.length > 0 && 
     selectedCustomerType && 
     selectedDineInTakeout && 
-    paymentAmount >= cartTotal
-
-  // Generate transaction number (YY-MM-XXXXX format, resets monthly)
-  const generateTransactionNumber = async (): Promise<string> => {
-    const now = new Date()
-    const yearMonth = format(now, 'yy-MM')
-    
-    try {
-      // Get the highest transaction number for this month
-      const { data } = await supabase
-        .from('sales')
-        .select('transaction_number')
-        .like('transaction_number', `${yearMonth}-%`)
-        .order('transaction_number', { ascending: false })
-        .limit(1)
-
-      let nextNum = 1
-      if (data && data.length > 0 && data[0].transaction_number) {
-        const lastNum = parseInt(data[0].transaction_number.split('-')[2]) || 0
-        nextNum = lastNum + 1
-      }
-
-      return `${yearMonth}-${nextNum.toString().padStart(5, '0')}`
-    } catch (error) {
-      console.error('Error generating transaction number:', error)
-      return `${yearMonth}-00001`
+    (!discountNeedingId || discountIdNumber.trim()) &&
+    (!receiptChannel || normalizeRecipient(receiptChannel, receiptRecipient)) &&
+    !tenderError
+
+  // A customer type with its own order discount (e.g. Senior) picks it;
+  // switching away drops it again
+  const handleCustomerTypeSelect = (customerType: CustomerType) => {
+    setSelectedCustomerType(customerType.name)
+    const linked = orderDiscounts.find(d => d.customer_type_id === customerType.id)
+    if (linked) {
+      setOrderDiscountId(linked.id)
+    } else if (orderDiscount?.customer_type_id) {
+      setOrderDiscountId(null)
     }
   }
 
-  // Open modal for product
+  // Open modal for product. Products with modifiers or combo choices always
+  // start a new line so a different variation can be added.
   const handleProductClick = (product: FinishedProduct) => {
-    const existingItem = cart.find(item => item.product.id === product.id)
+    const hasChoices =
+      !!modifierGroups[product.id] || (comboSlots[product.id] || []).some(slot => slot.combo_slot_options.length > 1)
+    const existingItem = !hasChoices && cart.find(item => item.product.id === product.id)
     if (existingItem) {
-      setEditingCartItem(existingItem)
-      setModalQuantity(existingItem.quantity.toString())
+      handleCartItemClick(existingItem)
     } else {
     setSelectedProduct(product)
       setModalQuantity('1')
+      setSelectedModifierIds([])
+      setSelectedComboOptionIds({})
+      setSelectedLineDiscountId(null)
     }
   }
 
@@ -188,12 +367,44 @@ export default function SalesPage() {
   const handleCartItemClick = (item: CartItem) => {
     setEditingCartItem(item)
     setModalQuantity(item.quantity.toString())
+    setSelectedModifierIds(item.modifiers.map(m => m.id))
+    setSelectedComboOptionIds(Object.fromEntries(item.comboOptions.map(o => [o.slot_id, o.id])))
+    setSelectedLineDiscountId(item.discount?.id || null)
   }
 
   const closeModal = () => {
     setSelectedProduct(null)
     setEditingCartItem(null)
     setModalQuantity('1')
+    setSelectedModifierIds([])
+    setSelectedComboOptionIds({})
+    setSelectedLineDiscountId(null)
+  }
+
+  // The chosen option for each of a combo's slots
+  const getSelectedComboOptions = (product: FinishedProduct): ComboSlotOption[] =>
+    (comboSlots[product.id] || [])
+      .map(slot => slot.combo_slot_options.find(o => o.id === selectedComboOptionIds[slot.id]) || slot.combo_slot_options[0])
+      .filter(Boolean)
+
+  // "Pastil, Iced Tea" for a combo cart line
+  const formatComboOptions = (options: ComboSlotOption[]) =>
+    options.map(o => products.find(p => p.id === o.product_id)?.name).filter(Boolean).join(', ')
+
+  // Pick-one groups swap the choice; others toggle up to their maximum
+  const handleModifierToggle = (group: ModifierGroupWithModifiers, modifierId: string) => {
+    const groupIds = group.modifiers.map(m => m.id)
+    const selectedInGroup = selectedModifierIds.filter(id => groupIds.includes(id))
+
+    if (selectedModifierIds.includes(modifierId)) {
+      setSelectedModifierIds(selectedModifierIds.filter(id => id !== modifierId))
+    } else if (group.max_select === 1) {
+      setSelectedModifierIds([...selectedModifierIds.filter(id => !groupIds.includes(id)), modifierId])
+    } else if (group.max_select === null || selectedInGroup.length < group.max_select) {
+      setSelectedModifierIds([...selectedModifierIds, modifierId])
+    } else {
+      toast.error(`${group.name}: ${describeSelectionRule(group).toLowerCase()}`)
+    }
   }
 
   // Handle quantity input change
@@ -220,6 +431,15 @@ export default function SalesPage() {
     }
   }
 
+  // Keeps the payment being entered and starts the next one, for paying
+  // part of the total with another method
+  const handleSplitPayment = () => {
+    if (!selectedPaymentMethod || paymentAmount <= 0) return
+    setSplitTenders(addTender(splitTenders, { payment_method: selectedPaymentMethod, amount: paymentAmount }))
+    setSelectedPaymentMethod('')
+    setCustomerPayment('')
+  }
+
   // Add or update cart
   const handleAddToCart = () => {
     const qty = parseInt(modalQuantity) || 0
@@ -228,22 +448,59 @@ export default function SalesPage() {
       return
     }
 
+    const product = editingCartItem?.product || selectedProduct
+    if (!product) return
+
+    const groups = modifierGroups[product.id] || []
+    const unmetGroup = groups.find(group => {
+      const count = group.modifiers.filter(m => selectedModifierIds.includes(m.id)).length
+      return count < group.min_select || (group.max_select !== null && count > group.max_select)
+    })
+    if (unmetGroup) {
+      toast.error(`${unmetGroup.name}: ${describeSelectionRule(unmetGroup).toLowerCase()}`)
+      return
+    }
+
+    const modifiers = groups.flatMap(group => group.modifiers.filter(m => selectedModifierIds.includes(m.id)))
+    const comboOptions = getSelectedComboOptions(product)
+    const discount = lineDiscounts.find(d => d.id === selectedLineDiscountId) || null
+    const key = getCartItemKey(product.id, modifiers, comboOptions, discount)
+    // Another line with the same product, choices and discount gets this quantity added
+    const mergeTarget = cart.find(
+      item =>
+        item !== editingCartItem &&
+        getCartItemKey(item.product.id, item.modifiers, item.comboOptions, item.discount) === key
+    )
+
+    // The line's total has to fit in what's left after the other cart lines
+    // take their ingredients
+    const existingQty = mergeTarget?.quantity || 0
+    const maxServings = getServingsMakeable(product, getCartDemand([editingCartItem, mergeTarget]), modifiers, comboOptions)
+    if (existingQty + qty > maxServings) {
+      toast.error(
+        maxServings - existingQty > 0
+          ? `Only ${maxServings - existingQty} more ${product.name} can be made with the current stock`
+          : `Not enough stock for more ${product.name}`
+      )
+      return
+    }
+
+    const line: CartItem = { product, quantity: qty, modifiers, comboOptions, discount }
     if (editingCartItem) {
-      setCart(cart.map(item => 
-        item.product.id === editingCartItem.product.id 
-          ? { ...item, quantity: qty }
-          : item
-      ))
+      setCart(
+        mergeTarget
+          ? cart
+              .filter(item => item !== editingCartItem)
+              .map(item => (item === mergeTarget ? { ...item, quantity: item.quantity + qty } : item))
+          : cart.map(item => (item === editingCartItem ? line : item))
+      )
       toast.success('Cart updated')
-    } else if (selectedProduct) {
-      const existingIndex = cart.findIndex(item => item.product.id === selectedProduct.id)
-      if (existingIndex >= 0) {
-        const updatedCart = [...cart]
-        updatedCart[existingIndex].quantity += qty
-        setCart(updatedCart)
-      } else {
-        setCart([...cart, { product: selectedProduct, quantity: qty }])
-      }
+    } else {
+      setCart(
+        mergeTarget
+          ? cart.map(item => (item === mergeTarget ? { ...item, quantity: item.quantity + qty } : item))
+          : [...cart, line]
+      )
       toast.success('Added to cart')
     }
     closeModal()
@@ -252,7 +509,7 @@ export default function SalesPage() {
   // Remove item from cart
   const handleRemoveFromCart = () => {
     if (editingCartItem) {
-      setCart(cart.filter(item => item.product.id !== editingCartItem.product.id))
+      setCart(cart.filter(item => item !== editingCartItem))
       toast.success('Removed from cart')
       closeModal()
     }
@@ -265,9 +522,15 @@ export default function SalesPage() {
     setSelectedCustomerType('')
     setSelectedDineInTakeout(null)
     setCustomerPayment('')
+    setSplitTenders([])
+    setOrderDiscountId(null)
+    setDiscountIdNumber('')
+    setDiscountHolderName('')
+    setReceiptChannel(null)
+    setReceiptRecipient('')
   }
 
-  // Delete product (owner only)
+  // Delete product (inventory editors only)
   const handleDeleteProduct = async () => {
     if (!deletingProduct) return
 
@@ -317,77 +580,69 @@ export default function SalesPage() {
     setIsCheckingOut(true)
 
     try {
-      const transactionId = crypto.randomUUID()
-      const transactionNumber = await generateTransactionNumber()
-
-      // Calculate ingredient deductions
-      const ingredientDeductions: Record<string, number> = {}
-      for (const item of cart) {
-        const ingredients = productIngredients[item.product.id] || []
-        for (const ing of ingredients) {
-          ingredientDeductions[ing.item_id] = (ingredientDeductions[ing.item_id] || 0) + (ing.qty * item.quantity)
-        }
-      }
-
-      // Create sale records (cost is ingredient cost only, no OPEX per unit)
-      const saleRecords = cart.map(item => ({
-        transaction_id: transactionId,
-        transaction_number: transactionNumber,
-        product_id: item.product.id,
-        product_name: item.product.name,
-        qty: item.quantity,
-        unit_type: 'quantity' as const,
-        cost: calculateProductCost(item.product),
-        selling_price: item.product.selling_price,
-        total: item.quantity * item.product.selling_price,
-        payment_method: selectedPaymentMethod,
-        customer_type: selectedCustomerType,
-        dine_in_takeout: selectedDineInTakeout,
-        customer_payment: paymentAmount,
-      }))
-      
-      const { data: saleData, error: saleError } = await (supabase as any)
-        .from('sales')
-        .insert(saleRecords)
-        .select()
-
-      if (saleError) {
-        console.error('Sale insert error:', saleError)
-        throw saleError
+      // Transaction number, sale lines and ingredient deductions are written
+      // in a single database transaction
+      const result = await processCheckout({
+        items: cart.map(item => ({
+          product_id: item.product.id,
+          qty: item.quantity,
+          modifier_ids: item.modifiers.map(m => m.id),
+          combo_choices: item.comboOptions.map(o => ({ slot_id: o.slot_id, product_id: o.product_id })),
+          discount_id: item.discount?.id || null,
+        })),
+        payments: tenders,
+        customerType: selectedCustomerType,
+        dineInTakeout: selectedDineInTakeout!,
+        discount: {
+          discount_id: orderDiscount?.id || null,
+          id_number: discountIdNumber.trim(),
+          holder_name: discountHolderName.trim(),
+        },
+      })
+
+      if (!result.success) {
+        const shortItems = result.outOfStock.map(i => i.item_name).join(', ')
+        toast.error(`Not enough stock: ${shortItems}`)
+        fetchData()
+        return
       }
 
-      // Deduct ingredients from inventory
-      for (const [itemId, deduction] of Object.entries(ingredientDeductions)) {
-        const item = inventoryItems.find(i => i.id === itemId)
-        if (!item) continue
-        
-        // Convert deduction to storage unit
-        let deductionInStorageUnit = deduction
-        if (item.unit_type === 'weight') deductionInStorageUnit = deduction / 1000 // g to kg
-        if (item.unit_type === 'volume') deductionInStorageUnit = deduction / 1000 // ml to L
-        
-        const newQty = Math.max(0, item.qty - deductionInStorageUnit)
-        
-        const { error: updateError } = await (supabase as any)
-        .from('products')
-          .update({ qty: newQty })
-          .eq('id', itemId)
-        
-        if (updateError) {
-          console.error(`Failed to update inventory for ${item.name}:`, updateError)
+      const { transactionId, transactionNumber, sales: saleData, payments } = result
+
+      if (saleData.length > 0) {
+        addRecentTransaction(transactionId, transactionNumber, saleData)
+        setReceiptSales(saleData)
+        setReceiptPayments(payments)
+
+        // Printers set to auto-print run in the background; the sale is already saved
+        printAfterCheckout(saleData, payments)
+          .then((failed) => {
+            if (failed.length > 0) toast.error(`Failed to print to ${failed.join(', ')}`)
+          })
+          .catch((error) => {
+            console.error('Error printing after checkout:', error)
+            toast.error('Failed to print')
+          })
+
+        if (receiptChannel) {
+          const recipient = receiptRecipient
+          sendDigitalReceipt(transactionId, receiptChannel, recipient)
+            .then(() => toast.success(`Receipt sent to ${recipient.trim()}`))
+            .catch((error) => {
+              console.error('Error sending receipt:', error)
+              toast.error(error?.message || 'Failed to send receipt')
+            })
         }
       }
 
-      if (saleData && saleData.length > 0) {
-        addRecentSale(saleData[0])
-      }
-
       toast.success(`Sale completed! Transaction: ${transactionNumber}`)
       clearCart()
       fetchData()
-    } catch (error) {
+      // Raise the low-stock alert if this sale crossed a reorder point
+      checkLowStock()
+    } catch (error: any) {
       console.error('Error processing sale:', error)
-      toast.error('Failed to process sale')
+      toast.error(error?.message || 'Failed to process sale')
     } finally {
       setIsCheckingOut(false)
     }
@@ -401,13 +656,51 @@ export default function SalesPage() {
     )
   }
 
-  // Filter products that have ingredients
-  const availableProducts = products.filter(p => (productIngredients[p.id] || []).length > 0)
+  // Filter products that have ingredients; combos need every slot filled
+  const availableProducts = products.filter(p =>
+    p.is_combo
+      ? (comboSlots[p.id] || []).length > 0 && comboSlots[p.id].every(slot => slot.combo_slot_options.length > 0)
+      : (productIngredients[p.id] || []).length > 0
+  )
 
   const currentProduct = editingCartItem?.product || selectedProduct
+  const currentGroups = currentProduct ? modifierGroups[currentProduct.id] || [] : []
+  const currentModifiers = currentGroups.flatMap(group => group.modifiers.filter(m => selectedModifierIds.includes(m.id)))
+  const currentComboSlots = currentProduct ? comboSlots[currentProduct.id] || [] : []
+  const currentComboOptions = currentProduct ? getSelectedComboOptions(currentProduct) : []
+  const currentUnitPrice = currentProduct
+    ? getUnitPrice({ product: currentProduct, modifiers: currentModifiers, comboOptions: currentComboOptions })
+    : 0
+  const currentLineDiscount = lineDiscounts.find(d => d.id === selectedLineDiscountId) || null
+  const currentSubtotal = (parseInt(modalQuantity) || 0) * currentUnitPrice
+  const currentLineDiscountAmounts = calculateDiscount(
+    currentLineDiscount,
+    currentProduct
+      ? getDiscountLines(
+          { product: currentProduct, modifiers: currentModifiers, comboOptions: currentComboOptions },
+          parseInt(modalQuantity) || 0
+        )
+      : []
+  )
+  const currentKey = currentProduct
+    ? getCartItemKey(currentProduct.id, currentModifiers, currentComboOptions, currentLineDiscount)
+    : ''
+  const currentMergeTarget = cart.find(
+    item =>
+      item !== editingCartItem &&
+      getCartItemKey(item.product.id, item.modifiers, item.comboOptions, item.discount) === currentKey
+  )
 
   return (
     <div className="max-w-7xl mx-auto flex flex-col h-full">
+      {!hasOpenShift && (
+        <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+          <p className="text-yellow-400 text-sm">
+            No shift is open. Open one on the <strong>Shifts</strong> page so cash sales are counted in the drawer.
+          </p>
+        </div>
+      )}
+
       {/* Top Section - Cart & Checkout */}
       <div className="card p-4 mb-4">
         {/* Cart Header */}
@@ -415,11 +708,23 @@ export default function SalesPage() {
           <h2 className="text-lg font-semibold text-white">
             Cart {cart.length > 0 && `(${cart.reduce((sum, i) => sum + i.quantity, 0)} items)`}
           </h2>
-          {cart.length > 0 && (
-            <button onClick={clearCart} className="text-sm text-red-400 hover:text-red-300">
-              Clear Cart
+          <div className="flex items-center gap-4">
+            {cart.length > 0 && (
+              <button onClick={clearCart} className="text-sm text-red-400 hover:text-red-300">
+                Clear Cart
+              </button>
+            )}
+            <button
+              onClick={() => setShowSwitchUser(true)}
+              className="flex items-center gap-2 px-3 py-1.5 bg-surface-800 hover:bg-surface-700 rounded-lg text-sm text-surface-300 hover:text-white transition-colors"
+              title="Switch user"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+              </svg>
+              {user?.displayName || user?.username}
             </button>
-          )}
+          </div>
         </div>
 
         {/* Cart Items */}
@@ -430,14 +735,23 @@ export default function SalesPage() {
             <div className="space-y-1">
               {cart.map((item) => (
                 <button
-                  key={item.product.id}
+                  key={getCartItemKey(item.product.id, item.modifiers, item.comboOptions, item.discount)}
                   onClick={() => handleCartItemClick(item)}
                   className="w-full flex items-center justify-between p-2 hover:bg-surface-700/50 rounded transition-colors text-left"
                 >
-                  <span className="text-white text-sm">{item.product.name}</span>
+                  <span className="text-white text-sm">
+                    {item.product.name}
+                    {item.modifiers.length > 0 && (
+                      <span className="text-surface-400 text-xs"> · {formatModifiers(item.modifiers)}</span>
+                    )}
+                    {item.comboOptions.length > 0 && (
+                      <span className="text-surface-400 text-xs"> · {formatComboOptions(item.comboOptions)}</span>
+                    )}
+                    {item.discount && <span className="text-green-400 text-xs"> · {item.discount.name}</span>}
+                  </span>
                   <div className="flex items-center gap-4">
                     <span className="text-surface-400 text-sm">{item.quantity} pcs</span>
-                    <span className="text-primary-500 font-mono text-sm">₱{(item.quantity * item.product.selling_price).toFixed(2)}</span>
+                    <span className="text-primary-500 font-mono text-sm">₱{(item.quantity * getUnitPrice(item)).toFixed(2)}</span>
                   </div>
                 </button>
               ))}
@@ -454,7 +768,7 @@ export default function SalesPage() {
               {customerTypes.map((ct) => (
                 <button
                   key={ct.id}
-                  onClick={() => setSelectedCustomerType(ct.name)}
+                  onClick={() => handleCustomerTypeSelect(ct)}
                   className={`px-2 py-1 rounded text-xs font-medium transition-all ${
                     selectedCustomerType === ct.name
                       ? 'ring-2 ring-white ring-offset-1 ring-offset-surface-900'
@@ -517,11 +831,110 @@ export default function SalesPage() {
           </div>
         </div>
 
+        {/* Discount Row */}
+        {orderDiscounts.length > 0 && (
+          <div className="mb-4">
+            <label className="block text-xs font-medium text-surface-400 mb-1">Discount</label>
+            <div className="flex flex-wrap items-center gap-1">
+              <button
+                onClick={() => setOrderDiscountId(null)}
+                className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                  !orderDiscount ? 'bg-surface-500 text-white' : 'bg-surface-700 text-surface-400 hover:bg-surface-600'
+                }`}
+              >
+                None
+              </button>
+              {orderDiscounts.map((discount) => (
+                <button
+                  key={discount.id}
+                  onClick={() => setOrderDiscountId(discount.id)}
+                  className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                    orderDiscount?.id === discount.id
+                      ? 'bg-green-500 text-white'
+                      : 'bg-surface-700 text-surface-400 hover:bg-surface-600'
+                  }`}
+                >
+                  {discount.name} ({describeDiscount(discount)})
+                </button>
+              ))}
+              {discountNeedingId && (
+                <>
+                  <input
+                    type="text"
+                    value={discountIdNumber}
+                    onChange={(e) => setDiscountIdNumber(e.target.value)}
+                    placeholder={`${discountNeedingId.name} ID no.`}
+                    className={`ml-2 w-40 px-2 py-1 bg-surface-800 border rounded text-white text-xs ${
+                      discountIdNumber.trim() ? 'border-surface-700' : 'border-yellow-500/50'
+                    }`}
+                  />
+                  <input
+                    type="text"
+                    value={discountHolderName}
+                    onChange={(e) => setDiscountHolderName(e.target.value)}
+                    placeholder="Name on ID"
+                    className="w-40 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-xs"
+                  />
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Digital Receipt Row */}
+        <div className="mb-4">
+          <label className="block text-xs font-medium text-surface-400 mb-1">Digital Receipt</label>
+          <div className="flex flex-wrap items-center gap-1">
+            <button
+              onClick={() => setReceiptChannel(null)}
+              className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                !receiptChannel ? 'bg-surface-500 text-white' : 'bg-surface-700 text-surface-400 hover:bg-surface-600'
+              }`}
+            >
+              None
+            </button>
+            {RECEIPT_CHANNELS.map((channel) => (
+              <button
+                key={channel.value}
+                onClick={() => setReceiptChannel(channel.value)}
+                className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                  receiptChannel === channel.value
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-surface-700 text-surface-400 hover:bg-surface-600'
+                }`}
+              >
+                {channel.label}
+              </button>
+            ))}
+            {receiptChannel && (
+              <input
+                type={receiptChannel === 'email' ? 'email' : 'tel'}
+                value={receiptRecipient}
+                onChange={(e) => setReceiptRecipient(e.target.value)}
+                placeholder={receiptChannel === 'email' ? 'customer@email.com' : '0917 123 4567'}
+                className={`ml-2 w-56 px-2 py-1 bg-surface-800 border rounded text-white text-xs ${
+                  normalizeRecipient(receiptChannel, receiptRecipient) ? 'border-surface-700' : 'border-yellow-500/50'
+                }`}
+              />
+            )}
+          </div>
+        </div>
+
         {/* Payment Row */}
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
           {/* Payment Input */}
           <div>
-            <label className="block text-xs font-medium text-surface-400 mb-1">Payment</label>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-xs font-medium text-surface-400">Payment</label>
+              <button
+                onClick={handleSplitPayment}
+                disabled={!selectedPaymentMethod || paymentAmount <= 0}
+                className="text-xs text-primary-400 hover:text-primary-300 disabled:opacity-40"
+                title="Pay the rest with another payment method"
+              >
+                + Split
+              </button>
+            </div>
             <div className="relative">
               <span className="absolute left-3 top-1/2 -translate-y-1/2 text-surface-500">₱</span>
               <input
@@ -529,7 +942,7 @@ export default function SalesPage() {
                 inputMode="decimal"
                 value={customerPayment}
                 onChange={(e) => handlePaymentChange(e.target.value)}
-                placeholder="0.00"
+                placeholder={splitTenders.length > 0 ? splitRemaining.toFixed(2) : '0.00'}
                 className="w-full pl-7 pr-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-right"
               />
             </div>
@@ -541,6 +954,11 @@ export default function SalesPage() {
             <div className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-primary-500 font-mono font-bold text-right">
               ₱{cartTotal.toFixed(2)}
             </div>
+            {cartDiscounts.total < cartDiscounts.gross && (
+              <p className="text-xs text-green-400 text-right mt-0.5" title="Discount and VAT exemption">
+                ₱{cartDiscounts.gross.toFixed(2)} − ₱{(cartDiscounts.discount + cartDiscounts.vatExemption).toFixed(2)}
+              </p>
+            )}
           </div>
 
           {/* Change Display */}
@@ -562,6 +980,28 @@ export default function SalesPage() {
             {isCheckingOut ? 'Processing...' : 'Checkout'}
           </button>
         </div>
+
+        {/* Split payments, with what's left to pay */}
+        {splitTenders.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 mt-3">
+            {splitTenders.map((tender) => (
+              <span
+                key={tender.payment_method}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-surface-700 text-white text-xs"
+              >
+                {tender.payment_method} ₱{tender.amount.toFixed(2)}
+                <button
+                  onClick={() => setSplitTenders(splitTenders.filter(t => t.payment_method !== tender.payment_method))}
+                  className="text-surface-400 hover:text-red-400"
+                  title="Remove payment"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            {tenderError && <span className="ml-2 text-xs text-yellow-400">{tenderError}</span>}
+          </div>
+        )}
       </div>
 
       {/* Bottom Section - Products Grid */}
@@ -574,7 +1014,9 @@ export default function SalesPage() {
       ) : (
           <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 xl:grid-cols-8 gap-3">
             {availableProducts.map((product) => {
-              const outOfStock = isProductOutOfStock(product)
+              const servings = getServingsMakeable(product)
+              // Not enough stock for a single serving
+              const outOfStock = servings < 1
               return (
             <button
               key={product.id}
@@ -609,7 +1051,14 @@ export default function SalesPage() {
                 )}
               </div>
                   <h4 className={`font-medium text-xs truncate ${outOfStock ? 'text-surface-500' : 'text-white'}`}>{product.name}</h4>
-                  <p className={`font-bold text-sm ${outOfStock ? 'text-surface-600' : 'text-primary-500'}`}>₱{product.selling_price.toFixed(2)}</p>
+                  <div className="flex items-baseline justify-between gap-1">
+                    <p className={`font-bold text-sm ${outOfStock ? 'text-surface-600' : 'text-primary-500'}`}>₱{product.selling_price.toFixed(2)}</p>
+                    {!outOfStock && (
+                      <span className="text-[10px] text-surface-500 font-mono" title="Servings that can be made">
+                        {servings} left
+                      </span>
+                    )}
+                  </div>
             </button>
               )
             })}
@@ -641,7 +1090,17 @@ export default function SalesPage() {
                 </div>
                 <div>
                   <h3 className="text-lg font-bold text-white">{currentProduct.name}</h3>
-                  <p className="text-primary-500 font-bold">₱{currentProduct.selling_price.toFixed(2)}</p>
+                  <p className="text-primary-500 font-bold">₱{currentUnitPrice.toFixed(2)}</p>
+                  <p className="text-surface-400 text-xs">
+                    {getServingsMakeable(currentProduct, {}, currentModifiers, currentComboOptions)} servings in stock
+                    {cart.some(item => item !== editingCartItem && item !== currentMergeTarget) &&
+                      ` · ${getServingsMakeable(
+                        currentProduct,
+                        getCartDemand([editingCartItem, currentMergeTarget]),
+                        currentModifiers,
+                        currentComboOptions
+                      )} with the rest of the cart`}
+                  </p>
                 </div>
               </div>
               <button onClick={closeModal} className="text-surface-400 hover:text-white p-1">
@@ -651,6 +1110,98 @@ export default function SalesPage() {
               </button>
             </div>
 
+            {/* Modifiers */}
+            {currentGroups.length > 0 && (
+              <div className="mb-4 space-y-3 max-h-64 overflow-y-auto">
+                {currentGroups.map((group) => (
+                  <div key={group.id}>
+                    <div className="flex items-baseline justify-between mb-1">
+                      <span className="text-sm font-medium text-surface-300">{group.name}</span>
+                      <span className={`text-xs ${group.min_select > 0 ? 'text-yellow-400' : 'text-surface-500'}`}>
+                        {describeSelectionRule(group)}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {group.modifiers.map((modifier) => (
+                        <button
+                          key={modifier.id}
+                          onClick={() => handleModifierToggle(group, modifier.id)}
+                          className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                            selectedModifierIds.includes(modifier.id)
+                              ? 'bg-primary-500 text-white'
+                              : 'bg-surface-700 text-surface-300 hover:bg-surface-600'
+                          }`}
+                        >
+                          {modifier.name}
+                          {modifier.price_delta !== 0 &&
+                            ` ${modifier.price_delta > 0 ? '+' : '−'}₱${Math.abs(modifier.price_delta).toFixed(2)}`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Combo Choices */}
+            {currentComboSlots.length > 0 && (
+              <div className="mb-4 space-y-3 max-h-64 overflow-y-auto">
+                {currentComboSlots.map((slot) => (
+                  <div key={slot.id}>
+                    <span className="block text-sm font-medium text-surface-300 mb-1">{slot.name}</span>
+                    <div className="flex flex-wrap gap-1">
+                      {slot.combo_slot_options.map((option) => (
+                        <button
+                          key={option.id}
+                          onClick={() => setSelectedComboOptionIds({ ...selectedComboOptionIds, [slot.id]: option.id })}
+                          disabled={slot.combo_slot_options.length === 1}
+                          className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                            currentComboOptions.includes(option)
+                              ? 'bg-primary-500 text-white'
+                              : 'bg-surface-700 text-surface-300 hover:bg-surface-600'
+                          }`}
+                        >
+                          {products.find(p => p.id === option.product_id)?.name}
+                          {option.price_delta !== 0 &&
+                            ` ${option.price_delta > 0 ? '+' : '−'}₱${Math.abs(option.price_delta).toFixed(2)}`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Item Discount */}
+            {lineDiscounts.length > 0 && (
+              <div className="mb-4">
+                <span className="block text-sm font-medium text-surface-300 mb-1">Item Discount</span>
+                <div className="flex flex-wrap gap-1">
+                  <button
+                    onClick={() => setSelectedLineDiscountId(null)}
+                    className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                      !currentLineDiscount ? 'bg-primary-500 text-white' : 'bg-surface-700 text-surface-300 hover:bg-surface-600'
+                    }`}
+                  >
+                    None
+                  </button>
+                  {lineDiscounts.map((discount) => (
+                    <button
+                      key={discount.id}
+                      onClick={() => setSelectedLineDiscountId(discount.id)}
+                      className={`px-2 py-1 rounded text-xs font-medium transition-all ${
+                        currentLineDiscount?.id === discount.id
+                          ? 'bg-primary-500 text-white'
+                          : 'bg-surface-700 text-surface-300 hover:bg-surface-600'
+                      }`}
+                    >
+                      {discount.name} ({describeDiscount(discount)})
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Quantity Controls */}
             <div className="mb-4">
               <label className="block text-sm font-medium text-surface-300 mb-2">Quantity</label>
@@ -681,7 +1232,7 @@ export default function SalesPage() {
             <div className="flex items-center justify-between mb-4 p-3 bg-surface-800/50 rounded-lg">
               <span className="text-surface-400">Subtotal</span>
               <span className="text-xl font-bold text-primary-500">
-                ₱{((parseInt(modalQuantity) || 0) * currentProduct.selling_price).toFixed(2)}
+                ₱{(currentSubtotal - currentLineDiscountAmounts.discount - currentLineDiscountAmounts.vatExemption).toFixed(2)}
               </span>
             </div>
 
@@ -704,8 +1255,8 @@ export default function SalesPage() {
                   </button>
                 </div>
 
-            {/* Delete Product Button (Owner only) */}
-            {isOwner && !editingCartItem && (
+            {/* Delete Product Button (inventory editors only) */}
+            {canDeleteProducts && !editingCartItem && (
               <button
                 onClick={() => openDeleteConfirm(currentProduct)}
                 className="w-full mt-3 py-2 text-red-400 hover:text-red-300 text-sm flex items-center justify-center gap-2"
@@ -754,6 +1305,14 @@ export default function SalesPage() {
           </div>
         </div>
       )}
+
+      {/* Staff Switch Modal */}
+      {showSwitchUser && <StaffSwitchModal onClose={() => setShowSwitchUser(false)} />}
+
+      {/* Receipt for the sale just completed */}
+      {receiptSales && (
+        <ReceiptModal sales={receiptSales} payments={receiptPayments} onClose={() => setReceiptSales(null)} />
+      )}
     </div>
   )
 }
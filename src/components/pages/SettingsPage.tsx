@@ -2,8 +2,31 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '@/lib/supabase'
-import { PaymentMethod, CustomerType } from '@/types/database'
+import {
+  PaymentMethod,
+  CustomerType,
+  TransactionNumberFormat,
+  TransactionNumberResetPeriod,
+  UserAccount,
+  UserRole,
+  Permission,
+  PermissionInfo,
+  RolePermission,
+} from '@/types/database'
 import { useAuth } from '@/contexts/AuthContext'
+import { usePermission } from '@/hooks/usePermission'
+import {
+  DEFAULT_TRANSACTION_NUMBER_FORMAT,
+  fetchTransactionNumberFormat,
+  formatTransactionNumber,
+  saveTransactionNumberFormat,
+} from '@/lib/transactionNumbers'
+import { listUsers, createUser, setUserActive, resetUserPassword, setUserPin } from '@/lib/users'
+import DiscountSettings from '@/components/DiscountSettings'
+import TaxSettings from '@/components/TaxSettings'
+import ReceiptSettings from '@/components/ReceiptSettings'
+import PrinterSettings from '@/components/PrinterSettings'
+import { format } from 'date-fns'
 import toast from 'react-hot-toast'
 
 const COLOR_OPTIONS = [
@@ -26,6 +49,37 @@ const COLOR_OPTIONS = [
   { name: 'Rose', value: '#f43f5e' },
 ]
 
+const RESET_PERIOD_OPTIONS: { value: TransactionNumberResetPeriod; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+]
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: 'cashier', label: 'Cashier' },
+  { value: 'manager', label: 'Manager' },
+  { value: 'owner', label: 'Owner' },
+]
+
+// Owners always have every permission, so only these roles are configurable
+const CONFIGURABLE_ROLES: { value: RolePermission['role']; label: string }[] = [
+  { value: 'manager', label: 'Manager' },
+  { value: 'cashier', label: 'Cashier' },
+]
+
+const MIN_PASSWORD_LENGTH = 6
+
+// Must match the check in set_user_pin() (schema-update-v12-cashier-attribution.sql)
+const PIN_PATTERN = /^[0-9]{4,6}$/
+
+interface PinTarget {
+  id: string
+  username: string
+  hasPin: boolean
+}
+
+const EMPTY_NEW_USER = { username: '', displayName: '', password: '', role: 'cashier' as UserRole }
+
 export default function SettingsPage() {
   const { user, logout } = useAuth()
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([])
@@ -37,23 +91,50 @@ export default function SettingsPage() {
   const [newCustomerType, setNewCustomerType] = useState({ name: '', color: '#22c55e' })
   const [isAddingPayment, setIsAddingPayment] = useState(false)
   const [isAddingCustomer, setIsAddingCustomer] = useState(false)
+  const [numberFormat, setNumberFormat] = useState<TransactionNumberFormat>(DEFAULT_TRANSACTION_NUMBER_FORMAT)
+  const [isSavingNumberFormat, setIsSavingNumberFormat] = useState(false)
+  const [users, setUsers] = useState<UserAccount[]>([])
+  const [newUser, setNewUser] = useState(EMPTY_NEW_USER)
+  const [isAddingUser, setIsAddingUser] = useState(false)
+  const [resetPasswordUser, setResetPasswordUser] = useState<UserAccount | null>(null)
+  const [newPassword, setNewPassword] = useState('')
+  const [isResettingPassword, setIsResettingPassword] = useState(false)
+  const [pinTarget, setPinTarget] = useState<PinTarget | null>(null)
+  const [newPin, setNewPin] = useState('')
+  const [isSavingPin, setIsSavingPin] = useState(false)
+
+  const [permissions, setPermissions] = useState<PermissionInfo[]>([])
+  const [rolePermissions, setRolePermissions] = useState<RolePermission[]>([])
+
+  const can = usePermission()
+  const canManageSettings = can('manage_settings')
+  const isOwner = user?.role === 'owner'
 
   const fetchData = useCallback(async () => {
     try {
-      const [paymentRes, customerRes] = await Promise.all([
-        supabase.from('payment_methods').select('*').order('name'),
-        supabase.from('customer_types').select('*').order('name'),
-      ])
+      const [paymentRes, customerRes, numberFormatRes, usersRes, permissionsRes, rolePermissionsRes] =
+        await Promise.all([
+          supabase.from('payment_methods').select('*').order('name'),
+          supabase.from('customer_types').select('*').order('name'),
+          fetchTransactionNumberFormat(),
+          isOwner ? listUsers() : Promise.resolve([]),
+          supabase.from('permissions').select('*').order('sort_order'),
+          supabase.from('role_permissions').select('*'),
+        ])
 
       if (paymentRes.data) setPaymentMethods(paymentRes.data)
       if (customerRes.data) setCustomerTypes(customerRes.data)
+      setNumberFormat(numberFormatRes)
+      setUsers(usersRes)
+      if (permissionsRes.data) setPermissions(permissionsRes.data)
+      if (rolePermissionsRes.data) setRolePermissions(rolePermissionsRes.data)
     } catch (error) {
       console.error('Error fetching settings:', error)
       toast.error('Failed to load settings')
     } finally {
       setLoading(false)
     }
-  }, [])
+  }, [isOwner])
 
   useEffect(() => {
     fetchData()
@@ -137,6 +218,162 @@ export default function SettingsPage() {
     }
   }
 
+  const updateNumberFormat = (changes: Partial<TransactionNumberFormat>) => {
+    setNumberFormat((prev) => ({ ...prev, ...changes }))
+  }
+
+  const handleSaveNumberFormat = async () => {
+    // Hyphens separate the parts of a transaction number
+    const codePattern = /^[A-Za-z0-9]*$/
+    if (!codePattern.test(numberFormat.prefix) || !codePattern.test(numberFormat.branchCode)) {
+      toast.error('Prefix and branch code may only contain letters and numbers')
+      return
+    }
+
+    if (numberFormat.padWidth < 1 || numberFormat.padWidth > 10) {
+      toast.error('Number width must be between 1 and 10 digits')
+      return
+    }
+
+    setIsSavingNumberFormat(true)
+    try {
+      await saveTransactionNumberFormat({
+        ...numberFormat,
+        prefix: numberFormat.prefix.toUpperCase(),
+        branchCode: numberFormat.branchCode.toUpperCase(),
+      })
+      toast.success('Transaction number format saved')
+      fetchData()
+    } catch (error) {
+      console.error('Error saving transaction number format:', error)
+      toast.error('Failed to save transaction number format')
+    } finally {
+      setIsSavingNumberFormat(false)
+    }
+  }
+
+  const addUser = async () => {
+    if (!newUser.username.trim()) {
+      toast.error('Please enter a username')
+      return
+    }
+
+    if (newUser.password.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      return
+    }
+
+    setIsAddingUser(true)
+    try {
+      await createUser({
+        username: newUser.username.trim(),
+        displayName: newUser.displayName.trim(),
+        password: newUser.password,
+        role: newUser.role,
+      })
+      toast.success('User added')
+      setNewUser(EMPTY_NEW_USER)
+      fetchData()
+    } catch (error: any) {
+      console.error('Error adding user:', error)
+      toast.error(error?.code === '23505' ? 'That username is already taken' : 'Failed to add user')
+    } finally {
+      setIsAddingUser(false)
+    }
+  }
+
+  const toggleUserActive = async (account: UserAccount) => {
+    const action = account.is_active ? 'Disable' : 'Enable'
+    if (!confirm(`${action} ${account.username}?`)) return
+
+    try {
+      await setUserActive(account.id, !account.is_active)
+      toast.success(`User ${account.is_active ? 'disabled' : 'enabled'}`)
+      fetchData()
+    } catch (error) {
+      console.error('Error updating user:', error)
+      toast.error(`Failed to ${action.toLowerCase()} user`)
+    }
+  }
+
+  const closeResetPassword = () => {
+    setResetPasswordUser(null)
+    setNewPassword('')
+  }
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!resetPasswordUser) return
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      return
+    }
+
+    setIsResettingPassword(true)
+    try {
+      await resetUserPassword(resetPasswordUser.id, newPassword)
+      toast.success(`Password reset for ${resetPasswordUser.username}`)
+      closeResetPassword()
+    } catch (error) {
+      console.error('Error resetting password:', error)
+      toast.error('Failed to reset password')
+    } finally {
+      setIsResettingPassword(false)
+    }
+  }
+
+  const closePinModal = () => {
+    setPinTarget(null)
+    setNewPin('')
+  }
+
+  const savePin = async (pin: string | null) => {
+    if (!pinTarget) return
+
+    if (pin !== null && !PIN_PATTERN.test(pin)) {
+      toast.error('PIN must be 4 to 6 digits')
+      return
+    }
+
+    setIsSavingPin(true)
+    try {
+      await setUserPin(pinTarget.id, pin)
+      toast.success(pin === null ? `PIN removed for ${pinTarget.username}` : `PIN set for ${pinTarget.username}`)
+      closePinModal()
+      if (isOwner) fetchData()
+    } catch (error) {
+      console.error('Error saving PIN:', error)
+      toast.error('Failed to save PIN')
+    } finally {
+      setIsSavingPin(false)
+    }
+  }
+
+  const hasRolePermission = (role: RolePermission['role'], permission: Permission) =>
+    rolePermissions.some((rp) => rp.role === role && rp.permission === permission)
+
+  const toggleRolePermission = async (role: RolePermission['role'], permission: Permission) => {
+    const granted = hasRolePermission(role, permission)
+
+    try {
+      const { error } = granted
+        ? await supabase.from('role_permissions').delete().eq('role', role).eq('permission', permission)
+        : await (supabase as any).from('role_permissions').insert({ role, permission })
+
+      if (error) throw error
+
+      setRolePermissions((prev) =>
+        granted
+          ? prev.filter((rp) => !(rp.role === role && rp.permission === permission))
+          : [...prev, { role, permission, created_at: new Date().toISOString() }]
+      )
+    } catch (error) {
+      console.error('Error updating role permission:', error)
+      toast.error('Failed to update permission')
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -152,171 +389,445 @@ export default function SettingsPage() {
         <p className="text-surface-400 text-sm mt-1">Configure your POS system</p>
       </div>
 
-      {/* Payment Methods */}
-      <div className="card p-6 mb-6">
-        <h3 className="text-lg font-semibold text-white mb-4">Payment Methods</h3>
-        <p className="text-surface-400 text-sm mb-4">
-          Add payment methods like Cash, Card, E-Wallet, etc.
-        </p>
-
-        {/* Existing Payment Methods */}
-        <div className="flex flex-wrap gap-2 mb-4">
-          {paymentMethods.length === 0 ? (
-            <p className="text-surface-500 text-sm">No payment methods configured yet</p>
-          ) : (
-            paymentMethods.map((pm) => (
-              <div
-                key={pm.id}
-                className="flex items-center gap-2 px-3 py-2 rounded-lg group"
-                style={{ backgroundColor: pm.color }}
-              >
-                <span className="text-white font-medium">{pm.name}</span>
+      {canManageSettings && (
+        <>
+          {/* Payment Methods */}
+          <div className="card p-6 mb-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Payment Methods</h3>
+            <p className="text-surface-400 text-sm mb-4">
+              Add payment methods like Cash, Card, E-Wallet, etc.
+            </p>
+
+            {/* Existing Payment Methods */}
+            <div className="flex flex-wrap gap-2 mb-4">
+              {paymentMethods.length === 0 ? (
+                <p className="text-surface-500 text-sm">No payment methods configured yet</p>
+              ) : (
+                paymentMethods.map((pm) => (
+                  <div
+                    key={pm.id}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg group"
+                    style={{ backgroundColor: pm.color }}
+                  >
+                    <span className="text-white font-medium">{pm.name}</span>
+                    <button
+                      onClick={() => deletePaymentMethod(pm.id)}
+                      className="text-white/50 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Add New Payment Method */}
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="text"
+                value={newPaymentMethod.name}
+                onChange={(e) => setNewPaymentMethod((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="Payment method name"
+                className="flex-1 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+              />
+              <div className="flex gap-2">
+                <div className="relative">
+                  <input
+                    type="color"
+                    value={newPaymentMethod.color}
+                    onChange={(e) => setNewPaymentMethod((prev) => ({ ...prev, color: e.target.value }))}
+                    className="absolute inset-0 opacity-0 cursor-pointer"
+                  />
+                  <div
+                    className="w-10 h-10 rounded-lg border-2 border-surface-700 cursor-pointer"
+                    style={{ backgroundColor: newPaymentMethod.color }}
+                  />
+                </div>
                 <button
-                  onClick={() => deletePaymentMethod(pm.id)}
-                  className="text-white/50 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                  onClick={addPaymentMethod}
+                  disabled={isAddingPayment}
+                  className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
                 >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
+                  Add
                 </button>
               </div>
-            ))
-          )}
-        </div>
+            </div>
 
-        {/* Add New Payment Method */}
-        <div className="flex flex-col sm:flex-row gap-3">
-          <input
-            type="text"
-            value={newPaymentMethod.name}
-            onChange={(e) => setNewPaymentMethod((prev) => ({ ...prev, name: e.target.value }))}
-            placeholder="Payment method name"
-            className="flex-1 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
-          />
-          <div className="flex gap-2">
-            <div className="relative">
+            {/* Color Presets */}
+            <div className="mt-3">
+              <p className="text-xs text-surface-500 mb-2">Quick colors:</p>
+              <div className="flex flex-wrap gap-1">
+                {COLOR_OPTIONS.map((color) => (
+                  <button
+                    key={color.value}
+                    onClick={() => setNewPaymentMethod((prev) => ({ ...prev, color: color.value }))}
+                    className={`w-6 h-6 rounded-md transition-transform hover:scale-110 ${
+                      newPaymentMethod.color === color.value ? 'ring-2 ring-white ring-offset-2 ring-offset-[#141416]' : ''
+                    }`}
+                    style={{ backgroundColor: color.value }}
+                    title={color.name}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Customer Types */}
+          <div className="card p-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Customer Types</h3>
+            <p className="text-surface-400 text-sm mb-4">
+              Add customer types like Student, Nurse, Driver, etc.
+            </p>
+
+            {/* Existing Customer Types */}
+            <div className="flex flex-wrap gap-2 mb-4">
+              {customerTypes.length === 0 ? (
+                <p className="text-surface-500 text-sm">No customer types configured yet</p>
+              ) : (
+                customerTypes.map((ct) => (
+                  <div
+                    key={ct.id}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg group"
+                    style={{ backgroundColor: ct.color }}
+                  >
+                    <span className="text-white font-medium">{ct.name}</span>
+                    <button
+                      onClick={() => deleteCustomerType(ct.id)}
+                      className="text-white/50 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Add New Customer Type */}
+            <div className="flex flex-col sm:flex-row gap-3">
               <input
-                type="color"
-                value={newPaymentMethod.color}
-                onChange={(e) => setNewPaymentMethod((prev) => ({ ...prev, color: e.target.value }))}
-                className="absolute inset-0 opacity-0 cursor-pointer"
-              />
-              <div
-                className="w-10 h-10 rounded-lg border-2 border-surface-700 cursor-pointer"
-                style={{ backgroundColor: newPaymentMethod.color }}
+                type="text"
+                value={newCustomerType.name}
+                onChange={(e) => setNewCustomerType((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="Customer type name"
+                className="flex-1 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
               />
+              <div className="flex gap-2">
+                <div className="relative">
+                  <input
+                    type="color"
+                    value={newCustomerType.color}
+                    onChange={(e) => setNewCustomerType((prev) => ({ ...prev, color: e.target.value }))}
+                    className="absolute inset-0 opacity-0 cursor-pointer"
+                  />
+                  <div
+                    className="w-10 h-10 rounded-lg border-2 border-surface-700 cursor-pointer"
+                    style={{ backgroundColor: newCustomerType.color }}
+                  />
+                </div>
+                <button
+                  onClick={addCustomerType}
+                  disabled={isAddingCustomer}
+                  className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+
+            {/* Color Presets */}
+            <div className="mt-3">
+              <p className="text-xs text-surface-500 mb-2">Quick colors:</p>
+              <div className="flex flex-wrap gap-1">
+                {COLOR_OPTIONS.map((color) => (
+                  <button
+                    key={color.value}
+                    onClick={() => setNewCustomerType((prev) => ({ ...prev, color: color.value }))}
+                    className={`w-6 h-6 rounded-md transition-transform hover:scale-110 ${
+                      newCustomerType.color === color.value ? 'ring-2 ring-white ring-offset-2 ring-offset-[#141416]' : ''
+                    }`}
+                    style={{ backgroundColor: color.value }}
+                    title={color.name}
+                  />
+                ))}
+              </div>
             </div>
-            <button
-              onClick={addPaymentMethod}
-              disabled={isAddingPayment}
-              className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
-            >
-              Add
-            </button>
           </div>
-        </div>
 
-        {/* Color Presets */}
-        <div className="mt-3">
-          <p className="text-xs text-surface-500 mb-2">Quick colors:</p>
-          <div className="flex flex-wrap gap-1">
-            {COLOR_OPTIONS.map((color) => (
+          {/* Tax */}
+          <TaxSettings />
+
+          {/* Discounts */}
+          <DiscountSettings customerTypes={customerTypes} />
+
+          {/* Receipts */}
+          <ReceiptSettings />
+
+          {/* Printers */}
+          <PrinterSettings />
+
+          {/* Transaction Numbers */}
+          <div className="card p-6 mt-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Transaction Numbers</h3>
+            <p className="text-surface-400 text-sm mb-4">
+              Numbers are reserved by the database, so two tills can never get the same number.
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+              <div>
+                <label className="block text-xs font-medium text-surface-400 mb-1">Prefix</label>
+                <input
+                  type="text"
+                  value={numberFormat.prefix}
+                  onChange={(e) => updateNumberFormat({ prefix: e.target.value.toUpperCase() })}
+                  placeholder="e.g. POS"
+                  maxLength={10}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-surface-400 mb-1">Branch Code</label>
+                <input
+                  type="text"
+                  value={numberFormat.branchCode}
+                  onChange={(e) => updateNumberFormat({ branchCode: e.target.value.toUpperCase() })}
+                  placeholder="e.g. MNL"
+                  maxLength={10}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-surface-400 mb-1">Number Width (digits)</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={numberFormat.padWidth.toString()}
+                  onChange={(e) => {
+                    const val = parseInt(e.target.value)
+                    updateNumberFormat({ padWidth: isNaN(val) ? 0 : val })
+                  }}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                />
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-xs font-medium text-surface-400 mb-1">Reset Counter</label>
+              <div className="flex gap-2">
+                {RESET_PERIOD_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => updateNumberFormat({ resetPeriod: option.value })}
+                    className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all ${
+                      numberFormat.resetPeriod === option.value
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-surface-800 text-surface-400 hover:bg-surface-700'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-3 bg-surface-800/50 rounded-lg">
+              <div>
+                <p className="text-xs text-surface-500">Preview</p>
+                <p className="text-white font-mono">
+                  {formatTransactionNumber(
+                    { ...numberFormat, padWidth: Math.min(Math.max(numberFormat.padWidth, 1), 10) },
+                    1
+                  )}
+                </p>
+              </div>
               <button
-                key={color.value}
-                onClick={() => setNewPaymentMethod((prev) => ({ ...prev, color: color.value }))}
-                className={`w-6 h-6 rounded-md transition-transform hover:scale-110 ${
-                  newPaymentMethod.color === color.value ? 'ring-2 ring-white ring-offset-2 ring-offset-[#141416]' : ''
-                }`}
-                style={{ backgroundColor: color.value }}
-                title={color.name}
-              />
-            ))}
+                onClick={handleSaveNumberFormat}
+                disabled={isSavingNumberFormat}
+                className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isSavingNumberFormat ? 'Saving...' : 'Save Format'}
+              </button>
+            </div>
           </div>
-        </div>
-      </div>
+        </>
+      )}
+
+      {/* Users */}
+      {isOwner && (
+        <div className="card p-6 mt-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Users</h3>
+          <p className="text-surface-400 text-sm mb-4">
+            Add staff accounts, set quick-switch PINs, disable people who have left and reset forgotten passwords.
+          </p>
 
-      {/* Customer Types */}
-      <div className="card p-6">
-        <h3 className="text-lg font-semibold text-white mb-4">Customer Types</h3>
-        <p className="text-surface-400 text-sm mb-4">
-          Add customer types like Student, Nurse, Driver, etc.
-        </p>
-
-        {/* Existing Customer Types */}
-        <div className="flex flex-wrap gap-2 mb-4">
-          {customerTypes.length === 0 ? (
-            <p className="text-surface-500 text-sm">No customer types configured yet</p>
-          ) : (
-            customerTypes.map((ct) => (
+          {/* Existing Users */}
+          <div className="space-y-2 mb-4">
+            {users.map((account) => (
               <div
-                key={ct.id}
-                className="flex items-center gap-2 px-3 py-2 rounded-lg group"
-                style={{ backgroundColor: ct.color }}
+                key={account.id}
+                className={`flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-3 bg-surface-800/50 rounded-lg ${
+                  account.is_active ? '' : 'opacity-60'
+                }`}
               >
-                <span className="text-white font-medium">{ct.name}</span>
+                <div className="flex items-center gap-3">
+                  <div className="w-9 h-9 rounded-full bg-surface-700 flex items-center justify-center">
+                    <span className="font-medium text-white">{account.username.charAt(0).toUpperCase()}</span>
+                  </div>
+                  <div>
+                    <p className="text-white font-medium">
+                      {account.display_name || account.username}
+                      {account.display_name && (
+                        <span className="text-surface-500 font-normal text-sm ml-2">@{account.username}</span>
+                      )}
+                    </p>
+                    <p className="text-surface-400 text-xs">
+                      <span className="capitalize">{account.role}</span>
+                      {' · '}
+                      {account.is_active ? 'Active' : 'Disabled'}
+                      {account.has_pin && ' · PIN set'}
+                      {' · '}
+                      {account.last_login_at
+                        ? `Last login ${format(new Date(account.last_login_at), 'MMM d, yyyy h:mm a')}`
+                        : 'Never logged in'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  {/* Owners and managers sign in with their password (set_user_pin()) */}
+                  {account.role === 'cashier' && (
+                    <button
+                      onClick={() => setPinTarget({ id: account.id, username: account.username, hasPin: account.has_pin })}
+                      className="px-3 py-1.5 text-sm bg-surface-700 hover:bg-surface-600 text-white rounded-lg transition-colors"
+                    >
+                      {account.has_pin ? 'Change PIN' : 'Set PIN'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setResetPasswordUser(account)}
+                    className="px-3 py-1.5 text-sm bg-surface-700 hover:bg-surface-600 text-white rounded-lg transition-colors"
+                  >
+                    Reset Password
+                  </button>
+                  {account.id !== user?.id && (
+                    <button
+                      onClick={() => toggleUserActive(account)}
+                      className={`px-3 py-1.5 text-sm rounded-lg transition-colors border ${
+                        account.is_active
+                          ? 'text-red-400 hover:text-white hover:bg-red-500 border-red-500/30'
+                          : 'text-green-400 hover:text-white hover:bg-green-500 border-green-500/30'
+                      }`}
+                    >
+                      {account.is_active ? 'Disable' : 'Enable'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Add New User */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={newUser.username}
+              onChange={(e) => setNewUser((prev) => ({ ...prev, username: e.target.value }))}
+              placeholder="Username"
+              autoComplete="off"
+              className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+            />
+            <input
+              type="text"
+              value={newUser.displayName}
+              onChange={(e) => setNewUser((prev) => ({ ...prev, displayName: e.target.value }))}
+              placeholder="Display name (optional)"
+              className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+            />
+            <input
+              type="password"
+              value={newUser.password}
+              onChange={(e) => setNewUser((prev) => ({ ...prev, password: e.target.value }))}
+              placeholder={`Password (min ${MIN_PASSWORD_LENGTH} characters)`}
+              autoComplete="new-password"
+              className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+            />
+            <div className="flex gap-2">
+              {ROLE_OPTIONS.map((option) => (
                 <button
-                  onClick={() => deleteCustomerType(ct.id)}
-                  className="text-white/50 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                  key={option.value}
+                  onClick={() => setNewUser((prev) => ({ ...prev, role: option.value }))}
+                  className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all ${
+                    newUser.role === option.value
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-surface-800 text-surface-400 hover:bg-surface-700'
+                  }`}
                 >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
+                  {option.label}
                 </button>
-              </div>
-            ))
-          )}
-        </div>
-
-        {/* Add New Customer Type */}
-        <div className="flex flex-col sm:flex-row gap-3">
-          <input
-            type="text"
-            value={newCustomerType.name}
-            onChange={(e) => setNewCustomerType((prev) => ({ ...prev, name: e.target.value }))}
-            placeholder="Customer type name"
-            className="flex-1 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
-          />
-          <div className="flex gap-2">
-            <div className="relative">
-              <input
-                type="color"
-                value={newCustomerType.color}
-                onChange={(e) => setNewCustomerType((prev) => ({ ...prev, color: e.target.value }))}
-                className="absolute inset-0 opacity-0 cursor-pointer"
-              />
-              <div
-                className="w-10 h-10 rounded-lg border-2 border-surface-700 cursor-pointer"
-                style={{ backgroundColor: newCustomerType.color }}
-              />
+              ))}
             </div>
+          </div>
+          <div className="flex justify-end mt-3">
             <button
-              onClick={addCustomerType}
-              disabled={isAddingCustomer}
+              onClick={addUser}
+              disabled={isAddingUser}
               className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
             >
-              Add
+              {isAddingUser ? 'Adding...' : 'Add User'}
             </button>
           </div>
         </div>
+      )}
 
-        {/* Color Presets */}
-        <div className="mt-3">
-          <p className="text-xs text-surface-500 mb-2">Quick colors:</p>
-          <div className="flex flex-wrap gap-1">
-            {COLOR_OPTIONS.map((color) => (
-              <button
-                key={color.value}
-                onClick={() => setNewCustomerType((prev) => ({ ...prev, color: color.value }))}
-                className={`w-6 h-6 rounded-md transition-transform hover:scale-110 ${
-                  newCustomerType.color === color.value ? 'ring-2 ring-white ring-offset-2 ring-offset-[#141416]' : ''
-                }`}
-                style={{ backgroundColor: color.value }}
-                title={color.name}
-              />
-            ))}
+      {/* Roles & Permissions */}
+      {isOwner && (
+        <div className="card p-6 mt-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Roles & Permissions</h3>
+          <p className="text-surface-400 text-sm mb-4">
+            Choose what managers and cashiers can do. Owners can always do everything.
+            Signed-in staff pick up changes within a minute.
+          </p>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-surface-800">
+                  <th className="p-3 text-left text-sm font-medium text-surface-400">Permission</th>
+                  {CONFIGURABLE_ROLES.map((role) => (
+                    <th key={role.value} className="p-3 text-center text-sm font-medium text-surface-400 w-24">
+                      {role.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {permissions.map((permission) => (
+                  <tr key={permission.key} className="border-b border-surface-800/50">
+                    <td className="p-3">
+                      <p className="text-white text-sm font-medium">{permission.label}</p>
+                      {permission.description && (
+                        <p className="text-surface-500 text-xs">{permission.description}</p>
+                      )}
+                    </td>
+                    {CONFIGURABLE_ROLES.map((role) => (
+                      <td key={role.value} className="p-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={hasRolePermission(role.value, permission.key)}
+                          onChange={() => toggleRolePermission(role.value, permission.key)}
+                          className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Account Section */}
       <div className="card p-6 mt-6">
@@ -329,21 +840,146 @@ export default function SettingsPage() {
               </span>
             </div>
             <div>
-              <p className="text-white font-medium">{user?.username}</p>
+              <p className="text-white font-medium">{user?.displayName || user?.username}</p>
               <p className="text-surface-400 text-sm capitalize">{user?.role}</p>
             </div>
           </div>
-          <button
-            onClick={logout}
-            className="flex items-center gap-2 px-4 py-2 text-red-400 hover:text-white hover:bg-red-500 rounded-lg transition-colors border border-red-500/30"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
-            </svg>
-            <span className="font-medium">Logout</span>
-          </button>
+          <div className="flex gap-2">
+            {user?.role === 'cashier' && (
+              <button
+                onClick={() =>
+                  setPinTarget({
+                    id: user.id,
+                    username: user.username,
+                    hasPin: users.find((account) => account.id === user.id)?.has_pin ?? false,
+                  })
+                }
+                className="px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white rounded-lg transition-colors"
+              >
+                Set My PIN
+              </button>
+            )}
+            <button
+              onClick={logout}
+              className="flex items-center gap-2 px-4 py-2 text-red-400 hover:text-white hover:bg-red-500 rounded-lg transition-colors border border-red-500/30"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+              </svg>
+              <span className="font-medium">Logout</span>
+            </button>
+          </div>
         </div>
       </div>
+
+      {/* Reset Password Modal */}
+      {resetPasswordUser && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="card p-6 max-w-md w-full">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-white">Reset Password</h2>
+              <button onClick={closeResetPassword} className="text-surface-400 hover:text-white">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={handleResetPassword} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">
+                  New password for {resetPasswordUser.username}
+                </label>
+                <input
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                  autoComplete="new-password"
+                  autoFocus
+                  required
+                />
+                <p className="text-xs text-surface-500 mt-2">
+                  {resetPasswordUser.id === user?.id
+                    ? 'Your other sessions will be signed out.'
+                    : `${resetPasswordUser.username} will be signed out on every device.`}
+                </p>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isResettingPassword}
+                className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50"
+              >
+                {isResettingPassword ? 'Saving...' : 'Reset Password'}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* PIN Modal */}
+      {pinTarget && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="card p-6 max-w-md w-full">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-white">{pinTarget.hasPin ? 'Change PIN' : 'Set PIN'}</h2>
+              <button onClick={closePinModal} className="text-surface-400 hover:text-white">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                savePin(newPin)
+              }}
+              className="space-y-4"
+            >
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">
+                  Quick-switch PIN for {pinTarget.username}
+                </label>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  value={newPin}
+                  onChange={(e) => setNewPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono tracking-widest"
+                  placeholder="4 to 6 digits"
+                  autoComplete="off"
+                  autoFocus
+                  required
+                />
+                <p className="text-xs text-surface-500 mt-2">
+                  Used to switch to this account from the Sales page without a password.
+                </p>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isSavingPin}
+                className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50"
+              >
+                {isSavingPin ? 'Saving...' : 'Save PIN'}
+              </button>
+              {pinTarget.hasPin && (
+                <button
+                  type="button"
+                  onClick={() => savePin(null)}
+                  disabled={isSavingPin}
+                  className="w-full py-2 px-4 text-red-400 hover:text-white hover:bg-red-500 rounded-lg transition-colors border border-red-500/30 disabled:opacity-50"
+                >
+                  Remove PIN
+                </button>
+              )}
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,550 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  fetchOpenShift,
+  fetchShiftSummary,
+  fetchClosedShifts,
+  openShift,
+  addCashMovement,
+  closeShift,
+  downloadZReportCsv,
+  printZReport,
+} from '@/lib/shifts'
+import { CashMovementType, Shift, ShiftSummary } from '@/types/database'
+import { format, startOfDay, endOfDay, subDays } from 'date-fns'
+import toast from 'react-hot-toast'
+
+const EMPTY_MOVEMENT = { type: 'cash_out' as CashMovementType, amount: '', reason: '' }
+
+const peso = (amount: number) => `₱${Number(amount).toFixed(2)}`
+
+export default function ShiftsPage() {
+  const [openShiftRow, setOpenShiftRow] = useState<Shift | null>(null)
+  const [summary, setSummary] = useState<ShiftSummary | null>(null)
+  const [closedShifts, setClosedShifts] = useState<Shift[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // History date range
+  const [startDate, setStartDate] = useState<string>(format(subDays(new Date(), 7), 'yyyy-MM-dd'))
+  const [endDate, setEndDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'))
+
+  // Forms
+  const [openingFloat, setOpeningFloat] = useState('')
+  const [openingNotes, setOpeningNotes] = useState('')
+  const [movement, setMovement] = useState(EMPTY_MOVEMENT)
+  const [countedCash, setCountedCash] = useState('')
+  const [closingNotes, setClosingNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Z-report modal
+  const [viewingShift, setViewingShift] = useState<Shift | null>(null)
+
+  const fetchCurrentShift = useCallback(async () => {
+    try {
+      const shift = await fetchOpenShift()
+      setOpenShiftRow(shift)
+      setSummary(shift ? await fetchShiftSummary(shift.id) : null)
+    } catch (error) {
+      console.error('Error fetching shift:', error)
+      toast.error('Failed to load current shift')
+    }
+  }, [])
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setClosedShifts(await fetchClosedShifts(startOfDay(new Date(startDate)), endOfDay(new Date(endDate))))
+    } catch (error) {
+      console.error('Error fetching shifts:', error)
+      toast.error('Failed to load shift history')
+    }
+  }, [startDate, endDate])
+
+  useEffect(() => {
+    fetchCurrentShift().finally(() => setLoading(false))
+
+    // Keep the drawer totals current while sales come in
+    const interval = setInterval(fetchCurrentShift, 30000)
+    return () => clearInterval(interval)
+  }, [fetchCurrentShift])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  const handleOpenShift = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amount = parseFloat(openingFloat)
+    if (isNaN(amount) || amount < 0) {
+      toast.error('Enter the opening float')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await openShift(amount, openingNotes)
+      toast.success('Shift opened')
+      setOpeningFloat('')
+      setOpeningNotes('')
+      fetchCurrentShift()
+    } catch (error: any) {
+      console.error('Error opening shift:', error)
+      toast.error(error?.message || 'Failed to open shift')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAddMovement = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amount = parseFloat(movement.amount)
+    if (isNaN(amount) || amount <= 0) {
+      toast.error('Enter an amount')
+      return
+    }
+    if (!movement.reason.trim()) {
+      toast.error('Enter a reason')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await addCashMovement(movement.type, amount, movement.reason)
+      toast.success(movement.type === 'cash_in' ? 'Cash in recorded' : 'Cash out recorded')
+      setMovement(EMPTY_MOVEMENT)
+      fetchCurrentShift()
+    } catch (error: any) {
+      console.error('Error recording cash movement:', error)
+      toast.error(error?.message || 'Failed to record cash movement')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCloseShift = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amount = parseFloat(countedCash)
+    if (isNaN(amount) || amount < 0) {
+      toast.error('Enter the counted cash')
+      return
+    }
+    if (!confirm('Close this shift? Sales after this will not be part of it.')) return
+
+    setIsSaving(true)
+    try {
+      const closedShift = await closeShift(amount, closingNotes)
+      toast.success('Shift closed')
+      setCountedCash('')
+      setClosingNotes('')
+      setViewingShift(closedShift)
+      fetchCurrentShift()
+      fetchHistory()
+    } catch (error: any) {
+      console.error('Error closing shift:', error)
+      toast.error(error?.message || 'Failed to close shift')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  const countedAmount = parseFloat(countedCash)
+  const variance = summary && !isNaN(countedAmount) ? countedAmount - summary.expected_cash : null
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-white">Shifts</h1>
+        <p className="text-surface-400 text-sm mt-1">Open and close the cash drawer and reconcile cash</p>
+      </div>
+
+      {!openShiftRow || !summary ? (
+        /* Open Shift */
+        <div className="card p-6 max-w-lg">
+          <h3 className="text-lg font-semibold text-white mb-1">Open Shift</h3>
+          <p className="text-surface-400 text-sm mb-4">
+            Count the starting cash in the drawer. Cash sales are only reconciled while a shift is open.
+          </p>
+          <form onSubmit={handleOpenShift} className="space-y-3">
+            <div>
+              <label className="block text-xs font-medium text-surface-400 mb-1">Opening Float (₱)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                placeholder="0.00"
+                autoFocus
+              />
+            </div>
+            <input
+              type="text"
+              value={openingNotes}
+              onChange={(e) => setOpeningNotes(e.target.value)}
+              className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+              placeholder="Notes (optional)"
+            />
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50"
+            >
+              {isSaving ? 'Opening...' : 'Open Shift'}
+            </button>
+          </form>
+        </div>
+      ) : (
+        <>
+          {/* Current Shift */}
+          <div className="mb-4 p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
+            <p className="text-green-400 text-sm">
+              Shift open since <strong>{format(new Date(openShiftRow.opened_at), 'MMM d yyyy h:mm a')}</strong>
+              {openShiftRow.opened_by_name && <> by <strong>{openShiftRow.opened_by_name}</strong></>}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
+            <div className="card p-4">
+              <p className="text-surface-400 text-sm">Opening Float</p>
+              <p className="text-xl font-bold text-white font-mono">{peso(summary.opening_float)}</p>
+            </div>
+            <div className="card p-4">
+              <p className="text-surface-400 text-sm">Cash Sales</p>
+              <p className="text-xl font-bold text-green-400 font-mono">{peso(summary.cash_sales)}</p>
+              {summary.cash_refunds > 0 && (
+                <p className="text-xs text-red-400">-{peso(summary.cash_refunds)} refunded</p>
+              )}
+            </div>
+            <div className="card p-4">
+              <p className="text-surface-400 text-sm">Cash In</p>
+              <p className="text-xl font-bold text-blue-400 font-mono">{peso(summary.cash_in)}</p>
+            </div>
+            <div className="card p-4">
+              <p className="text-surface-400 text-sm">Cash Out</p>
+              <p className="text-xl font-bold text-red-400 font-mono">{peso(summary.cash_out)}</p>
+            </div>
+            <div className="card p-4 bg-primary-500/10 border border-primary-500/20">
+              <p className="text-surface-400 text-sm">Expected in Drawer</p>
+              <p className="text-xl font-bold text-primary-500 font-mono">{peso(summary.expected_cash)}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+            {/* Sales This Shift */}
+            <div className="card p-6">
+              <h3 className="text-lg font-semibold text-white mb-1">Sales This Shift</h3>
+              <p className="text-surface-400 text-sm mb-4">
+                {summary.transaction_count} transaction(s) · {peso(summary.sales_total)}
+              </p>
+              {summary.payment_methods.length === 0 ? (
+                <p className="text-surface-500 text-sm">No sales yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {summary.payment_methods.map((pm) => (
+                    <div key={pm.payment_method} className="flex items-center justify-between p-2 bg-surface-800/50 rounded-lg">
+                      <span className="text-white text-sm">
+                        {pm.payment_method} <span className="text-surface-500">({pm.transactions})</span>
+                      </span>
+                      <span className="text-surface-300 font-mono text-sm">{peso(pm.total)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Cash In / Out */}
+            <div className="card p-6">
+              <h3 className="text-lg font-semibold text-white mb-4">Cash In / Out</h3>
+              <form onSubmit={handleAddMovement} className="space-y-3">
+                <div className="flex bg-surface-800 rounded-lg p-1">
+                  {(['cash_out', 'cash_in'] as CashMovementType[]).map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setMovement({ ...movement, type })}
+                      className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-all ${
+                        movement.type === type ? 'bg-primary-500 text-white' : 'text-surface-400 hover:text-white'
+                      }`}
+                    >
+                      {type === 'cash_out' ? 'Cash Out' : 'Cash In'}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={movement.amount}
+                  onChange={(e) => setMovement({ ...movement, amount: e.target.value })}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                  placeholder="Amount"
+                />
+                <input
+                  type="text"
+                  value={movement.reason}
+                  onChange={(e) => setMovement({ ...movement, reason: e.target.value })}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  placeholder={movement.type === 'cash_out' ? 'Reason (e.g. paid-out for ice, safe drop)' : 'Reason (e.g. extra change)'}
+                />
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="w-full px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Record
+                </button>
+              </form>
+
+              {summary.movements.length > 0 && (
+                <div className="mt-4 space-y-1 max-h-40 overflow-y-auto">
+                  {summary.movements.map((m, index) => (
+                    <div key={index} className="flex items-center justify-between text-sm p-2 bg-surface-800/50 rounded">
+                      <span className="text-surface-300 truncate mr-2">
+                        {format(new Date(m.created_at), 'h:mm a')} · {m.reason}
+                      </span>
+                      <span className={`font-mono ${m.movement_type === 'cash_in' ? 'text-blue-400' : 'text-red-400'}`}>
+                        {m.movement_type === 'cash_in' ? '+' : '-'}{peso(m.amount)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Close Shift */}
+            <div className="card p-6">
+              <h3 className="text-lg font-semibold text-white mb-4">Close Shift</h3>
+              <form onSubmit={handleCloseShift} className="space-y-3">
+                <div>
+                  <label className="block text-xs font-medium text-surface-400 mb-1">Counted Cash (₱)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={countedCash}
+                    onChange={(e) => setCountedCash(e.target.value)}
+                    className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                    placeholder="0.00"
+                  />
+                </div>
+                {variance !== null && (
+                  <div
+                    className={`p-3 rounded-lg border text-sm flex items-center justify-between ${
+                      Math.abs(variance) < 0.005
+                        ? 'bg-green-500/10 border-green-500/20 text-green-400'
+                        : variance > 0
+                          ? 'bg-blue-500/10 border-blue-500/20 text-blue-400'
+                          : 'bg-red-500/10 border-red-500/20 text-red-400'
+                    }`}
+                  >
+                    <span>{Math.abs(variance) < 0.005 ? 'Balanced' : variance > 0 ? 'Over' : 'Short'}</span>
+                    <span className="font-mono font-bold">{peso(variance)}</span>
+                  </div>
+                )}
+                <input
+                  type="text"
+                  value={closingNotes}
+                  onChange={(e) => setClosingNotes(e.target.value)}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  placeholder="Notes (optional)"
+                />
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="w-full px-4 py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {isSaving ? 'Closing...' : 'Close Shift & Print Z-Report'}
+                </button>
+              </form>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Shift History */}
+      <div className="card overflow-hidden mt-6">
+        <div className="p-6 pb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-white">Closed Shifts</h3>
+            <p className="text-surface-400 text-sm mt-1">Z-reports for each closed shift</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+            />
+            <span className="text-surface-500">to</span>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+            />
+          </div>
+        </div>
+        {closedShifts.length === 0 ? (
+          <p className="text-surface-500 text-sm text-center pb-8">No closed shifts in this date range</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-surface-800 bg-surface-800/50">
+                  <th className="p-4 text-left text-sm font-medium text-surface-400">Opened</th>
+                  <th className="p-4 text-left text-sm font-medium text-surface-400">Closed</th>
+                  <th className="p-4 text-right text-sm font-medium text-surface-400">Sales</th>
+                  <th className="p-4 text-right text-sm font-medium text-surface-400">Expected</th>
+                  <th className="p-4 text-right text-sm font-medium text-surface-400">Counted</th>
+                  <th className="p-4 text-right text-sm font-medium text-surface-400">Over / Short</th>
+                  <th className="p-4"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {closedShifts.map((shift) => (
+                  <tr key={shift.id} className="border-b border-surface-800/50 hover:bg-surface-800/30">
+                    <td className="p-4 text-sm">
+                      <p className="text-white font-mono">{format(new Date(shift.opened_at), 'MMM d h:mm a')}</p>
+                      <p className="text-surface-500 text-xs">{shift.opened_by_name}</p>
+                    </td>
+                    <td className="p-4 text-sm">
+                      <p className="text-white font-mono">
+                        {shift.closed_at && format(new Date(shift.closed_at), 'MMM d h:mm a')}
+                      </p>
+                      <p className="text-surface-500 text-xs">{shift.closed_by_name}</p>
+                    </td>
+                    <td className="p-4 text-right text-surface-300 text-sm font-mono">
+                      {peso(shift.z_report?.sales_total || 0)}
+                    </td>
+                    <td className="p-4 text-right text-surface-300 text-sm font-mono">{peso(shift.expected_cash || 0)}</td>
+                    <td className="p-4 text-right text-white text-sm font-mono">{peso(shift.counted_cash || 0)}</td>
+                    <td
+                      className={`p-4 text-right text-sm font-mono font-bold ${
+                        (shift.cash_variance || 0) < 0 ? 'text-red-400' : (shift.cash_variance || 0) > 0 ? 'text-blue-400' : 'text-green-400'
+                      }`}
+                    >
+                      {peso(shift.cash_variance || 0)}
+                    </td>
+                    <td className="p-4 text-right">
+                      <button
+                        onClick={() => setViewingShift(shift)}
+                        className="px-3 py-1.5 text-sm bg-surface-700 hover:bg-surface-600 text-white rounded-lg transition-colors"
+                      >
+                        Z-Report
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Z-Report Modal */}
+      {viewingShift?.z_report && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="card p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-white">Z-Report</h2>
+              <button onClick={() => setViewingShift(null)} className="text-surface-400 hover:text-white">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="space-y-1 text-sm font-mono mb-4">
+              <div className="flex justify-between text-surface-400">
+                <span>Opened</span>
+                <span>{format(new Date(viewingShift.z_report.opened_at), 'MMM d h:mm a')}</span>
+              </div>
+              <div className="flex justify-between text-surface-400">
+                <span>Closed</span>
+                <span>{format(new Date(viewingShift.z_report.closed_at), 'MMM d h:mm a')}</span>
+              </div>
+              <div className="flex justify-between text-white pt-2">
+                <span>Transactions</span>
+                <span>{viewingShift.z_report.transaction_count}</span>
+              </div>
+              <div className="flex justify-between text-white">
+                <span>Total Sales</span>
+                <span>{peso(viewingShift.z_report.sales_total)}</span>
+              </div>
+              {viewingShift.z_report.payment_methods.map((pm) => (
+                <div key={pm.payment_method} className="flex justify-between text-surface-400 pl-4">
+                  <span>{pm.payment_method}</span>
+                  <span>{peso(pm.total)}</span>
+                </div>
+              ))}
+              <div className="border-t border-dashed border-surface-700 my-2" />
+              <div className="flex justify-between text-white">
+                <span>Opening Float</span>
+                <span>{peso(viewingShift.z_report.opening_float)}</span>
+              </div>
+              <div className="flex justify-between text-white">
+                <span>+ Cash Sales</span>
+                <span>{peso(viewingShift.z_report.cash_sales)}</span>
+              </div>
+              {(viewingShift.z_report.cash_refunds || 0) > 0 && (
+                <div className="flex justify-between text-white">
+                  <span>- Cash Refunds</span>
+                  <span>{peso(viewingShift.z_report.cash_refunds)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-white">
+                <span>+ Cash In</span>
+                <span>{peso(viewingShift.z_report.cash_in)}</span>
+              </div>
+              <div className="flex justify-between text-white">
+                <span>- Cash Out</span>
+                <span>{peso(viewingShift.z_report.cash_out)}</span>
+              </div>
+              <div className="flex justify-between text-primary-500 font-bold">
+                <span>Expected Cash</span>
+                <span>{peso(viewingShift.z_report.expected_cash)}</span>
+              </div>
+              <div className="flex justify-between text-white font-bold">
+                <span>Counted Cash</span>
+                <span>{peso(viewingShift.z_report.counted_cash)}</span>
+              </div>
+              <div
+                className={`flex justify-between font-bold ${
+                  viewingShift.z_report.cash_variance < 0 ? 'text-red-400' : 'text-green-400'
+                }`}
+              >
+                <span>Over / Short</span>
+                <span>{peso(viewingShift.z_report.cash_variance)}</span>
+              </div>
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => downloadZReportCsv(viewingShift)}
+                className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+              >
+                Export CSV
+              </button>
+              <button
+                onClick={() => printZReport(viewingShift)}
+                className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors"
+              >
+                Print
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,60 +1,139 @@
 'use client'
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
-import { User, UserRole } from '@/types/database'
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import toast from 'react-hot-toast'
+import { User } from '@/types/database'
+import { setSessionToken } from '@/lib/supabase'
+import { loginUser, logoutUser, fetchSessionUser, switchUserWithPin, LoginSession } from '@/lib/users'
 
 interface AuthContextType {
   user: User | null
-  login: (username: string, password: string) => boolean
+  login: (username: string, password: string) => Promise<boolean>
+  switchUser: (userId: string, pin: string) => Promise<boolean>
   logout: () => void
   isLoading: boolean
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
-const USERS: { username: string; password: string; role: UserRole }[] = [
-  { username: 'owner', password: 'owner123', role: 'owner' },
-  { username: 'cashier', password: 'cashier123', role: 'cashier' },
-]
+const SESSION_STORAGE_KEY = 'kashpos_session'
+const SESSION_CHECK_INTERVAL_MS = 60000
+
+interface StoredSession {
+  token: string
+  expiresAt: string
+}
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
+  const [expiresAt, setExpiresAt] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
+  const clearSession = useCallback(() => {
+    setUser(null)
+    setExpiresAt(null)
+    setSessionToken(null)
+    localStorage.removeItem(SESSION_STORAGE_KEY)
+  }, [])
+
   useEffect(() => {
-    // Check for stored session
-    const storedUser = localStorage.getItem('kashpos_user')
-    if (storedUser) {
+    // Sessions from the old hardcoded login are no longer valid
+    localStorage.removeItem('kashpos_user')
+
+    // Check for stored session and confirm it with the database
+    const restoreSession = async () => {
+      const storedSession = localStorage.getItem(SESSION_STORAGE_KEY)
+      if (!storedSession) return
+
       try {
-        setUser(JSON.parse(storedUser))
+        const session: StoredSession = JSON.parse(storedSession)
+        if (new Date(session.expiresAt).getTime() <= Date.now()) {
+          clearSession()
+          return
+        }
+
+        setSessionToken(session.token)
+        const sessionUser = await fetchSessionUser()
+        if (sessionUser) {
+          setUser(sessionUser)
+          setExpiresAt(session.expiresAt)
+        } else {
+          clearSession()
+        }
       } catch {
-        localStorage.removeItem('kashpos_user')
+        clearSession()
       }
     }
-    setIsLoading(false)
-  }, [])
 
-  const login = (username: string, password: string): boolean => {
-    const foundUser = USERS.find(
-      (u) => u.username === username && u.password === password
+    restoreSession().finally(() => setIsLoading(false))
+  }, [clearSession])
+
+  // Sign out once the session expires, and pick up permission or account
+  // changes the owner makes while this user is signed in
+  useEffect(() => {
+    if (!expiresAt) return
+
+    const interval = setInterval(async () => {
+      if (new Date(expiresAt).getTime() <= Date.now()) {
+        clearSession()
+        toast.error('Your session has expired. Please sign in again.')
+        return
+      }
+
+      try {
+        const sessionUser = await fetchSessionUser()
+        if (sessionUser) {
+          // Keep the same object when nothing changed to avoid re-rendering every page
+          setUser((prev) => (JSON.stringify(prev) === JSON.stringify(sessionUser) ? prev : sessionUser))
+        } else {
+          clearSession()
+          toast.error('You have been signed out.')
+        }
+      } catch (error) {
+        // Keep the session through network hiccups
+        console.error('Error refreshing session:', error)
+      }
+    }, SESSION_CHECK_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [expiresAt, clearSession])
+
+  const startSession = (session: LoginSession) => {
+    setSessionToken(session.token)
+    setUser(session.user)
+    setExpiresAt(session.expiresAt)
+    localStorage.setItem(
+      SESSION_STORAGE_KEY,
+      JSON.stringify({ token: session.token, expiresAt: session.expiresAt } as StoredSession)
     )
-    
-    if (foundUser) {
-      const userObj: User = { username: foundUser.username, role: foundUser.role }
-      setUser(userObj)
-      localStorage.setItem('kashpos_user', JSON.stringify(userObj))
-      return true
-    }
-    return false
+  }
+
+  const login = async (username: string, password: string): Promise<boolean> => {
+    const session = await loginUser(username, password)
+    if (!session) return false
+
+    startSession(session)
+    return true
+  }
+
+  // PIN quick switch on a shared till; the previous user's session is ended
+  const switchUser = async (userId: string, pin: string): Promise<boolean> => {
+    const session = await switchUserWithPin(userId, pin)
+    if (!session) return false
+
+    startSession(session)
+    return true
   }
 
   const logout = () => {
-    setUser(null)
-    localStorage.removeItem('kashpos_user')
+    // Revoke the session server-side; sign out locally even if that fails
+    logoutUser()
+      .catch((error) => console.error('Error revoking session:', error))
+      .finally(clearSession)
   }
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, login, switchUser, logout, isLoading }}>
       {children}
     </AuthContext.Provider>
   )
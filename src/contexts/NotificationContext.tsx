@@ -1,17 +1,23 @@
 'use client'
 
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react'
-import { RecentSale, Sale } from '@/types/database'
+import { Product, RecentTransaction, Sale } from '@/types/database'
 import { supabase } from '@/lib/supabase'
+import { fetchLowStockItems } from '@/lib/lowStock'
 import toast from 'react-hot-toast'
 
 interface NotificationContextType {
-  recentSales: RecentSale[]
-  addRecentSale: (sale: Sale) => void
-  cancelSale: (saleId: string) => Promise<boolean>
-  removeRecentSale: (saleId: string) => void
+  recentTransactions: RecentTransaction[]
+  addRecentTransaction: (transactionId: string, transactionNumber: string, sales: Sale[]) => void
+  cancelTransaction: (transactionId: string) => Promise<boolean>
+  removeRecentTransaction: (transactionId: string) => void
   storageWarning: string | null
   checkStorage: () => Promise<void>
+  // Items at or below their reorder point; empty once dismissed until
+  // another item crosses its threshold
+  lowStockItems: Product[]
+  checkLowStock: () => Promise<void>
+  dismissLowStock: () => void
 }
 
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined)
@@ -19,77 +25,67 @@ const NotificationContext = createContext<NotificationContextType | undefined>(u
 const CANCEL_WINDOW_MS = 30000 // 30 seconds
 
 export function NotificationProvider({ children }: { children: ReactNode }) {
-  const [recentSales, setRecentSales] = useState<RecentSale[]>([])
+  const [recentTransactions, setRecentTransactions] = useState<RecentTransaction[]>([])
   const [storageWarning, setStorageWarning] = useState<string | null>(null)
+  const [lowStock, setLowStock] = useState<Product[]>([])
+  const [dismissedLowStockKey, setDismissedLowStockKey] = useState<string | null>(null)
 
-  const addRecentSale = useCallback((sale: Sale) => {
+  const checkLowStock = useCallback(async () => {
+    try {
+      setLowStock(await fetchLowStockItems())
+    } catch (error) {
+      console.error('Error checking low stock:', error)
+    }
+  }, [])
+
+  const addRecentTransaction = useCallback((transactionId: string, transactionNumber: string, sales: Sale[]) => {
     const expiresAt = Date.now() + CANCEL_WINDOW_MS
-    
+    const total = sales.reduce((sum, sale) => sum + sale.total, 0)
+
     // Only keep ONE notification at a time - replace previous with new one
-    setRecentSales([{ sale, expiresAt }])
+    setRecentTransactions([{ transactionId, transactionNumber, sales, total, expiresAt }])
 
     // Auto-remove after expiry
     setTimeout(() => {
-      setRecentSales((prev) => prev.filter((rs) => rs.sale.id !== sale.id))
+      setRecentTransactions((prev) => prev.filter((rt) => rt.transactionId !== transactionId))
     }, CANCEL_WINDOW_MS)
   }, [])
 
-  const cancelSale = useCallback(async (saleId: string): Promise<boolean> => {
-    const recentSale = recentSales.find((rs) => rs.sale.id === saleId)
-    if (!recentSale) {
+  const cancelTransaction = useCallback(async (transactionId: string): Promise<boolean> => {
+    const recentTransaction = recentTransactions.find((rt) => rt.transactionId === transactionId)
+    if (!recentTransaction) {
       toast.error('Sale cannot be cancelled - time expired')
       return false
     }
 
-    if (Date.now() > recentSale.expiresAt) {
-      setRecentSales((prev) => prev.filter((rs) => rs.sale.id !== saleId))
+    if (Date.now() > recentTransaction.expiresAt) {
+      setRecentTransactions((prev) => prev.filter((rt) => rt.transactionId !== transactionId))
       toast.error('Sale cannot be cancelled - time expired')
       return false
     }
 
     try {
-      // Mark sale as cancelled
-      const { error: saleError } = await (supabase as any)
-        .from('sales')
-        .update({ cancelled: true, cancelled_at: new Date().toISOString() })
-        .eq('id', saleId)
-
-      if (saleError) throw saleError
-
-      // Restore inventory
-      const { error: inventoryError } = await (supabase as any).rpc('restore_inventory', {
-        p_product_id: recentSale.sale.product_id,
-        p_qty: recentSale.sale.qty
+      // Cancels every line and restores every ingredient in one database
+      // transaction (schema-update-v15)
+      const { error } = await (supabase as any).rpc('cancel_recent_transaction', {
+        p_transaction_id: transactionId,
       })
 
-      if (inventoryError) {
-        // Fallback: direct update
-        const { data: product } = await (supabase as any)
-          .from('products')
-          .select('qty')
-          .eq('id', recentSale.sale.product_id)
-          .single()
-
-        if (product) {
-          await (supabase as any)
-            .from('products')
-            .update({ qty: product.qty + recentSale.sale.qty })
-            .eq('id', recentSale.sale.product_id)
-        }
-      }
+      if (error) throw error
 
-      setRecentSales((prev) => prev.filter((rs) => rs.sale.id !== saleId))
+      setRecentTransactions((prev) => prev.filter((rt) => rt.transactionId !== transactionId))
       toast.success('Sale cancelled and inventory restored')
+      checkLowStock()
       return true
     } catch (error) {
       console.error('Error cancelling sale:', error)
       toast.error('Failed to cancel sale')
       return false
     }
-  }, [recentSales])
+  }, [recentTransactions, checkLowStock])
 
-  const removeRecentSale = useCallback((saleId: string) => {
-    setRecentSales((prev) => prev.filter((rs) => rs.sale.id !== saleId))
+  const removeRecentTransaction = useCallback((transactionId: string) => {
+    setRecentTransactions((prev) => prev.filter((rt) => rt.transactionId !== transactionId))
   }, [])
 
   const checkStorage = useCallback(async () => {
@@ -123,15 +119,25 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
     }
   }, [])
 
+  const lowStockKey = lowStock.map((item) => item.id).join(',')
+  const lowStockItems = lowStockKey === dismissedLowStockKey ? [] : lowStock
+
+  const dismissLowStock = useCallback(() => {
+    setDismissedLowStockKey(lowStockKey)
+  }, [lowStockKey])
+
   return (
     <NotificationContext.Provider
       value={{
-        recentSales,
-        addRecentSale,
-        cancelSale,
-        removeRecentSale,
+        recentTransactions,
+        addRecentTransaction,
+        cancelTransaction,
+        removeRecentTransaction,
         storageWarning,
         checkStorage,
+        lowStockItems,
+        checkLowStock,
+        dismissLowStock,
       }}
     >
       {children}
@@ -0,0 +1,22 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { Permission } from '@/types/database'
+
+// Returns a checker for the signed-in user's permissions:
+//   const can = usePermission()
+//   if (can('view_reports')) ...
+// Owners can do everything. The database enforces the same rules
+// (schema-update-v11-permissions.sql); this only decides what to show.
+export function usePermission() {
+  const { user } = useAuth()
+
+  return useCallback(
+    (permission: Permission) => {
+      if (!user) return false
+      return user.role === 'owner' || user.permissions.includes(permission)
+    },
+    [user]
+  )
+}
@@ -0,0 +1,34 @@
+// Helpers for filtering and grouping sales by the cashier who rang them up.
+// cashier_id / cashier_name are stamped by schema-update-v12-cashier-attribution.sql;
+// sales recorded before that have neither.
+
+export const UNASSIGNED_CASHIER = 'unassigned'
+
+export interface CashierOption {
+  key: string
+  name: string
+}
+
+interface CashierFields {
+  cashier_id: string | null
+  cashier_name: string | null
+}
+
+export const getCashierKey = (sale: CashierFields) => sale.cashier_id || UNASSIGNED_CASHIER
+
+export const getCashierName = (sale: CashierFields) => sale.cashier_name || 'Unassigned'
+
+// Distinct cashiers in a list of sales, alphabetical with Unassigned last
+export const getCashierOptions = (sales: CashierFields[]): CashierOption[] => {
+  const options = new Map<string, CashierOption>()
+  sales.forEach((sale) => {
+    const key = getCashierKey(sale)
+    if (!options.has(key)) options.set(key, { key, name: getCashierName(sale) })
+  })
+
+  return Array.from(options.values()).sort((a, b) => {
+    if (a.key === UNASSIGNED_CASHIER) return 1
+    if (b.key === UNASSIGNED_CASHIER) return -1
+    return a.name.localeCompare(b.name)
+  })
+}
@@ -0,0 +1,35 @@
+import { supabase } from '@/lib/supabase'
+import { CheckoutRequest, CheckoutResult } from '@/types/database'
+
+// Runs the whole checkout (transaction number, sale lines, ingredient deductions)
+// as one database transaction via the process_checkout function (schema-update-v7)
+export const processCheckout = async (request: CheckoutRequest): Promise<CheckoutResult> => {
+  const { data, error } = await (supabase as any).rpc('process_checkout', {
+    p_items: request.items,
+    // Taken from p_payments (schema-update-v28)
+    p_payment_method: null,
+    p_customer_type: request.customerType,
+    p_dine_in_takeout: request.dineInTakeout,
+    p_customer_payment: null,
+    p_discount: request.discount || null,
+    p_payments: request.payments,
+  })
+
+  if (error) throw error
+
+  if (!data.success) {
+    return {
+      success: false,
+      error: 'out_of_stock',
+      outOfStock: data.out_of_stock || [],
+    }
+  }
+
+  return {
+    success: true,
+    transactionId: data.transaction_id,
+    transactionNumber: data.transaction_number,
+    sales: data.sales || [],
+    payments: data.payments || [],
+  }
+}
@@ -0,0 +1,74 @@
+import { supabase } from '@/lib/supabase'
+import { ComboSlotWithOptions, FinishedProduct, Sale } from '@/types/database'
+
+// Combos and bundles (schema-update-v24-combos.sql) are finished products
+// made of other finished products. Checkout sells one sale line per
+// component and splits the bundle price across them by list price.
+
+export interface ComboSlotInput {
+  name: string
+  options: { productId: string; priceDelta: number }[]
+}
+
+export interface ComboInput {
+  name: string
+  sellingPrice: number
+  imageUrl: string | null
+  slots: ComboSlotInput[]
+}
+
+// Every combo's slots when comboId is left out, in display order
+export const fetchComboSlots = async (comboId?: string): Promise<ComboSlotWithOptions[]> => {
+  let query = (supabase as any)
+    .from('combo_slots')
+    .select('*, combo_slot_options(*)')
+    .order('sort_order')
+    .order('sort_order', { referencedTable: 'combo_slot_options' })
+
+  if (comboId) query = query.eq('combo_id', comboId)
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
+}
+
+// comboId null creates the combo; the slots replace the existing ones
+export const saveCombo = async (comboId: string | null, combo: ComboInput): Promise<FinishedProduct> => {
+  const { data, error } = await (supabase as any).rpc('save_combo', {
+    p_id: comboId,
+    p_name: combo.name,
+    p_selling_price: combo.sellingPrice,
+    p_image_url: combo.imageUrl,
+    p_slots: combo.slots.map((slot) => ({
+      name: slot.name,
+      options: slot.options.map((option) => ({ product_id: option.productId, price_delta: option.priceDelta })),
+    })),
+  })
+  if (error) throw error
+  return data
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100
+
+// The bundle price split across the chosen products by their list prices,
+// the last one taking what's left, as combo_cart_lines() does
+export const splitComboPrice = (bundlePrice: number, listPrices: number[]): number[] => {
+  const listTotal = listPrices.reduce((sum, price) => sum + price, 0)
+  let allocated = 0
+
+  return listPrices.map((listPrice, index) => {
+    const share =
+      index === listPrices.length - 1
+        ? round2(bundlePrice - allocated)
+        : round2(listTotal > 0 ? (bundlePrice * listPrice) / listTotal : bundlePrice / listPrices.length)
+    allocated += share
+    return share
+  })
+}
+
+// Sale lines with each combo's items together, where its first item was
+export const groupComboLines = <T extends Pick<Sale, 'combo_line_id'>>(sales: T[]): T[] => {
+  const groupStart = (sale: T) =>
+    sales.findIndex((s) => s === sale || (!!sale.combo_line_id && s.combo_line_id === sale.combo_line_id))
+  return [...sales].sort((a, b) => groupStart(a) - groupStart(b))
+}
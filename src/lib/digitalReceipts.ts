@@ -0,0 +1,123 @@
+import { supabase, getSessionToken } from '@/lib/supabase'
+import { buildReceiptLines, renderReceiptHtml } from '@/lib/receipts'
+import { Payment, ReceiptChannel, ReceiptDelivery, ReceiptFormat, Sale } from '@/types/database'
+
+// Email and SMS receipts (schema-update-v27-digital-receipts.sql). The till
+// asks /api/receipts/send for a transaction's receipt; the server lays it
+// out from the transaction's sale lines and payments and hands it to the
+// provider configured for the channel, recording the delivery against the
+// transaction.
+
+export const RECEIPT_CHANNELS: { value: ReceiptChannel; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+]
+
+// Plain addresses only: no display names, quotes, brackets or lists, so the
+// address can't carry anything else into the message headers
+const EMAIL_PATTERN = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}$/
+
+// The recipient as it's sent, or null when it isn't a valid address or
+// number. Local mobile numbers (0917 123 4567) become +639171234567.
+export const normalizeRecipient = (channel: ReceiptChannel, value: string): string | null => {
+  const trimmed = value.trim()
+
+  if (channel === 'email') return EMAIL_PATTERN.test(trimmed) ? trimmed : null
+
+  const digits = trimmed.replace(/[\s\-().]/g, '')
+  if (/^09\d{9}$/.test(digits)) return `+63${digits.slice(1)}`
+  if (/^639\d{9}$/.test(digits)) return `+${digits}`
+  if (/^\+\d{8,15}$/.test(digits)) return digits
+  return null
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+// One text message: the store, transaction, total and payment
+export const buildSmsReceipt = (sales: Sale[], receiptFormat: ReceiptFormat, payments: Payment[] = []): string => {
+  const first = sales[0]
+  const storeName = receiptFormat.header.split('\n').find((line) => line.trim())?.trim() || 'KASHPOS'
+  const total = sales.reduce((sum, s) => sum + s.total, 0)
+  const vat = sales.reduce((sum, s) => sum + s.vat_amount, 0)
+  const items = sales.reduce((sum, s) => sum + s.qty, 0)
+  const paidBy =
+    payments.length > 1
+      ? payments.map((p) => `${p.payment_method} P${formatAmount(p.tendered)}`).join(' + ')
+      : first.payment_method
+
+  return [
+    `${storeName} receipt ${first.transaction_number || first.transaction_id}`,
+    `${items} item${items === 1 ? '' : 's'}, total P${formatAmount(total)}` +
+      `${vat > 0 ? ` incl. VAT P${formatAmount(vat)}` : ''}, paid by ${paidBy}`,
+    receiptFormat.footer.split('\n').find((line) => line.trim())?.trim() || null,
+  ]
+    .filter(Boolean)
+    .join('. ')
+}
+
+// The email (80mm receipt as text and HTML) or text message for a
+// transaction. Built on the server only, from the rows in the database.
+export const buildDigitalReceipt = (
+  sales: Sale[],
+  payments: Payment[],
+  receiptFormat: ReceiptFormat,
+  channel: ReceiptChannel
+): { subject: string; text: string; html?: string } => {
+  const first = sales[0]
+  const transactionNumber = first.transaction_number || first.transaction_id || first.id
+  const storeName = receiptFormat.header.split('\n').find((line) => line.trim())?.trim() || 'KASHPOS'
+
+  if (channel === 'sms') {
+    return { subject: `Receipt ${transactionNumber}`, text: buildSmsReceipt(sales, receiptFormat, payments) }
+  }
+
+  // Laid out for 80mm paper, which reads better on screen
+  const lines = buildReceiptLines(sales, receiptFormat, { paperWidth: 80, payments })
+  return {
+    subject: `Your receipt from ${storeName} (${transactionNumber})`,
+    text: lines.map((line) => line.text).join('\n'),
+    html: renderReceiptHtml(lines, 80, `Receipt ${transactionNumber}`),
+  }
+}
+
+// Sends the transaction's receipt and resolves once the provider has
+// accepted it; the delivery is recorded as sent or failed either way
+export const sendDigitalReceipt = async (
+  transactionId: string | null,
+  channel: ReceiptChannel,
+  recipient: string
+): Promise<void> => {
+  if (!transactionId) throw new Error('This sale has no transaction to send a receipt for')
+
+  const to = normalizeRecipient(channel, recipient)
+  if (!to) throw new Error(channel === 'email' ? 'Enter a valid email address' : 'Enter a valid mobile number')
+
+  const sessionToken = getSessionToken()
+  const response = await fetch('/api/receipts/send', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(sessionToken ? { 'x-session-token': sessionToken } : {}),
+    },
+    body: JSON.stringify({ transactionId, channel, recipient: to }),
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || 'Failed to send receipt')
+  }
+}
+
+// Sent on or after startDate, newest first. A receipt is never sent before
+// its sale, so this covers every transaction made since then.
+export const fetchReceiptDeliveriesSince = async (startDate: Date): Promise<ReceiptDelivery[]> => {
+  const { data, error } = await (supabase as any)
+    .from('receipt_deliveries')
+    .select('*')
+    .gte('created_at', startDate.toISOString())
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
@@ -0,0 +1,93 @@
+import { supabase } from '@/lib/supabase'
+import { Discount } from '@/types/database'
+
+// Item and order discounts, including the statutory Senior Citizen / PWD
+// discount (schema-update-v25-discounts.sql). process_checkout() works out
+// the real amounts; calculateCartDiscounts() does the same sums for the
+// till's preview.
+
+export const fetchDiscounts = async (): Promise<Discount[]> => {
+  const { data, error } = await (supabase as any).from('discounts').select('*').order('name')
+  if (error) throw error
+  return data || []
+}
+
+// "20%", "₱10 off each", "₱50 off"
+export const describeDiscount = (discount: Pick<Discount, 'kind' | 'value' | 'scope'>) => {
+  if (discount.kind === 'percent') return `${discount.value}%`
+  return discount.scope === 'line' ? `₱${discount.value.toFixed(2)} off each` : `₱${discount.value.toFixed(2)} off`
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100
+
+export interface DiscountAmounts {
+  discount: number
+  vatExemption: number
+}
+
+// One sale line: a cart item, or one product of a combo
+export interface DiscountLine {
+  gross: number
+  qty: number
+  // The VAT its price includes, 0 for zero-rated and exempt products (lib/taxes.ts)
+  vatRate: number
+}
+
+// What a discount comes to on the lines it covers (one cart item, or the
+// rest of the order). Senior Citizen / PWD discounts take each line's VAT
+// off first; qty is the cart item's, for fixed item discounts.
+export const calculateDiscount = (discount: Discount | null, lines: DiscountLine[]): DiscountAmounts => {
+  if (!discount || lines.length === 0) return { discount: 0, vatExemption: 0 }
+
+  const gross = lines.reduce((sum, line) => sum + line.gross, 0)
+
+  if (discount.is_statutory) {
+    const base = lines.reduce((sum, line) => sum + round2(line.gross / (1 + line.vatRate / 100)), 0)
+    return { discount: round2((base * discount.value) / 100), vatExemption: round2(gross - base) }
+  }
+
+  if (discount.kind === 'percent') return { discount: round2((gross * discount.value) / 100), vatExemption: 0 }
+
+  return {
+    discount: Math.min(discount.scope === 'line' ? discount.value * lines[0].qty : discount.value, gross),
+    vatExemption: 0,
+  }
+}
+
+export interface CartDiscountLine extends DiscountLine {
+  // Lines of the same cart item share its discount
+  cartIndex: number
+  // The cart item's own discount; items without one get the order discount
+  discount: Discount | null
+}
+
+export interface CartDiscountSummary {
+  gross: number
+  discount: number
+  vatExemption: number
+  total: number
+}
+
+export const calculateCartDiscounts = (lines: CartDiscountLine[], orderDiscount: Discount | null): CartDiscountSummary => {
+  const groups: Record<number, CartDiscountLine[]> = {}
+  lines
+    .filter((line) => line.discount)
+    .forEach((line) => {
+      groups[line.cartIndex] = [...(groups[line.cartIndex] || []), line]
+    })
+
+  const amounts = [
+    ...Object.values(groups).map((group) => calculateDiscount(group[0].discount, group)),
+    calculateDiscount(orderDiscount, lines.filter((line) => !line.discount)),
+  ]
+
+  const gross = round2(lines.reduce((sum, line) => sum + line.gross, 0))
+  const discount = round2(amounts.reduce((sum, a) => sum + a.discount, 0))
+  const vatExemption = round2(amounts.reduce((sum, a) => sum + a.vatExemption, 0))
+
+  return { gross, discount, vatExemption, total: round2(gross - discount - vatExemption) }
+}
+
+// What the line sold for before discounts
+export const getSaleGross = (sale: { total: number; discount_amount: number; vat_exemption_amount: number }) =>
+  sale.total + sale.discount_amount + sale.vat_exemption_amount
@@ -0,0 +1,132 @@
+// ESC/POS commands understood by most thermal receipt printers (Epson
+// TM-series and compatibles). Documents are plain lines already laid out to
+// the paper's column count; encodeEscPos() turns them into printer bytes.
+
+const ESC = 0x1b
+const GS = 0x1d
+const LF = 0x0a
+
+export type PrintAlign = 'left' | 'center' | 'right'
+
+export interface PrintLine {
+  text: string
+  align?: PrintAlign
+  bold?: boolean
+  underline?: boolean
+  // White on black
+  inverted?: boolean
+  // Double width and height, so half as many columns fit
+  large?: boolean
+}
+
+export interface PrintDocument {
+  lines: PrintLine[]
+  // Printed centred below the lines
+  qrCode?: string
+  // Pulses the cash drawer connected to the printer
+  openDrawer?: boolean
+  // Feeds past the cutter and cuts (default true)
+  cut?: boolean
+}
+
+// Characters per line in the printer's default font
+export const PAPER_COLUMNS = { 58: 32, 80: 48 } as const
+
+const ALIGN_CODES: Record<PrintAlign, number> = { left: 0, center: 1, right: 2 }
+
+// The printer's default code page is ASCII: accents are dropped and the
+// peso sign is printed as P
+export const toPrintableAscii = (text: string) =>
+  text
+    .replace(/₱/g, 'P')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?')
+
+// Splits text into lines of at most `columns` characters, at spaces where
+// possible; every line keeps the text's indent
+export const wrapText = (text: string, columns: number): string[] => {
+  const indent = text.match(/^ */)![0]
+  const width = columns - indent.length
+  const lines: string[] = []
+  let current = ''
+
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    while (word.length > width) {
+      if (current) {
+        lines.push(current)
+        current = ''
+      }
+      lines.push(word.slice(0, width))
+      word = word.slice(width)
+    }
+
+    if (!current) current = word
+    else if (current.length + 1 + word.length <= width) current += ` ${word}`
+    else {
+      lines.push(current)
+      current = word
+    }
+  })
+
+  if (current) lines.push(current)
+  return lines.length > 0 ? lines.map((line) => indent + line) : ['']
+}
+
+// "Label ........ amount" on one line, or the label wrapped above the amount
+export const spreadText = (left: string, right: string, columns: number): string[] => {
+  if (left.length + 1 + right.length <= columns) {
+    return [left + ' '.repeat(columns - left.length - right.length) + right]
+  }
+
+  const wrapped = wrapText(left, columns)
+  const last = wrapped[wrapped.length - 1]
+  if (last.length + 1 + right.length <= columns) {
+    return [...wrapped.slice(0, -1), last + ' '.repeat(columns - last.length - right.length) + right]
+  }
+  return [...wrapped, right.padStart(columns)]
+}
+
+// GS ( k: model 2 QR code, module size 6, error correction M
+const qrCodeCommands = (data: string): number[] => {
+  const bytes = Array.from(new TextEncoder().encode(data))
+  const storeLength = bytes.length + 3
+
+  return [
+    GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, 0x06,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31,
+    GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30, ...bytes,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30,
+  ]
+}
+
+export const encodeEscPos = (document: PrintDocument): Uint8Array => {
+  const bytes: number[] = [ESC, 0x40] // initialize
+
+  // ESC p: drawer pin 2, 50ms on, 500ms off
+  if (document.openDrawer) bytes.push(ESC, 0x70, 0x00, 0x19, 0xfa)
+
+  document.lines.forEach((line) => {
+    bytes.push(ESC, 0x61, ALIGN_CODES[line.align || 'left'])
+    bytes.push(ESC, 0x45, line.bold ? 1 : 0)
+    bytes.push(ESC, 0x2d, line.underline ? 1 : 0)
+    bytes.push(GS, 0x42, line.inverted ? 1 : 0)
+    bytes.push(GS, 0x21, line.large ? 0x11 : 0x00)
+    const text = toPrintableAscii(line.text)
+    for (let i = 0; i < text.length; i++) bytes.push(text.charCodeAt(i))
+    bytes.push(LF)
+  })
+
+  // Back to defaults
+  bytes.push(ESC, 0x61, 0, ESC, 0x45, 0, ESC, 0x2d, 0, GS, 0x42, 0, GS, 0x21, 0)
+
+  if (document.qrCode) {
+    bytes.push(ESC, 0x61, ALIGN_CODES.center, ...qrCodeCommands(document.qrCode), LF, ESC, 0x61, 0)
+  }
+
+  // GS V B: feed to the cutter, then a partial cut
+  if (document.cut !== false) bytes.push(GS, 0x56, 0x42, 0x03)
+
+  return new Uint8Array(bytes)
+}
@@ -0,0 +1,47 @@
+import { format } from 'date-fns'
+import { PAPER_COLUMNS, PrintLine, wrapText } from '@/lib/escpos'
+import { groupComboLines } from '@/lib/combos'
+import { formatModifiers } from '@/lib/modifiers'
+import { ReceiptPaperWidth, Sale } from '@/types/database'
+
+// Kitchen tickets: what to make for a transaction, large enough to read from
+// across the kitchen and without prices
+
+export const buildKitchenTicketLines = (
+  sales: Sale[],
+  paperWidth: ReceiptPaperWidth,
+  options: { reprint?: boolean } = {}
+): PrintLine[] => {
+  const columns = PAPER_COLUMNS[paperWidth]
+  const lines: PrintLine[] = []
+  const text = (value: string, style: Omit<PrintLine, 'text'> = {}) =>
+    wrapText(value, style.large ? Math.floor(columns / 2) : columns).forEach((t) => lines.push({ ...style, text: t }))
+  const divider = () => lines.push({ text: '-'.repeat(columns) })
+
+  const first = sales[0]
+  if (!first) return lines
+
+  text(options.reprint ? 'KITCHEN - REPRINT' : 'KITCHEN', { align: 'center', bold: true, inverted: true })
+  text(first.transaction_number || first.transaction_id || first.id, { align: 'center', bold: true, large: true })
+  if (first.dine_in_takeout) {
+    text(first.dine_in_takeout === 'dine_in' ? 'DINE IN' : 'TAKEOUT', { align: 'center', bold: true, large: true })
+  }
+  text(`${format(new Date(first.created_at), 'MMM d h:mm a')} - ${first.cashier_name || '-'}`, { align: 'center' })
+  divider()
+
+  // A combo's items are listed under its name
+  let comboLineId: string | null = null
+  groupComboLines(sales).forEach((sale) => {
+    if (sale.combo_line_id && sale.combo_line_id !== comboLineId) {
+      text(`${sale.qty} x ${sale.combo_name || 'Combo'}`, { bold: true, underline: true })
+    }
+    comboLineId = sale.combo_line_id
+
+    const indent = sale.combo_line_id ? '  ' : ''
+    text(sale.combo_line_id ? `${indent}${sale.product_name}` : `${sale.qty} x ${sale.product_name}`, { bold: true })
+    if (sale.modifiers.length > 0) text(`${indent}  ${formatModifiers(sale.modifiers)}`)
+  })
+  divider()
+
+  return lines
+}
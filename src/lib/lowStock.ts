@@ -0,0 +1,60 @@
+import { supabase } from '@/lib/supabase'
+import { Product, Supplier } from '@/types/database'
+
+// Reorder points and par levels from schema-update-v19-reorder-points.sql.
+// Both are in storage units like products.qty.
+
+export const isLowStock = (item: Product) => item.reorder_point !== null && item.qty <= item.reorder_point
+
+// Enough to bring the item back up to its par level (or its reorder point
+// when no par level is set). Pieces are rounded up to whole pieces, kg / L
+// to the 10 g / 10 ml the qty column can hold.
+export const getSuggestedOrderQty = (item: Product) => {
+  const target = item.par_level ?? item.reorder_point
+  if (target === null) return 0
+
+  const shortfall = target - Math.max(item.qty, 0)
+  if (shortfall <= 0) return 0
+  return item.unit_type === 'quantity' ? Math.ceil(shortfall) : Math.ceil(shortfall * 100) / 100
+}
+
+// Every tracked item at or below its reorder point
+export const fetchLowStockItems = async (): Promise<Product[]> => {
+  const { data, error } = await (supabase as any)
+    .from('products')
+    .select('*')
+    .not('reorder_point', 'is', null)
+    .order('name')
+
+  if (error) throw error
+  return ((data || []) as Product[]).filter(isLowStock)
+}
+
+export interface SuggestedOrder {
+  // null for items without a preferred supplier
+  supplier: Supplier | null
+  lines: { item: Product; qty: number }[]
+}
+
+// Low-stock items grouped by their preferred supplier, ready to turn into
+// purchase orders
+export const buildSuggestedOrders = (items: Product[], suppliers: Supplier[]): SuggestedOrder[] => {
+  const orders = new Map<string | null, SuggestedOrder>()
+
+  items.filter(isLowStock).forEach((item) => {
+    const qty = getSuggestedOrderQty(item)
+    if (qty <= 0) return
+
+    const supplier = suppliers.find((s) => s.id === item.supplier_id) || null
+    const key = supplier?.id || null
+    if (!orders.has(key)) orders.set(key, { supplier, lines: [] })
+    orders.get(key)?.lines.push({ item, qty })
+  })
+
+  // Unassigned items last
+  return Array.from(orders.values()).sort((a, b) => {
+    if (!a.supplier) return 1
+    if (!b.supplier) return -1
+    return a.supplier.name.localeCompare(b.supplier.name)
+  })
+}
@@ -0,0 +1,165 @@
+import nodemailer from 'nodemailer'
+import { ReceiptChannel } from '@/types/database'
+
+// Server only: the providers that email and SMS receipts are sent through
+// (see /api/receipts/send). Each channel's provider is picked with an
+// environment variable, so a store can swap its SMTP server or SMS gateway
+// without code changes:
+//   RECEIPT_EMAIL_PROVIDER = smtp | mock
+//   RECEIPT_SMS_PROVIDER   = http | mock
+
+export interface OutgoingMessage {
+  // Email address, or mobile number in +63 form
+  to: string
+  // Email only
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MessageProvider {
+  name: string
+  // Resolves once the provider has accepted the message
+  send: (message: OutgoingMessage) => Promise<{ messageId?: string }>
+}
+
+// ============================================
+// Mock: for local testing
+// ============================================
+
+// Logs the message instead of sending it. Recipients containing "fail" are
+// rejected so the failed status and resend can be tried too.
+export const mockProvider: MessageProvider = {
+  name: 'mock',
+  send: async (message) => {
+    if (message.to.toLowerCase().includes('fail')) {
+      throw new Error(`Mock provider rejected ${message.to}`)
+    }
+
+    console.log(`[mock receipt] to ${message.to}: ${message.subject}\n${message.text}`)
+    return { messageId: `mock-${Date.now()}` }
+  },
+}
+
+// ============================================
+// SMTP
+// ============================================
+
+interface SmtpConfig {
+  host: string
+  port: number
+  // Port 465 connects over TLS; other ports upgrade with STARTTLS when offered
+  secure: boolean
+  user?: string
+  pass?: string
+  // "Store Name <receipts@example.com>"
+  from: string
+}
+
+const SMTP_TIMEOUT_MS = 15000
+
+export const createSmtpProvider = (config: SmtpConfig): MessageProvider => {
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass || '' } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  })
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      const info = await transport.sendMail({
+        from: config.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      })
+      return { messageId: info.messageId }
+    },
+  }
+}
+
+// ============================================
+// Generic HTTP SMS gateway
+// ============================================
+
+interface HttpSmsConfig {
+  url: string
+  // Sent as "Authorization: Bearer <token>"
+  token?: string
+  sender?: string
+}
+
+// POSTs {"to", "message", "sender"} as JSON. Gateways that want another
+// shape can be put behind a small relay that maps this body.
+export const createHttpSmsProvider = (config: HttpSmsConfig): MessageProvider => ({
+  name: 'http',
+  send: async (message) => {
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+      },
+      body: JSON.stringify({ to: message.to, message: message.text, sender: config.sender }),
+    })
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      throw new Error(`SMS gateway returned ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`)
+    }
+
+    const body = await response.json().catch(() => null)
+    const messageId = body?.id ?? body?.message_id ?? body?.messageId
+    return { messageId: messageId !== undefined ? String(messageId) : undefined }
+  },
+})
+
+// ============================================
+// Provider per channel
+// ============================================
+
+// The configured provider, or null when the channel isn't set up
+export const getMessageProvider = (channel: ReceiptChannel): MessageProvider | null => {
+  const env = process.env
+
+  if (channel === 'email') {
+    switch (env.RECEIPT_EMAIL_PROVIDER) {
+      case 'mock':
+        return mockProvider
+      case 'smtp': {
+        if (!env.SMTP_HOST || !env.SMTP_FROM) return null
+        const port = parseInt(env.SMTP_PORT || '') || 587
+        return createSmtpProvider({
+          host: env.SMTP_HOST,
+          port,
+          secure: port === 465,
+          user: env.SMTP_USER || undefined,
+          pass: env.SMTP_PASS || undefined,
+          from: env.SMTP_FROM,
+        })
+      }
+      default:
+        return null
+    }
+  }
+
+  switch (env.RECEIPT_SMS_PROVIDER) {
+    case 'mock':
+      return mockProvider
+    case 'http':
+      if (!env.SMS_GATEWAY_URL) return null
+      return createHttpSmsProvider({
+        url: env.SMS_GATEWAY_URL,
+        token: env.SMS_GATEWAY_TOKEN || undefined,
+        sender: env.SMS_SENDER_NAME || undefined,
+      })
+    default:
+      return null
+  }
+}
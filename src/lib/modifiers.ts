@@ -0,0 +1,75 @@
+import { supabase } from '@/lib/supabase'
+import { ModifierGroup, ModifierGroupWithModifiers } from '@/types/database'
+
+// Sizes, add-ons and remove-ons of finished products
+// (schema-update-v23-modifiers.sql). Saving replaces all of a product's
+// groups through save_modifier_groups().
+
+// qty per unit sold in g / ml / pcs; negative takes it out of the recipe
+export interface ModifierInput {
+  name: string
+  priceDelta: number
+  ingredients: { itemId: string; qty: number }[]
+}
+
+export interface ModifierGroupInput {
+  name: string
+  minSelect: number
+  maxSelect: number | null
+  modifiers: ModifierInput[]
+}
+
+// Every product's groups when productId is left out, in display order
+export const fetchModifierGroups = async (productId?: string): Promise<ModifierGroupWithModifiers[]> => {
+  let query = (supabase as any)
+    .from('modifier_groups')
+    .select('*, modifiers(*, modifier_ingredients(*))')
+    .order('sort_order')
+    .order('sort_order', { referencedTable: 'modifiers' })
+
+  if (productId) query = query.eq('product_id', productId)
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
+}
+
+export const saveModifierGroups = async (productId: string, groups: ModifierGroupInput[]): Promise<void> => {
+  const { error } = await (supabase as any).rpc('save_modifier_groups', {
+    p_product_id: productId,
+    p_groups: groups.map((group) => ({
+      name: group.name,
+      min_select: group.minSelect,
+      max_select: group.maxSelect,
+      modifiers: group.modifiers.map((modifier) => ({
+        name: modifier.name,
+        price_delta: modifier.priceDelta,
+        ingredients: modifier.ingredients.map((ingredient) => ({ item_id: ingredient.itemId, qty: ingredient.qty })),
+      })),
+    })),
+  })
+  if (error) throw error
+}
+
+// "Pick 1", "Up to 2", "Pick 1 to 3", ... for a group's limits
+export const describeSelectionRule = (group: Pick<ModifierGroup, 'min_select' | 'max_select'>) => {
+  const { min_select: min, max_select: max } = group
+  if (max === null) return min > 0 ? `Pick at least ${min}` : 'Optional'
+  if (min === max) return `Pick ${min}`
+  if (min === 0) return `Up to ${max}`
+  return `Pick ${min} to ${max}`
+}
+
+// "Large, Extra egg" for a cart or sale line
+export const formatModifiers = (modifiers: { name: string }[]) => modifiers.map((m) => m.name).join(', ')
+
+// "Egg Rice (Large, Extra egg)" for a sale line, "Meal 1: Pastil" for a
+// combo component
+export const formatSaleLineName = (sale: {
+  product_name: string
+  modifiers: { name: string }[]
+  combo_name?: string | null
+}) => {
+  const name = sale.modifiers.length > 0 ? `${sale.product_name} (${formatModifiers(sale.modifiers)})` : sale.product_name
+  return sale.combo_name ? `${sale.combo_name}: ${name}` : name
+}
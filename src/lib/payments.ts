@@ -0,0 +1,127 @@
+import { supabase } from '@/lib/supabase'
+import { Payment, PaymentTender, Sale } from '@/types/database'
+
+// Split tender (schema-update-v28-split-payments.sql): a transaction can be
+// paid with several payment methods, each stored in payments. Change only
+// comes out of cash, so non-cash payments can't add up to more than the
+// total.
+
+export const isCashPayment = (paymentMethod: string) => paymentMethod.trim().toLowerCase() === 'cash'
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+export interface TenderSummary {
+  tendered: number
+  cash: number
+  nonCash: number
+  // Still to be paid, and the change to give back from cash
+  remaining: number
+  change: number
+}
+
+export const summarizeTenders = (tenders: PaymentTender[], total: number): TenderSummary => {
+  const tendered = round2(tenders.reduce((sum, t) => sum + t.amount, 0))
+  const cash = round2(tenders.filter((t) => isCashPayment(t.payment_method)).reduce((sum, t) => sum + t.amount, 0))
+
+  return {
+    tendered,
+    cash,
+    nonCash: round2(tendered - cash),
+    remaining: Math.max(0, round2(total - tendered)),
+    change: Math.max(0, round2(tendered - total)),
+  }
+}
+
+// Why the tenders can't pay the total, or null when they can
+export const getTenderError = (tenders: PaymentTender[], total: number): string | null => {
+  const summary = summarizeTenders(tenders, total)
+  if (summary.tendered < total) return `₱${summary.remaining.toFixed(2)} still to pay`
+  if (summary.nonCash > total) return 'Only cash can be more than the total'
+  return null
+}
+
+// Adds a tender, or adds to the amount when the method is already used
+export const addTender = (tenders: PaymentTender[], tender: PaymentTender): PaymentTender[] =>
+  tenders.some((t) => t.payment_method === tender.payment_method)
+    ? tenders.map((t) =>
+        t.payment_method === tender.payment_method ? { ...t, amount: round2(t.amount + tender.amount) } : t
+      )
+    : [...tenders, tender]
+
+// Payments of the given transactions, in the order they were entered
+export const fetchTransactionPayments = async (transactionIds: string[]): Promise<Payment[]> => {
+  const payments: Payment[] = []
+
+  // In batches, to keep the request URL short
+  for (let i = 0; i < transactionIds.length; i += 100) {
+    const { data, error } = await (supabase as any)
+      .from('payments')
+      .select('*')
+      .in('transaction_id', transactionIds.slice(i, i + 100))
+      .order('sort_order', { ascending: true })
+
+    if (error) throw error
+    payments.push(...(data || []))
+  }
+
+  return payments
+}
+
+// Deletes the transactions' sale lines and payments in one go (archiving
+// from Reports). Returns the number of sale lines deleted.
+export const archiveTransactions = async (transactionIds: string[]): Promise<number> => {
+  const { data, error } = await (supabase as any).rpc('archive_transactions', {
+    p_transaction_ids: transactionIds,
+  })
+
+  if (error) throw error
+  return data as number
+}
+
+type PaymentSale = Pick<Sale, 'id' | 'transaction_id' | 'total' | 'payment_method'>
+
+// What each payment method took for one transaction's sale lines. The
+// lines' total is split across the payments by their amounts, rounding so
+// the parts add up to the total, as shift_payment_amounts() does; voided
+// lines left out of `sales` come off every method. Transactions without
+// payments are put on the lines' payment method.
+export const getPaymentAmounts = (sales: PaymentSale[], payments: Payment[]): PaymentTender[] => {
+  const total = round2(sales.reduce((sum, s) => sum + s.total, 0))
+  const paid = payments.reduce((sum, p) => sum + p.amount, 0)
+
+  if (payments.length === 0 || paid <= 0) {
+    return sales.length > 0 ? [{ payment_method: sales[0].payment_method, amount: total }] : []
+  }
+
+  let paidThrough = 0
+  return [...payments]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((payment) => {
+      const before = round2((total * paidThrough) / paid)
+      paidThrough += payment.amount
+      return { payment_method: payment.payment_method, amount: round2(round2((total * paidThrough) / paid) - before) }
+    })
+}
+
+// Amount taken per payment method across transactions
+export const summarizePaymentMethods = (sales: PaymentSale[], payments: Payment[]): Record<string, number> => {
+  const salesByTransaction: Record<string, PaymentSale[]> = {}
+  sales.forEach((sale) => {
+    const transactionId = sale.transaction_id || sale.id
+    salesByTransaction[transactionId] = [...(salesByTransaction[transactionId] || []), sale]
+  })
+
+  const paymentsByTransaction: Record<string, Payment[]> = {}
+  payments.forEach((payment) => {
+    paymentsByTransaction[payment.transaction_id] = [...(paymentsByTransaction[payment.transaction_id] || []), payment]
+  })
+
+  const totals: Record<string, number> = {}
+  Object.keys(salesByTransaction).forEach((transactionId) => {
+    getPaymentAmounts(salesByTransaction[transactionId], paymentsByTransaction[transactionId] || []).forEach((t) => {
+      totals[t.payment_method] = round2((totals[t.payment_method] || 0) + t.amount)
+    })
+  })
+
+  return totals
+}
@@ -0,0 +1,63 @@
+import { supabase } from '@/lib/supabase'
+import { RecipeIngredientInput } from '@/lib/recipes'
+import { Product, ProductionBatch } from '@/types/database'
+
+// Prep items (schema-update-v22-prep-items.sql) are inventory items made
+// in-house in batches from raw items. They stay products rows, so finished
+// products use them as ingredients and checkout deducts them as usual.
+
+// Per batch, qty in g / ml / pcs like product_ingredients.qty
+export const fetchPrepRecipe = async (prepItemId: string): Promise<RecipeIngredientInput[]> => {
+  const { data, error } = await (supabase as any)
+    .from('prep_item_ingredients')
+    .select('item_id, qty')
+    .eq('prep_item_id', prepItemId)
+
+  if (error) throw error
+  return (data || []).map((row: { item_id: string; qty: number }) => ({ itemId: row.item_id, qty: row.qty }))
+}
+
+// Replaces the recipe and marks the item as a prep item. batchYield is
+// what one batch makes, in storage units.
+export const savePrepRecipe = async (
+  prepItemId: string,
+  batchYield: number,
+  ingredients: RecipeIngredientInput[]
+): Promise<Product> => {
+  const { data, error } = await (supabase as any).rpc('save_prep_recipe', {
+    p_prep_item_id: prepItemId,
+    p_batch_yield: batchYield,
+    p_ingredients: ingredients.map((ingredient) => ({ item_id: ingredient.itemId, qty: ingredient.qty })),
+  })
+  if (error) throw error
+  return data
+}
+
+// Deducts the raw items for the batches and adds the yield to the prep
+// item's stock. actualYield (storage units) overrides batches x batch_yield.
+export const produceBatch = async (
+  prepItemId: string,
+  batch: { batches: number; actualYield: number | null; note: string }
+): Promise<Product> => {
+  const { data, error } = await (supabase as any).rpc('produce_batch', {
+    p_prep_item_id: prepItemId,
+    p_batches: batch.batches,
+    p_actual_yield: batch.actualYield,
+    p_note: batch.note,
+  })
+  if (error) throw error
+  return data
+}
+
+// Newest first
+export const fetchProductionBatches = async (prepItemId: string, limit = 20): Promise<ProductionBatch[]> => {
+  const { data, error } = await (supabase as any)
+    .from('production_batches')
+    .select('*')
+    .eq('prep_item_id', prepItemId)
+    .order('produced_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return data || []
+}
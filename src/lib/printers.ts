@@ -0,0 +1,244 @@
+import { supabase, getSessionToken } from '@/lib/supabase'
+import { encodeEscPos, PAPER_COLUMNS, PrintLine } from '@/lib/escpos'
+import { buildKitchenTicketLines } from '@/lib/kitchenTickets'
+import { isCashPayment } from '@/lib/payments'
+import { buildReceiptLines, fetchReceiptFormat, renderReceiptEscPos } from '@/lib/receipts'
+import { Payment, PrinterConfig, PrinterConnection, ReceiptFormat, Sale } from '@/types/database'
+
+// Thermal printers the till sends ESC/POS to. USB and serial (including
+// Bluetooth serial) printers are driven straight from the browser through
+// WebUSB / Web Serial and have to be paired once on each till; network and
+// file printers go through /api/print on the server.
+
+const PRINTERS_KEY = 'printers'
+
+export const PRINTER_CONNECTIONS: { value: PrinterConnection; label: string }[] = [
+  { value: 'usb', label: 'USB' },
+  { value: 'serial', label: 'Serial / Bluetooth' },
+  { value: 'tcp', label: 'Network (TCP)' },
+  { value: 'file', label: 'File (testing)' },
+]
+
+export const DEFAULT_PRINTER_PORT = 9100
+
+export const fetchPrinters = async (): Promise<PrinterConfig[]> => {
+  const { data, error } = await (supabase as any)
+    .from('settings')
+    .select('value')
+    .eq('key', PRINTERS_KEY)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data?.value) return []
+
+  try {
+    const printers = JSON.parse(data.value)
+    return Array.isArray(printers) ? printers : []
+  } catch {
+    return []
+  }
+}
+
+export const savePrinters = async (printers: PrinterConfig[]): Promise<void> => {
+  const { error } = await (supabase as any)
+    .from('settings')
+    .upsert({ key: PRINTERS_KEY, value: JSON.stringify(printers) }, { onConflict: 'key' })
+
+  if (error) throw error
+}
+
+// Asks the browser for a USB or serial device. Must be called from a click;
+// the returned ids identify the device on later prints.
+export const pairPrinterDevice = async (
+  connection: 'usb' | 'serial'
+): Promise<Pick<PrinterConfig, 'usbVendorId' | 'usbProductId'>> => {
+  if (connection === 'usb') {
+    const usb = (navigator as any).usb
+    if (!usb) throw new Error('This browser cannot print over USB. Use Chrome or Edge.')
+    const device = await usb.requestDevice({ filters: [] })
+    return { usbVendorId: device.vendorId, usbProductId: device.productId }
+  }
+
+  const serial = (navigator as any).serial
+  if (!serial) throw new Error('This browser cannot print over serial. Use Chrome or Edge.')
+  const port = await serial.requestPort()
+  const info = port.getInfo()
+  return { usbVendorId: info.usbVendorId, usbProductId: info.usbProductId }
+}
+
+const notPairedError = (printer: PrinterConfig) =>
+  new Error(`${printer.name} is not paired with this device. Pair it in Settings.`)
+
+const sendOverUsb = async (printer: PrinterConfig, data: Uint8Array) => {
+  const usb = (navigator as any).usb
+  if (!usb) throw new Error('This browser cannot print over USB. Use Chrome or Edge.')
+
+  const devices = await usb.getDevices()
+  const device = devices.find(
+    (d: any) => d.vendorId === printer.usbVendorId && d.productId === printer.usbProductId
+  )
+  if (!device) throw notPairedError(printer)
+
+  await device.open()
+  try {
+    if (device.configuration === null) await device.selectConfiguration(1)
+
+    // The printer is the interface with a bulk OUT endpoint
+    const isBulkOut = (endpoint: any) => endpoint.direction === 'out' && endpoint.type === 'bulk'
+    const printerInterface = device.configuration.interfaces.find((i: any) =>
+      i.alternate.endpoints.some(isBulkOut)
+    )
+    if (!printerInterface) throw new Error(`${printer.name} does not accept print data over USB`)
+
+    const endpoint = printerInterface.alternate.endpoints.find(isBulkOut)
+    await device.claimInterface(printerInterface.interfaceNumber)
+    try {
+      await device.transferOut(endpoint.endpointNumber, data)
+    } finally {
+      await device.releaseInterface(printerInterface.interfaceNumber)
+    }
+  } finally {
+    await device.close()
+  }
+}
+
+const sendOverSerial = async (printer: PrinterConfig, data: Uint8Array) => {
+  const serial = (navigator as any).serial
+  if (!serial) throw new Error('This browser cannot print over serial. Use Chrome or Edge.')
+
+  const ports = await serial.getPorts()
+  const port = ports.find((p: any) => {
+    const info = p.getInfo()
+    return info.usbVendorId === printer.usbVendorId && info.usbProductId === printer.usbProductId
+  })
+  if (!port) throw notPairedError(printer)
+
+  await port.open({ baudRate: printer.baudRate || 9600 })
+  try {
+    const writer = port.writable.getWriter()
+    try {
+      await writer.write(data)
+    } finally {
+      writer.releaseLock()
+    }
+  } finally {
+    await port.close()
+  }
+}
+
+const toBase64 = (data: Uint8Array) => {
+  let binary = ''
+  for (let i = 0; i < data.length; i++) binary += String.fromCharCode(data[i])
+  return btoa(binary)
+}
+
+const sendThroughServer = async (printer: PrinterConfig, data: Uint8Array) => {
+  const sessionToken = getSessionToken()
+  const response = await fetch('/api/print', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(sessionToken ? { 'x-session-token': sessionToken } : {}),
+    },
+    body: JSON.stringify({
+      connection: printer.connection,
+      host: printer.host,
+      port: printer.port || DEFAULT_PRINTER_PORT,
+      fileName: printer.fileName,
+      data: toBase64(data),
+    }),
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || `Failed to print to ${printer.name}`)
+  }
+}
+
+export const sendToPrinter = async (printer: PrinterConfig, data: Uint8Array): Promise<void> => {
+  switch (printer.connection) {
+    case 'usb':
+      return sendOverUsb(printer, data)
+    case 'serial':
+      return sendOverSerial(printer, data)
+    default:
+      return sendThroughServer(printer, data)
+  }
+}
+
+export const printReceipt = (
+  printer: PrinterConfig,
+  sales: Sale[],
+  receiptFormat: ReceiptFormat,
+  options: { reprint?: boolean; openDrawer?: boolean; payments?: Payment[] } = {}
+) => {
+  const lines = buildReceiptLines(sales, receiptFormat, {
+    paperWidth: printer.paperWidth,
+    reprint: options.reprint,
+    payments: options.payments,
+  })
+  return sendToPrinter(printer, renderReceiptEscPos(lines, { openDrawer: options.openDrawer }))
+}
+
+export const printKitchenTicket = (printer: PrinterConfig, sales: Sale[], options: { reprint?: boolean } = {}) =>
+  sendToPrinter(printer, encodeEscPos({ lines: buildKitchenTicketLines(sales, printer.paperWidth, options) }))
+
+// Every text style, the alignments, a QR code and the cut, so a new printer
+// can be checked in one go
+export const printTestPage = (printer: PrinterConfig) => {
+  const columns = PAPER_COLUMNS[printer.paperWidth]
+  const lines: PrintLine[] = [
+    { text: 'KASHPOS', align: 'center', bold: true, large: true },
+    { text: 'Printer test', align: 'center' },
+    { text: '-'.repeat(columns) },
+    { text: printer.name },
+    { text: `${PRINTER_CONNECTIONS.find((c) => c.value === printer.connection)?.label} - ${printer.paperWidth}mm` },
+    { text: '-'.repeat(columns) },
+    { text: 'Normal' },
+    { text: 'Bold', bold: true },
+    { text: 'Underline', underline: true },
+    { text: 'Inverted', inverted: true },
+    { text: 'Large', large: true },
+    { text: 'Left' },
+    { text: 'Center', align: 'center' },
+    { text: 'Right', align: 'right' },
+    { text: '1234567890'.repeat(Math.ceil(columns / 10)).slice(0, columns) },
+  ]
+
+  return sendToPrinter(
+    printer,
+    encodeEscPos({ lines, qrCode: 'KASHPOS printer test', openDrawer: printer.role === 'receipt' && printer.openDrawer })
+  )
+}
+
+// Prints the receipt and kitchen tickets for a new transaction on every
+// printer set to print automatically. Resolves to the names of the printers
+// that failed; the sale itself is already saved.
+export const printAfterCheckout = async (sales: Sale[], payments: Payment[] = []): Promise<string[]> => {
+  const printers = (await fetchPrinters()).filter((p) => p.autoPrint)
+  if (printers.length === 0) return []
+
+  const receiptFormat = await fetchReceiptFormat()
+  // Any cash in a split payment opens the drawer
+  const paidInCash =
+    payments.length > 0
+      ? payments.some((p) => isCashPayment(p.payment_method))
+      : isCashPayment(sales[0]?.payment_method || '')
+
+  const results = await Promise.allSettled(
+    printers.map((printer) =>
+      printer.role === 'kitchen'
+        ? printKitchenTicket(printer, sales)
+        : printReceipt(printer, sales, receiptFormat, { openDrawer: printer.openDrawer && paidInCash, payments })
+    )
+  )
+
+  return printers
+    .filter((printer, index) => {
+      const result = results[index]
+      if (result.status === 'fulfilled') return false
+      console.error(`Error printing to ${printer.name}:`, result.reason)
+      return true
+    })
+    .map((printer) => printer.name)
+}
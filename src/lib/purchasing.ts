@@ -0,0 +1,99 @@
+import { supabase } from '@/lib/supabase'
+import { PurchaseOrder, PurchaseOrderStatus, PurchaseOrderWithLines, Supplier } from '@/types/database'
+
+// Suppliers and purchase orders from schema-update-v18-purchasing.sql.
+// Suppliers are edited directly; purchase orders only change through the
+// database functions so their status rules hold.
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+}
+
+export type SupplierInput = Omit<Supplier, 'id' | 'created_at' | 'updated_at'>
+
+export const fetchSuppliers = async (): Promise<Supplier[]> => {
+  const { data, error } = await (supabase as any).from('suppliers').select('*').order('name')
+  if (error) throw error
+  return data || []
+}
+
+export const saveSupplier = async (supplierId: string | null, supplier: SupplierInput) => {
+  const { error } = supplierId
+    ? await (supabase as any).from('suppliers').update(supplier).eq('id', supplierId)
+    : await (supabase as any).from('suppliers').insert(supplier)
+  if (error) throw error
+}
+
+export const deleteSupplier = async (supplierId: string) => {
+  const { error } = await (supabase as any).from('suppliers').delete().eq('id', supplierId)
+  if (error) throw error
+}
+
+// Newest first, with their lines in order
+export const fetchPurchaseOrders = async (): Promise<PurchaseOrderWithLines[]> => {
+  const { data, error } = await (supabase as any)
+    .from('purchase_orders')
+    .select('*, purchase_order_lines(*)')
+    .order('created_at', { ascending: false })
+    .order('sort_order', { referencedTable: 'purchase_order_lines' })
+
+  if (error) throw error
+  return data || []
+}
+
+// qtyOrdered is in storage units, expectedUnitCost per g / ml / pc
+export interface PurchaseOrderLineInput {
+  itemId: string
+  qtyOrdered: number
+  expectedUnitCost: number
+}
+
+// Creates a draft when orderId is null, otherwise replaces the draft's contents
+export const savePurchaseOrder = async (
+  orderId: string | null,
+  order: { supplierId: string; expectedAt: string | null; notes: string; lines: PurchaseOrderLineInput[] }
+): Promise<PurchaseOrder> => {
+  const { data, error } = await (supabase as any).rpc('save_purchase_order', {
+    p_id: orderId,
+    p_supplier_id: order.supplierId,
+    p_expected_at: order.expectedAt,
+    p_notes: order.notes,
+    p_lines: order.lines.map((line) => ({
+      item_id: line.itemId,
+      qty_ordered: line.qtyOrdered,
+      expected_unit_cost: line.expectedUnitCost,
+    })),
+  })
+  if (error) throw error
+  return data
+}
+
+export const sendPurchaseOrder = async (orderId: string) => {
+  const { error } = await (supabase as any).rpc('send_purchase_order', { p_id: orderId })
+  if (error) throw error
+}
+
+export const cancelPurchaseOrder = async (orderId: string) => {
+  const { error } = await (supabase as any).rpc('cancel_purchase_order', { p_id: orderId })
+  if (error) throw error
+}
+
+// qty is in storage units; unitCost (per g / ml / pc) is what the
+// supplier actually charged
+export const receivePurchaseOrder = async (
+  orderId: string,
+  receipt: { lines: { lineId: string; qty: number; unitCost: number }[]; referenceNumber: string; note: string }
+): Promise<PurchaseOrder> => {
+  const { data, error } = await (supabase as any).rpc('receive_purchase_order', {
+    p_id: orderId,
+    p_lines: receipt.lines.map((line) => ({ line_id: line.lineId, qty: line.qty, unit_cost: line.unitCost })),
+    p_reference_number: receipt.referenceNumber,
+    p_note: receipt.note,
+  })
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,238 @@
+import { format } from 'date-fns'
+import { supabase } from '@/lib/supabase'
+import { groupComboLines } from '@/lib/combos'
+import { getSaleGross } from '@/lib/discounts'
+import { PAPER_COLUMNS, PrintLine, encodeEscPos, spreadText, wrapText } from '@/lib/escpos'
+import { formatModifiers } from '@/lib/modifiers'
+import { summarizeTaxes } from '@/lib/taxes'
+import { Payment, ReceiptFormat, ReceiptPaperWidth, Sale } from '@/types/database'
+
+// Receipts for a completed transaction (every sales line sharing its
+// transaction_id). buildReceiptLines() lays the receipt out for the paper
+// width; the lines are printed from the browser as HTML or sent to a
+// thermal printer as ESC/POS bytes.
+
+const SETTING_KEYS = {
+  header: 'receipt_header',
+  footer: 'receipt_footer',
+  paperWidth: 'receipt_paper_width',
+} as const
+
+export const DEFAULT_RECEIPT_FORMAT: ReceiptFormat = {
+  header: 'KASHPOS',
+  footer: 'Thank you! Please come again.',
+  paperWidth: 58,
+}
+
+// The server passes a client carrying the caller's session (see
+// /api/receipts/send)
+export const fetchReceiptFormat = async (client: any = supabase): Promise<ReceiptFormat> => {
+  const { data, error } = await client
+    .from('settings')
+    .select('key, value')
+    .in('key', Object.values(SETTING_KEYS))
+
+  if (error) throw error
+
+  const values: Record<string, string> = {}
+  for (const row of data || []) values[row.key] = row.value
+
+  const paperWidth = parseInt(values[SETTING_KEYS.paperWidth])
+
+  return {
+    header: values[SETTING_KEYS.header] ?? DEFAULT_RECEIPT_FORMAT.header,
+    footer: values[SETTING_KEYS.footer] ?? DEFAULT_RECEIPT_FORMAT.footer,
+    paperWidth: paperWidth in PAPER_COLUMNS ? (paperWidth as ReceiptPaperWidth) : DEFAULT_RECEIPT_FORMAT.paperWidth,
+  }
+}
+
+export const saveReceiptFormat = async (receiptFormat: ReceiptFormat): Promise<void> => {
+  const rows = [
+    { key: SETTING_KEYS.header, value: receiptFormat.header },
+    { key: SETTING_KEYS.footer, value: receiptFormat.footer },
+    { key: SETTING_KEYS.paperWidth, value: receiptFormat.paperWidth.toString() },
+  ]
+
+  const { error } = await (supabase as any)
+    .from('settings')
+    .upsert(rows, { onConflict: 'key' })
+
+  if (error) throw error
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+export const buildReceiptLines = (
+  sales: Sale[],
+  receiptFormat: ReceiptFormat,
+  // payments lists each method of a split payment (schema-update-v28)
+  options: { paperWidth?: ReceiptPaperWidth; reprint?: boolean; payments?: Payment[] } = {}
+): PrintLine[] => {
+  const columns = PAPER_COLUMNS[options.paperWidth || receiptFormat.paperWidth]
+  const lines: PrintLine[] = []
+  const text = (value: string, style: Omit<PrintLine, 'text'> = {}) =>
+    wrapText(value, style.large ? Math.floor(columns / 2) : columns).forEach((t) => lines.push({ ...style, text: t }))
+  const spread = (left: string, right: string, style: Omit<PrintLine, 'text'> = {}) =>
+    spreadText(left, right, columns).forEach((t) => lines.push({ ...style, text: t }))
+  const divider = () => lines.push({ text: '-'.repeat(columns) })
+
+  const first = sales[0]
+  if (!first) return lines
+
+  receiptFormat.header
+    .split('\n')
+    .filter((line) => line.trim())
+    .forEach((line, index) => text(line.trim(), { align: 'center', bold: index === 0, large: index === 0 }))
+
+  if (options.reprint) {
+    lines.push({ text: '' })
+    text('*** REPRINT ***', { align: 'center', bold: true })
+  }
+
+  lines.push({ text: '' })
+  spread('Txn #', first.transaction_number || first.transaction_id || first.id)
+  spread('Date', format(new Date(first.created_at), 'MMM d, yyyy h:mm a'))
+  spread('Cashier', first.cashier_name || '-')
+  spread('Customer', first.customer_type)
+  if (first.dine_in_takeout) spread('Order', first.dine_in_takeout === 'dine_in' ? 'Dine In' : 'Takeout')
+  divider()
+
+  // A combo's items are listed under its name
+  let comboLineId: string | null = null
+  groupComboLines(sales).forEach((sale) => {
+    if (sale.combo_line_id && sale.combo_line_id !== comboLineId) text(sale.combo_name || 'Combo', { bold: true })
+    comboLineId = sale.combo_line_id
+
+    const indent = sale.combo_line_id ? '  ' : ''
+    text(indent + sale.product_name)
+    if (sale.modifiers.length > 0) text(`${indent}  ${formatModifiers(sale.modifiers)}`)
+    spread(`${indent}  ${sale.qty} x ${formatAmount(sale.selling_price)}`, formatAmount(getSaleGross(sale)))
+  })
+  divider()
+
+  const gross = sales.reduce((sum, s) => sum + getSaleGross(s), 0)
+  const total = sales.reduce((sum, s) => sum + s.total, 0)
+  const discount = sales.reduce((sum, s) => sum + s.discount_amount, 0)
+  const vatExemption = sales.reduce((sum, s) => sum + s.vat_exemption_amount, 0)
+  const discountNames = Array.from(new Set(sales.map((s) => s.discount_name).filter(Boolean)))
+
+  spread('Subtotal', formatAmount(gross))
+  if (vatExemption > 0) spread('Less VAT', `-${formatAmount(vatExemption)}`)
+  if (discount > 0) spread(`Less ${discountNames.join(', ') || 'Discount'}`, `-${formatAmount(discount)}`)
+  spread('TOTAL', formatAmount(total), { bold: true })
+
+  const payments = options.payments || []
+  if (payments.length > 0) payments.forEach((p) => spread(p.payment_method, formatAmount(p.tendered)))
+  else spread(first.payment_method, formatAmount(first.customer_payment ?? total))
+  const tendered = payments.length > 0 ? payments.reduce((sum, p) => sum + p.tendered, 0) : first.customer_payment
+  if (tendered !== null && tendered > total) spread('Change', formatAmount(tendered - total))
+  divider()
+
+  const taxes = summarizeTaxes(sales)
+  const vatRate = Math.max(0, ...sales.map((s) => s.vat_rate))
+  spread('VATable Sales', formatAmount(taxes.vatableSales))
+  spread(vatRate > 0 ? `VAT (${vatRate}%)` : 'VAT', formatAmount(taxes.vatAmount))
+  spread('Zero-rated Sales', formatAmount(taxes.zeroRatedSales))
+  spread('VAT-exempt Sales', formatAmount(taxes.exemptSales))
+
+  const idNumber = sales.find((s) => s.discount_id_number)?.discount_id_number
+  const holderName = sales.find((s) => s.discount_holder_name)?.discount_holder_name
+  if (idNumber || holderName) {
+    divider()
+    if (holderName) spread('Name', holderName)
+    if (idNumber) spread('ID No.', idNumber)
+  }
+
+  const footer = receiptFormat.footer.split('\n').filter((line) => line.trim())
+  if (footer.length > 0) {
+    lines.push({ text: '' })
+    footer.forEach((line) => text(line.trim(), { align: 'center' }))
+  }
+
+  return lines
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// A printable page for the receipt. Every column is 1.5mm wide, which
+// fits 32 columns on 58mm paper and 48 on 80mm, the same as the printer.
+export const renderReceiptHtml = (lines: PrintLine[], paperWidth: ReceiptPaperWidth, title = 'Receipt'): string => {
+  const body = lines
+    .map((line) => {
+      const classes = [
+        line.align || 'left',
+        line.bold ? 'bold' : '',
+        line.underline ? 'underline' : '',
+        line.inverted ? 'inverted' : '',
+        line.large ? 'large' : '',
+      ].filter(Boolean)
+      return `<div class="${classes.join(' ')}">${escapeHtml(line.text) || '&nbsp;'}</div>`
+    })
+    .join('\n')
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: ${paperWidth}mm auto; margin: 0; }
+  body { margin: 0; padding: 4mm ${(paperWidth - PAPER_COLUMNS[paperWidth] * 1.5) / 2}mm; color: #000; background: #fff; }
+  .receipt { width: ${PAPER_COLUMNS[paperWidth] * 1.5}mm; font-family: 'Courier New', monospace; font-size: 2.5mm; line-height: 1.25; }
+  .receipt div { white-space: pre; overflow: hidden; }
+  .center { text-align: center; }
+  .right { text-align: right; }
+  .bold { font-weight: bold; }
+  .underline { text-decoration: underline; }
+  .inverted { background: #000; color: #fff; }
+  .large { font-size: 5mm; }
+</style>
+</head>
+<body>
+<div class="receipt">
+${body}
+</div>
+</body>
+</html>`
+}
+
+// Prints the page from a hidden frame so the POS screen stays as it is
+export const printReceiptHtml = (html: string) => {
+  const frame = document.createElement('iframe')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  document.body.appendChild(frame)
+
+  const frameDocument = frame.contentWindow?.document
+  if (!frameDocument) {
+    frame.remove()
+    throw new Error('Printing is not available in this browser')
+  }
+
+  frameDocument.open()
+  frameDocument.write(html)
+  frameDocument.close()
+
+  frame.contentWindow!.focus()
+  frame.contentWindow!.print()
+  // print() returns once the dialog is closed
+  setTimeout(() => frame.remove(), 1000)
+}
+
+// openDrawer kicks the cash drawer as the receipt prints
+export const renderReceiptEscPos = (lines: PrintLine[], options: { openDrawer?: boolean } = {}): Uint8Array =>
+  encodeEscPos({ lines, openDrawer: options.openDrawer })
+
+export const downloadReceiptEscPos = (bytes: Uint8Array, transactionNumber: string) => {
+  const blob = new Blob([bytes as BlobPart], { type: 'application/octet-stream' })
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `receipt-${transactionNumber}.bin`
+  a.click()
+  window.URL.revokeObjectURL(url)
+}
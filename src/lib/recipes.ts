@@ -0,0 +1,59 @@
+import { supabase } from '@/lib/supabase'
+import { FinishedProduct, RecipeHistoryEntry, TaxCategory } from '@/types/database'
+
+// Finished products and their recipes. Saving goes through
+// save_finished_product() (schema-update-v20-product-editing.sql) so the
+// product, its ingredients and the recipe version are written together.
+
+// qty in g / ml / pcs, like product_ingredients.qty
+export interface RecipeIngredientInput {
+  itemId: string
+  qty: number
+}
+
+export const fetchFinishedProducts = async (): Promise<FinishedProduct[]> => {
+  const { data, error } = await (supabase as any).from('finished_products').select('*').order('name')
+  if (error) throw error
+  return data || []
+}
+
+export const fetchProductIngredients = async (productId: string): Promise<RecipeIngredientInput[]> => {
+  const { data, error } = await (supabase as any)
+    .from('product_ingredients')
+    .select('item_id, qty')
+    .eq('product_id', productId)
+
+  if (error) throw error
+  return (data || []).map((row: { item_id: string; qty: number }) => ({ itemId: row.item_id, qty: row.qty }))
+}
+
+// Creates the product when productId is null. A new recipe version is
+// recorded whenever the ingredients change.
+export const saveFinishedProduct = async (
+  productId: string | null,
+  product: {
+    name: string
+    sellingPrice: number
+    imageUrl: string | null
+    taxCategory: TaxCategory
+    ingredients: RecipeIngredientInput[]
+  }
+): Promise<FinishedProduct> => {
+  const { data, error } = await (supabase as any).rpc('save_finished_product', {
+    p_id: productId,
+    p_name: product.name,
+    p_selling_price: product.sellingPrice,
+    p_image_url: product.imageUrl,
+    p_ingredients: product.ingredients.map((ingredient) => ({ item_id: ingredient.itemId, qty: ingredient.qty })),
+    p_tax_category: product.taxCategory,
+  })
+  if (error) throw error
+  return data
+}
+
+// Every recipe version of a product with its costs and sales, newest first
+export const fetchRecipeHistory = async (productId: string): Promise<RecipeHistoryEntry[]> => {
+  const { data, error } = await (supabase as any).rpc('get_recipe_history', { p_product_id: productId })
+  if (error) throw error
+  return data || []
+}
@@ -0,0 +1,61 @@
+import { supabase } from '@/lib/supabase'
+import { RefundKind, RefundLine, RefundReasonCode, SaleRefund } from '@/types/database'
+
+// Voids and refunds from schema-update-v14-refunds.sql
+
+export const REFUND_REASONS: { value: RefundReasonCode; label: string }[] = [
+  { value: 'customer_request', label: 'Customer request' },
+  { value: 'wrong_item', label: 'Wrong item' },
+  { value: 'quality_issue', label: 'Quality issue' },
+  { value: 'cashier_error', label: 'Cashier error' },
+  { value: 'duplicate', label: 'Duplicate sale' },
+  { value: 'other', label: 'Other' },
+]
+
+export const getRefundReasonLabel = (code: RefundReasonCode) =>
+  REFUND_REASONS.find((reason) => reason.value === code)?.label || code
+
+// All lines are voided/refunded together or not at all
+export const refundSaleLines = async (request: {
+  kind: RefundKind
+  lines: RefundLine[]
+  reasonCode: RefundReasonCode
+  note: string
+  restock: boolean
+}): Promise<SaleRefund[]> => {
+  const { data, error } = await (supabase as any).rpc('refund_sale_lines', {
+    p_kind: request.kind,
+    p_lines: request.lines,
+    p_reason_code: request.reasonCode,
+    p_note: request.note,
+    p_restock: request.restock,
+  })
+  if (error) throw error
+  return data || []
+}
+
+// Refunds and voids recorded in a date range (by refund time, not sale time)
+export const fetchRefunds = async (startDate: Date, endDate: Date): Promise<SaleRefund[]> => {
+  const { data, error } = await (supabase as any)
+    .from('sale_refunds')
+    .select('*')
+    .gte('refunded_at', startDate.toISOString())
+    .lte('refunded_at', endDate.toISOString())
+    .order('refunded_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// Refunds can only follow their sale, so everything since the start of a
+// report's date range covers every refund of the sales shown in it
+export const fetchRefundsSince = async (startDate: Date): Promise<SaleRefund[]> => {
+  const { data, error } = await (supabase as any)
+    .from('sale_refunds')
+    .select('*')
+    .gte('refunded_at', startDate.toISOString())
+    .order('refunded_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
@@ -0,0 +1,150 @@
+import { format } from 'date-fns'
+import { supabase } from '@/lib/supabase'
+import { CashMovementType, Shift, ShiftSummary, ZReport } from '@/types/database'
+
+// Cash drawer shifts from schema-update-v13-shifts.sql. Writes go through
+// database functions so the totals and Z-report can't be edited afterwards.
+
+// Returns null when no shift is open
+export const fetchOpenShift = async (): Promise<Shift | null> => {
+  const { data, error } = await (supabase as any)
+    .from('shifts')
+    .select('*')
+    .is('closed_at', null)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+export const fetchShiftSummary = async (shiftId: string): Promise<ShiftSummary | null> => {
+  const { data, error } = await (supabase as any).rpc('get_shift_summary', { p_shift_id: shiftId })
+  if (error) throw error
+  return data
+}
+
+export const fetchClosedShifts = async (startDate: Date, endDate: Date): Promise<Shift[]> => {
+  const { data, error } = await (supabase as any)
+    .from('shifts')
+    .select('*')
+    .not('closed_at', 'is', null)
+    .gte('opened_at', startDate.toISOString())
+    .lte('opened_at', endDate.toISOString())
+    .order('opened_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+export const openShift = async (openingFloat: number, notes: string): Promise<Shift> => {
+  const { data, error } = await (supabase as any).rpc('open_shift', {
+    p_opening_float: openingFloat,
+    p_notes: notes,
+  })
+  if (error) throw error
+  return data
+}
+
+export const addCashMovement = async (movementType: CashMovementType, amount: number, reason: string) => {
+  const { error } = await (supabase as any).rpc('add_shift_cash_movement', {
+    p_movement_type: movementType,
+    p_amount: amount,
+    p_reason: reason,
+  })
+  if (error) throw error
+}
+
+export const closeShift = async (countedCash: number, notes: string): Promise<Shift> => {
+  const { data, error } = await (supabase as any).rpc('close_shift', {
+    p_counted_cash: countedCash,
+    p_notes: notes,
+  })
+  if (error) throw error
+  return data
+}
+
+const peso = (amount: number) => `₱${Number(amount).toFixed(2)}`
+
+const formatDateTime = (value: string) => format(new Date(value), 'MMM d yyyy h:mm a')
+
+// Label / value rows shared by the CSV export and the printable report
+const getZReportRows = (report: ZReport): [string, string][] => [
+  ['Opened', `${formatDateTime(report.opened_at)} by ${report.opened_by_name || 'Unknown'}`],
+  ['Closed', `${formatDateTime(report.closed_at)} by ${report.closed_by_name || 'Unknown'}`],
+  ['Transactions', String(report.transaction_count)],
+  ['Total Sales', peso(report.sales_total)],
+  ...report.payment_methods.map(
+    (pm): [string, string] => [`  ${pm.payment_method} (${pm.transactions})`, peso(pm.total)]
+  ),
+  ['Opening Float', peso(report.opening_float)],
+  ['Cash Sales', peso(report.cash_sales)],
+  // Reports closed before schema-update-v14 have no refund totals
+  ['Cash Refunds', peso(report.cash_refunds || 0)],
+  ['Cash In', peso(report.cash_in)],
+  ['Cash Out', peso(report.cash_out)],
+  ['Expected Cash', peso(report.expected_cash)],
+  ['Counted Cash', peso(report.counted_cash)],
+  ['Over / Short', peso(report.cash_variance)],
+]
+
+export const downloadZReportCsv = (shift: Shift) => {
+  if (!shift.z_report) return
+
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`
+  const rows = [
+    ...getZReportRows(shift.z_report),
+    ...shift.z_report.movements.map((m): [string, string] => [
+      `${m.movement_type === 'cash_in' ? 'Cash In' : 'Cash Out'}: ${m.reason}`,
+      peso(m.amount),
+    ]),
+  ]
+  const csvContent = rows.map(([label, value]) => `${escape(label.trim())},${escape(value)}`).join('\n')
+
+  const blob = new Blob([csvContent], { type: 'text/csv' })
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `z-report-${format(new Date(shift.opened_at), 'yyyy-MM-dd-HHmm')}.csv`
+  a.click()
+  window.URL.revokeObjectURL(url)
+}
+
+export const printZReport = (shift: Shift) => {
+  if (!shift.z_report) return
+
+  const escapeHtml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+  const rows = getZReportRows(shift.z_report)
+    .map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td class="r">${escapeHtml(value)}</td></tr>`)
+    .join('')
+  const movements = shift.z_report.movements
+    .map(
+      (m) =>
+        `<tr><td>${m.movement_type === 'cash_in' ? 'In' : 'Out'}: ${escapeHtml(m.reason)}</td><td class="r">${peso(m.amount)}</td></tr>`
+    )
+    .join('')
+
+  const printWindow = window.open('', '_blank', 'width=400,height=600')
+  if (!printWindow) return
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html><head><title>Z-Report</title>
+<style>
+  body { font-family: monospace; font-size: 12px; width: 72mm; margin: 0 auto; }
+  h1 { font-size: 16px; text-align: center; margin: 8px 0; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 2px 0; white-space: pre; }
+  .r { text-align: right; }
+  hr { border: 0; border-top: 1px dashed #000; }
+</style></head>
+<body>
+  <h1>Z-REPORT</h1>
+  <table>${rows}</table>
+  ${movements ? `<hr /><table>${movements}</table>` : ''}
+  ${shift.notes ? `<hr /><p>${escapeHtml(shift.notes)}</p>` : ''}
+</body></html>`)
+  printWindow.document.close()
+  printWindow.focus()
+  printWindow.print()
+}
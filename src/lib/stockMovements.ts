@@ -0,0 +1,78 @@
+import { supabase } from '@/lib/supabase'
+import { Product, StockAdjustmentType, StockMovement, StockMovementType } from '@/types/database'
+
+// Inventory ledger from schema-update-v16-stock-movements.sql. Rows are
+// written by a trigger on products, never by the app. Deliveries go through
+// receive_stock() (schema-update-v17-stock-receiving.sql).
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  purchase: 'Purchase',
+  sale_deduction: 'Sale',
+  cancel_restore: 'Cancelled sale',
+  refund_restore: 'Refund restock',
+  manual_adjustment: 'Manual adjustment',
+  waste: 'Waste',
+  count_correction: 'Count correction',
+  production_use: 'Used in batch',
+  production_output: 'Batch produced',
+}
+
+export const STOCK_ADJUSTMENT_TYPES: StockAdjustmentType[] = ['waste', 'count_correction', 'manual_adjustment']
+
+// Newest first
+export const fetchStockMovements = async (itemId: string, limit = 200): Promise<StockMovement[]> => {
+  const { data, error } = await (supabase as any)
+    .from('stock_movements')
+    .select('*')
+    .eq('item_id', itemId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return data || []
+}
+
+// qty is in storage units (kg, L, pcs): the amount wasted, the counted
+// stock, or the amount to add (negative to remove) depending on the type
+export const adjustStock = async (
+  itemId: string,
+  movementType: StockAdjustmentType,
+  qty: number,
+  note: string
+): Promise<Product> => {
+  const { data, error } = await (supabase as any).rpc('adjust_stock', {
+    p_item_id: itemId,
+    p_movement_type: movementType,
+    p_qty: qty,
+    p_note: note,
+  })
+  if (error) throw error
+  return data
+}
+
+// qty is the delivered amount in storage units and totalCost the invoice
+// total for all of it; the item's cost becomes the weighted average.
+// supplierId links the receipt to a saved supplier (v18).
+export const receiveStock = async (
+  itemId: string,
+  receipt: {
+    qty: number
+    totalCost: number
+    supplier: string
+    supplierId?: string | null
+    referenceNumber: string
+    note: string
+  }
+): Promise<Product> => {
+  const { data, error } = await (supabase as any).rpc('receive_stock', {
+    p_item_id: itemId,
+    p_qty: receipt.qty,
+    p_total_cost: receipt.totalCost,
+    p_supplier: receipt.supplier,
+    p_supplier_id: receipt.supplierId || null,
+    p_reference_number: receipt.referenceNumber,
+    p_note: receipt.note,
+  })
+  if (error) throw error
+  return data
+}
@@ -3,8 +3,27 @@ import { createClient } from '@supabase/supabase-js'
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
+// Session token of the signed-in user, sent with every request so database
+// functions can tell who is calling (see schema-update-v9-user-accounts.sql)
+let sessionToken: string | null = null
+
+export const setSessionToken = (token: string | null) => {
+  sessionToken = token
+}
+
+// For requests to this app's own API routes, which check the session too
+export const getSessionToken = () => sessionToken
+
+const fetchWithSession: typeof fetch = (input, init) => {
+  const headers = new Headers(init?.headers)
+  if (sessionToken) headers.set('x-session-token', sessionToken)
+  return fetch(input, { ...init, headers })
+}
+
 // Using untyped client for flexibility
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  global: { fetch: fetchWithSession },
+})
 
 // Storage bucket name for product images
 export const PRODUCT_IMAGES_BUCKET = 'product-images'
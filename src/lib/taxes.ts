@@ -0,0 +1,57 @@
+import { supabase } from '@/lib/supabase'
+import { Sale, TaxCategory } from '@/types/database'
+
+// VAT and tax categories (schema-update-v26-vat.sql). Prices include VAT;
+// process_checkout() splits every sale line into vatable sales, VAT,
+// zero-rated sales and exempt sales.
+
+// Setting read by current_vat_rate(); percent, 0 when not VAT-registered
+const VAT_RATE_KEY = 'vat_rate'
+
+export const DEFAULT_VAT_RATE = 12
+
+export const TAX_CATEGORIES: { value: TaxCategory; label: string }[] = [
+  { value: 'vatable', label: 'VATable' },
+  { value: 'zero_rated', label: 'Zero-rated' },
+  { value: 'exempt', label: 'VAT-exempt' },
+]
+
+export const getTaxCategoryLabel = (category: TaxCategory) =>
+  TAX_CATEGORIES.find((c) => c.value === category)?.label || category
+
+export const fetchVatRate = async (): Promise<number> => {
+  const { data, error } = await (supabase as any).from('settings').select('value').eq('key', VAT_RATE_KEY).maybeSingle()
+  if (error) throw error
+  const rate = parseFloat(data?.value)
+  return isNaN(rate) ? DEFAULT_VAT_RATE : rate
+}
+
+export const saveVatRate = async (rate: number): Promise<void> => {
+  const { error } = await (supabase as any)
+    .from('settings')
+    .upsert({ key: VAT_RATE_KEY, value: rate.toString() }, { onConflict: 'key' })
+  if (error) throw error
+}
+
+// The VAT rate a product's price includes
+export const getProductVatRate = (category: TaxCategory, vatRate: number) => (category === 'vatable' ? vatRate : 0)
+
+export interface TaxBreakdown {
+  vatableSales: number
+  vatAmount: number
+  zeroRatedSales: number
+  exemptSales: number
+}
+
+type SaleTaxes = Pick<Sale, 'vatable_sales' | 'vat_amount' | 'zero_rated_sales' | 'exempt_sales'>
+
+export const summarizeTaxes = (sales: SaleTaxes[]): TaxBreakdown =>
+  sales.reduce(
+    (acc, sale) => ({
+      vatableSales: acc.vatableSales + sale.vatable_sales,
+      vatAmount: acc.vatAmount + sale.vat_amount,
+      zeroRatedSales: acc.zeroRatedSales + sale.zero_rated_sales,
+      exemptSales: acc.exemptSales + sale.exempt_sales,
+    }),
+    { vatableSales: 0, vatAmount: 0, zeroRatedSales: 0, exemptSales: 0 }
+  )
@@ -0,0 +1,81 @@
+import { format } from 'date-fns'
+import { supabase } from '@/lib/supabase'
+import { TransactionNumberFormat, TransactionNumberResetPeriod } from '@/types/database'
+
+// Settings keys read by next_transaction_number() (schema-update-v8)
+const SETTING_KEYS = {
+  prefix: 'transaction_number_prefix',
+  branchCode: 'transaction_number_branch_code',
+  padWidth: 'transaction_number_pad_width',
+  resetPeriod: 'transaction_number_reset_period',
+  timezone: 'transaction_number_timezone',
+} as const
+
+export const DEFAULT_TRANSACTION_NUMBER_FORMAT: TransactionNumberFormat = {
+  prefix: '',
+  branchCode: '',
+  padWidth: 5,
+  resetPeriod: 'monthly',
+  timezone: 'Asia/Manila',
+}
+
+const PERIOD_FORMATS: Record<TransactionNumberResetPeriod, string> = {
+  daily: 'yy-MM-dd',
+  monthly: 'yy-MM',
+  yearly: 'yy',
+}
+
+// Build a transaction number the same way the database does (used for previews)
+export const formatTransactionNumber = (
+  numberFormat: TransactionNumberFormat,
+  sequence: number,
+  date: Date = new Date()
+): string => {
+  return [
+    numberFormat.prefix,
+    numberFormat.branchCode,
+    format(date, PERIOD_FORMATS[numberFormat.resetPeriod]),
+    sequence.toString().padStart(numberFormat.padWidth, '0'),
+  ]
+    .filter(Boolean)
+    .join('-')
+}
+
+export const fetchTransactionNumberFormat = async (): Promise<TransactionNumberFormat> => {
+  const { data, error } = await (supabase as any)
+    .from('settings')
+    .select('key, value')
+    .in('key', Object.values(SETTING_KEYS))
+
+  if (error) throw error
+
+  const values: Record<string, string> = {}
+  for (const row of data || []) values[row.key] = row.value
+
+  const padWidth = parseInt(values[SETTING_KEYS.padWidth])
+  const resetPeriod = values[SETTING_KEYS.resetPeriod] as TransactionNumberResetPeriod
+
+  return {
+    prefix: values[SETTING_KEYS.prefix] ?? DEFAULT_TRANSACTION_NUMBER_FORMAT.prefix,
+    branchCode: values[SETTING_KEYS.branchCode] ?? DEFAULT_TRANSACTION_NUMBER_FORMAT.branchCode,
+    padWidth: isNaN(padWidth) ? DEFAULT_TRANSACTION_NUMBER_FORMAT.padWidth : padWidth,
+    resetPeriod: resetPeriod in PERIOD_FORMATS ? resetPeriod : DEFAULT_TRANSACTION_NUMBER_FORMAT.resetPeriod,
+    timezone: values[SETTING_KEYS.timezone] || DEFAULT_TRANSACTION_NUMBER_FORMAT.timezone,
+  }
+}
+
+export const saveTransactionNumberFormat = async (numberFormat: TransactionNumberFormat): Promise<void> => {
+  const rows = [
+    { key: SETTING_KEYS.prefix, value: numberFormat.prefix },
+    { key: SETTING_KEYS.branchCode, value: numberFormat.branchCode },
+    { key: SETTING_KEYS.padWidth, value: numberFormat.padWidth.toString() },
+    { key: SETTING_KEYS.resetPeriod, value: numberFormat.resetPeriod },
+    { key: SETTING_KEYS.timezone, value: numberFormat.timezone },
+  ]
+
+  const { error } = await (supabase as any)
+    .from('settings')
+    .upsert(rows, { onConflict: 'key' })
+
+  if (error) throw error
+}
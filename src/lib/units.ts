@@ -0,0 +1,14 @@
+import { UnitType } from '@/types/database'
+
+// Inventory stock is stored in kg / L / pcs but entered and shown in
+// g / ml / pcs, which are also the units products.cost is priced in
+
+export const toDisplayQty = (unitType: UnitType, qty: number) => (unitType === 'quantity' ? qty : qty * 1000)
+
+export const toStorageQty = (unitType: UnitType, qty: number) => (unitType === 'quantity' ? qty : qty / 1000)
+
+export const getUnitLabel = (unitType: UnitType) => {
+  if (unitType === 'weight') return 'g'
+  if (unitType === 'volume') return 'ml'
+  return 'pcs'
+}
@@ -0,0 +1,119 @@
+import { supabase } from '@/lib/supabase'
+import { SwitchableUser, User, UserAccount, UserRole } from '@/types/database'
+
+// User accounts and sessions live behind the database functions in
+// schema-update-v9-user-accounts.sql; password hashes never reach the client
+
+export interface LoginSession {
+  token: string
+  expiresAt: string
+  user: User
+}
+
+const toUser = (data: any): User => ({
+  id: data.id,
+  username: data.username,
+  displayName: data.display_name,
+  role: data.role,
+  permissions: data.permissions || [],
+})
+
+const toLoginSession = (data: any): LoginSession => ({
+  token: data.token,
+  expiresAt: data.expires_at,
+  user: toUser(data.user),
+})
+
+// Raised instead of checking the password (or PIN, for quick switching)
+// while it's locked after too many wrong attempts; the message says how long
+// is left
+export const ACCOUNT_LOCKED_ERROR_CODE = '28000'
+
+// Returns null when the username or password is wrong
+export const loginUser = async (username: string, password: string): Promise<LoginSession | null> => {
+  const { data, error } = await (supabase as any).rpc('login_user', {
+    p_username: username,
+    p_password: password,
+  })
+
+  if (error) throw error
+  return data ? toLoginSession(data) : null
+}
+
+// Staff PINs and quick switching come from schema-update-v12-cashier-attribution.sql
+
+export const listSwitchableUsers = async (): Promise<SwitchableUser[]> => {
+  const { data, error } = await (supabase as any).rpc('list_switchable_users')
+  if (error) throw error
+  return data || []
+}
+
+// Ends the current session and starts one for the chosen user.
+// Returns null when the PIN is wrong.
+export const switchUserWithPin = async (userId: string, pin: string): Promise<LoginSession | null> => {
+  const { data, error } = await (supabase as any).rpc('switch_user_with_pin', {
+    p_user_id: userId,
+    p_pin: pin,
+  })
+
+  if (error) throw error
+  return data ? toLoginSession(data) : null
+}
+
+// Pass null to remove the PIN
+export const setUserPin = async (userId: string, pin: string | null) => {
+  const { error } = await (supabase as any).rpc('set_user_pin', {
+    p_user_id: userId,
+    p_pin: pin,
+  })
+  if (error) throw error
+}
+
+// Returns null when the current session token is missing, expired or revoked
+export const fetchSessionUser = async (): Promise<User | null> => {
+  const { data, error } = await (supabase as any).rpc('get_session_user')
+  if (error) throw error
+  return data ? toUser(data) : null
+}
+
+export const logoutUser = async () => {
+  const { error } = await (supabase as any).rpc('logout_user')
+  if (error) throw error
+}
+
+export const listUsers = async (): Promise<UserAccount[]> => {
+  const { data, error } = await (supabase as any).rpc('list_users')
+  if (error) throw error
+  return data || []
+}
+
+export const createUser = async (account: {
+  username: string
+  password: string
+  role: UserRole
+  displayName: string
+}) => {
+  const { error } = await (supabase as any).rpc('create_user', {
+    p_username: account.username,
+    p_password: account.password,
+    p_role: account.role,
+    p_display_name: account.displayName,
+  })
+  if (error) throw error
+}
+
+export const setUserActive = async (userId: string, isActive: boolean) => {
+  const { error } = await (supabase as any).rpc('set_user_active', {
+    p_user_id: userId,
+    p_is_active: isActive,
+  })
+  if (error) throw error
+}
+
+export const resetUserPassword = async (userId: string, newPassword: string) => {
+  const { error } = await (supabase as any).rpc('reset_user_password', {
+    p_user_id: userId,
+    p_new_password: newPassword,
+  })
+  if (error) throw error
+}
@@ -10,10 +10,18 @@ export interface Database {
           qty: number
           cost: number
           selling_price: number
+          supplier_id: string | null
+          // Storage units like qty; null = not tracked for low stock
+          reorder_point: number | null
+          par_level: number | null
+          // Prep items are made in-house from other items; batch_yield is in storage units
+          is_prep: boolean
+          batch_yield: number | null
           created_at: string
           updated_at: string
         }
-        Insert: Omit<Database['public']['Tables']['products']['Row'], 'id' | 'created_at' | 'updated_at'>
+        // is_prep / batch_yield are set by save_prep_recipe()
+        Insert: Omit<Database['public']['Tables']['products']['Row'], 'id' | 'created_at' | 'updated_at' | 'is_prep' | 'batch_yield'>
         Update: Partial<Database['public']['Tables']['products']['Insert']>
       }
       finished_products: {
@@ -23,10 +31,17 @@ export interface Database {
           image_url: string | null
           selling_price: number
           opex_cost: number
+          // Combos are sold at selling_price and made of other finished products (combo_slots)
+          is_combo: boolean
+          // Prices include VAT; combos are taxed by their components' categories
+          tax_category: TaxCategory
           created_at: string
           updated_at: string
         }
-        Insert: Omit<Database['public']['Tables']['finished_products']['Row'], 'id' | 'created_at' | 'updated_at'>
+        // is_combo is set by save_combo(); tax_category defaults to 'vatable'
+        Insert: Omit<Database['public']['Tables']['finished_products']['Row'], 'id' | 'created_at' | 'updated_at' | 'is_combo' | 'tax_category'> & {
+          tax_category?: TaxCategory
+        }
         Update: Partial<Database['public']['Tables']['finished_products']['Insert']>
       }
       sales: {
@@ -50,8 +65,39 @@ export interface Database {
           customer_payment: number | null
           transaction_number: string | null
           opex_cost: number | null
+          cashier_id: string | null
+          cashier_name: string | null
+          shift_id: string | null
+          // Recipe the line was made with; cost_breakdown is null for sales from before v21
+          recipe_version_id: string | null
+          cost_breakdown: SaleCostLine[] | null
+          // Chosen at the till; selling_price and cost_breakdown already include them
+          modifiers: SaleModifier[]
+          // Set on each component line of a combo; selling_price is the component's share of the bundle price.
+          // combo_line_id groups the components of one combo in the cart
+          combo_id: string | null
+          combo_name: string | null
+          combo_line_id: string | null
+          // total is after discounts; gross = total + discount_amount + vat_exemption_amount.
+          // The ID number / holder name are set for Senior Citizen / PWD discounts
+          discount_id: string | null
+          discount_name: string | null
+          discount_amount: number
+          vat_exemption_amount: number
+          discount_id_number: string | null
+          discount_holder_name: string | null
+          // vatable_sales + vat_amount + zero_rated_sales + exempt_sales = total. vat_rate is what the
+          // line was taxed at (0 unless vatable); Senior Citizen / PWD lines are exempt sales
+          tax_category: TaxCategory
+          vat_rate: number
+          vatable_sales: number
+          vat_amount: number
+          zero_rated_sales: number
+          exempt_sales: number
         }
-        Insert: Omit<Database['public']['Tables']['sales']['Row'], 'id' | 'created_at' | 'cancelled' | 'cancelled_at'>
+        // cashier_id / cashier_name / shift_id are stamped by the set_sale_cashier and set_sale_shift triggers;
+        // recipe_version_id / cost_breakdown / modifiers / combo_* / discount_* / tax columns are written by process_checkout()
+        Insert: Omit<Database['public']['Tables']['sales']['Row'], 'id' | 'created_at' | 'cancelled' | 'cancelled_at' | 'cashier_id' | 'cashier_name' | 'shift_id' | 'recipe_version_id' | 'cost_breakdown' | 'modifiers' | 'combo_id' | 'combo_name' | 'combo_line_id' | 'discount_id' | 'discount_name' | 'discount_amount' | 'vat_exemption_amount' | 'discount_id_number' | 'discount_holder_name' | 'tax_category' | 'vat_rate' | 'vatable_sales' | 'vat_amount' | 'zero_rated_sales' | 'exempt_sales'>
         Update: Partial<Database['public']['Tables']['sales']['Insert'] & { cancelled: boolean; cancelled_at: string | null }>
       }
       payment_methods: {
@@ -106,6 +152,381 @@ export interface Database {
         Insert: Omit<Database['public']['Tables']['opex_settings']['Row'], 'id' | 'created_at' | 'updated_at'>
         Update: Partial<Database['public']['Tables']['opex_settings']['Insert']>
       }
+      transaction_number_sequences: {
+        Row: {
+          branch_code: string
+          period_key: string
+          last_value: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['transaction_number_sequences']['Row'], 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['transaction_number_sequences']['Insert']>
+      }
+      users: {
+        Row: {
+          id: string
+          username: string
+          display_name: string | null
+          password_hash: string
+          pin_hash: string | null
+          role: UserRole
+          is_active: boolean
+          last_login_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['users']['Row'], 'id' | 'pin_hash' | 'last_login_at' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['users']['Insert']>
+      }
+      permissions: {
+        Row: {
+          key: Permission
+          label: string
+          description: string | null
+          sort_order: number
+        }
+        Insert: Database['public']['Tables']['permissions']['Row']
+        Update: Partial<Database['public']['Tables']['permissions']['Insert']>
+      }
+      role_permissions: {
+        Row: {
+          role: Exclude<UserRole, 'owner'>
+          permission: Permission
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['role_permissions']['Row'], 'created_at'>
+        Update: Partial<Database['public']['Tables']['role_permissions']['Insert']>
+      }
+      shifts: {
+        Row: {
+          id: string
+          opened_by: string | null
+          opened_by_name: string | null
+          opened_at: string
+          opening_float: number
+          closed_by: string | null
+          closed_by_name: string | null
+          closed_at: string | null
+          expected_cash: number | null
+          counted_cash: number | null
+          cash_variance: number | null
+          notes: string | null
+          z_report: ZReport | null
+        }
+        Insert: Pick<Database['public']['Tables']['shifts']['Row'], 'opening_float'> & { notes?: string | null }
+        Update: Partial<Database['public']['Tables']['shifts']['Row']>
+      }
+      shift_cash_movements: {
+        Row: {
+          id: string
+          shift_id: string
+          movement_type: CashMovementType
+          amount: number
+          reason: string
+          created_by: string | null
+          created_by_name: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['shift_cash_movements']['Row'], 'id' | 'created_by' | 'created_by_name' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['shift_cash_movements']['Insert']>
+      }
+      sale_refunds: {
+        Row: {
+          id: string
+          kind: RefundKind
+          sale_id: string | null
+          transaction_id: string | null
+          transaction_number: string | null
+          product_id: string | null
+          product_name: string
+          qty: number
+          amount: number
+          cost: number
+          payment_method: string | null
+          // What each of the transaction's payments gave back (schema-update-v28-split-payments.sql)
+          payments: PaymentTender[] | null
+          cashier_id: string | null
+          cashier_name: string | null
+          reason_code: RefundReasonCode
+          note: string | null
+          restocked: boolean
+          shift_id: string | null
+          refunded_by: string | null
+          refunded_by_name: string | null
+          refunded_at: string
+        }
+        // Written only by refund_sale_lines()
+        Insert: Omit<Database['public']['Tables']['sale_refunds']['Row'], 'id' | 'refunded_at'>
+        Update: Partial<Database['public']['Tables']['sale_refunds']['Insert']>
+      }
+      stock_movements: {
+        Row: {
+          id: string
+          item_id: string
+          item_name: string
+          movement_type: StockMovementType
+          qty_delta: number
+          balance_after: number
+          unit_cost: number
+          sale_id: string | null
+          transaction_id: string | null
+          transaction_number: string | null
+          note: string | null
+          created_by: string | null
+          created_by_name: string | null
+          created_at: string
+        }
+        // Written only by the log_stock_movement trigger on products
+        Insert: Omit<Database['public']['Tables']['stock_movements']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['stock_movements']['Insert']>
+      }
+      stock_receipts: {
+        Row: {
+          id: string
+          item_id: string
+          item_name: string
+          qty: number
+          total_cost: number
+          unit_cost: number
+          previous_qty: number
+          previous_cost: number
+          new_cost: number
+          supplier: string | null
+          reference_number: string | null
+          note: string | null
+          received_by: string | null
+          received_by_name: string | null
+          received_at: string
+          supplier_id: string | null
+          purchase_order_id: string | null
+          purchase_order_line_id: string | null
+        }
+        // Written only by receive_stock()
+        Insert: Omit<Database['public']['Tables']['stock_receipts']['Row'], 'id' | 'received_at'>
+        Update: Partial<Database['public']['Tables']['stock_receipts']['Insert']>
+      }
+      suppliers: {
+        Row: {
+          id: string
+          name: string
+          contact_name: string | null
+          phone: string | null
+          email: string | null
+          lead_time_days: number
+          payment_terms: string | null
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['suppliers']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['suppliers']['Insert']>
+      }
+      purchase_orders: {
+        Row: {
+          id: string
+          po_number: string
+          supplier_id: string | null
+          supplier_name: string
+          status: PurchaseOrderStatus
+          expected_at: string | null
+          notes: string | null
+          created_by: string | null
+          created_by_name: string | null
+          created_at: string
+          sent_at: string | null
+          received_at: string | null
+          cancelled_at: string | null
+          updated_at: string
+        }
+        // Written only by save_purchase_order() and the status functions
+        Insert: Omit<Database['public']['Tables']['purchase_orders']['Row'], 'id' | 'po_number' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['purchase_orders']['Insert']>
+      }
+      purchase_order_lines: {
+        Row: {
+          id: string
+          purchase_order_id: string
+          item_id: string | null
+          item_name: string
+          qty_ordered: number
+          qty_received: number
+          expected_unit_cost: number
+          sort_order: number
+        }
+        Insert: Omit<Database['public']['Tables']['purchase_order_lines']['Row'], 'id'>
+        Update: Partial<Database['public']['Tables']['purchase_order_lines']['Insert']>
+      }
+      recipe_versions: {
+        // Written only by save_finished_product()
+        Row: {
+          id: string
+          product_id: string
+          product_name: string
+          version_number: number
+          ingredients: RecipeVersionIngredient[]
+          recipe_cost: number
+          created_by: string | null
+          created_by_name: string | null
+          created_at: string
+          // effective_to is null for the version in effect now
+          effective_from: string
+          effective_to: string | null
+        }
+        Insert: Omit<Database['public']['Tables']['recipe_versions']['Row'], 'id' | 'created_at' | 'effective_from' | 'effective_to'>
+        Update: Partial<Database['public']['Tables']['recipe_versions']['Insert']>
+      }
+      prep_item_ingredients: {
+        // Written only by save_prep_recipe(); qty is per batch in g / ml / pcs
+        Row: {
+          id: string
+          prep_item_id: string
+          item_id: string
+          qty: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['prep_item_ingredients']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['prep_item_ingredients']['Insert']>
+      }
+      production_batches: {
+        // Written only by produce_batch(). qty is in storage units; the
+        // cost columns are per g / ml / pc like products.cost.
+        Row: {
+          id: string
+          prep_item_id: string
+          prep_item_name: string
+          batches: number
+          qty: number
+          total_cost: number
+          unit_cost: number
+          previous_cost: number
+          new_cost: number
+          ingredients: RecipeVersionIngredient[]
+          note: string | null
+          produced_by: string | null
+          produced_by_name: string | null
+          produced_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['production_batches']['Row'], 'id' | 'produced_at'>
+        Update: Partial<Database['public']['Tables']['production_batches']['Insert']>
+      }
+      modifier_groups: {
+        // Written only by save_modifier_groups(). Required when min_select > 0;
+        // max_select null = no limit, 1 = pick one
+        Row: {
+          id: string
+          product_id: string
+          name: string
+          min_select: number
+          max_select: number | null
+          sort_order: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['modifier_groups']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['modifier_groups']['Insert']>
+      }
+      modifiers: {
+        Row: {
+          id: string
+          group_id: string
+          name: string
+          price_delta: number
+          sort_order: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['modifiers']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['modifiers']['Insert']>
+      }
+      modifier_ingredients: {
+        // qty per unit sold in g / ml / pcs; negative takes it out of the recipe
+        Row: {
+          id: string
+          modifier_id: string
+          item_id: string
+          qty: number
+        }
+        Insert: Omit<Database['public']['Tables']['modifier_ingredients']['Row'], 'id'>
+        Update: Partial<Database['public']['Tables']['modifier_ingredients']['Insert']>
+      }
+      combo_slots: {
+        // Written only by save_combo(); one component of the combo each
+        Row: {
+          id: string
+          combo_id: string
+          name: string
+          sort_order: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['combo_slots']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['combo_slots']['Insert']>
+      }
+      combo_slot_options: {
+        // A slot with one option is fixed; price_delta is added to the bundle price
+        Row: {
+          id: string
+          slot_id: string
+          product_id: string
+          price_delta: number
+          sort_order: number
+        }
+        Insert: Omit<Database['public']['Tables']['combo_slot_options']['Row'], 'id'>
+        Update: Partial<Database['public']['Tables']['combo_slot_options']['Insert']>
+      }
+      discounts: {
+        // percent: value% off; fixed: ₱value off each item (line) or off the order.
+        // Statutory ones (Senior Citizen / PWD) come off after the VAT is removed and need an ID
+        Row: {
+          id: string
+          name: string
+          kind: DiscountKind
+          value: number
+          scope: DiscountScope
+          customer_type_id: string | null
+          is_statutory: boolean
+          requires_id: boolean
+          active: boolean
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['discounts']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['discounts']['Insert']>
+      }
+      receipt_deliveries: {
+        Row: {
+          id: string
+          transaction_id: string
+          transaction_number: string | null
+          channel: ReceiptChannel
+          recipient: string
+          provider: string
+          status: ReceiptDeliveryStatus
+          error: string | null
+          provider_message_id: string | null
+          sent_by: string | null
+          sent_by_name: string | null
+          created_at: string
+          completed_at: string | null
+        }
+        // Written only by start_receipt_delivery() / finish_receipt_delivery()
+        Insert: Omit<Database['public']['Tables']['receipt_deliveries']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['receipt_deliveries']['Insert']>
+      }
+      payments: {
+        // amount is what the payment put towards the total; tendered is what
+        // the customer handed over (more than amount only for cash, by the change)
+        Row: {
+          id: string
+          transaction_id: string
+          transaction_number: string | null
+          payment_method: string
+          amount: number
+          tendered: number
+          sort_order: number
+          created_at: string
+        }
+        // Written only by process_checkout()
+        Insert: Omit<Database['public']['Tables']['payments']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['payments']['Insert']>
+      }
     }
   }
 }
@@ -121,13 +542,242 @@ export type OpexSettings = Database['public']['Tables']['opex_settings']['Row']
 
 export type UnitType = 'weight' | 'quantity' | 'volume'
 
-export type UserRole = 'owner' | 'cashier'
+export type TransactionNumberResetPeriod = 'daily' | 'monthly' | 'yearly'
+
+export interface TransactionNumberFormat {
+  prefix: string
+  branchCode: string
+  padWidth: number
+  resetPeriod: TransactionNumberResetPeriod
+  timezone: string
+}
+
+// Receipt header, footer and paper (src/lib/receipts.ts)
+export type ReceiptPaperWidth = 58 | 80
+
+export interface ReceiptFormat {
+  // One line each; the first header line is printed large
+  header: string
+  footer: string
+  paperWidth: ReceiptPaperWidth
+}
+
+// Receipt and kitchen printers (src/lib/printers.ts). usb / serial print from
+// the browser to a device paired on that till; tcp (raw port 9100) and file
+// go through /api/print on the server.
+export type PrinterConnection = 'usb' | 'serial' | 'tcp' | 'file'
+export type PrinterRole = 'receipt' | 'kitchen'
+
+export interface PrinterConfig {
+  id: string
+  name: string
+  role: PrinterRole
+  connection: PrinterConnection
+  paperWidth: ReceiptPaperWidth
+  // Print on every checkout; receipt printers can also kick the cash drawer on cash sales
+  autoPrint: boolean
+  openDrawer: boolean
+  host?: string
+  port?: number
+  // File under PRINT_FILE_DIR that the print jobs are appended to
+  fileName?: string
+  usbVendorId?: number
+  usbProductId?: number
+  baudRate?: number
+}
+
+export type UserRole = 'owner' | 'manager' | 'cashier'
+
+// Keys of the permissions table (schema-update-v11-permissions.sql).
+// Owners have every permission; other roles get theirs from role_permissions.
+export type Permission =
+  | 'view_reports'
+  | 'view_earnings'
+  | 'edit_report_date'
+  | 'edit_sale_details'
+  | 'archive_sales'
+  | 'void_sales'
+  | 'adjust_inventory'
+  | 'manage_opex'
+  | 'manage_settings'
+
+export type PermissionInfo = Database['public']['Tables']['permissions']['Row']
+export type RolePermission = Database['public']['Tables']['role_permissions']['Row']
+
+export type Shift = Database['public']['Tables']['shifts']['Row']
+export type ShiftCashMovement = Database['public']['Tables']['shift_cash_movements']['Row']
+
+export type CashMovementType = 'cash_in' | 'cash_out'
+
+export type SaleRefund = Database['public']['Tables']['sale_refunds']['Row']
+
+// void: the line is cancelled and leaves the day it was sold
+// refund: the sale stays and the refund is subtracted on the day it happens
+export type RefundKind = 'void' | 'refund'
+
+// Must match the reason_code check in schema-update-v14-refunds.sql
+export type RefundReasonCode =
+  | 'customer_request'
+  | 'wrong_item'
+  | 'quality_issue'
+  | 'cashier_error'
+  | 'duplicate'
+  | 'other'
+
+export interface RefundLine {
+  sale_id: string
+  qty: number
+}
+
+export type StockMovement = Database['public']['Tables']['stock_movements']['Row']
+export type StockReceipt = Database['public']['Tables']['stock_receipts']['Row']
+
+// Must match the movement_type check in schema-update-v22-prep-items.sql
+export type StockMovementType =
+  | 'purchase'
+  | 'sale_deduction'
+  | 'cancel_restore'
+  | 'refund_restore'
+  | 'manual_adjustment'
+  | 'waste'
+  | 'count_correction'
+  | 'production_use'
+  | 'production_output'
+
+// The movement types adjust_stock() accepts
+export type StockAdjustmentType = Extract<StockMovementType, 'manual_adjustment' | 'waste' | 'count_correction'>
+
+export type Supplier = Database['public']['Tables']['suppliers']['Row']
+export type PurchaseOrder = Database['public']['Tables']['purchase_orders']['Row']
+export type PurchaseOrderLine = Database['public']['Tables']['purchase_order_lines']['Row']
+
+export type PurchaseOrderWithLines = PurchaseOrder & { purchase_order_lines: PurchaseOrderLine[] }
+
+// draft -> sent -> partially_received -> received; anything not yet
+// received can be cancelled (schema-update-v18-purchasing.sql)
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled'
+
+export type RecipeVersion = Database['public']['Tables']['recipe_versions']['Row']
+
+export type PrepItemIngredient = Database['public']['Tables']['prep_item_ingredients']['Row']
+export type ProductionBatch = Database['public']['Tables']['production_batches']['Row']
+
+export type ModifierGroup = Database['public']['Tables']['modifier_groups']['Row']
+export type Modifier = Database['public']['Tables']['modifiers']['Row']
+export type ModifierIngredient = Database['public']['Tables']['modifier_ingredients']['Row']
+
+export type ModifierWithIngredients = Modifier & { modifier_ingredients: ModifierIngredient[] }
+export type ModifierGroupWithModifiers = ModifierGroup & { modifiers: ModifierWithIngredients[] }
+
+export type ComboSlot = Database['public']['Tables']['combo_slots']['Row']
+export type ComboSlotOption = Database['public']['Tables']['combo_slot_options']['Row']
+
+export type ComboSlotWithOptions = ComboSlot & { combo_slot_options: ComboSlotOption[] }
+
+export type Discount = Database['public']['Tables']['discounts']['Row']
+export type DiscountKind = 'percent' | 'fixed'
+export type DiscountScope = 'line' | 'order'
+
+// schema-update-v26-vat.sql
+export type TaxCategory = 'vatable' | 'zero_rated' | 'exempt'
+
+// schema-update-v27-digital-receipts.sql
+export type ReceiptDelivery = Database['public']['Tables']['receipt_deliveries']['Row']
+export type ReceiptChannel = 'email' | 'sms'
+export type ReceiptDeliveryStatus = 'pending' | 'sent' | 'failed'
+
+// schema-update-v28-split-payments.sql
+export type Payment = Database['public']['Tables']['payments']['Row']
+
+// One payment method at checkout and what the customer handed over for it
+export interface PaymentTender {
+  payment_method: string
+  amount: number
+}
+
+// A modifier as it was when the sale was made (schema-update-v23-modifiers.sql)
+export interface SaleModifier {
+  modifier_id: string
+  group_name: string
+  name: string
+  price_delta: number
+}
+
+// One ingredient as it was when the recipe version was saved; qty in
+// g / ml / pcs and unit_cost per g / ml / pc
+export interface RecipeVersionIngredient {
+  item_id: string
+  item_name: string
+  unit_type: UnitType
+  qty: number
+  unit_cost: number
+}
+
+// One ingredient of sales.cost for a single unit sold (schema-update-v21)
+export interface SaleCostLine extends RecipeVersionIngredient {
+  cost: number
+}
+
+// Returned by get_recipe_history(), newest version first. current_cost is
+// the version's ingredients at today's costs; the averages are null when
+// nothing was sold with that version.
+export interface RecipeHistoryEntry {
+  id: string
+  version_number: number
+  product_name: string
+  ingredients: RecipeVersionIngredient[]
+  recipe_cost: number
+  current_cost: number
+  effective_from: string
+  effective_to: string | null
+  created_by_name: string | null
+  units_sold: number
+  average_unit_cost: number | null
+  average_selling_price: number | null
+}
+
+// Returned by get_shift_summary() (schema-update-v13-shifts.sql)
+export interface ShiftSummary {
+  shift_id: string
+  opened_at: string
+  opened_by_name: string | null
+  opening_float: number
+  sales_total: number
+  transaction_count: number
+  payment_methods: { payment_method: string; total: number; transactions: number }[]
+  cash_sales: number
+  refunds_total: number
+  cash_refunds: number
+  cash_in: number
+  cash_out: number
+  movements: Pick<ShiftCashMovement, 'movement_type' | 'amount' | 'reason' | 'created_by_name' | 'created_at'>[]
+  expected_cash: number
+}
+
+// Snapshot stored on the shift by close_shift()
+export interface ZReport extends ShiftSummary {
+  closed_at: string
+  closed_by_name: string | null
+  counted_cash: number
+  cash_variance: number
+}
 
 export interface User {
+  id: string
   username: string
+  displayName: string | null
   role: UserRole
+  permissions: Permission[]
+}
+
+// Row returned by list_users() - never includes the password or PIN hash
+export type UserAccount = Omit<Database['public']['Tables']['users']['Row'], 'password_hash' | 'pin_hash' | 'updated_at'> & {
+  has_pin: boolean
 }
 
+// Row returned by list_switchable_users() for the Sales page quick switch
+export type SwitchableUser = Pick<UserAccount, 'id' | 'username' | 'display_name' | 'role'>
+
 export interface CartItem {
   product: Product
   qty: number
@@ -136,7 +786,49 @@ export interface CartItem {
   dineInTakeout: 'dine_in' | 'takeout' | null
 }
 
-export interface RecentSale {
-  sale: Sale
+// A just-completed checkout that can still be cancelled from the notification bar
+export interface RecentTransaction {
+  transactionId: string
+  transactionNumber: string
+  sales: Sale[]
+  total: number
   expiresAt: number
 }
+
+export interface CheckoutItem {
+  product_id: string
+  qty: number
+  modifier_ids?: string[]
+  // Combos only; slots with a single option can be left out
+  combo_choices?: { slot_id: string; product_id: string }[]
+  // Item discount (scope 'line')
+  discount_id?: string | null
+}
+
+// The order discount and the Senior Citizen / PWD ID it may need
+export interface CheckoutDiscount {
+  discount_id: string | null
+  id_number: string
+  holder_name: string
+}
+
+export interface CheckoutRequest {
+  items: CheckoutItem[]
+  // Every payment method used; only cash can be more than the total
+  payments: PaymentTender[]
+  customerType: string
+  dineInTakeout: 'dine_in' | 'takeout'
+  discount?: CheckoutDiscount
+}
+
+export interface OutOfStockIngredient {
+  item_id: string
+  item_name: string
+  unit_type: UnitType
+  required: number
+  available: number
+}
+
+export type CheckoutResult =
+  | { success: true; transactionId: string; transactionNumber: string; sales: Sale[]; payments: Payment[] }
+  | { success: false; error: 'out_of_stock'; outOfStock: OutOfStockIngredient[] }